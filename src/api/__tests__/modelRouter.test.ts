@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for the Model Router
+ *
+ * These tests verify:
+ * - A failing primary provider fails over to the next route
+ * - A rate-limited provider is tried last until its Retry-After expires
+ * - The last error is thrown when every provider is down
+ * - Streams fail over before the first delta, but not after it
+ *
+ * No network - each provider is a stub. Run with: bun src/api/__tests__/modelRouter.test.ts
+ */
+
+import type { AIService } from "../../types/ai";
+import {
+  createRoutedAIService,
+  resetModelRouterState,
+  type AIProvider,
+  type ModelRoutingConfig,
+} from "../model-router";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const routes = [{ provider: "openai" as const }, { provider: "anthropic" as const }, { provider: "grok" as const }];
+
+const config: ModelRoutingConfig = { solve: routes, verify: routes, simplify: routes, chat: routes };
+
+/** Error shaped like an SDK's HTTP 429 */
+function rateLimitError(retryAfterSeconds: number): Error {
+  return Object.assign(new Error("Too many requests"), {
+    status: 429,
+    headers: { "retry-after": String(retryAfterSeconds) },
+  });
+}
+
+/**
+ * Stub providers answering with their own name; `failures` lists the errors a
+ * provider throws on its next calls. `calls` records the order providers were tried.
+ */
+function createStubServices(failures: Partial<Record<AIProvider, Error[]>> = {}) {
+  const calls: AIProvider[] = [];
+  const stub = (provider: AIProvider): AIService => {
+    const chat = async () => {
+      calls.push(provider);
+      const error = failures[provider]?.shift();
+      if (error) throw error;
+      return { content: provider };
+    };
+    return { chat, complete: () => chat() };
+  };
+  const services = { openai: stub("openai"), anthropic: stub("anthropic"), grok: stub("grok") };
+  return { services, calls };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Failover", () => {
+  test("falls back to the next provider when the primary fails", async () => {
+    resetModelRouterState();
+    const { services, calls } = createStubServices({ openai: [new Error("500 Internal Server Error")] });
+    const response = await createRoutedAIService(config, services).chat([{ role: "user", content: "2+2" }]);
+    expect(response.content).toBe("anthropic");
+    expect(calls).toEqual(["openai", "anthropic"]);
+  });
+
+  test("skips routes without vision for image requests", async () => {
+    resetModelRouterState();
+    const visionConfig = { ...config, solve: [{ provider: "grok" as const, supportsImages: false }, ...routes] };
+    const { services, calls } = createStubServices();
+    const ai = createRoutedAIService(visionConfig, services);
+    await ai.chat([{ role: "user", content: "Solve this", images: ["data:image/jpeg;base64,AA=="] }], {
+      task: "solve",
+    });
+    expect(calls).toEqual(["openai"]);
+  });
+});
+
+describe("Rate limit cooldown", () => {
+  test("tries a rate-limited provider last until the cooldown expires", async () => {
+    resetModelRouterState();
+    const { services, calls } = createStubServices({ openai: [rateLimitError(0.05)] });
+    const ai = createRoutedAIService(config, services);
+
+    expect((await ai.chat([{ role: "user", content: "1" }])).content).toBe("anthropic");
+    expect((await ai.chat([{ role: "user", content: "2" }])).content).toBe("anthropic");
+
+    await wait(80);
+    expect((await ai.chat([{ role: "user", content: "3" }])).content).toBe("openai");
+    expect(calls).toEqual(["openai", "anthropic", "anthropic", "openai"]);
+  });
+
+  test("still tries a cooling-down provider as a last resort", async () => {
+    resetModelRouterState();
+    const { services, calls } = createStubServices({
+      openai: [rateLimitError(60)],
+      anthropic: [new Error("overloaded")],
+      grok: [new Error("overloaded")],
+    });
+    const ai = createRoutedAIService(config, services);
+    await ai.chat([{ role: "user", content: "1" }]).catch(() => {});
+
+    expect((await ai.chat([{ role: "user", content: "2" }])).content).toBe("anthropic");
+    expect(calls).toEqual(["openai", "anthropic", "grok", "anthropic"]);
+  });
+});
+
+describe("All providers down", () => {
+  test("throws the last provider's error", async () => {
+    resetModelRouterState();
+    const { services, calls } = createStubServices({
+      openai: [new Error("openai down")],
+      anthropic: [new Error("anthropic down")],
+      grok: [new Error("grok down")],
+    });
+    let message = "";
+    await createRoutedAIService(config, services)
+      .chat([{ role: "user", content: "2+2" }])
+      .catch((error: Error) => (message = error.message));
+    expect(message).toBe("grok down");
+    expect(calls).toEqual(["openai", "anthropic", "grok"]);
+  });
+
+  test("throws when a task has no routes", async () => {
+    resetModelRouterState();
+    const { services } = createStubServices();
+    let message = "";
+    await createRoutedAIService({ ...config, verify: [] }, services)
+      .chat([{ role: "user", content: "2+2" }], { task: "verify" })
+      .catch((error: Error) => (message = error.message));
+    expect(message).toBe('No model route configured for task "verify"');
+  });
+});
+
+describe("Streaming", () => {
+  test("fails over before the first delta", async () => {
+    resetModelRouterState();
+    const { services } = createStubServices();
+    services.openai.stream = async () => {
+      throw new Error("connection reset");
+    };
+    const deltas: string[] = [];
+    const response = await createRoutedAIService(config, services).stream!([{ role: "user", content: "2+2" }], (d) =>
+      deltas.push(d)
+    );
+    expect(response.content).toBe("anthropic");
+    expect(deltas).toEqual(["anthropic"]);
+  });
+
+  test("throws instead of switching providers mid-response", async () => {
+    resetModelRouterState();
+    const { services, calls } = createStubServices();
+    services.openai.stream = async (_messages, onDelta) => {
+      onDelta("The answer is");
+      throw new Error("connection reset");
+    };
+    let message = "";
+    await createRoutedAIService(config, services)
+      .stream!([{ role: "user", content: "2+2" }], () => {})
+      .catch((error: Error) => (message = error.message));
+    expect(message).toBe("connection reset");
+    expect(calls).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Model Router");
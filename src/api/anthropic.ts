@@ -9,12 +9,13 @@ claude-3-5-haiku-latest
 */
 import Anthropic from "@anthropic-ai/sdk";
 
-export const getAnthropicClient = () => {
+export const getAnthropicClient = (options?: { fetch?: typeof fetch }) => {
   const apiKey = process.env.EXPO_PUBLIC_VIBECODE_ANTHROPIC_API_KEY;
   if (!apiKey) {
     console.warn("Anthropic API key not found in environment variables");
   }
   return new Anthropic({
     apiKey: apiKey,
+    ...(options?.fetch && { fetch: options.fetch }),
   });
 };
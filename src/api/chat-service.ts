@@ -3,10 +3,113 @@ IMPORTANT NOTICE: DO NOT REMOVE
 ./src/api/chat-service.ts
 If the user wants to use AI to generate text, answer questions, or analyze images you can use the functions defined in this file to communicate with the OpenAI, Anthropic, and Grok APIs.
 */
-import { AIMessage, AIRequestOptions, AIResponse } from "../types/ai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { MessageParam, ImageBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import { AIMessage, AIRequestOptions, AIResponse, AIService } from "../types/ai";
 import { getAnthropicClient } from "./anthropic";
 import { getOpenAIClient } from "./openai";
 import { getGrokClient } from "./grok";
+import { streamingFetch } from "./streaming-fetch";
+
+/**
+ * Convert messages to the OpenAI chat format (also used by Grok)
+ * Messages with images are sent as text + image_url content parts
+ */
+const toOpenAIMessages = (messages: AIMessage[]): ChatCompletionMessageParam[] => {
+  return messages.map((msg): ChatCompletionMessageParam => {
+    if (msg.role === "user" && msg.images && msg.images.length > 0) {
+      return {
+        role: "user",
+        content: [
+          { type: "text", text: msg.content },
+          ...msg.images.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+        ],
+      };
+    }
+    return { role: msg.role, content: msg.content };
+  });
+};
+
+/**
+ * Convert an image URL to an Anthropic image block
+ * Data URLs are sent as base64, anything else as a URL source
+ */
+const toAnthropicImage = (url: string): ImageBlockParam => {
+  const dataUrlMatch = url.match(/^data:(image\/(?:jpeg|png|gif|webp));base64,(.*)$/);
+  if (dataUrlMatch) {
+    return {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: dataUrlMatch[1] as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+        data: dataUrlMatch[2],
+      },
+    };
+  }
+  return { type: "image", source: { type: "url", url } };
+};
+
+/**
+ * Convert non-system messages to the Anthropic format
+ * (system messages are passed separately via the "system" parameter)
+ */
+const toAnthropicMessages = (messages: AIMessage[]): MessageParam[] => {
+  return messages
+    .filter((msg) => msg.role !== "system")
+    .map((msg): MessageParam => {
+      const role = msg.role === "assistant" ? "assistant" : "user";
+      if (role === "user" && msg.images && msg.images.length > 0) {
+        return {
+          role,
+          content: [...msg.images.map(toAnthropicImage), { type: "text", text: msg.content }],
+        };
+      }
+      return { role, content: msg.content };
+    });
+};
+
+/**
+ * Normalize a provider finish reason ("length" / "max_tokens" mean the response was truncated)
+ */
+const toFinishReason = (reason: string | null | undefined): AIResponse["finishReason"] => {
+  if (reason === "stop" || reason === "end_turn") return "stop";
+  if (reason === "length" || reason === "max_tokens") return "length";
+  return reason ? "other" : undefined;
+};
+
+/**
+ * Stream an OpenAI-compatible chat completion (OpenAI and Grok share the wire format)
+ * Each text delta is passed to onDelta as it arrives; resolves with the full response
+ */
+const streamOpenAICompatibleResponse = async (
+  client: ReturnType<typeof getOpenAIClient>,
+  model: string,
+  messages: AIMessage[],
+  onDelta: (delta: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  const stream = await client.chat.completions.create({
+    model,
+    messages: toOpenAIMessages(messages),
+    temperature: options?.temperature ?? 0.7,
+    max_tokens: options?.maxTokens || 2048,
+    stream: true,
+    ...(options?.responseFormat === "json" && { response_format: { type: "json_object" as const } }),
+  });
+
+  let content = "";
+  let finishReason: string | null | undefined;
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+    finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+  }
+
+  return { content, finishReason: toFinishReason(finishReason) };
+};
 
 /**
  * Get a text response from Anthropic
@@ -22,12 +125,22 @@ export const getAnthropicTextResponse = async (
     const client = getAnthropicClient();
     const defaultModel = "claude-3-5-sonnet-20240620";
 
+    const system = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    // Anthropic has no JSON mode - prefill the assistant turn with "{" so the reply is a bare object
+    const jsonPrefill = options?.responseFormat === "json" ? "{" : "";
+    const anthropicMessages = toAnthropicMessages(messages);
+    if (jsonPrefill) {
+      anthropicMessages.push({ role: "assistant", content: jsonPrefill });
+    }
+
     const response = await client.messages.create({
       model: options?.model || defaultModel,
-      messages: messages.map((msg) => ({
-        role: msg.role === "assistant" ? "assistant" : "user",
-        content: msg.content,
-      })),
+      ...(system && { system }),
+      messages: anthropicMessages,
       max_tokens: options?.maxTokens || 2048,
       temperature: options?.temperature || 0.7,
     });
@@ -38,10 +151,11 @@ export const getAnthropicTextResponse = async (
         return acc + block.text;
       }
       return acc;
-    }, "");
+    }, jsonPrefill);
 
     return {
       content,
+      finishReason: toFinishReason(response.stop_reason),
       usage: {
         promptTokens: response.usage?.input_tokens || 0,
         completionTokens: response.usage?.output_tokens || 0,
@@ -54,6 +168,62 @@ export const getAnthropicTextResponse = async (
   }
 };
 
+/**
+ * Stream a text response from Anthropic
+ * @param messages - The messages to send to the AI
+ * @param onDelta - Called with each text chunk as it arrives
+ * @param options - The options for the request
+ * @returns The full response once the stream ends
+ */
+export const streamAnthropicTextResponse = async (
+  messages: AIMessage[],
+  onDelta: (delta: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const client = getAnthropicClient({ fetch: streamingFetch });
+    const defaultModel = "claude-3-5-sonnet-20240620";
+
+    const system = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    // Same "{" prefill as getAnthropicTextResponse - emitted first so the stream is a complete object
+    const jsonPrefill = options?.responseFormat === "json" ? "{" : "";
+    const anthropicMessages = toAnthropicMessages(messages);
+    if (jsonPrefill) {
+      anthropicMessages.push({ role: "assistant", content: jsonPrefill });
+      onDelta(jsonPrefill);
+    }
+
+    const stream = await client.messages.create({
+      model: options?.model || defaultModel,
+      ...(system && { system }),
+      messages: anthropicMessages,
+      max_tokens: options?.maxTokens || 2048,
+      temperature: options?.temperature || 0.7,
+      stream: true,
+    });
+
+    let content = jsonPrefill;
+    let stopReason: string | null | undefined;
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === "message_delta") {
+        stopReason = event.delta.stop_reason;
+      }
+    }
+
+    return { content, finishReason: toFinishReason(stopReason) };
+  } catch (error) {
+    console.error("Anthropic API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from Anthropic
  * @param prompt - The prompt to send to the AI
@@ -63,6 +233,15 @@ export const getAnthropicChatResponse = async (prompt: string): Promise<AIRespon
   return await getAnthropicTextResponse([{ role: "user", content: prompt }]);
 };
 
+/**
+ * Anthropic implementation of the AIService interface
+ */
+export const anthropicService: AIService = {
+  chat: getAnthropicTextResponse,
+  complete: (prompt, options) => getAnthropicTextResponse([{ role: "user", content: prompt }], options),
+  stream: streamAnthropicTextResponse,
+};
+
 /**
  * Get a text response from OpenAI
  * @param messages - The messages to send to the AI
@@ -76,13 +255,15 @@ export const getOpenAITextResponse = async (messages: AIMessage[], options?: AIR
 
     const response = await client.chat.completions.create({
       model: options?.model || defaultModel,
-      messages: messages,
+      messages: toOpenAIMessages(messages),
       temperature: options?.temperature ?? 0.7,
       max_tokens: options?.maxTokens || 2048,
+      ...(options?.responseFormat === "json" && { response_format: { type: "json_object" as const } }),
     });
 
     return {
       content: response.choices[0]?.message?.content || "",
+      finishReason: toFinishReason(response.choices[0]?.finish_reason),
       usage: {
         promptTokens: response.usage?.prompt_tokens || 0,
         completionTokens: response.usage?.completion_tokens || 0,
@@ -95,6 +276,27 @@ export const getOpenAITextResponse = async (messages: AIMessage[], options?: AIR
   }
 };
 
+/**
+ * Stream a text response from OpenAI
+ * @param messages - The messages to send to the AI
+ * @param onDelta - Called with each text chunk as it arrives
+ * @param options - The options for the request
+ * @returns The full response once the stream ends
+ */
+export const streamOpenAITextResponse = async (
+  messages: AIMessage[],
+  onDelta: (delta: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const client = getOpenAIClient({ fetch: streamingFetch });
+    return await streamOpenAICompatibleResponse(client, options?.model || "gpt-4o", messages, onDelta, options);
+  } catch (error) {
+    console.error("OpenAI API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from OpenAI
  * @param prompt - The prompt to send to the AI
@@ -104,6 +306,15 @@ export const getOpenAIChatResponse = async (prompt: string): Promise<AIResponse>
   return await getOpenAITextResponse([{ role: "user", content: prompt }]);
 };
 
+/**
+ * OpenAI implementation of the AIService interface
+ */
+export const openAIService: AIService = {
+  chat: getOpenAITextResponse,
+  complete: (prompt, options) => getOpenAITextResponse([{ role: "user", content: prompt }], options),
+  stream: streamOpenAITextResponse,
+};
+
 /**
  * Get a text response from Grok
  * @param messages - The messages to send to the AI
@@ -117,13 +328,15 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
 
     const response = await client.chat.completions.create({
       model: options?.model || defaultModel,
-      messages: messages,
+      messages: toOpenAIMessages(messages),
       temperature: options?.temperature ?? 0.7,
       max_tokens: options?.maxTokens || 2048,
+      ...(options?.responseFormat === "json" && { response_format: { type: "json_object" as const } }),
     });
 
     return {
       content: response.choices[0]?.message?.content || "",
+      finishReason: toFinishReason(response.choices[0]?.finish_reason),
       usage: {
         promptTokens: response.usage?.prompt_tokens || 0,
         completionTokens: response.usage?.completion_tokens || 0,
@@ -136,6 +349,27 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
   }
 };
 
+/**
+ * Stream a text response from Grok
+ * @param messages - The messages to send to the AI
+ * @param onDelta - Called with each text chunk as it arrives
+ * @param options - The options for the request
+ * @returns The full response once the stream ends
+ */
+export const streamGrokTextResponse = async (
+  messages: AIMessage[],
+  onDelta: (delta: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const client = getGrokClient({ fetch: streamingFetch });
+    return await streamOpenAICompatibleResponse(client, options?.model || "grok-3-beta", messages, onDelta, options);
+  } catch (error) {
+    console.error("Grok API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from Grok
  * @param prompt - The prompt to send to the AI
@@ -144,3 +378,12 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
 export const getGrokChatResponse = async (prompt: string): Promise<AIResponse> => {
   return await getGrokTextResponse([{ role: "user", content: prompt }]);
 };
+
+/**
+ * Grok implementation of the AIService interface
+ */
+export const grokService: AIService = {
+  chat: getGrokTextResponse,
+  complete: (prompt, options) => getGrokTextResponse([{ role: "user", content: prompt }], options),
+  stream: streamGrokTextResponse,
+};
@@ -10,7 +10,7 @@ grok-3-mini-latest
 */
 import OpenAI from "openai";
 
-export const getGrokClient = () => {
+export const getGrokClient = (options?: { fetch?: typeof fetch }) => {
   const apiKey = process.env.EXPO_PUBLIC_VIBECODE_GROK_API_KEY;
   if (!apiKey) {
     console.warn("Grok API key not found in environment variables");
@@ -18,5 +18,6 @@ export const getGrokClient = () => {
   return new OpenAI({
     apiKey: apiKey,
     baseURL: "https://api.x.ai/v1",
+    ...(options?.fetch && { fetch: options.fetch }),
   });
 };
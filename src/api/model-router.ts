@@ -0,0 +1,210 @@
+/**
+ * Model Router
+ *
+ * Picks a provider/model per task (solve, verify, simplify, chat) from a
+ * routing config and fails over to the next provider when one errors or
+ * rate-limits. An outage of one vendor no longer takes the whole app down.
+ *
+ * Usage:
+ *   const ai = createRoutedAIService();
+ *   await ai.chat(messages, { task: "verify", responseFormat: "json" });
+ *   await ai.stream?.(messages, (delta) => ..., { task: "solve" });
+ */
+
+import { AIMessage, AIRequestOptions, AIResponse, AIService, AITask } from "../types/ai";
+import { openAIService, anthropicService, grokService } from "./chat-service";
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export type AIProvider = "openai" | "anthropic" | "grok";
+
+export interface ModelRoute {
+  provider: AIProvider;
+  model?: string; // Provider default when omitted
+  supportsImages?: boolean; // Default: true. Routes without vision are skipped for image requests
+}
+
+/**
+ * Ordered routes per task - the first available route is tried first,
+ * later routes are failovers.
+ */
+export type ModelRoutingConfig = Record<AITask, ModelRoute[]>;
+
+export const DEFAULT_MODEL_ROUTING: ModelRoutingConfig = {
+  solve: [
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+    { provider: "grok", model: "grok-3-beta", supportsImages: false },
+  ],
+  verify: [
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+    { provider: "grok", model: "grok-3-beta", supportsImages: false },
+  ],
+  simplify: [
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "anthropic", model: "claude-3-5-haiku-latest" },
+    { provider: "grok", model: "grok-3-beta", supportsImages: false },
+  ],
+  chat: [
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "anthropic", model: "claude-3-5-haiku-latest" },
+    { provider: "grok", model: "grok-3-beta", supportsImages: false },
+  ],
+};
+
+const DEFAULT_PROVIDER_SERVICES: Record<AIProvider, AIService> = {
+  openai: openAIService,
+  anthropic: anthropicService,
+  grok: grokService,
+};
+
+// How long a rate-limited provider is deprioritized when no Retry-After is given
+const RATE_LIMIT_COOLDOWN_MS = 60_000;
+
+// ============================================================================
+// RATE LIMIT TRACKING
+// ============================================================================
+
+// Provider → timestamp (ms) until which it should be tried last
+const rateLimitedUntil = new Map<AIProvider, number>();
+
+/**
+ * Check if an error is a rate limit (HTTP 429) from any provider SDK
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  if (status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|rate limit|too many requests/i.test(message);
+}
+
+function getRetryAfterMs(error: unknown): number {
+  const headers = (error as { headers?: Record<string, string | undefined> } | null)?.headers;
+  const retryAfter = Number(headers?.["retry-after"]);
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : RATE_LIMIT_COOLDOWN_MS;
+}
+
+function isCoolingDown(provider: AIProvider, now: number): boolean {
+  return (rateLimitedUntil.get(provider) ?? 0) > now;
+}
+
+/**
+ * Clear rate limit state (used by tests and when the user retries manually)
+ */
+export function resetModelRouterState(): void {
+  rateLimitedUntil.clear();
+}
+
+// ============================================================================
+// ROUTED SERVICE
+// ============================================================================
+
+/**
+ * Order the routes for a request: drop routes that can't handle the request's
+ * images, then move rate-limited providers to the back (they are still tried
+ * as a last resort rather than skipped).
+ */
+function selectRoutes(routes: ModelRoute[], messages: AIMessage[], now: number): ModelRoute[] {
+  const hasImages = messages.some((msg) => msg.images && msg.images.length > 0);
+  const eligible = routes.filter((route) => !hasImages || route.supportsImages !== false);
+  const ready = eligible.filter((route) => !isCoolingDown(route.provider, now));
+  const coolingDown = eligible.filter((route) => isCoolingDown(route.provider, now));
+  return [...ready, ...coolingDown];
+}
+
+/**
+ * Create an AIService that routes each request by its task and fails over
+ * across providers.
+ * @param config - Ordered routes per task (defaults to DEFAULT_MODEL_ROUTING)
+ * @param services - Provider implementations (overridable for tests/scripts)
+ */
+export function createRoutedAIService(
+  config: ModelRoutingConfig = DEFAULT_MODEL_ROUTING,
+  services: Record<AIProvider, AIService> = DEFAULT_PROVIDER_SERVICES,
+): AIService {
+  const chat = async (messages: AIMessage[], options?: AIRequestOptions): Promise<AIResponse> => {
+    const task = options?.task ?? "chat";
+    const routes = selectRoutes(config[task] ?? [], messages, Date.now());
+
+    if (routes.length === 0) {
+      throw new Error(`No model route configured for task "${task}"`);
+    }
+
+    let lastError: unknown;
+    for (const route of routes) {
+      try {
+        // The route decides the model - a model name is only meaningful for its own provider
+        return await services[route.provider].chat(messages, { ...options, model: route.model });
+      } catch (error) {
+        lastError = error;
+        if (isRateLimitError(error)) {
+          rateLimitedUntil.set(route.provider, Date.now() + getRetryAfterMs(error));
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.log(`[ModelRouter] ${route.provider} failed for "${task}", failing over:`, errorMessage);
+      }
+    }
+
+    throw lastError;
+  };
+
+  /**
+   * Streaming variant of chat. Fails over like chat, but only until the first
+   * delta arrives - once text has been shown, switching providers mid-response
+   * would splice two different answers together, so later errors are thrown.
+   * Providers without stream support answer via chat as a single delta.
+   */
+  const stream = async (
+    messages: AIMessage[],
+    onDelta: (delta: string) => void,
+    options?: AIRequestOptions,
+  ): Promise<AIResponse> => {
+    const task = options?.task ?? "chat";
+    const routes = selectRoutes(config[task] ?? [], messages, Date.now());
+
+    if (routes.length === 0) {
+      throw new Error(`No model route configured for task "${task}"`);
+    }
+
+    let lastError: unknown;
+    for (const route of routes) {
+      const service = services[route.provider];
+      const routeOptions = { ...options, model: route.model };
+      let receivedDelta = false;
+      try {
+        if (!service.stream) {
+          const response = await service.chat(messages, routeOptions);
+          onDelta(response.content);
+          return response;
+        }
+        return await service.stream(
+          messages,
+          (delta) => {
+            receivedDelta = true;
+            onDelta(delta);
+          },
+          routeOptions,
+        );
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          rateLimitedUntil.set(route.provider, Date.now() + getRetryAfterMs(error));
+        }
+        if (receivedDelta) throw error;
+        lastError = error;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.log(`[ModelRouter] ${route.provider} failed for "${task}", failing over:`, errorMessage);
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    chat,
+    complete: (prompt, options) => chat([{ role: "user", content: prompt }], options),
+    stream,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * The app's solution engine instance: routed AI service, on-device solution
+ * cache and diagram generation. Shared by every screen that solves problems.
+ */
+import { createSolutionEngine } from "../engine/solutionEngine";
+import { createRoutedAIService } from "./model-router";
+import { solutionCache } from "../state/solutionCache";
+
+// Diagram images are written to the app's file system, so generation is injected into the engine
+const generateDiagramImage = async (prompt: string): Promise<string> => {
+  const { generateImage } = await import("./image-generation");
+  return generateImage(prompt, {
+    size: "1024x1024",
+    quality: "high",
+    format: "png",
+  });
+};
+
+export const solutionEngine = createSolutionEngine({
+  ai: createRoutedAIService(),
+  generateImage: generateDiagramImage,
+  cache: solutionCache,
+});
@@ -0,0 +1,8 @@
+/**
+ * Native fetch for streamed AI responses.
+ * React Native's global fetch buffers the whole body, so SSE chunks would only
+ * arrive once the response is finished. expo/fetch streams the body.
+ */
+import { fetch as expoFetch } from "expo/fetch";
+
+export const streamingFetch = expoFetch as unknown as typeof fetch;
@@ -0,0 +1,6 @@
+/**
+ * Fetch implementation used for streamed AI responses.
+ * On web (and in bun/Node scripts) the global fetch already exposes a readable body.
+ * React Native's built-in fetch does not - see streaming-fetch.native.ts.
+ */
+export const streamingFetch: typeof fetch = (...args) => fetch(...args);
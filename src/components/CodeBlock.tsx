@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import { MathText } from "./MathText";
+import {
+  highlightCode,
+  splitCodeBlocks,
+  LANGUAGE_LABELS,
+  type CodeLanguage,
+  type CodeTokenKind,
+} from "../utils/syntaxHighlight";
+
+interface CodeBlockProps {
+  code: string;
+  language: CodeLanguage;
+}
+
+const COPIED_DURATION_MS = 1500;
+
+const MONOSPACE = Platform.select({ ios: "Menlo", default: "monospace" });
+const CODE_FONT_SIZE = 13;
+const CODE_LINE_HEIGHT = 20;
+
+const BACKGROUND = "#0f172a";
+const HEADER_BACKGROUND = "#1e293b";
+const GUTTER_COLOR = "#475569";
+
+const TOKEN_COLORS: Record<CodeTokenKind, string> = {
+  keyword: "#c084fc",
+  type: "#5eead4",
+  function: "#93c5fd",
+  string: "#86efac",
+  number: "#fdba74",
+  comment: "#64748b",
+  operator: "#f9a8d4",
+  plain: "#e2e8f0",
+};
+
+/**
+ * CodeBlock - Monospace, syntax-highlighted code with line numbers. Long
+ * lines scroll sideways instead of wrapping (indentation matters in
+ * Python), and the header has a copy button for pasting into an editor.
+ */
+export function CodeBlock({ code, language }: CodeBlockProps) {
+  const [isCopied, setIsCopied] = useState(false);
+  const lines = useMemo(() => highlightCode(code, language), [code, language]);
+  const gutterWidth = String(lines.length).length * 8 + 12;
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), COPIED_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(code);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setIsCopied(true);
+  };
+
+  const tint = isCopied ? "#34d399" : "#94a3b8";
+
+  return (
+    <View className="rounded-2xl mb-3" style={{ width: "100%", backgroundColor: BACKGROUND, overflow: "hidden" }}>
+      <View
+        className="flex-row items-center justify-between"
+        style={{ backgroundColor: HEADER_BACKGROUND, paddingHorizontal: 12, paddingVertical: 6 }}
+      >
+        <Text style={{ fontSize: 12, fontWeight: "700", color: "#cbd5e1" }}>{LANGUAGE_LABELS[language]}</Text>
+        <Pressable onPress={handleCopy} accessibilityLabel="Copy code" hitSlop={8}>
+          {({ pressed }) => (
+            <View className="flex-row items-center" style={{ gap: 4, opacity: pressed ? 0.6 : 1 }}>
+              <Ionicons name={isCopied ? "checkmark" : "copy-outline"} size={14} color={tint} />
+              <Text style={{ fontSize: 12, fontWeight: "600", color: tint }}>{isCopied ? "Copied" : "Copy"}</Text>
+            </View>
+          )}
+        </Pressable>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator contentContainerStyle={{ paddingVertical: 10 }}>
+        <View>
+          {lines.map((tokens, index) => (
+            <View key={index} style={{ flexDirection: "row", paddingRight: 16 }}>
+              <Text
+                style={{
+                  width: gutterWidth,
+                  paddingRight: 8,
+                  textAlign: "right",
+                  fontFamily: MONOSPACE,
+                  fontSize: CODE_FONT_SIZE,
+                  lineHeight: CODE_LINE_HEIGHT,
+                  color: GUTTER_COLOR,
+                }}
+              >
+                {index + 1}
+              </Text>
+              <Text style={{ fontFamily: MONOSPACE, fontSize: CODE_FONT_SIZE, lineHeight: CODE_LINE_HEIGHT }}>
+                {tokens.map((token, tokenIndex) => (
+                  <Text
+                    key={tokenIndex}
+                    style={{
+                      color: TOKEN_COLORS[token.kind],
+                      fontStyle: token.kind === "comment" ? "italic" : "normal",
+                    }}
+                  >
+                    {token.text}
+                  </Text>
+                ))}
+                {/* Keep empty lines one line tall */}
+                {tokens.length === 0 ? " " : null}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * CodeContent - A step of kind "code": fenced blocks render as CodeBlock,
+ * any explanation around them as prose.
+ */
+export function CodeContent({ text }: { text: string }) {
+  const segments = useMemo(() => splitCodeBlocks(text), [text]);
+
+  return (
+    <View style={{ width: "100%" }}>
+      {segments.map((segment, index) =>
+        segment.type === "code" ? (
+          <CodeBlock key={index} code={segment.code} language={segment.language} />
+        ) : (
+          <View key={index} className="mb-3">
+            <MathText size="medium" mode="prose">
+              {segment.text}
+            </MathText>
+          </View>
+        )
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import { SolutionStep } from "../types/homework";
+import { appNotationToLatex } from "../engine/latex";
+import { colors } from "../utils/designSystem";
+
+interface CopyLatexButtonProps {
+  step: SolutionStep;
+}
+
+const COPIED_DURATION_MS = 1500;
+
+/**
+ * Steps saved before the latex field existed are converted on the fly.
+ * Prose steps have no LaTeX form.
+ */
+function getStepLatex(step: SolutionStep): string | undefined {
+  if (step.latex) return step.latex;
+  if (step.equationKind && step.equationKind !== "math") return undefined;
+  const equation = step.rawEquation || step.equation;
+  return equation ? appNotationToLatex(equation) : undefined;
+}
+
+/**
+ * CopyLatexButton - "Copy as LaTeX" for one step's equation.
+ * Renders nothing for steps without an equation.
+ */
+export function CopyLatexButton({ step }: CopyLatexButtonProps) {
+  const [isCopied, setIsCopied] = useState(false);
+  const latex = getStepLatex(step);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), COPIED_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
+  if (!latex) return null;
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(latex);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setIsCopied(true);
+  };
+
+  const tint = isCopied ? "#047857" : colors.textTertiary;
+
+  return (
+    <Pressable onPress={handleCopy} accessibilityLabel="Copy as LaTeX" hitSlop={8}>
+      {({ pressed }) => (
+        <View className="flex-row items-center" style={{ gap: 4, opacity: pressed ? 0.6 : 1 }}>
+          <Ionicons name={isCopied ? "checkmark" : "copy-outline"} size={14} color={tint} />
+          <Text style={{ fontSize: 12, fontWeight: "600", color: tint }}>{isCopied ? "Copied" : "LaTeX"}</Text>
+        </View>
+      )}
+    </Pressable>
+  );
+}
@@ -0,0 +1,207 @@
+import React from "react";
+import { View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, { useSharedValue, useAnimatedStyle, runOnJS, type SharedValue } from "react-native-reanimated";
+import { ProblemArea } from "../types/homework";
+import { colors } from "../utils/designSystem";
+
+interface CropOverlayProps {
+  /** Size the photo is displayed at (the overlay covers exactly this area) */
+  displayWidth: number;
+  displayHeight: number;
+  /** Pixel size of the photo file - the reported area is in these units */
+  imageWidth: number;
+  imageHeight: number;
+  /** Called when a drag ends; undefined means the whole photo is selected */
+  onChange: (area: ProblemArea | undefined) => void;
+  /** Called when a drag starts/ends (e.g. to pause a parent ScrollView) */
+  onDraggingChange?: (isDragging: boolean) => void;
+}
+
+type Corner = "topLeft" | "topRight" | "bottomLeft" | "bottomRight";
+
+const CORNERS: Corner[] = ["topLeft", "topRight", "bottomLeft", "bottomRight"];
+
+// Smallest selectable box, in display points
+const MIN_BOX_SIZE = 48;
+// Touch target around each corner handle
+const HANDLE_SIZE = 36;
+// A box this close to the photo edges counts as "whole photo" (fraction of each side)
+const FULL_IMAGE_TOLERANCE = 0.02;
+const DIM_STYLE = { position: "absolute", backgroundColor: "rgba(15, 23, 42, 0.45)" } as const;
+
+/**
+ * CropOverlay - Draggable box for selecting the problem region of a photo.
+ * Drag inside the box to move it, drag a corner to resize it. Starts out
+ * covering the whole photo.
+ */
+export function CropOverlay({
+  displayWidth,
+  displayHeight,
+  imageWidth,
+  imageHeight,
+  onChange,
+  onDraggingChange,
+}: CropOverlayProps) {
+  const x = useSharedValue(0);
+  const y = useSharedValue(0);
+  const width = useSharedValue(displayWidth);
+  const height = useSharedValue(displayHeight);
+  const start = useSharedValue({ x: 0, y: 0, width: 0, height: 0 });
+
+  // Convert the box from display points to image pixels and report it
+  const reportArea = (box: { x: number; y: number; width: number; height: number }) => {
+    const coversWholeImage =
+      box.x <= displayWidth * FULL_IMAGE_TOLERANCE &&
+      box.y <= displayHeight * FULL_IMAGE_TOLERANCE &&
+      box.width >= displayWidth * (1 - 2 * FULL_IMAGE_TOLERANCE) &&
+      box.height >= displayHeight * (1 - 2 * FULL_IMAGE_TOLERANCE);
+
+    if (coversWholeImage) {
+      onChange(undefined);
+      return;
+    }
+
+    const scaleX = imageWidth / displayWidth;
+    const scaleY = imageHeight / displayHeight;
+    onChange({
+      x: box.x * scaleX,
+      y: box.y * scaleY,
+      width: box.width * scaleX,
+      height: box.height * scaleY,
+    });
+  };
+
+  const setDragging = (isDragging: boolean) => {
+    onDraggingChange?.(isDragging);
+  };
+
+  const saveStart = () => {
+    "worklet";
+    start.value = { x: x.value, y: y.value, width: width.value, height: height.value };
+    runOnJS(setDragging)(true);
+  };
+
+  const finish = () => {
+    "worklet";
+    runOnJS(setDragging)(false);
+    runOnJS(reportArea)({ x: x.value, y: y.value, width: width.value, height: height.value });
+  };
+
+  const move = Gesture.Pan()
+    .onStart(saveStart)
+    .onUpdate((e) => {
+      x.value = Math.min(Math.max(start.value.x + e.translationX, 0), displayWidth - width.value);
+      y.value = Math.min(Math.max(start.value.y + e.translationY, 0), displayHeight - height.value);
+    })
+    .onEnd(finish);
+
+  const resize = (corner: Corner) =>
+    Gesture.Pan()
+      .onStart(saveStart)
+      .onUpdate((e) => {
+        const s = start.value;
+        const right = s.x + s.width;
+        const bottom = s.y + s.height;
+
+        if (corner === "topLeft" || corner === "bottomLeft") {
+          const newX = Math.min(Math.max(s.x + e.translationX, 0), right - MIN_BOX_SIZE);
+          x.value = newX;
+          width.value = right - newX;
+        } else {
+          width.value = Math.min(Math.max(s.width + e.translationX, MIN_BOX_SIZE), displayWidth - s.x);
+        }
+
+        if (corner === "topLeft" || corner === "topRight") {
+          const newY = Math.min(Math.max(s.y + e.translationY, 0), bottom - MIN_BOX_SIZE);
+          y.value = newY;
+          height.value = bottom - newY;
+        } else {
+          height.value = Math.min(Math.max(s.height + e.translationY, MIN_BOX_SIZE), displayHeight - s.y);
+        }
+      })
+      .onEnd(finish);
+
+  const gestures = {
+    move,
+    topLeft: resize("topLeft"),
+    topRight: resize("topRight"),
+    bottomLeft: resize("bottomLeft"),
+    bottomRight: resize("bottomRight"),
+  };
+
+  const boxStyle = useAnimatedStyle(() => ({
+    left: x.value,
+    top: y.value,
+    width: width.value,
+    height: height.value,
+  }));
+
+  // Dim everything outside the box
+  const dimTopStyle = useAnimatedStyle(() => ({ left: 0, top: 0, right: 0, height: y.value }));
+  const dimBottomStyle = useAnimatedStyle(() => ({ left: 0, right: 0, bottom: 0, top: y.value + height.value }));
+  const dimLeftStyle = useAnimatedStyle(() => ({
+    left: 0,
+    top: y.value,
+    width: x.value,
+    height: height.value,
+  }));
+  const dimRightStyle = useAnimatedStyle(() => ({
+    top: y.value,
+    right: 0,
+    left: x.value + width.value,
+    height: height.value,
+  }));
+
+  return (
+    <View className="absolute left-0 top-0" style={{ width: displayWidth, height: displayHeight }}>
+      <Animated.View pointerEvents="none" style={[DIM_STYLE, dimTopStyle]} />
+      <Animated.View pointerEvents="none" style={[DIM_STYLE, dimBottomStyle]} />
+      <Animated.View pointerEvents="none" style={[DIM_STYLE, dimLeftStyle]} />
+      <Animated.View pointerEvents="none" style={[DIM_STYLE, dimRightStyle]} />
+
+      <GestureDetector gesture={gestures.move}>
+        <Animated.View style={[{ position: "absolute", borderWidth: 2, borderColor: colors.primary }, boxStyle]} />
+      </GestureDetector>
+
+      {CORNERS.map((corner) => (
+        <CornerHandle key={corner} corner={corner} gesture={gestures[corner]} box={{ x, y, width, height }} />
+      ))}
+    </View>
+  );
+}
+
+/**
+ * CornerHandle - Touch target pinned to one corner of the crop box
+ */
+function CornerHandle({
+  corner,
+  gesture,
+  box,
+}: {
+  corner: Corner;
+  gesture: ReturnType<typeof Gesture.Pan>;
+  box: { x: SharedValue<number>; y: SharedValue<number>; width: SharedValue<number>; height: SharedValue<number> };
+}) {
+  const isLeft = corner === "topLeft" || corner === "bottomLeft";
+  const isTop = corner === "topLeft" || corner === "topRight";
+
+  const handleStyle = useAnimatedStyle(() => ({
+    left: (isLeft ? box.x.value : box.x.value + box.width.value) - HANDLE_SIZE / 2,
+    top: (isTop ? box.y.value : box.y.value + box.height.value) - HANDLE_SIZE / 2,
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View
+        className="absolute items-center justify-center"
+        style={[{ width: HANDLE_SIZE, height: HANDLE_SIZE }, handleStyle]}
+      >
+        <View
+          className="bg-white"
+          style={{ width: 16, height: 16, borderRadius: 8, borderWidth: 2, borderColor: colors.primary }}
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
@@ -307,6 +307,14 @@ function prepareForExtraction(input: string): string {
 function extractAllEquations(equationText: string | undefined): string[] {
   if (!equationText) return [];
 
+  // Graph markers hold curve equations ("y = 2x + 1") and tables hold data - neither is a step of the solution
+  equationText = equationText
+    .replace(/\[(?:GRAPH|PUNNETT):[^\]\n]*\]/g, " ")
+    .replace(/\[TABLE:(?:[^[\]\n]|\[[^[\]\n]*\])*\]/g, " ")
+    .replace(/^\s*\|.*\|\s*$/gm, " ") // Markdown table rows
+    .trim();
+  if (!equationText) return [];
+
   // CRITICAL: Skip content that contains image markers - these are not equations
   const hasImageMarker = equationText.includes("[IMAGE NEEDED:") ||
                          equationText.includes("[IMAGE:") ||
@@ -589,7 +597,7 @@ export function FormalStepsBox({ steps }: FormalStepsBoxProps) {
     const stepBothSidesOp = step.bothSidesOp; // Get both-sides operation for this step
 
     // CRITICAL: Prefer already-formatted content (equation) over raw unformatted text
-    // rawEquation contains unformatted text with potential MASK tokens, LIST_BREAK markers, etc.
+    // rawEquation is the model's text before line breaks and labels were tidied
     // Using equation first ensures we operate on post-formatSolution() output
     const rawText = step.equation || step.content || step.rawEquation;
 
@@ -0,0 +1,338 @@
+import React, { useMemo, useRef, useState } from "react";
+import { View, Text, Pressable, type LayoutChangeEvent } from "react-native";
+import { Canvas, Path, Circle, Skia, DashPathEffect, type SkPath } from "@shopify/react-native-skia";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  parseGraphSpec,
+  findKeyPoints,
+  niceTicks,
+  sampleCurve,
+  toPixel,
+  zoomRange,
+  shiftRange,
+  formatCoordinate,
+  type GraphRange,
+  type GraphPointKind,
+  type GraphPixel,
+} from "../engine/graph";
+import { colors } from "../utils/designSystem";
+
+interface FunctionGraphProps {
+  /** Text inside [GRAPH: ...] */
+  spec: string;
+}
+
+interface Viewport {
+  x: GraphRange;
+  y: GraphRange;
+}
+
+const CURVE_COLORS = [colors.primary, "#ef4444", "#10b981", "#f97316", "#a855f7"];
+
+const curveColor = (index: number) => CURVE_COLORS[index % CURVE_COLORS.length];
+
+const POINT_KIND_LABELS: Record<GraphPointKind, string> = {
+  "y-intercept": "y-intercept",
+  "x-intercept": "x-intercept",
+  intersection: "Intersection",
+  given: "Point",
+};
+
+// Plot is 3:4 of its width, but never taller than this
+const MAX_PLOT_HEIGHT = 320;
+const LABEL_FONT_SIZE = 10;
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴",
+  "5": "⁵", "6": "⁶", "7": "⁷", "8": "⁸", "9": "⁹", "-": "⁻",
+};
+
+/** "y = x^2^ - 4" → "y = x² - 4" for the legend */
+function formatCurveLabel(label: string): string {
+  return label.replace(/\^(-?\d+)\^?/g, (_, digits: string) =>
+    digits
+      .split("")
+      .map((char) => SUPERSCRIPTS[char] ?? char)
+      .join("")
+  );
+}
+
+function polylinePath(segments: GraphPixel[][]): SkPath {
+  const path = Skia.Path.Make();
+  for (const segment of segments) {
+    segment.forEach((pixel, index) => {
+      if (index === 0) path.moveTo(pixel.x, pixel.y);
+      else path.lineTo(pixel.x, pixel.y);
+    });
+  }
+  return path;
+}
+
+function linesPath(lines: [GraphPixel, GraphPixel][]): SkPath {
+  const path = Skia.Path.Make();
+  for (const [from, to] of lines) {
+    path.moveTo(from.x, from.y);
+    path.lineTo(to.x, to.y);
+  }
+  return path;
+}
+
+/**
+ * FunctionGraph - Exact plot for a [GRAPH: ...] marker, drawn with Skia.
+ * Intercepts and intersections are computed locally (engine/graph) and
+ * labeled on the plot. Pinch to zoom, drag with two fingers to pan,
+ * double-tap to reset. Falls back to the marker text if the spec can't be read.
+ */
+export function FunctionGraph({ spec }: FunctionGraphProps) {
+  const graph = useMemo(() => parseGraphSpec(spec), [spec]);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const gestureStart = useRef<Viewport | null>(null);
+
+  const initialViewport = useMemo<Viewport | null>(
+    () => (graph ? { x: graph.xRange, y: graph.yRange } : null),
+    [graph]
+  );
+  const view = viewport ?? initialViewport;
+  const height = Math.min(width * 0.75, MAX_PLOT_HEIGHT);
+  const size = { width, height };
+
+  const keyPoints = useMemo(() => (graph && view ? findKeyPoints(graph, view.x) : []), [graph, view]);
+
+  if (!graph || !view) {
+    return (
+      <View className="rounded-xl" style={{ padding: 12, backgroundColor: colors.surfaceAlt, marginVertical: 8 }}>
+        <Text style={{ fontSize: 14, color: colors.textSecondary, fontStyle: "italic" }}>Graph: {spec}</Text>
+      </View>
+    );
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  // Screen position → graph value at gesture start
+  const valueAt = (start: Viewport, pixel: { x: number; y: number }) => ({
+    x: start.x.min + (pixel.x / width) * (start.x.max - start.x.min),
+    y: start.y.max - (pixel.y / height) * (start.y.max - start.y.min),
+  });
+
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStart.current = view;
+    })
+    .onUpdate((event) => {
+      const start = gestureStart.current;
+      if (!start || width === 0) return;
+      const anchor = valueAt(start, { x: event.focalX, y: event.focalY });
+      setViewport({
+        x: zoomRange(start.x, event.scale, anchor.x),
+        y: zoomRange(start.y, event.scale, anchor.y),
+      });
+    });
+
+  // Two fingers so a one-finger drag still scrolls the solution
+  const pan = Gesture.Pan()
+    .minPointers(2)
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStart.current = view;
+    })
+    .onUpdate((event) => {
+      const start = gestureStart.current;
+      if (!start || width === 0) return;
+      setViewport({
+        x: shiftRange(start.x, (-event.translationX / width) * (start.x.max - start.x.min)),
+        y: shiftRange(start.y, (event.translationY / height) * (start.y.max - start.y.min)),
+      });
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .runOnJS(true)
+    .onEnd(() => setViewport(null));
+
+  const gesture = Gesture.Simultaneous(pinch, pan, doubleTap);
+
+  // ==========================================================================
+  // GEOMETRY
+  // ==========================================================================
+
+  const pixel = (x: number, y: number) => toPixel({ x, y }, view.x, view.y, size);
+  const xTicks = niceTicks(view.x);
+  const yTicks = niceTicks(view.y, 8);
+
+  // Axes sit at 0, or along the edge when 0 is off screen
+  const axisX = Math.min(Math.max(pixel(0, 0).x, 0), width);
+  const axisY = Math.min(Math.max(pixel(0, 0).y, 0), height);
+
+  const gridPath = linesPath([
+    ...xTicks.map((x): [GraphPixel, GraphPixel] => [pixel(x, view.y.min), pixel(x, view.y.max)]),
+    ...yTicks.map((y): [GraphPixel, GraphPixel] => [pixel(view.x.min, y), pixel(view.x.max, y)]),
+  ]);
+  const axesPath = linesPath([
+    [{ x: 0, y: axisY }, { x: width, y: axisY }],
+    [{ x: axisX, y: 0 }, { x: axisX, y: height }],
+  ]);
+  const verticalPath = linesPath(
+    graph.verticalLines.map((x): [GraphPixel, GraphPixel] => [pixel(x, view.y.min), pixel(x, view.y.max)])
+  );
+
+  const visiblePoints = keyPoints
+    .map((point) => ({ point, pixel: pixel(point.x, point.y) }))
+    .filter(({ pixel: p }) => p.x >= 0 && p.x <= width && p.y >= 0 && p.y <= height);
+
+  const isZoomed = viewport !== null;
+
+  return (
+    <View style={{ width: "100%", marginVertical: 12 }}>
+      <GestureDetector gesture={gesture}>
+        <View
+          onLayout={handleLayout}
+          className="rounded-xl overflow-hidden bg-white"
+          style={{
+            width: "100%",
+            height: height || MAX_PLOT_HEIGHT * 0.75,
+            borderWidth: 1,
+            borderColor: colors.border,
+          }}
+        >
+          {width > 0 && (
+            <>
+              <Canvas style={{ width, height }}>
+                <Path path={gridPath} style="stroke" strokeWidth={1} color="#eef2f7" />
+                <Path path={axesPath} style="stroke" strokeWidth={1.5} color={colors.textSecondary} />
+                {graph.verticalLines.length > 0 && (
+                  <Path
+                    path={verticalPath}
+                    style="stroke"
+                    strokeWidth={2}
+                    color={curveColor(graph.curves.length)}
+                  >
+                    <DashPathEffect intervals={[6, 4]} />
+                  </Path>
+                )}
+                {graph.curves.map((curve, index) => (
+                  <Path
+                    key={curve.label}
+                    path={polylinePath(sampleCurve(curve, view.x, view.y, size))}
+                    style="stroke"
+                    strokeWidth={2.5}
+                    strokeJoin="round"
+                    strokeCap="round"
+                    color={curveColor(index)}
+                  />
+                ))}
+                {visiblePoints.map(({ point, pixel: p }) => (
+                  <Circle
+                    key={`${point.kind}-${point.label}`}
+                    cx={p.x}
+                    cy={p.y}
+                    r={4.5}
+                    color={point.kind === "given" ? "#f97316" : colors.textPrimary}
+                  />
+                ))}
+              </Canvas>
+
+              {/* Tick labels - RN Text over the canvas so they use the system font */}
+              {xTicks.map((x) => {
+                const p = pixel(x, 0);
+                if (x === 0 || p.x < 8 || p.x > width - 8) return null;
+                return (
+                  <Text
+                    key={`x-${x}`}
+                    style={{
+                      position: "absolute",
+                      left: p.x - 15,
+                      width: 30,
+                      top: Math.min(axisY + 2, height - LABEL_FONT_SIZE - 4),
+                      textAlign: "center",
+                      fontSize: LABEL_FONT_SIZE,
+                      color: colors.textTertiary,
+                    }}
+                  >
+                    {formatCoordinate(x)}
+                  </Text>
+                );
+              })}
+              {yTicks.map((y) => {
+                const p = pixel(0, y);
+                if (y === 0 || p.y < 6 || p.y > height - 6) return null;
+                return (
+                  <Text
+                    key={`y-${y}`}
+                    style={{
+                      position: "absolute",
+                      left: Math.min(axisX + 3, width - 30),
+                      top: p.y - LABEL_FONT_SIZE / 2 - 1,
+                      fontSize: LABEL_FONT_SIZE,
+                      color: colors.textTertiary,
+                    }}
+                  >
+                    {formatCoordinate(y)}
+                  </Text>
+                );
+              })}
+
+              {/* Point labels */}
+              {visiblePoints.map(({ point, pixel: p }) => (
+                <Text
+                  key={`label-${point.kind}-${point.label}`}
+                  style={{
+                    position: "absolute",
+                    left: p.x > width - 90 ? p.x - 90 : p.x + 6,
+                    width: 84,
+                    textAlign: p.x > width - 90 ? "right" : "left",
+                    top: p.y < 18 ? p.y + 4 : p.y - 18,
+                    fontSize: 11,
+                    fontWeight: "700",
+                    color: colors.textPrimary,
+                  }}
+                >
+                  {point.label}
+                </Text>
+              ))}
+
+              {isZoomed && (
+                <Pressable
+                  onPress={() => setViewport(null)}
+                  accessibilityLabel="Reset graph zoom"
+                  hitSlop={8}
+                  style={{ position: "absolute", top: 8, right: 8 }}
+                >
+                  <View
+                    className="flex-row items-center bg-white rounded-full"
+                    style={{ paddingHorizontal: 8, paddingVertical: 4, gap: 4 }}
+                  >
+                    <Ionicons name="scan-outline" size={12} color={colors.textSecondary} />
+                    <Text style={{ fontSize: 11, fontWeight: "600", color: colors.textSecondary }}>Reset</Text>
+                  </View>
+                </Pressable>
+              )}
+            </>
+          )}
+        </View>
+      </GestureDetector>
+
+      {/* Legend: curves, then the computed points */}
+      <View style={{ marginTop: 8, gap: 4 }}>
+        {graph.curves.map((curve, index) => (
+          <View key={curve.label} className="flex-row items-center" style={{ gap: 6 }}>
+            <View style={{ width: 14, height: 3, borderRadius: 2, backgroundColor: curveColor(index) }} />
+            <Text style={{ fontSize: 13, fontWeight: "600", color: colors.textPrimary }}>
+              {formatCurveLabel(curve.label)}
+            </Text>
+          </View>
+        ))}
+        {keyPoints.map((point) => (
+          <Text key={`legend-${point.kind}-${point.label}`} style={{ fontSize: 12, color: colors.textSecondary }}>
+            {point.kind === "given" ? point.label : `${POINT_KIND_LABELS[point.kind]} ${point.label}`}
+          </Text>
+        ))}
+        <Text style={{ fontSize: 11, color: colors.textTertiary }}>
+          Pinch to zoom · two-finger drag to pan · double-tap to reset
+        </Text>
+      </View>
+    </View>
+  );
+}
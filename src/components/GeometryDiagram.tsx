@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from "react";
+import { View, type LayoutChangeEvent } from "react-native";
+import { Canvas, Path, Circle, Skia, DashPathEffect, type SkPath } from "@shopify/react-native-skia";
+import type { GeometryDiagram as GeometryDiagramSpec } from "../types/homework";
+import { layoutDiagram, diagramHeight, type DiagramLayout, type Vec } from "../engine/diagram";
+import { MathText } from "./MathText";
+import { colors } from "../utils/designSystem";
+
+interface GeometryDiagramProps {
+  diagram: GeometryDiagramSpec;
+}
+
+const LINE_COLOR = colors.textPrimary;
+const MARK_COLOR = colors.primary;
+const LABEL_BOX_WIDTH = 120;
+const LABEL_BOX_HEIGHT = 22;
+
+function segmentsPath(layout: DiagramLayout, dashed: boolean): SkPath {
+  const path = Skia.Path.Make();
+  for (const segment of layout.segments) {
+    if (segment.dashed !== dashed) continue;
+    path.moveTo(segment.from.x, segment.from.y);
+    path.lineTo(segment.to.x, segment.to.y);
+  }
+  return path;
+}
+
+function angleMarksPath(layout: DiagramLayout): SkPath {
+  const path = Skia.Path.Make();
+  for (const angle of layout.angles) {
+    if (angle.right) {
+      const [first, ...rest] = angle.corner;
+      path.moveTo(first.x, first.y);
+      rest.forEach((corner) => path.lineTo(corner.x, corner.y));
+    } else {
+      const { vertex, radius } = angle;
+      const oval = { x: vertex.x - radius, y: vertex.y - radius, width: radius * 2, height: radius * 2 };
+      path.addArc(oval, angle.startAngle, angle.sweepAngle);
+    }
+  }
+  return path;
+}
+
+/** A label centered on a layout position (shared with PhysicsDiagram) */
+export function DiagramLabel({ text, position, color }: { text: string; position: Vec; color?: string }) {
+  return (
+    <View
+      pointerEvents="none"
+      style={{
+        position: "absolute",
+        left: position.x - LABEL_BOX_WIDTH / 2,
+        top: position.y - LABEL_BOX_HEIGHT / 2,
+        width: LABEL_BOX_WIDTH,
+        height: LABEL_BOX_HEIGHT,
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <MathText size="small" mode="prose">
+        {color ? `[${color}:${text}]` : text}
+      </MathText>
+    </View>
+  );
+}
+
+/**
+ * GeometryDiagram - Draws a step's "diagram" JSON (points, segments, angle
+ * marks, circles, labels) with Skia. Layout is computed by engine/diagram,
+ * so labels are exactly what the solution says.
+ */
+export function GeometryDiagram({ diagram }: GeometryDiagramProps) {
+  const [width, setWidth] = useState(0);
+  const height = width > 0 ? diagramHeight(diagram, width) : 0;
+
+  const layout = useMemo(
+    () => (width > 0 ? layoutDiagram(diagram, { width, height }) : null),
+    [diagram, width, height]
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View
+      onLayout={handleLayout}
+      className="rounded-2xl bg-white mb-3"
+      style={{ width: "100%", height: height || 200, borderWidth: 1, borderColor: colors.border }}
+    >
+      {layout && (
+        <>
+          <Canvas style={{ width, height }}>
+            {layout.circles.map((circle, index) => (
+              <Circle
+                key={`circle-${index}`}
+                cx={circle.center.x}
+                cy={circle.center.y}
+                r={circle.radius}
+                style="stroke"
+                strokeWidth={2}
+                color={LINE_COLOR}
+              />
+            ))}
+            <Path
+              path={segmentsPath(layout, false)}
+              style="stroke"
+              strokeWidth={2}
+              strokeCap="round"
+              color={LINE_COLOR}
+            />
+            <Path path={segmentsPath(layout, true)} style="stroke" strokeWidth={1.5} color={colors.textSecondary}>
+              <DashPathEffect intervals={[6, 4]} />
+            </Path>
+            <Path path={angleMarksPath(layout)} style="stroke" strokeWidth={1.5} color={MARK_COLOR} />
+            {layout.points.map((point) => (
+              <Circle
+                key={`point-${point.id}`}
+                cx={point.position.x}
+                cy={point.position.y}
+                r={3.5}
+                color={LINE_COLOR}
+              />
+            ))}
+          </Canvas>
+
+          {layout.points.map((point) =>
+            point.label ? (
+              <DiagramLabel key={`point-${point.id}`} text={point.label} position={point.labelPosition} />
+            ) : null
+          )}
+          {layout.segments.map((segment, index) =>
+            segment.label ? (
+              <DiagramLabel
+                key={`segment-${index}`}
+                text={segment.label}
+                position={segment.labelPosition}
+                color="blue"
+              />
+            ) : null
+          )}
+          {layout.angles.map((angle, index) =>
+            angle.label ? (
+              <DiagramLabel key={`angle-${index}`} text={angle.label} position={angle.labelPosition} color="purple" />
+            ) : null
+          )}
+          {layout.circles.map((circle, index) =>
+            circle.label ? (
+              <DiagramLabel
+                key={`circle-${index}`}
+                text={circle.label}
+                position={circle.labelPosition}
+                color="blue"
+              />
+            ) : null
+          )}
+          {layout.labels.map((label, index) => (
+            <DiagramLabel key={`label-${index}`} text={label.text} position={label.position} />
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
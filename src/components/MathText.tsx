@@ -1,8 +1,17 @@
-import React from "react";
-import { View, Text } from "react-native";
+import React, { useState } from "react";
+import { View, Text, ScrollView, type LayoutChangeEvent } from "react-native";
 import { Image } from "expo-image";
 import { typography, colors } from "../utils/designSystem";
+import { FunctionGraph } from "./FunctionGraph";
+import { PunnettSquare } from "./PunnettSquare";
 import type { FormattedMathString } from "../utils/contentFormatter";
+import {
+  parseMarkup,
+  splitMarkupLines,
+  markupToPlainText,
+  someMarkupNode,
+  type MarkupNode,
+} from "../utils/mathMarkup";
 
 // ============================================================================
 // RECOMMENDATION 8: MathText Input Contract
@@ -14,357 +23,647 @@ import type { FormattedMathString } from "../utils/contentFormatter";
 // This allows testing the new contract without removing the fallback code.
 const USE_LEGACY_MATHTEXT_FIXES = false;
 
-/**
- * CRITICAL: Last-resort guard to strip any internal formatting markers before render.
- * This is a cheap insurance layer - the main formatters should have already cleaned these,
- * but if anything slipped through, this prevents visible token leakage.
- *
- * DO NOT re-run full formatting here - just strip known internal markers.
- */
-function stripKnownInternalMarkersForRender(s: string): string {
-  return s
-    .replace(/\bIMASK\d+IMASK\b/g, "")       // Italic masking tokens
-    .replace(/\bMASK\d+\b/g, "")              // Generic mask tokens
-    .replace(/\b_MASK\d+_?\b/g, "")           // Underscore-wrapped mask tokens
-    .replace(/\bPLACEHOLDER[_\d]+\b/g, "")    // Placeholder tokens
-    .replace(/XXIMAGEPROTECTED\d*XX/g, "")    // Image protection tokens
-    .replace(/〔PROTECTED\d+〕/g, "")          // Unicode-bracket protected tokens
-    .replace(/\bLIST_BREAK\b/g, "\n\n")       // List break markers → actual breaks
-    .replace(/⟪STEP⟫/g, "\n\n")               // Step markers → actual breaks
-    .replace(/<<ITALIC_\d+>>/g, "")           // Legacy italic tokens
-    .replace(/__FILE_URL_\d+__/g, "");        // File URL placeholders
+// ============================================================================
+// NODE RENDERING
+// ============================================================================
+
+// Color mapping for highlighted terms
+const highlightColors: Record<string, string> = {
+  red: "#ef4444",
+  blue: "#3b82f6",
+  green: "#10b981",
+  purple: "#a855f7",
+  orange: "#f97316",
+  pink: "#ec4899",
+  yellow: "#eab308",
+  teal: "#14b8a6",
+  indigo: "#6366f1",
+};
+
+const SUBSCRIPT_DIGITS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄',
+  '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+};
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
+  '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻',
+};
+
+const ROOT_SYMBOLS: Record<string, string> = { "2": "√", "3": "∛", "4": "∜" };
+
+interface RenderContext {
+  fontSize: number;
+  textColor: string;
+  arrowColor: string;
+  /** Fraction nesting level - each level shrinks the text a little more */
+  depth: number;
+  /** Set inside [color:...] - stacked fractions get a tinted background */
+  highlighted?: boolean;
+  /** Script text uses Unicode digits - set while rendering inside a script */
+  scriptDigits?: Record<string, string>;
 }
 
-/**
- * DEV-only: Detect obvious cases where caller forgot to format content.
- * In DEV mode: throws an error to enforce the formatting contract.
- * In PROD mode: silently continues (defensive).
- *
- * CRITICAL: This is the render-time enforcement of "format once, render only".
- * If this throws, the caller passed unformatted content to MathText.
- */
-function assertFormattedContent(raw: string): void {
-  const isDev = typeof __DEV__ !== "undefined" ? __DEV__ : false;
-  if (!isDev) return;
-
-  // Check for internal markers that should have been stripped by formatForMathText
-  const markerPattern = /\bMASK\d+\b|\bIMASK\d+IMASK\b|\bPLACEHOLDER_|XXIMAGEPROTECTED|LIST_BREAK|⟪STEP⟫|<<ITALIC_\d+>>|__FILE_URL_\d+__/;
-  const match = raw.match(markerPattern);
-  if (match) {
-    throw new Error(
-      `[MathText] FORMATTING CONTRACT VIOLATION: Received un-finalized content. ` +
-      `Internal marker found: "${match[0]}". ` +
-      `Please use formatForMathText() before passing content to MathText.`
-    );
-  }
+/** Nodes that need the View-based layout when they appear in an equation line */
+const BLOCK_NODE_TYPES: MarkupNode["type"][] = [
+  "fraction",
+  "root",
+  "abs",
+  "bigOperator",
+  "matrix",
+  "image",
+  "graph",
+  "table",
+  "punnett",
+  "arrow",
+];
+
+/** Plain letters and digits read fine without an overline: √2, ∛x */
+function isSimpleRadicand(nodes: MarkupNode[]): boolean {
+  return /^[A-Za-z0-9.]+$/.test(markupToPlainText(nodes));
 }
 
-interface FractionProps {
-  numerator: string;
-  denominator: string;
-  size?: "small" | "medium" | "large";
-  textColor?: string;
-  highlighted?: boolean;
+function containsFraction(nodes: MarkupNode[]): boolean {
+  return someMarkupNode(nodes, (node) => node.type === "fraction");
 }
 
-// Helper function to process subscript and superscript notation
-// Extracted to be used by both Fraction and MathText components
-function processScriptNotation(text: string): Array<{ text: string; type: 'normal' | 'subscript' | 'superscript' }> {
-  const result: Array<{ text: string; type: 'normal' | 'subscript' | 'superscript' }> = [];
-  let i = 0;
-  let currentText = "";
+/**
+ * Whether a line needs the View-based layout. Simple fractions, √2 and |x|
+ * read fine as text; nested fractions, roots over expressions, limits and
+ * matrices don't.
+ */
+function needsBlockLayout(nodes: MarkupNode[]): boolean {
+  return someMarkupNode(nodes, (node) => {
+    switch (node.type) {
+      case "image":
+      case "graph":
+      case "table":
+      case "punnett":
+      case "matrix":
+      case "bigOperator":
+        return true;
+      case "root":
+        return !isSimpleRadicand(node.radicand);
+      case "fraction":
+        return containsFraction(node.numerator) || containsFraction(node.denominator);
+      case "abs":
+        return containsFraction(node.children);
+      default:
+        return false;
+    }
+  });
+}
 
-  const subscriptMap: Record<string, string> = {
-    '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄',
-    '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+function mathTextStyle(ctx: RenderContext) {
+  return {
+    fontSize: ctx.fontSize,
+    lineHeight: ctx.fontSize * 1.5,
+    fontWeight: "600" as const,
+    color: ctx.textColor,
   };
+}
 
-  const superscriptMap: Record<string, string> = {
-    '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
-    '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
-    '+': '⁺', '-': '⁻',
-  };
+/** Fraction sides with more than one term read as "(a + b)/2" when written inline */
+function needsInlineParens(nodes: MarkupNode[]): boolean {
+  return /[\s+\-×÷·]/.test(markupToPlainText(nodes).trim()) || containsFraction(nodes);
+}
 
-  while (i < text.length) {
-    // Check for subscript _text_
-    if (text[i] === '_' && i + 1 < text.length) {
-      const nextUnderscore = text.indexOf('_', i + 1);
-      if (nextUnderscore !== -1 && nextUnderscore > i + 1) {
-        // This is a subscript pattern
-        if (currentText) {
-          result.push({ text: currentText, type: 'normal' });
-          currentText = "";
-        }
+function toScriptDigits(text: string, digits: Record<string, string>): string {
+  return text
+    .split("")
+    .map((char) => digits[char] ?? char)
+    .join("");
+}
 
-        const subscriptText = text.substring(i + 1, nextUnderscore);
-        const convertedText = subscriptText.split('').map(char => subscriptMap[char] || char).join('');
-        result.push({ text: convertedText, type: 'subscript' });
+/**
+ * Render nodes as nested Text (the inline path).
+ * Fractions are written "num/den" and roots "√(x)" so they flow with the
+ * surrounding words.
+ */
+function renderInlineNodes(nodes: MarkupNode[], ctx: RenderContext, keyPrefix = ""): React.ReactNode[] {
+  const renderScript = (children: MarkupNode[], isSubscript: boolean, key: string) => {
+    const scriptCtx = { ...ctx, scriptDigits: isSubscript ? SUBSCRIPT_DIGITS : SUPERSCRIPT_DIGITS };
+    return (
+      <Text key={key} style={{ fontSize: ctx.fontSize * 0.7, lineHeight: ctx.fontSize * (isSubscript ? 1.2 : 0.8) }}>
+        {renderInlineNodes(children, scriptCtx, `${key}-`)}
+      </Text>
+    );
+  };
 
-        i = nextUnderscore + 1;
-        continue;
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+      case "text":
+        return ctx.scriptDigits ? toScriptDigits(node.value, ctx.scriptDigits) : node.value;
+      case "newline":
+        return "\n";
+      case "subscript":
+      case "superscript":
+        return renderScript(node.children, node.type === "subscript", key);
+      case "italic":
+        return (
+          <Text key={key} style={{ fontStyle: "italic" }}>
+            {renderInlineNodes(node.children, ctx, `${key}-`)}
+          </Text>
+        );
+      case "highlight":
+        return (
+          <Text key={key} style={{ color: highlightColors[node.color] || ctx.textColor, fontWeight: "bold" }}>
+            {renderInlineNodes(node.children, ctx, `${key}-`)}
+          </Text>
+        );
+      case "underline":
+        return (
+          <Text key={key} style={{ textDecorationLine: "underline", fontWeight: "bold" }}>
+            {renderInlineNodes(node.children, ctx, `${key}-`)}
+          </Text>
+        );
+      case "fraction": {
+        const wrap = (side: MarkupNode[], sideKey: string) => {
+          const rendered = renderInlineNodes(side, ctx, `${key}-${sideKey}-`);
+          return needsInlineParens(side) ? ["(", ...rendered, ")"] : rendered;
+        };
+        return (
+          <Text key={key}>
+            {wrap(node.numerator, "n")}/{wrap(node.denominator, "d")}
+          </Text>
+        );
       }
-    }
-
-    // Check for superscript ^text^
-    if (text[i] === '^' && i + 1 < text.length) {
-      const nextCaret = text.indexOf('^', i + 1);
-      if (nextCaret !== -1 && nextCaret > i + 1) {
-        // This is a superscript pattern
-        if (currentText) {
-          result.push({ text: currentText, type: 'normal' });
-          currentText = "";
-        }
-
-        const superscriptText = text.substring(i + 1, nextCaret);
-        const convertedText = superscriptText.split('').map(char => superscriptMap[char] || char).join('');
-        result.push({ text: convertedText, type: 'superscript' });
-
-        i = nextCaret + 1;
-        continue;
+      case "root": {
+        // ∛ and ∜ have their own symbols, other indexes are written ⁵√
+        const index = node.index ? markupToPlainText(node.index) : "2";
+        const symbol = ROOT_SYMBOLS[index] ?? `${toScriptDigits(index, SUPERSCRIPT_DIGITS)}√`;
+        const radicand = renderInlineNodes(node.radicand, ctx, `${key}-r-`);
+        return (
+          <Text key={key}>
+            {symbol}
+            {isSimpleRadicand(node.radicand) ? radicand : ["(", ...radicand, ")"]}
+          </Text>
+        );
       }
+      case "abs":
+        return (
+          <Text key={key}>
+            |{renderInlineNodes(node.children, ctx, `${key}-`)}|
+          </Text>
+        );
+      case "bigOperator":
+        return (
+          <Text key={key}>
+            {node.symbol}
+            {node.lower && renderScript(node.lower, true, `${key}-l`)}
+            {node.upper && renderScript(node.upper, false, `${key}-u`)}
+          </Text>
+        );
+      case "matrix":
+        return (
+          <Text key={key}>
+            {node.determinant ? "det[" : "["}
+            {node.rows.map((row, rowIndex) => (
+              <Text key={`${key}-${rowIndex}`}>
+                {rowIndex > 0 && "; "}
+                {row.map((cell, cellIndex) => [
+                  cellIndex > 0 ? ", " : "",
+                  ...renderInlineNodes(cell, ctx, `${key}-${rowIndex}-${cellIndex}-`),
+                ])}
+              </Text>
+            ))}
+            ]
+          </Text>
+        );
+      case "arrow":
+        return (
+          <Text key={key} style={{ fontWeight: "900", color: ctx.arrowColor }}>
+            {" → "}
+          </Text>
+        );
+      case "image":
+      case "graph":
+      case "table":
+      case "punnett":
+        // Images, graphs and grids need the block layout - nothing to show inline
+        return null;
     }
+  });
+}
 
-    currentText += text[i];
-    i++;
-  }
+interface MathNodeProps {
+  ctx: RenderContext;
+}
 
-  if (currentText) {
-    result.push({ text: currentText, type: 'normal' });
-  }
+/**
+ * Fraction - Stacked numerator over denominator.
+ * Sides are rendered with the block layout, so they can hold roots and
+ * further fractions; each nesting level is a bit smaller.
+ */
+function Fraction({
+  numerator,
+  denominator,
+  ctx,
+}: MathNodeProps & { numerator: MarkupNode[]; denominator: MarkupNode[] }) {
+  // Fractions should be 70% of the base font size to appear proportional
+  const fontSize = ctx.fontSize * (ctx.depth === 0 ? 0.7 : 0.85);
+  const padding = fontSize * 0.25; // Proportional padding
+  const sideCtx: RenderContext = { ...ctx, fontSize, depth: ctx.depth + 1 };
 
-  return result;
+  return (
+    <View
+      className="items-center justify-center mx-1"
+      style={{
+        paddingHorizontal: padding,
+        paddingVertical: 2,
+        backgroundColor: ctx.highlighted && ctx.depth === 0 ? "rgba(99, 102, 241, 0.1)" : "transparent",
+        borderRadius: 8,
+      }}
+    >
+      <View style={{ flexDirection: "row", alignItems: "center" }}>{renderBlockNodes(numerator, sideCtx)}</View>
+      {/* CRITICAL: The bar stretches to the wider side instead of guessing from character counts */}
+      <View style={{ alignSelf: "stretch", height: 1.5, marginVertical: 1, backgroundColor: ctx.textColor }} />
+      <View style={{ flexDirection: "row", alignItems: "center" }}>{renderBlockNodes(denominator, sideCtx)}</View>
+    </View>
+  );
 }
 
 /**
- * InlineFraction - Renders a fraction using Unicode fraction slash for inline text flow
- * This keeps fractions inline with surrounding text, preventing line break issues.
- * Format: numerator⁄denominator (using U+2044 FRACTION SLASH)
+ * Radical - √ with an overline across the radicand, and a small index for
+ * cube and nth roots.
  */
-export function InlineFraction({ numerator, denominator, size = "medium", textColor = colors.textPrimary, highlighted = false }: FractionProps) {
-  const baseSizeMap = {
-    small: typography.mathSmall.fontSize,
-    medium: typography.mathMedium.fontSize,
-    large: typography.mathLarge.fontSize,
-  };
-  const fontSize = baseSizeMap[size];
+function Radical({ index, radicand, ctx }: MathNodeProps & { index: MarkupNode[] | null; radicand: MarkupNode[] }) {
+  const indexText = index ? markupToPlainText(index) : "";
 
-  // For simple numeric fractions, use Unicode representation
-  // This keeps the fraction inline with text flow
   return (
-    <Text
+    <View style={{ flexDirection: "row", alignItems: "center", marginHorizontal: 2 }}>
+      {indexText !== "" && indexText !== "2" && (
+        <Text
+          style={{
+            fontSize: ctx.fontSize * 0.5,
+            fontWeight: "600",
+            color: ctx.textColor,
+            alignSelf: "flex-start",
+            marginRight: -ctx.fontSize * 0.15,
+          }}
+        >
+          {indexText}
+        </Text>
+      )}
+      <Text style={{ fontSize: ctx.fontSize * 1.2, lineHeight: ctx.fontSize * 1.5, color: ctx.textColor }}>√</Text>
+      <View
+        style={{
+          flexDirection: "row",
+          alignItems: "center",
+          borderTopWidth: 1.5,
+          borderColor: ctx.textColor,
+          paddingHorizontal: 2,
+          marginTop: 2,
+        }}
+      >
+        {renderBlockNodes(radicand, ctx)}
+      </View>
+    </View>
+  );
+}
+
+/** AbsoluteValue - Bars that grow with their content (|{a/b}|) */
+function AbsoluteValue({ children, ctx }: MathNodeProps & { children: MarkupNode[] }) {
+  return (
+    <View
       style={{
-        fontSize,
-        fontWeight: "600",
-        color: textColor,
-        backgroundColor: highlighted ? "rgba(99, 102, 241, 0.1)" : "transparent",
-        borderRadius: 4,
-        paddingHorizontal: highlighted ? 4 : 0,
+        flexDirection: "row",
+        alignItems: "center",
+        borderLeftWidth: 1.5,
+        borderRightWidth: 1.5,
+        borderColor: ctx.textColor,
+        paddingHorizontal: 3,
+        marginHorizontal: 2,
       }}
     >
-      {numerator}/{denominator}
-    </Text>
+      {renderBlockNodes(children, ctx)}
+    </View>
   );
 }
 
-export function Fraction({ numerator, denominator, size = "medium", textColor = colors.textPrimary, highlighted = false }: FractionProps) {
-  // Get the base font size from MathText's size map
-  const baseSizeMap = {
-    small: typography.mathSmall.fontSize,
-    medium: typography.mathMedium.fontSize,
-    large: typography.mathLarge.fontSize,
-  };
+/**
+ * BigOperator - Σ and ∏ with limits stacked above and below; integrals keep
+ * their limits beside the sign.
+ */
+function BigOperator({
+  symbol,
+  lower,
+  upper,
+  ctx,
+}: MathNodeProps & { symbol: string; lower: MarkupNode[] | null; upper: MarkupNode[] | null }) {
+  const limitCtx: RenderContext = { ...ctx, fontSize: ctx.fontSize * 0.6 };
+  const renderLimit = (limit: MarkupNode[] | null) => (
+    <View style={{ flexDirection: "row", alignItems: "center", minHeight: limitCtx.fontSize * 1.2 }}>
+      {limit && renderBlockNodes(limit, limitCtx)}
+    </View>
+  );
+  const sign = (
+    <Text style={{ fontSize: ctx.fontSize * 1.6, lineHeight: ctx.fontSize * 1.9, color: ctx.textColor }}>{symbol}</Text>
+  );
 
-  // Fractions should be 70% of the base font size to appear proportional
-  const baseFontSize = baseSizeMap[size];
-  const fontSize = baseFontSize * 0.7; // 70% of base text size
-  const padding = fontSize * 0.25; // Proportional padding
+  if (["∫", "∬", "∭", "∮"].includes(symbol)) {
+    return (
+      <View style={{ flexDirection: "row", alignItems: "center", marginHorizontal: 2 }}>
+        {sign}
+        <View style={{ justifyContent: "space-between", alignSelf: "stretch", marginLeft: 1 }}>
+          {renderLimit(upper)}
+          {renderLimit(lower)}
+        </View>
+      </View>
+    );
+  }
 
-  // Helper to process script notation (subscripts/superscripts) and italics
-  const processNotation = (text: string) => {
-    const parts: React.ReactNode[] = [];
-    let currentText = text;
-    let partIndex = 0;
-
-    // First, handle italics with *text*
-    const italicRegex = /\*([^*]+)\*/g;
-    let lastIndex = 0;
-    let match;
-
-    while ((match = italicRegex.exec(text)) !== null) {
-      // Add text before italic
-      if (match.index > lastIndex) {
-        const beforeText = text.substring(lastIndex, match.index);
-        parts.push(
-          <Text key={`before-${partIndex++}`} style={{ fontStyle: "normal" }}>
-            {beforeText}
-          </Text>
-        );
-      }
+  return (
+    <View style={{ alignItems: "center", marginHorizontal: 2 }}>
+      {renderLimit(upper)}
+      {sign}
+      {renderLimit(lower)}
+    </View>
+  );
+}
 
-      // Add italic text with subscript/superscript handling
-      const italicContent = match[1];
-      const scriptParts = processScriptNotation(italicContent);
-
-      parts.push(
-        <Text key={`italic-${partIndex++}`} style={{ fontStyle: "italic" }}>
-          {scriptParts.map((scriptPart, scriptIdx) => {
-            if (scriptPart.type === 'subscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 1.0,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            if (scriptPart.type === 'superscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 0.8,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            return <Text key={scriptIdx}>{scriptPart.text}</Text>;
-          })}
-        </Text>
-      );
+/**
+ * Matrix - Cells in aligned columns between brackets, or between bars for
+ * a determinant. Ragged rows are padded with empty cells.
+ */
+function Matrix({ rows, determinant, ctx }: MathNodeProps & { rows: MarkupNode[][][]; determinant: boolean }) {
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  // Rows holding a stacked fraction need more room than plain numbers
+  const rowHeights = rows.map((row) => ctx.fontSize * (row.some(containsFraction) ? 2.6 : 1.6));
+  const bracketStyle = {
+    width: determinant ? 0 : 5,
+    borderColor: ctx.textColor,
+    borderTopWidth: determinant ? 0 : 1.5,
+    borderBottomWidth: determinant ? 0 : 1.5,
+  };
 
-      lastIndex = match.index + match[0].length;
-    }
+  return (
+    <View style={{ flexDirection: "row", alignItems: "stretch", marginHorizontal: 4, marginVertical: 2 }}>
+      <View style={{ ...bracketStyle, borderLeftWidth: 1.5 }} />
+      {Array.from({ length: columnCount }, (_, column) => (
+        <View key={column} style={{ alignItems: "center", paddingHorizontal: ctx.fontSize * 0.4 }}>
+          {rows.map((row, rowIndex) => (
+            <View
+              key={rowIndex}
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                justifyContent: "center",
+                height: rowHeights[rowIndex],
+              }}
+            >
+              {renderBlockNodes(row[column] ?? [], ctx)}
+            </View>
+          ))}
+        </View>
+      ))}
+      <View style={{ ...bracketStyle, borderRightWidth: 1.5 }} />
+    </View>
+  );
+}
 
-    // Add remaining text after last italic
-    if (lastIndex < text.length) {
-      const remainingText = text.substring(lastIndex);
-      const scriptParts = processScriptNotation(remainingText);
-
-      parts.push(
-        <Text key={`remaining-${partIndex++}`} style={{ fontStyle: "normal" }}>
-          {scriptParts.map((scriptPart, scriptIdx) => {
-            if (scriptPart.type === 'subscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 1.0,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            if (scriptPart.type === 'superscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 0.8,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            return <Text key={scriptIdx}>{scriptPart.text}</Text>;
-          })}
-        </Text>
-      );
-    }
+/**
+ * Width a column wants: its longest cell at roughly 0.6em per character,
+ * kept between a few characters and a short sentence.
+ */
+function tableColumnWidth(rows: MarkupNode[][][], column: number, fontSize: number): number {
+  const longest = Math.max(...rows.map((row) => markupToPlainText(row[column] ?? []).length), 1);
+  return Math.min(Math.max(longest * fontSize * 0.6 + 12, fontSize * 4), fontSize * 14);
+}
 
-    // If no italics were found, just process for subscripts/superscripts
-    if (parts.length === 0) {
-      const scriptParts = processScriptNotation(text);
-      return (
-        <Text style={{ fontStyle: "normal" }}>
-          {scriptParts.map((scriptPart, scriptIdx) => {
-            if (scriptPart.type === 'subscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 1.0,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            if (scriptPart.type === 'superscript') {
-              return (
-                <Text
-                  key={scriptIdx}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 0.8,
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            return <Text key={scriptIdx}>{scriptPart.text}</Text>;
-          })}
-        </Text>
-      );
-    }
+/**
+ * Grid for [TABLE: ...] - the first row is the header. Columns share the
+ * available width by how much text they hold; when they can't all fit
+ * (many columns on a phone) the table keeps its column widths and scrolls
+ * sideways instead of squeezing every cell into a few characters.
+ */
+function MarkupTable({ rows, ctx }: MathNodeProps & { rows: MarkupNode[][][] }) {
+  const [availableWidth, setAvailableWidth] = useState(0);
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const columnWidths = Array.from({ length: columnCount }, (_, column) => tableColumnWidth(rows, column, ctx.fontSize));
+  const tableWidth = columnWidths.reduce((sum, width) => sum + width, 0);
+  const scrolls = availableWidth > 0 && tableWidth > availableWidth;
 
-    return <>{parts}</>;
-  };
+  const handleLayout = (event: LayoutChangeEvent) => setAvailableWidth(event.nativeEvent.layout.width);
 
-  return (
+  const grid = (
     <View
-      className="items-center justify-center mx-1"
       style={{
-        paddingHorizontal: padding,
-        paddingVertical: 2,
-        backgroundColor: highlighted ? "rgba(99, 102, 241, 0.1)" : "transparent",
+        width: scrolls ? tableWidth : "100%",
+        borderWidth: 1,
+        borderColor: colors.border,
         borderRadius: 8,
+        overflow: "hidden",
       }}
     >
-      <Text
+      {rows.map((row, rowIndex) => (
+        <View
+          key={rowIndex}
+          style={{
+            flexDirection: "row",
+            backgroundColor: rowIndex === 0 ? colors.surfaceAlt : "#ffffff",
+            borderTopWidth: rowIndex === 0 ? 0 : 1,
+            borderColor: colors.border,
+          }}
+        >
+          {columnWidths.map((width, column) => (
+            <View
+              key={column}
+              style={{
+                ...(scrolls ? { width } : { flexGrow: width, flexBasis: 0 }),
+                flexDirection: "row",
+                flexWrap: "wrap",
+                alignItems: "center",
+                justifyContent: "center",
+                paddingVertical: 6,
+                paddingHorizontal: 4,
+                borderLeftWidth: column === 0 ? 0 : 1,
+                borderColor: colors.border,
+              }}
+            >
+              {rowIndex === 0 ? (
+                <Text style={{ ...mathTextStyle(ctx), fontWeight: "700", textAlign: "center" }}>
+                  {renderInlineNodes(row[column] ?? [], ctx)}
+                </Text>
+              ) : (
+                renderBlockNodes(row[column] ?? [], ctx)
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <View onLayout={handleLayout} style={{ width: "100%", marginVertical: 8 }}>
+      {scrolls ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator>
+          {grid}
+        </ScrollView>
+      ) : (
+        grid
+      )}
+    </View>
+  );
+}
+
+/** Image block with its description underneath */
+function MathImage({ description, url }: { description: string; url: string }) {
+  return (
+    <View style={{ width: "100%", marginVertical: 12 }}>
+      <Image
+        source={{ uri: url }}
         style={{
-          fontSize,
-          lineHeight: fontSize * 1.1,
-          color: textColor,
-          fontWeight: "600",
+          width: "100%",
+          height: 300,
+          borderRadius: 12,
+          backgroundColor: "#f0f0f0"
         }}
-      >
-        {processNotation(numerator)}
-      </Text>
-      <View
-        style={{
-          width: Math.max(numerator.length, denominator.length) * fontSize * 0.6 + 4,
-          height: 1.5,
-          marginVertical: 1,
-          backgroundColor: textColor,
+        contentFit="contain"
+        onError={(error) => {
+          console.error("=== MathText Image Load Error ===");
+          console.error("Failed to load image URL:", url);
+          console.error("Error:", error);
+          console.error("=================================");
         }}
-      />
-      <Text
-        style={{
-          fontSize,
-          lineHeight: fontSize * 1.1,
-          color: textColor,
-          fontWeight: "600",
+        onLoad={() => {
+          console.log("=== MathText Image Loaded Successfully ===");
+          console.log("URL:", url);
+          console.log("==========================================");
         }}
-      >
-        {processNotation(denominator)}
-      </Text>
+      />
+      {description && (
+        <Text
+          style={{
+            fontSize: 14,
+            color: colors.textSecondary,
+            textAlign: "center",
+            marginTop: 8,
+            fontStyle: "italic"
+          }}
+        >
+          {description}
+        </Text>
+      )}
     </View>
   );
 }
 
+/**
+ * Render nodes with the View-based layout: stacked fractions, radicals,
+ * limits, matrices and images. Runs of plain nodes between them are grouped
+ * into one Text so scripts and italics stay on the baseline.
+ */
+function renderBlockNodes(nodes: MarkupNode[], ctx: RenderContext, keyPrefix = ""): React.ReactNode[] {
+  const rendered: React.ReactNode[] = [];
+  const queue = [...nodes];
+  let inlineRun: MarkupNode[] = [];
+
+  const flushInline = () => {
+    if (inlineRun.length === 0) return;
+    const key = `${keyPrefix}t${rendered.length}`;
+    rendered.push(
+      <Text key={key} style={{ ...mathTextStyle(ctx), flexShrink: 1 }}>
+        {renderInlineNodes(inlineRun, ctx, `${key}-`)}
+      </Text>
+    );
+    inlineRun = [];
+  };
+
+  for (let index = 0; index < queue.length; index++) {
+    const node = queue[index];
+    const key = `${keyPrefix}${index}`;
+
+    // Highlighted content keeps its color on the stacked nodes inside it
+    if (node.type === "highlight" && someMarkupNode(node.children, (child) => BLOCK_NODE_TYPES.includes(child.type))) {
+      flushInline();
+      const highlightCtx = { ...ctx, textColor: highlightColors[node.color] || ctx.textColor, highlighted: true };
+      rendered.push(...renderBlockNodes(node.children, highlightCtx, `${key}-`));
+      continue;
+    }
+
+    if (!BLOCK_NODE_TYPES.includes(node.type)) {
+      inlineRun.push(node);
+      continue;
+    }
+
+    flushInline();
+
+    switch (node.type) {
+      case "image":
+        rendered.push(<MathImage key={key} description={node.description} url={node.url} />);
+        break;
+      case "graph":
+        rendered.push(<FunctionGraph key={key} spec={node.spec} />);
+        break;
+      case "punnett":
+        rendered.push(<PunnettSquare key={key} spec={node.spec} />);
+        break;
+      case "table":
+        rendered.push(<MarkupTable key={key} rows={node.rows} ctx={ctx} />);
+        break;
+      case "fraction": {
+        const fraction = <Fraction numerator={node.numerator} denominator={node.denominator} ctx={ctx} />;
+
+        // Keep "{3/4}y" together instead of breaking between fraction and variable
+        const next = queue[index + 1];
+        const attached = next?.type === "text" ? /^[a-zA-Z]\S*/.exec(next.value)?.[0] : undefined;
+        if (attached && next?.type === "text") {
+          rendered.push(
+            <View key={key} style={{ flexDirection: "row", alignItems: "center", flexShrink: 0 }}>
+              {fraction}
+              <Text style={{ ...mathTextStyle(ctx), marginLeft: 2 }}>{attached}</Text>
+            </View>
+          );
+          const remaining = next.value.slice(attached.length);
+          queue[index + 1] = { type: "text", value: remaining };
+        } else {
+          rendered.push(
+            <View key={key} style={{ flexShrink: 0 }}>
+              {fraction}
+            </View>
+          );
+        }
+        break;
+      }
+      case "root":
+        rendered.push(<Radical key={key} index={node.index} radicand={node.radicand} ctx={ctx} />);
+        break;
+      case "abs":
+        rendered.push(<AbsoluteValue key={key} ctx={ctx}>{node.children}</AbsoluteValue>);
+        break;
+      case "bigOperator":
+        rendered.push(<BigOperator key={key} symbol={node.symbol} lower={node.lower} upper={node.upper} ctx={ctx} />);
+        break;
+      case "matrix":
+        rendered.push(<Matrix key={key} rows={node.rows} determinant={node.determinant} ctx={ctx} />);
+        break;
+      case "arrow":
+        rendered.push(
+          <Text
+            key={key}
+            style={{
+              fontSize: ctx.fontSize * 1.5,
+              fontWeight: "900",
+              color: ctx.arrowColor,
+              lineHeight: ctx.fontSize * 1.8,
+              marginHorizontal: 8,
+            }}
+          >
+            →
+          </Text>
+        );
+        break;
+    }
+  }
+
+  flushInline();
+  return rendered;
+}
+
 interface MathTextProps {
   /**
    * The content to render. Should ideally be a FormattedMathString from formatForMathText(),
@@ -387,19 +686,6 @@ interface MathTextProps {
   multiline?: boolean;
 }
 
-// Color mapping for highlighted terms
-const highlightColors: Record<string, string> = {
-  red: "#ef4444",
-  blue: "#3b82f6",
-  green: "#10b981",
-  purple: "#a855f7",
-  orange: "#f97316",
-  pink: "#ec4899",
-  yellow: "#eab308",
-  teal: "#14b8a6",
-  indigo: "#6366f1",
-};
-
 /**
  * Parses text and renders mathematical notation properly
  * Supports:
@@ -409,6 +695,9 @@ const highlightColors: Record<string, string> = {
  * - Color highlighting: [red:text], [blue:text], [green:text], etc.
  * - Italic variables: *x*, *d*, *a*, etc. (for variables in explanatory text)
  * - Underline: _text_ (only when spaces around text)
+ *
+ * The text is parsed once into a markup tree (utils/mathMarkup) and the
+ * tree is rendered directly.
  */
 
 export function MathText({ children, className = "", size = "medium", isOnGreenBackground = false, mode = "equation", multiline }: MathTextProps) {
@@ -432,12 +721,7 @@ export function MathText({ children, className = "", size = "medium", isOnGreenB
   // Default: equation mode allows multiline, prose mode collapses newlines
   const shouldAllowMultiline = multiline !== undefined ? multiline : mode === "equation";
 
-  // RECOMMENDATION 8: Assert the content contract in dev mode
-  assertFormattedContent(children);
-
-  // CRITICAL: First, strip any internal formatting markers that may have leaked through
-  // This is a last-resort guard to prevent tokens like IMASK, PLACEHOLDER, etc. from rendering
-  let processedChildren = stripKnownInternalMarkersForRender(children);
+  let processedChildren = children;
 
   // ============================================================================
   // LEGACY MATHTEXT FIXES (Recommendation 8)
@@ -510,11 +794,6 @@ export function MathText({ children, className = "", size = "medium", isOnGreenB
       }
     }
 
-    // SAFETY: Remove any MASK/PLACEHOLDER tokens that leaked through from broken formatting
-    processedChildren = processedChildren.replace(/\b_?MASK\d+_?\b/g, '');
-    processedChildren = processedChildren.replace(/PLACEHOLDER[_\d]+/g, '');
-    processedChildren = processedChildren.replace(/〔PROTECTED\d+〕/g, '');
-
   // CRITICAL FIX: Handle malformed fraction syntax where AI uses curly braces for grouping instead of fractions
   // Pattern: {expression}/number → (expression)/number (convert to parentheses grouping)
   // OR: {num}/den → {num/den} (convert to proper fraction syntax)
@@ -645,7 +924,6 @@ export function MathText({ children, className = "", size = "medium", isOnGreenB
   processedChildren = processedChildren.replace(/\s+(→|⟶|⇒|⟹|➔|➝|➞|➟)\s+/g, ' $1 ');
 
   } // END if (USE_LEGACY_MATHTEXT_FIXES)
-
   // Extract text color from className if present
   const textColorMatch = className.match(/text-(white|gray-\d+|indigo-\d+|emerald-\d+)/);
   let defaultTextColor = colors.textPrimary;
@@ -657,326 +935,53 @@ export function MathText({ children, className = "", size = "medium", isOnGreenB
     }
   }
 
-  // Parse the text for special formatting
-  const parts: Array<{
-    type: "text" | "fraction" | "highlighted" | "arrow" | "fraction-with-text" | "image" | "italic";
-    content: string;
-    numerator?: string;
-    denominator?: string;
-    color?: string;
-    underline?: boolean;
-    italic?: boolean;
-    fraction?: any;
-    text?: string;
-    remainingText?: string;
-    imageUrl?: string;
-    imageDescription?: string;
-  }> = [];
-  let currentText = "";
-  let i = 0;
-
-  while (i < processedChildren.length) {
-    // Handle italic text *variable* (for variables in sentences)
-    // Must check BEFORE checking for multiplication to avoid conflicts
-    if (processedChildren[i] === "*") {
-      const nextAsterisk = processedChildren.indexOf("*", i + 1);
-      // Check if it's a valid italic pattern (not too long, max 10 chars for variables with subscripts/superscripts)
-      // Look ahead to see if there are subscripts/superscripts after the closing *
-      if (nextAsterisk !== -1 && nextAsterisk - i <= 10) {
-        if (currentText) {
-          parts.push({ type: "text", content: currentText });
-          currentText = "";
-        }
-
-        // Get the content between asterisks
-        let italicText = processedChildren.substring(i + 1, nextAsterisk);
-        let nextIndex = nextAsterisk + 1;
-
-        // Check if immediately followed by subscript or superscript markers
-        // Look for patterns like *v*_0_ or *F*_net_ or *x*^2^
-        while (nextIndex < processedChildren.length) {
-          // Check for subscript pattern _text_
-          if (processedChildren[nextIndex] === "_") {
-            const nextUnderscore = processedChildren.indexOf("_", nextIndex + 1);
-            if (nextUnderscore !== -1 && nextUnderscore - nextIndex <= 10) {
-              // Include the subscript in the italic text
-              italicText += processedChildren.substring(nextIndex, nextUnderscore + 1);
-              nextIndex = nextUnderscore + 1;
-              continue;
-            }
-          }
-          // Check for superscript pattern ^text^
-          if (processedChildren[nextIndex] === "^") {
-            const nextCaret = processedChildren.indexOf("^", nextIndex + 1);
-            if (nextCaret !== -1 && nextCaret - nextIndex <= 10) {
-              // Include the superscript in the italic text
-              italicText += processedChildren.substring(nextIndex, nextCaret + 1);
-              nextIndex = nextCaret + 1;
-              continue;
-            }
-          }
-          // No more subscripts/superscripts, break
-          break;
-        }
-
-        parts.push({
-          type: "italic",
-          content: italicText,
-        });
-
-        i = nextIndex;
-        continue;
-      }
-    }
-
-    // Handle image markers [IMAGE: description](url)
-    if (processedChildren[i] === "[" && processedChildren.substring(i, i + 7) === "[IMAGE:") {
-      if (currentText) {
-        parts.push({ type: "text", content: currentText });
-        currentText = "";
-      }
-
-      // Find the closing ]
-      const descEndIndex = processedChildren.indexOf("]", i + 7);
-      if (descEndIndex !== -1 && processedChildren[descEndIndex + 1] === "(") {
-        // Find the URL closing )
-        const urlEndIndex = processedChildren.indexOf(")", descEndIndex + 2);
-        if (urlEndIndex !== -1) {
-          const description = processedChildren.substring(i + 7, descEndIndex).trim();
-          let url = processedChildren.substring(descEndIndex + 2, urlEndIndex).trim();
-
-          // CRITICAL FIX: Convert division slashes (U+2215) back to forward slashes in file URLs
-          // This handles cases where the URL was corrupted by the contentFormatter's
-          // normalizeFractionForms which converts word/word to word∕word for ratio descriptions
-          // The file:// protocol uses forward slashes, not division slashes
-          if (url.includes("file:")) {
-            url = url.replace(/∕/g, "/");
-          }
-
-          parts.push({
-            type: "image",
-            content: "",
-            imageUrl: url,
-            imageDescription: description
-          });
-
-          i = urlEndIndex + 1;
-          continue;
-        }
-      }
-    }
-
-    // Handle arrows → as special prominent symbols
-    if (processedChildren[i] === "→" || (processedChildren[i] === "-" && processedChildren[i + 1] === ">")) {
-      if (currentText) {
-        parts.push({ type: "text", content: currentText });
-        currentText = "";
-      }
-
-      parts.push({ type: "arrow", content: "→" });
-
-      // Skip both characters if it's "->"
-      if (processedChildren[i] === "-" && processedChildren[i + 1] === ">") {
-        i += 2;
-      } else {
-        i++;
-      }
-      continue;
-    }
-    // Handle fractions {num/den}
-    if (processedChildren[i] === "{") {
-      if (currentText) {
-        parts.push({ type: "text", content: currentText });
-        currentText = "";
-      }
-
-      const closeIndex = processedChildren.indexOf("}", i);
-      if (closeIndex !== -1) {
-        const fractionContent = processedChildren.substring(i + 1, closeIndex);
-        const slashIndex = fractionContent.indexOf("/");
-
-        if (slashIndex !== -1) {
-          // CRITICAL: Trim whitespace from numerator and denominator
-          // This handles cases like "{ 3 / 4 }" or "{3 / 4}" from AI output
-          let numerator = fractionContent.substring(0, slashIndex).trim();
-          let denominator = fractionContent.substring(slashIndex + 1).trim();
-
-          // CRITICAL: Strip color tags from numerator and denominator
-          // Pattern: [color:content] → content
-          const stripColorTags = (text: string): string => {
-            return text.replace(/\[(?:red|blue|green|orange|purple|yellow):([^\]]+)\]/gi, '$1');
-          };
-
-          numerator = stripColorTags(numerator);
-          denominator = stripColorTags(denominator);
-
-          // Only push as fraction if both parts are non-empty after trimming
-          if (numerator && denominator) {
-            parts.push({
-              type: "fraction",
-              content: fractionContent,
-              numerator,
-              denominator,
-            });
-          } else {
-            // Malformed fraction - treat as text
-            currentText += processedChildren.substring(i, closeIndex + 1);
-          }
-        } else {
-          currentText += processedChildren.substring(i, closeIndex + 1);
-        }
-
-        i = closeIndex + 1;
-      } else {
-        currentText += processedChildren[i];
-        i++;
-      }
-    }
-    // Handle color highlighting [color:text]
-    else if (processedChildren[i] === "[") {
-      if (currentText) {
-        parts.push({ type: "text", content: currentText });
-        currentText = "";
-      }
-
-      const closeIndex = processedChildren.indexOf("]", i);
-      if (closeIndex !== -1) {
-        const highlightContent = processedChildren.substring(i + 1, closeIndex);
-        const colonIndex = highlightContent.indexOf(":");
-
-        if (colonIndex !== -1) {
-          const colorName = highlightContent.substring(0, colonIndex).trim();
-          const text = highlightContent.substring(colonIndex + 1).trim();
-          parts.push({
-            type: "highlighted",
-            content: text,
-            color: highlightColors[colorName] || defaultTextColor,
-          });
-        } else {
-          currentText += processedChildren.substring(i, closeIndex + 1);
-        }
-
-        i = closeIndex + 1;
-      } else {
-        currentText += processedChildren[i];
-        i++;
-      }
-    }
-    // Handle underline _text_ (ONLY for emphasis with spaces, NOT for subscripts)
-    // Subscripts like h_max_ or KE_initial_ should NOT be treated as underline
-    // Underline is for emphasized text like " _important_ " with spaces
-    else if (processedChildren[i] === "_") {
-      const nextUnderscoreIndex = processedChildren.indexOf("_", i + 1);
-      if (nextUnderscoreIndex !== -1) {
-        // Check if this looks like a subscript pattern (no spaces, attached to variable)
-        // Subscript patterns: "h_max_", "KE_initial_", "PE_final_"
-        // Underline patterns: " _text_ ", "word _text_ word"
-
-        const beforeChar = i > 0 ? processedChildren[i - 1] : ' ';
-        const afterChar = nextUnderscoreIndex < processedChildren.length - 1 ? processedChildren[nextUnderscoreIndex + 1] : ' ';
-        const isAttachedBefore = /[a-zA-Z0-9]/.test(beforeChar);
-        const isAttachedAfter = /[a-zA-Z0-9]/.test(afterChar);
-
-        // If attached to alphanumeric before (like "h_max_"), treat as subscript, not underline
-        if (isAttachedBefore) {
-          // This is a subscript pattern - don't treat as underline
-          // Let the regular text handler capture it, and it will be handled elsewhere
-          currentText += processedChildren[i];
-          i++;
-          continue;
-        }
-
-        // Otherwise, treat as underline (emphasis)
-        if (currentText) {
-          parts.push({ type: "text", content: currentText });
-          currentText = "";
-        }
-
-        const underlinedText = processedChildren.substring(i + 1, nextUnderscoreIndex);
-        parts.push({
-          type: "highlighted",
-          content: underlinedText,
-          underline: true,
-        });
-
-        i = nextUnderscoreIndex + 1;
-      } else {
-        currentText += processedChildren[i];
-        i++;
-      }
-    } else {
-      currentText += processedChildren[i];
-      i++;
-    }
-  }
-
-  // Add any remaining text
-  if (currentText) {
-    parts.push({ type: "text", content: currentText });
-  }
+  const ctx: RenderContext = {
+    fontSize,
+    textColor: defaultTextColor,
+    arrowColor: isOnGreenBackground ? "#ffffff" : "#10b981",
+    depth: 0,
+  };
 
-  // Group fractions with immediately following text to prevent line breaks
-  // This keeps "{3/4}y" together instead of breaking between fraction and variable
-  const groupedParts: typeof parts = [];
-  for (let i = 0; i < parts.length; i++) {
-    const currentPart = parts[i];
-    const nextPart = parts[i + 1];
-
-    // If current is a fraction and next is text starting with a letter/variable
-    if (currentPart.type === "fraction" && nextPart?.type === "text") {
-      const nextText = nextPart.content.trimStart();
-      // Check if next text starts with a variable (letter) AND has no space before it
-      // This groups things like "{3/4}y" but NOT "{5/6} and" (which should have space)
-      const hasSpaceBefore = nextPart.content !== nextText; // Check if trimStart removed anything
-
-      // Only group if it's a single letter variable directly attached (no space before)
-      if (!hasSpaceBefore && nextText && /^[a-zA-Z]$/.test(nextText[0]) &&
-          (nextText.length === 1 || /^[a-zA-Z][\^_]/.test(nextText))) {
-        // Group them together (e.g., {3/4}y or {1/2}x^2^)
-        groupedParts.push({
-          type: "fraction-with-text",
-          content: "", // Required by type but not used for this type
-          fraction: currentPart,
-          text: nextText.split(/\s+/)[0], // Take only the first word/variable
-          remainingText: nextText.substring(nextText.split(/\s+/)[0].length).trimStart(),
-        });
-
-        // Skip the next part since we've consumed it
-        i++;
-
-        // If there's remaining text, add it as a separate part
-        const remaining = (groupedParts[groupedParts.length - 1] as any).remainingText;
-        if (remaining) {
-          groupedParts.push({ type: "text", content: remaining });
-        }
-        continue;
-      }
+  // Parse once - internal markers are dropped by the parser
+  const nodes = parseMarkup(processedChildren);
+
+  // Single line rendering
+  // CRITICAL: Only structures that can't be written as text need the View-based
+  // layout. Simple fractions, highlighted text and arrows render inline in Text
+  // so lines break at word boundaries.
+  // - prose mode: ALWAYS inline (images, graphs and grids are skipped)
+  // - equation mode: block layout ONLY for images, graphs, tables, Punnett squares, nested
+  //   fractions, roots over expressions, sums/integrals with limits and matrices
+  const renderLine = (lineNodes: MarkupNode[]): React.ReactElement => {
+    if (mode === "prose" || !needsBlockLayout(lineNodes)) {
+      return <Text style={{ ...baseTextStyle, color: defaultTextColor }}>{renderInlineNodes(lineNodes, ctx)}</Text>;
     }
 
-    groupedParts.push(currentPart);
-  }
+    return (
+      <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center" }}>
+        {renderBlockNodes(lineNodes, ctx)}
+      </View>
+    );
+  };
 
-  // CRITICAL: Split content by newlines FIRST, then process each line separately
+  // CRITICAL: Split content by newlines FIRST, then render each line separately
   // This ensures newlines from the formatter (like equation step breaks) are respected
   // Only do this if multiline is allowed (default for equation mode)
-  const lines = processedChildren.split('\n');
+  const lines = splitMarkupLines(nodes);
 
   if (shouldAllowMultiline && lines.length > 1) {
     // Multiple lines - render each line separately with line breaks
     return (
       <View style={{ width: "100%" }}>
         {lines.map((line, lineIndex) => {
-          if (!line.trim()) {
+          if (!markupToPlainText(line).trim() && !line.some((node) => BLOCK_NODE_TYPES.includes(node.type))) {
             // Empty line - render small vertical space
             return <View key={`line-${lineIndex}`} style={{ height: fontSize * 0.5 }} />;
           }
 
-          // Render this line as a MathText without splitting (recursive call with single line)
           return (
             <View key={`line-${lineIndex}`} style={{ marginBottom: lineIndex < lines.length - 1 ? 4 : 0 }}>
-              <MathText size={size} isOnGreenBackground={isOnGreenBackground} mode={mode} multiline={false}>
-                {line}
-              </MathText>
+              {renderLine(line)}
             </View>
           );
         })}
@@ -984,613 +989,5 @@ export function MathText({ children, className = "", size = "medium", isOnGreenB
     );
   }
 
-  // Single line equation rendering
-  // CRITICAL: Detect if content has elements that REQUIRE View-based layout
-  // Only images truly require View layout. Fractions, highlighted text, and arrows
-  // can all be rendered inline using Text components for proper text flow.
-  //
-  // MAJOR FIX: The previous logic used View-based flex layout for ANY complex element,
-  // which caused text to break at element boundaries instead of word boundaries.
-  // This led to issues like "x" appearing on one line and the rest on another.
-  //
-  // NEW APPROACH:
-  // - prose mode: ALWAYS use inline Text rendering (fractions show as "2/3" inline)
-  // - equation mode: Use View layout ONLY for images; everything else is Text-based
-  const hasImageContent = groupedParts.some(part => part.type === "image");
-
-  // CRITICAL: For prose mode, ALWAYS use inline Text rendering
-  // This prevents the awkward line breaks seen in summaries/explanations
-  const shouldUseInlineRendering = mode === "prose" || !hasImageContent;
-
-  // For prose mode or content without images, use pure Text rendering
-  // This allows proper word wrapping and inline flow
-  if (shouldUseInlineRendering) {
-    return (
-      <Text style={{ ...baseTextStyle, color: defaultTextColor }}>
-        {groupedParts.map((part, index) => {
-          if (part.type === "italic") {
-            const scriptParts = processScriptNotation(part.content);
-            return (
-              <Text
-                key={index}
-                style={{
-                  fontStyle: "italic",
-                }}
-              >
-                {scriptParts.map((scriptPart, scriptIndex) => {
-                  if (scriptPart.type === 'subscript') {
-                    return (
-                      <Text
-                        key={scriptIndex}
-                        style={{
-                          fontSize: fontSize * 0.7,
-                          lineHeight: fontSize * 1.2,
-                          fontStyle: "italic",
-                        }}
-                      >
-                        {scriptPart.text}
-                      </Text>
-                    );
-                  }
-                  if (scriptPart.type === 'superscript') {
-                    return (
-                      <Text
-                        key={scriptIndex}
-                        style={{
-                          fontSize: fontSize * 0.7,
-                          lineHeight: fontSize * 0.8,
-                          fontStyle: "italic",
-                        }}
-                      >
-                        {scriptPart.text}
-                      </Text>
-                    );
-                  }
-                  return <Text key={scriptIndex}>{scriptPart.text}</Text>;
-                })}
-              </Text>
-            );
-          }
-
-          // CRITICAL FIX: Handle fractions inline as "num/den" text
-          // This keeps fractions flowing with surrounding text instead of breaking lines
-          if (part.type === "fraction" && part.numerator && part.denominator) {
-            return (
-              <Text
-                key={index}
-                style={{
-                  fontWeight: "600",
-                }}
-              >
-                {part.numerator}/{part.denominator}
-              </Text>
-            );
-          }
-
-          // CRITICAL FIX: Handle fraction-with-text inline
-          if (part.type === "fraction-with-text") {
-            const grouped = part as any;
-            return (
-              <Text key={index} style={{ fontWeight: "600" }}>
-                {grouped.fraction.numerator}/{grouped.fraction.denominator}{grouped.text}
-              </Text>
-            );
-          }
-
-          // CRITICAL FIX: Handle arrows inline
-          if (part.type === "arrow") {
-            const arrowColor = isOnGreenBackground ? "#ffffff" : "#10b981";
-            return (
-              <Text
-                key={index}
-                style={{
-                  fontWeight: "900",
-                  color: arrowColor,
-                }}
-              >
-                {" → "}
-              </Text>
-            );
-          }
-
-          if (part.type === "highlighted") {
-            // CRITICAL FIX: Check if highlighted content contains a fraction
-            // Render fractions inline as "num/den" to maintain text flow
-            const fractionMatch = part.content.match(/^\{([^}]+)\/([^}]+)\}$/);
-            if (fractionMatch) {
-              return (
-                <Text
-                  key={index}
-                  style={{
-                    color: part.color || defaultTextColor,
-                    fontWeight: "bold",
-                  }}
-                >
-                  {fractionMatch[1].trim()}/{fractionMatch[2].trim()}
-                </Text>
-              );
-            }
-
-            // Handle highlighted content that may contain inline fractions
-            let highlightContent = part.content;
-            // Replace {num/den} with num/den for inline display
-            highlightContent = highlightContent.replace(/\{([^}]+)\/([^}]+)\}/g, "$1/$2");
-
-            const scriptParts = processScriptNotation(highlightContent);
-            return (
-              <Text
-                key={index}
-                style={{
-                  color: part.color || defaultTextColor,
-                  textDecorationLine: part.underline ? "underline" : "none",
-                  fontWeight: "bold",
-                }}
-              >
-                {scriptParts.map((scriptPart, scriptIndex) => {
-                  if (scriptPart.type === 'subscript') {
-                    return (
-                      <Text
-                        key={scriptIndex}
-                        style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}
-                      >
-                        {scriptPart.text}
-                      </Text>
-                    );
-                  }
-                  if (scriptPart.type === 'superscript') {
-                    return (
-                      <Text
-                        key={scriptIndex}
-                        style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}
-                      >
-                        {scriptPart.text}
-                      </Text>
-                    );
-                  }
-                  return <Text key={scriptIndex}>{scriptPart.text}</Text>;
-                })}
-              </Text>
-            );
-          }
-
-          // Regular text with subscripts/superscripts
-          const scriptParts = processScriptNotation(part.content);
-          return (
-            <Text key={index}>
-              {scriptParts.map((scriptPart, scriptIndex) => {
-                if (scriptPart.type === 'subscript') {
-                  return (
-                    <Text
-                      key={scriptIndex}
-                      style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}
-                    >
-                      {scriptPart.text}
-                    </Text>
-                  );
-                }
-                if (scriptPart.type === 'superscript') {
-                  return (
-                    <Text
-                      key={scriptIndex}
-                      style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}
-                    >
-                      {scriptPart.text}
-                    </Text>
-                  );
-                }
-                return <Text key={scriptIndex}>{scriptPart.text}</Text>;
-              })}
-            </Text>
-          );
-        })}
-      </Text>
-    );
-  }
-
-  // Helper function to render a single part
-  const renderPart = (part: typeof groupedParts[0], index: number): React.ReactNode => {
-    // Handle image display
-    if (part.type === "image" && part.imageUrl) {
-      console.log("=== MathText rendering image ===");
-      console.log("Image URL:", part.imageUrl);
-      console.log("Image description:", part.imageDescription?.substring(0, 100));
-      console.log("===============================");
-      return (
-        <View key={index} style={{ width: "100%", marginVertical: 12 }}>
-          <Image
-            source={{ uri: part.imageUrl }}
-            style={{
-              width: "100%",
-              height: 300,
-              borderRadius: 12,
-              backgroundColor: "#f0f0f0"
-            }}
-            contentFit="contain"
-            onError={(error) => {
-              console.error("=== MathText Image Load Error ===");
-              console.error("Failed to load image URL:", part.imageUrl);
-              console.error("Error:", error);
-              console.error("=================================");
-            }}
-            onLoad={() => {
-              console.log("=== MathText Image Loaded Successfully ===");
-              console.log("URL:", part.imageUrl);
-              console.log("==========================================");
-            }}
-          />
-          {part.imageDescription && (
-            <Text
-              style={{
-                fontSize: 14,
-                color: colors.textSecondary,
-                textAlign: "center",
-                marginTop: 8,
-                fontStyle: "italic"
-              }}
-            >
-              {part.imageDescription}
-            </Text>
-          )}
-        </View>
-      );
-    }
-
-    // Handle grouped fraction-with-text
-    if ((part as any).type === "fraction-with-text") {
-      const grouped = part as any;
-      return (
-        <View key={index} style={{ flexDirection: "row", alignItems: "center", flexShrink: 0 }}>
-          <Fraction
-            numerator={grouped.fraction.numerator}
-            denominator={grouped.fraction.denominator}
-            size={size}
-            textColor={defaultTextColor}
-          />
-          <Text
-            style={{
-              ...baseTextStyle,
-              color: defaultTextColor,
-              marginLeft: 2,
-            }}
-          >
-            {grouped.text}
-          </Text>
-        </View>
-      );
-    }
-
-    if (part.type === "arrow") {
-      const arrowColor = isOnGreenBackground ? "#ffffff" : "#10b981";
-      return (
-        <Text
-          key={index}
-          style={{
-            fontSize: fontSize * 1.5,
-            fontWeight: "900",
-            color: arrowColor,
-            lineHeight: fontSize * 1.8,
-            marginHorizontal: 8,
-          }}
-        >
-          →
-        </Text>
-      );
-    }
-
-    if (part.type === "italic") {
-      const scriptParts = processScriptNotation(part.content);
-      return (
-        <Text
-          key={index}
-          style={{
-            ...baseTextStyle,
-            fontStyle: "italic",
-            color: defaultTextColor,
-            flexShrink: 1,
-          }}
-        >
-          {scriptParts.map((scriptPart, scriptIndex) => {
-            if (scriptPart.type === 'subscript') {
-              return (
-                <Text
-                  key={scriptIndex}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 1.2,
-                    fontStyle: "italic",
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            if (scriptPart.type === 'superscript') {
-              return (
-                <Text
-                  key={scriptIndex}
-                  style={{
-                    fontSize: fontSize * 0.7,
-                    lineHeight: fontSize * 0.8,
-                    fontStyle: "italic",
-                  }}
-                >
-                  {scriptPart.text}
-                </Text>
-              );
-            }
-            return <Text key={scriptIndex}>{scriptPart.text}</Text>;
-          })}
-        </Text>
-      );
-    }
-
-    if (part.type === "fraction" && part.numerator && part.denominator) {
-      return (
-        <View key={index} style={{ flexShrink: 0 }}>
-          <Fraction numerator={part.numerator} denominator={part.denominator} size={size} textColor={defaultTextColor} />
-        </View>
-      );
-    }
-
-    if (part.type === "highlighted") {
-      const fractionMatch = part.content.match(/^\{([^}]+)\/([^}]+)\}$/);
-
-      if (fractionMatch) {
-        const numerator = fractionMatch[1].trim();
-        const denominator = fractionMatch[2].trim();
-        return (
-          <Fraction
-            key={index}
-            numerator={numerator}
-            denominator={denominator}
-            size={size}
-            textColor={part.color || defaultTextColor}
-            highlighted={true}
-          />
-        );
-      }
-
-      const highlightedParts: React.ReactNode[] = [];
-      let remainingText = part.content;
-      let partIndex = 0;
-
-      const parseItalicsAndScripts = (text: string): React.ReactNode[] => {
-        const italicParts: React.ReactNode[] = [];
-        let italicIndex = 0;
-        let lastEnd = 0;
-
-        const italicRegex = /\*([^*]+)\*/g;
-        let match;
-
-        while ((match = italicRegex.exec(text)) !== null) {
-          if (match.index > lastEnd) {
-            const beforeText = text.substring(lastEnd, match.index);
-            const scriptParts = processScriptNotation(beforeText);
-            italicParts.push(
-              <Text key={`before-${italicIndex}`} style={{ fontStyle: "normal" }}>
-                {scriptParts.map((sp, si) => {
-                  if (sp.type === 'subscript') {
-                    return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}>{sp.text}</Text>;
-                  }
-                  if (sp.type === 'superscript') {
-                    return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}>{sp.text}</Text>;
-                  }
-                  return <Text key={si}>{sp.text}</Text>;
-                })}
-              </Text>
-            );
-          }
-
-          const italicContent = match[1];
-          const scriptParts = processScriptNotation(italicContent);
-
-          italicParts.push(
-            <Text key={`italic-${italicIndex}`} style={{ fontStyle: "italic" }}>
-              {scriptParts.map((sp, si) => {
-                if (sp.type === 'subscript') {
-                  return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}>{sp.text}</Text>;
-                }
-                if (sp.type === 'superscript') {
-                  return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}>{sp.text}</Text>;
-                }
-                return <Text key={si}>{sp.text}</Text>;
-              })}
-            </Text>
-          );
-
-          lastEnd = match.index + match[0].length;
-          italicIndex++;
-        }
-
-        if (lastEnd < text.length) {
-          const remainingText = text.substring(lastEnd);
-          const scriptParts = processScriptNotation(remainingText);
-          italicParts.push(
-            <Text key={`remaining-${italicIndex}`} style={{ fontStyle: "normal" }}>
-              {scriptParts.map((sp, si) => {
-                if (sp.type === 'subscript') {
-                  return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}>{sp.text}</Text>;
-                }
-                if (sp.type === 'superscript') {
-                  return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}>{sp.text}</Text>;
-                }
-                return <Text key={si}>{sp.text}</Text>;
-              })}
-            </Text>
-          );
-        }
-
-        if (italicParts.length === 0) {
-          const scriptParts = processScriptNotation(text);
-          return scriptParts.map((sp, si) => {
-            if (sp.type === 'subscript') {
-              return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 1.2 }}>{sp.text}</Text>;
-            }
-            if (sp.type === 'superscript') {
-              return <Text key={si} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}>{sp.text}</Text>;
-            }
-            return <Text key={si}>{sp.text}</Text>;
-          });
-        }
-
-        return italicParts;
-      };
-
-      while (remainingText.length > 0) {
-        const fractionIndex = remainingText.indexOf("{");
-
-        if (fractionIndex === -1) {
-          highlightedParts.push(
-            <Text
-              key={`${index}-${partIndex}`}
-              className="font-bold"
-              style={{
-                ...baseTextStyle,
-                color: part.color || defaultTextColor,
-                textDecorationLine: part.underline ? "underline" : "none",
-                flexShrink: 1,
-              }}
-            >
-              {parseItalicsAndScripts(remainingText)}
-            </Text>
-          );
-          break;
-        }
-
-        if (fractionIndex > 0) {
-          const preText = remainingText.substring(0, fractionIndex);
-          highlightedParts.push(
-            <Text
-              key={`${index}-${partIndex}`}
-              className="font-bold"
-              style={{
-                ...baseTextStyle,
-                color: part.color || defaultTextColor,
-                textDecorationLine: part.underline ? "underline" : "none",
-                flexShrink: 1,
-              }}
-            >
-              {parseItalicsAndScripts(preText)}
-            </Text>
-          );
-          partIndex++;
-        }
-
-        const closeBrace = remainingText.indexOf("}", fractionIndex);
-        if (closeBrace !== -1) {
-          const fractionContent = remainingText.substring(fractionIndex + 1, closeBrace);
-          const slashIndex = fractionContent.indexOf("/");
-
-          if (slashIndex !== -1) {
-            const numerator = fractionContent.substring(0, slashIndex).trim();
-            const denominator = fractionContent.substring(slashIndex + 1).trim();
-            highlightedParts.push(
-              <Fraction
-                key={`${index}-${partIndex}`}
-                numerator={numerator}
-                denominator={denominator}
-                size={size}
-                textColor={part.color || defaultTextColor}
-                highlighted={true}
-              />
-            );
-            partIndex++;
-            remainingText = remainingText.substring(closeBrace + 1);
-          } else {
-            highlightedParts.push(
-              <Text
-                key={`${index}-${partIndex}`}
-                className="font-bold"
-                style={{
-                  fontSize,
-                  lineHeight: fontSize * 1.4,
-                  color: part.color || defaultTextColor,
-                  textDecorationLine: part.underline ? "underline" : "none",
-                  flexShrink: 1,
-                }}
-              >
-                {remainingText.substring(0, closeBrace + 1)}
-              </Text>
-            );
-            partIndex++;
-            remainingText = remainingText.substring(closeBrace + 1);
-          }
-        } else {
-          highlightedParts.push(
-            <Text
-              key={`${index}-${partIndex}`}
-              className="font-bold"
-              style={{
-                fontSize,
-                lineHeight: fontSize * 1.4,
-                color: part.color || defaultTextColor,
-                textDecorationLine: part.underline ? "underline" : "none",
-                flexShrink: 1,
-              }}
-            >
-              {remainingText}
-            </Text>
-          );
-          break;
-        }
-      }
-
-      return <React.Fragment key={index}>{highlightedParts}</React.Fragment>;
-    }
-
-    // Handle subscripts/superscripts in regular text
-    const scriptParts = processScriptNotation(part.content);
-
-    return (
-      <Text
-        key={index}
-        style={{
-          ...baseTextStyle,
-          color: defaultTextColor,
-        }}
-      >
-        {scriptParts.map((scriptPart, scriptIndex) => {
-          if (scriptPart.type === 'subscript') {
-            return (
-              <Text
-                key={scriptIndex}
-                style={{
-                  fontSize: fontSize * 0.7,
-                  lineHeight: fontSize * 1.2,
-                }}
-              >
-                {scriptPart.text}
-              </Text>
-            );
-          }
-          if (scriptPart.type === 'superscript') {
-            return (
-              <Text
-                key={scriptIndex}
-                style={{
-                  fontSize: fontSize * 0.7,
-                  lineHeight: fontSize * 0.8,
-                }}
-              >
-                {scriptPart.text}
-              </Text>
-            );
-          }
-          return <Text key={scriptIndex}>{scriptPart.text}</Text>;
-        })}
-      </Text>
-    );
-  };
-
-  // For complex content (fractions, arrows, images), use View-based layout with horizontal scroll
-  // CRITICAL: Using flexWrap: 'nowrap' and horizontal scroll prevents mid-expression breaking
-  // This keeps "x + 17" together instead of breaking into "x" and "+ 17" on separate lines
-  // NOTE: This code path is only reached for image content now (shouldUseInlineRendering handles everything else)
-
-  // If there are images, use regular layout (images need full width)
-  return (
-    <View style={{ flexDirection: "row", flexWrap: "wrap", alignItems: "center" }}>
-      {groupedParts.map((part, index) => renderPart(part, index))}
-    </View>
-  );
+  return renderLine(nodes);
 }
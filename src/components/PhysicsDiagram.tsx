@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from "react";
+import { View, type LayoutChangeEvent } from "react-native";
+import {
+  Canvas,
+  Path,
+  Circle,
+  Group,
+  RoundedRect,
+  Skia,
+  DashPathEffect,
+  type SkPath,
+} from "@shopify/react-native-skia";
+import type { PhysicsDiagram as PhysicsDiagramSpec, PhysicsVectorKind } from "../types/homework";
+import { layoutPhysicsDiagram, type PhysicsArc } from "../engine/physicsDiagram";
+import type { Vec } from "../engine/diagram";
+import { DiagramLabel } from "./GeometryDiagram";
+import { colors } from "../utils/designSystem";
+
+interface PhysicsDiagramProps {
+  diagram: PhysicsDiagramSpec;
+}
+
+const LINE_COLOR = colors.textPrimary;
+const OBJECT_FILL = "#e0e7ff";
+
+/** Arrow colors, matching the MathText highlight of the same name */
+const VECTOR_COLORS: Record<PhysicsVectorKind, { hex: string; name: string }> = {
+  force: { hex: "#ef4444", name: "red" },
+  velocity: { hex: "#10b981", name: "green" },
+  acceleration: { hex: "#a855f7", name: "purple" },
+};
+
+function polylinesPath(polylines: Vec[][], close = false): SkPath {
+  const path = Skia.Path.Make();
+  for (const points of polylines) {
+    points.forEach((point, index) => {
+      if (index === 0) path.moveTo(point.x, point.y);
+      else path.lineTo(point.x, point.y);
+    });
+    if (close) path.close();
+  }
+  return path;
+}
+
+function arcsPath(arcs: PhysicsArc[]): SkPath {
+  const path = Skia.Path.Make();
+  for (const { center, radius, startAngle, sweepAngle } of arcs) {
+    const oval = { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+    path.addArc(oval, startAngle, sweepAngle);
+  }
+  return path;
+}
+
+/**
+ * PhysicsDiagram - Draws a step's "physicsDiagram" JSON (surfaces, objects,
+ * pulleys, ropes and force / velocity / acceleration vectors) with Skia.
+ * Layout is computed by engine/physicsDiagram, so arrow directions and
+ * labels match the step's equations.
+ */
+export function PhysicsDiagram({ diagram }: PhysicsDiagramProps) {
+  const [width, setWidth] = useState(0);
+  const layout = useMemo(() => (width > 0 ? layoutPhysicsDiagram(diagram, width) : null), [diagram, width]);
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View
+      onLayout={handleLayout}
+      className="rounded-2xl bg-white mb-3"
+      style={{ width: "100%", height: layout?.height ?? 220, borderWidth: 1, borderColor: colors.border }}
+    >
+      {layout && (
+        <>
+          <Canvas style={{ width: layout.width, height: layout.height }}>
+            {/* Surfaces */}
+            <Path path={polylinesPath(layout.inclines, true)} color={colors.surfaceAlt} />
+            <Path path={polylinesPath(layout.inclines, true)} style="stroke" strokeWidth={2} color={LINE_COLOR} />
+            <Path path={polylinesPath(layout.lines)} style="stroke" strokeWidth={2} color={LINE_COLOR} />
+            <Path path={polylinesPath(layout.hatches)} style="stroke" strokeWidth={1} color={colors.textTertiary} />
+            {layout.tracks.map((track, index) => (
+              <Circle
+                key={`track-${index}`}
+                cx={track.center.x}
+                cy={track.center.y}
+                r={track.radius}
+                style="stroke"
+                strokeWidth={2}
+                color={LINE_COLOR}
+              />
+            ))}
+
+            {/* Ropes and pulleys */}
+            <Path path={polylinesPath(layout.ropes)} style="stroke" strokeWidth={1.5} color={colors.textSecondary} />
+            {layout.pulleys.map((pulley, index) => (
+              <Group key={`pulley-${index}`}>
+                <Circle cx={pulley.center.x} cy={pulley.center.y} r={pulley.radius} color="#e2e8f0" />
+                <Circle
+                  cx={pulley.center.x}
+                  cy={pulley.center.y}
+                  r={pulley.radius}
+                  style="stroke"
+                  strokeWidth={2}
+                  color={LINE_COLOR}
+                />
+                <Circle cx={pulley.center.x} cy={pulley.center.y} r={2.5} color={LINE_COLOR} />
+              </Group>
+            ))}
+
+            {/* Objects */}
+            {layout.objects.map((object) => {
+              const { center, size } = object;
+              if (object.shape === "box") {
+                return (
+                  <Group
+                    key={`object-${object.id}`}
+                    origin={center}
+                    transform={[{ rotate: (object.rotation * Math.PI) / 180 }]}
+                  >
+                    <RoundedRect
+                      x={center.x - size / 2}
+                      y={center.y - size / 2}
+                      width={size}
+                      height={size}
+                      r={4}
+                      color={OBJECT_FILL}
+                    />
+                    <RoundedRect
+                      x={center.x - size / 2}
+                      y={center.y - size / 2}
+                      width={size}
+                      height={size}
+                      r={4}
+                      style="stroke"
+                      strokeWidth={2}
+                      color={colors.primary}
+                    />
+                  </Group>
+                );
+              }
+              return (
+                <Group key={`object-${object.id}`}>
+                  <Circle
+                    cx={center.x}
+                    cy={center.y}
+                    r={size / 2}
+                    color={object.shape === "ball" ? OBJECT_FILL : LINE_COLOR}
+                  />
+                  {object.shape === "ball" && (
+                    <Circle
+                      cx={center.x}
+                      cy={center.y}
+                      r={size / 2}
+                      style="stroke"
+                      strokeWidth={2}
+                      color={colors.primary}
+                    />
+                  )}
+                </Group>
+              );
+            })}
+
+            {/* Angles */}
+            <Path
+              path={polylinesPath(layout.referenceLines)}
+              style="stroke"
+              strokeWidth={1}
+              color={colors.textTertiary}
+            >
+              <DashPathEffect intervals={[4, 3]} />
+            </Path>
+            <Path path={arcsPath(layout.arcs)} style="stroke" strokeWidth={1.5} color={colors.textSecondary} />
+
+            {/* Vectors */}
+            {layout.vectors.map((vector, index) => (
+              <Group key={`vector-${index}`}>
+                <Path
+                  path={polylinesPath([[vector.from, vector.to]])}
+                  style="stroke"
+                  strokeWidth={2.5}
+                  strokeCap="round"
+                  color={VECTOR_COLORS[vector.kind].hex}
+                />
+                <Path path={polylinesPath([vector.head], true)} color={VECTOR_COLORS[vector.kind].hex} />
+              </Group>
+            ))}
+          </Canvas>
+
+          {layout.objects.map((object) =>
+            object.label ? (
+              <DiagramLabel key={`object-${object.id}`} text={object.label} position={object.labelPosition} />
+            ) : null
+          )}
+          {layout.arcs.map((arc, index) =>
+            arc.label ? <DiagramLabel key={`arc-${index}`} text={arc.label} position={arc.labelPosition} /> : null
+          )}
+          {layout.vectors.map((vector, index) => (
+            <DiagramLabel
+              key={`vector-${index}`}
+              text={vector.label}
+              position={vector.labelPosition}
+              color={VECTOR_COLORS[vector.kind].name}
+            />
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useMemo } from "react";
+import { View, Text, ScrollView, type TextStyle } from "react-native";
+import { buildPunnettSquare, formatRatio, formatPercent } from "../engine/genetics";
+import { colors } from "../utils/designSystem";
+
+interface PunnettSquareProps {
+  /** Text inside [PUNNETT: ...] */
+  spec: string;
+}
+
+/** Gamete colors, matching the MathText highlight of the same name */
+const COLUMN_GAMETE_COLOR = "#3b82f6";
+const ROW_GAMETE_COLOR = "#a855f7";
+
+/** Cell tints by phenotype, in ratio order (dominant phenotype first) */
+const PHENOTYPE_TINTS = ["#eef2ff", "#ecfdf5", "#fff7ed", "#fdf2f8"];
+
+const CELL_SIZE = 56;
+const HEADER_SIZE = 40;
+
+/** Beyond a 4 × 4 grid the cells keep their width and the grid scrolls sideways */
+const MAX_FITTED_COLUMNS = 4;
+
+/**
+ * Allele text with its superscripts raised: "X^R^Y", "I^A^i"
+ */
+function AlleleText({ text, style }: { text: string; style: TextStyle }) {
+  const fontSize = style.fontSize ?? 14;
+  return (
+    <Text style={style}>
+      {text.split(/\^([^^]+)\^/).map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} style={{ fontSize: fontSize * 0.7, lineHeight: fontSize * 0.8 }}>
+            {part}
+          </Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+}
+
+/** Width a cell needs for its longest genotype (superscripts are narrower) */
+function cellWidthFor(labels: string[]): number {
+  const longest = Math.max(...labels.map((label) => label.replace(/\^/g, "").length));
+  return Math.max(CELL_SIZE, longest * 11 + 12);
+}
+
+/**
+ * PunnettSquare - Draws the grid for a [PUNNETT: ...] cross with the
+ * genotype and phenotype ratios underneath. Everything is computed by
+ * engine/genetics from the parent genotypes, so the ratios always match
+ * the grid. A spec that can't be read is shown as written.
+ */
+export function PunnettSquare({ spec }: PunnettSquareProps) {
+  const square = useMemo(() => buildPunnettSquare(spec), [spec]);
+  if (!square) return <UnreadableCross spec={spec} />;
+
+  const total = square.cells.length * square.cells[0].length;
+  // Small crosses fill the width; a 4 × 4 dihybrid grid keeps square cells; an 8 × 8 one scrolls
+  const scrolls = square.columnGametes.length > MAX_FITTED_COLUMNS;
+  const cellWidth = cellWidthFor([...square.columnGametes, ...square.cells.flat()]);
+  const cellStyle = {
+    flex: scrolls ? undefined : 1,
+    width: scrolls ? cellWidth : undefined,
+    minWidth: square.columnGametes.length > 2 ? cellWidth : undefined,
+    height: CELL_SIZE,
+    alignItems: "center" as const,
+    justifyContent: "center" as const,
+    borderLeftWidth: 1,
+    borderColor: colors.border,
+  };
+  const phenotypeLabels = square.phenotypes.map((entry) => entry.label);
+  const tintOf = (genotype: string) =>
+    PHENOTYPE_TINTS[Math.max(phenotypeLabels.indexOf(square.phenotypeOf[genotype]), 0) % PHENOTYPE_TINTS.length];
+
+  return (
+    <View
+      className="rounded-2xl bg-white mb-3"
+      style={{ width: "100%", padding: 12, borderWidth: 1, borderColor: colors.border }}
+    >
+      <AlleleText
+        text={`${square.parents[0]} × ${square.parents[1]}`}
+        style={{ fontSize: 14, fontWeight: "700", color: colors.textPrimary, marginBottom: 8 }}
+      />
+
+      <ScrollView
+        horizontal
+        scrollEnabled={scrolls}
+        showsHorizontalScrollIndicator={scrolls}
+        contentContainerStyle={{ flexGrow: 1 }}
+      >
+        <View
+          style={{
+            flex: 1,
+            borderWidth: 1,
+            borderColor: colors.border,
+            borderRadius: 8,
+            overflow: "hidden",
+          }}
+        >
+          <View style={{ flexDirection: "row", backgroundColor: colors.surfaceAlt }}>
+            <View style={{ width: HEADER_SIZE, height: HEADER_SIZE }} />
+            {square.columnGametes.map((gamete, column) => (
+              <View key={column} style={{ ...cellStyle, height: HEADER_SIZE }}>
+                <AlleleText text={gamete} style={{ fontSize: 16, fontWeight: "700", color: COLUMN_GAMETE_COLOR }} />
+              </View>
+            ))}
+          </View>
+
+          {square.cells.map((row, rowIndex) => (
+            <View key={rowIndex} style={{ flexDirection: "row", borderTopWidth: 1, borderColor: colors.border }}>
+              <View
+                style={{
+                  width: HEADER_SIZE,
+                  alignItems: "center",
+                  justifyContent: "center",
+                  backgroundColor: colors.surfaceAlt,
+                }}
+              >
+                <AlleleText
+                  text={square.rowGametes[rowIndex]}
+                  style={{ fontSize: 16, fontWeight: "700", color: ROW_GAMETE_COLOR }}
+                />
+              </View>
+              {row.map((genotype, column) => (
+                <View key={column} style={{ ...cellStyle, backgroundColor: tintOf(genotype) }}>
+                  <AlleleText text={genotype} style={{ fontSize: 16, fontWeight: "600", color: colors.textPrimary }} />
+                </View>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={{ marginTop: 10 }}>
+        <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 4 }}>
+          <Text style={{ fontWeight: "700", color: colors.textPrimary }}>Genotypes: </Text>
+          <AlleleText
+            text={`${square.genotypes.map((entry) => entry.label).join(" : ")} = ${formatRatio(square.genotypes)}`}
+            style={{ fontSize: 14 }}
+          />
+        </Text>
+        <Text style={{ fontSize: 14, color: colors.textSecondary }}>
+          <Text style={{ fontWeight: "700", color: colors.textPrimary }}>Phenotypes: </Text>
+          <AlleleText
+            text={square.phenotypes.map((entry) => `${entry.label} ${formatPercent(entry, total)}`).join(" : ")}
+            style={{ fontSize: 14 }}
+          />
+          {` (${formatRatio(square.phenotypes)})`}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+/**
+ * A cross the grid can't be built for (four or more genes, a typo) - shown
+ * as written so the step still says what was crossed
+ */
+function UnreadableCross({ spec }: PunnettSquareProps) {
+  return (
+    <View
+      className="rounded-2xl bg-white mb-3"
+      style={{ width: "100%", padding: 12, borderWidth: 1, borderColor: colors.border }}
+    >
+      <Text style={{ fontSize: 14, fontWeight: "700", color: colors.textPrimary, marginBottom: 4 }}>
+        Punnett square
+      </Text>
+      <AlleleText text={spec} style={{ fontSize: 16, color: colors.textPrimary }} />
+      <Text style={{ fontSize: 13, color: colors.textSecondary, marginTop: 6 }}>
+        This cross cannot be drawn as a grid.
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { HomeworkSolution } from "../types/homework";
+import { describeLintLocation, lintSolution } from "../utils/solutionLint";
+import { responsiveSpacing, responsiveTypography } from "../utils/responsive";
+
+interface SolutionLintPanelProps {
+  solution: HomeworkSolution;
+}
+
+const SEVERITY_COLORS = { error: "#b91c1c", warning: "#b45309" };
+
+/**
+ * SolutionLintPanel - Development-only overlay listing the formatting rule
+ * violations lintSolution finds in the rendered solution (slash fractions,
+ * "*" multiplication, leaked markers...). Tap to expand.
+ * Renders nothing in production builds or when the solution is clean.
+ */
+export function SolutionLintPanel({ solution }: SolutionLintPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isDev = typeof __DEV__ !== "undefined" ? __DEV__ : false;
+  const violations = useMemo(() => (isDev ? lintSolution(solution) : []), [isDev, solution]);
+
+  if (violations.length === 0) return null;
+
+  const errors = violations.filter((violation) => violation.severity === "error").length;
+  const color = errors > 0 ? SEVERITY_COLORS.error : SEVERITY_COLORS.warning;
+
+  return (
+    <View
+      className="rounded-2xl bg-white"
+      style={{
+        marginTop: responsiveSpacing.xl,
+        padding: responsiveSpacing.md,
+        borderWidth: 1,
+        borderColor: color,
+        borderStyle: "dashed",
+      }}
+    >
+      <Pressable onPress={() => setIsExpanded((expanded) => !expanded)}>
+        {({ pressed }) => (
+          <View className="flex-row items-center" style={{ gap: 6, opacity: pressed ? 0.7 : 1 }}>
+            <Ionicons name="bug" size={16} color={color} />
+            <Text style={{ flex: 1, fontSize: 13, fontWeight: "600", color }}>
+              DEV lint: {violations.length} formatting {violations.length === 1 ? "issue" : "issues"}
+              {errors > 0 ? ` (${errors} ${errors === 1 ? "error" : "errors"})` : ""}
+            </Text>
+            <Ionicons name={isExpanded ? "chevron-up" : "chevron-down"} size={14} color={color} />
+          </View>
+        )}
+      </Pressable>
+
+      {isExpanded && (
+        <View style={{ marginTop: responsiveSpacing.sm, gap: responsiveSpacing.xs }}>
+          {violations.map((violation, idx) => (
+            <Text key={idx} style={{ ...responsiveTypography.bodySmall, color: "#374151" }}>
+              <Text style={{ fontWeight: "700", color: SEVERITY_COLORS[violation.severity] }}>
+                {describeLintLocation(violation.location)} · {violation.rule}:{" "}
+              </Text>
+              {violation.message}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { VerificationReport, VerificationStatus } from "../types/homework";
+import { responsiveSpacing, responsiveTypography } from "../utils/responsive";
+
+interface VerificationBadgeProps {
+  report?: VerificationReport;
+}
+
+const BADGES: Record<
+  VerificationStatus,
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string; description: string }
+> = {
+  verified: {
+    label: "Verified",
+    icon: "shield-checkmark",
+    color: "#047857",
+    description: "A second check confirmed this answer matches what the question asks.",
+  },
+  corrected: {
+    label: "Corrected",
+    icon: "construct",
+    color: "#b45309",
+    description: "The first answer failed the check, so it was solved again with the problems below fixed.",
+  },
+  unverified: {
+    label: "Not checked",
+    icon: "help-circle",
+    color: "#4b5563",
+    description: "This answer could not be double-checked. Review it carefully.",
+  },
+  failed: {
+    label: "Check failed",
+    icon: "alert-circle",
+    color: "#b91c1c",
+    description: "The answer was solved again, but the new answer still fails the check. Don't rely on it.",
+  },
+};
+
+/**
+ * VerificationBadge - Shows whether the answer was verified, corrected, left
+ * unchecked or still failed the check. Tap to see what the verifier found. A warning icon marks
+ * unit problems found by the dimensional analysis.
+ * Renders nothing for solutions saved before verification reports existed.
+ */
+export function VerificationBadge({ report }: VerificationBadgeProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!report) return null;
+
+  const badge = BADGES[report.status];
+  const unitWarnings = report.unitWarnings ?? [];
+  const chemistryWarnings = report.chemistryWarnings ?? [];
+  const hasWarnings = unitWarnings.length > 0 || chemistryWarnings.length > 0;
+  const details = [
+    { label: "Question asks for", value: report.questionAsking },
+    { label: "Answer gives", value: report.solutionProvides },
+    { label: "Units", value: report.dimensionalAnalysis },
+  ].filter((detail): detail is { label: string; value: string } => !!detail.value);
+
+  const toggle = () => {
+    Haptics.selectionAsync();
+    setIsExpanded((expanded) => !expanded);
+  };
+
+  return (
+    <View className="items-center" style={{ marginTop: responsiveSpacing.sm }}>
+      <Pressable onPress={toggle}>
+        {({ pressed }) => (
+          <View
+            className="flex-row items-center bg-white"
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 6,
+              borderRadius: 999,
+              gap: 6,
+              opacity: pressed ? 0.7 : 1,
+            }}
+          >
+            <Ionicons name={badge.icon} size={16} color={badge.color} />
+            <Text style={{ fontSize: 13, fontWeight: "600", color: badge.color }}>{badge.label}</Text>
+            {hasWarnings && <Ionicons name="warning" size={14} color="#b45309" />}
+            <Ionicons name={isExpanded ? "chevron-up" : "chevron-down"} size={14} color={badge.color} />
+          </View>
+        )}
+      </Pressable>
+
+      {isExpanded && (
+        <View
+          className="self-stretch"
+          style={{
+            marginTop: responsiveSpacing.md,
+            padding: responsiveSpacing.md,
+            borderRadius: 16,
+            backgroundColor: "rgba(255, 255, 255, 0.18)",
+            gap: responsiveSpacing.xs,
+          }}
+        >
+          <Text style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>{badge.description}</Text>
+          {report.error && (
+            <Text style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>Reason: {report.error}</Text>
+          )}
+          {report.checkedLocally && (
+            <Text style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>
+              The answer was also plugged back into the problem and checks out.
+            </Text>
+          )}
+          {unitWarnings.map((warning, idx) => (
+            <Text key={`unit-${idx}`} style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>
+              ⚠ Units: {warning}
+            </Text>
+          ))}
+          {chemistryWarnings.map((warning, idx) => (
+            <Text key={`chemistry-${idx}`} style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>
+              ⚠ Chemistry: {warning}
+            </Text>
+          ))}
+          {report.issues.map((issue, idx) => (
+            <Text key={idx} style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>
+              • {issue}
+            </Text>
+          ))}
+          {details.map((detail) => (
+            <Text key={detail.label} style={{ ...responsiveTypography.bodySmall, color: "#ffffff" }}>
+              <Text style={{ fontWeight: "700" }}>{detail.label}: </Text>
+              {detail.value}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
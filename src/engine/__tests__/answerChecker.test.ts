@@ -0,0 +1,154 @@
+/**
+ * Unit Tests for the Local Answer Checker
+ *
+ * These tests verify the checker only fails answers it can read with confidence:
+ * - Wrong values for a one-variable equation are flagged, right ones pass
+ * - Rounded answers pass within their written precision
+ * - App notation ({a/b}, ^n^, ×, [color:...]) is understood
+ * - Anything ambiguous (systems, word problems, "4x = 16", given values like "If x = 5") is skipped
+ *
+ * Run with: bun src/engine/__tests__/answerChecker.test.ts
+ */
+
+import { checkFinalAnswer, toPlainMath } from "../answerChecker";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Linear equations", () => {
+  test("passes a correct answer", () => {
+    expect(checkFinalAnswer("Solve for x: 2x + 5 = 13", "x = 4").status).toBe("passed");
+  });
+
+  test("fails a wrong answer and explains the substitution", () => {
+    const result = checkFinalAnswer("Solve for x: 2x + 5 = 13", "x = 5");
+    expect(result.status).toBe("failed");
+    if (result.status === "failed") {
+      expect(result.issues).toEqual([
+        "x = 5 does not satisfy 2x + 5 = 13 (substituting it back in gives 15 on the left and 13 on the right)",
+      ]);
+    }
+  });
+
+  test("handles parentheses, negatives and implicit multiplication", () => {
+    expect(checkFinalAnswer("Solve for x: 3(x - 2) = 2x + 1.", "x = 7").status).toBe("passed");
+    expect(checkFinalAnswer("Solve 2x - 7 = -1", "x = 3").status).toBe("passed");
+    expect(checkFinalAnswer("Solve 2x - 7 = -1", "x = -3").status).toBe("failed");
+  });
+
+  test("reads the value out of a sentence with units", () => {
+    expect(checkFinalAnswer("Solve 5x = 20", "The answer is x = 4 cm").status).toBe("passed");
+  });
+
+  test("accepts a bare numeric answer", () => {
+    expect(checkFinalAnswer("Solve for y: y/2 = 6", "12").status).toBe("passed");
+  });
+});
+
+describe("Quadratic equations", () => {
+  test("passes both roots", () => {
+    expect(checkFinalAnswer("Solve for x: x^2^ - 5x + 6 = 0", "x = 2 or x = 3").status).toBe("passed");
+    expect(checkFinalAnswer("Solve for x: x^2^ - 5x + 6 = 0", "x = 2, 3").status).toBe("passed");
+  });
+
+  test("fails when one of the listed roots is wrong", () => {
+    const result = checkFinalAnswer("Solve for x: x^2^ - 5x + 6 = 0", "x = 2, 4");
+    expect(result.status).toBe("failed");
+    if (result.status === "failed") {
+      expect(result.issues.length).toBe(1);
+    }
+  });
+
+  test("expands ± into both values", () => {
+    expect(checkFinalAnswer("Solve x² = 9", "x = ±3").status).toBe("passed");
+    expect(checkFinalAnswer("Solve x² = 9", "x = ±4").status).toBe("failed");
+  });
+
+  test("accepts rounded roots within their written precision", () => {
+    expect(checkFinalAnswer("Solve x² = 2", "x ≈ ±1.41").status).toBe("passed");
+    expect(checkFinalAnswer("Solve x² = 2", "x ≈ ±1.5").status).toBe("failed");
+  });
+});
+
+describe("App notation", () => {
+  test("converts fractions, exponents and operators", () => {
+    expect(toPlainMath("{x/3} + 2^3^ × 4 − 1")).toBe("((x)/(3)) + 2^(3) * 4 - 1");
+  });
+
+  test("treats a mixed number as a sum", () => {
+    expect(toPlainMath("2 {1/2}")).toBe("(2+1/2)");
+  });
+
+  test("strips color highlights and italic variables", () => {
+    expect(toPlainMath("[red:*x*] = [blue:9]")).toBe("x = 9");
+  });
+
+  test("checks answers written in app notation", () => {
+    expect(checkFinalAnswer("Solve {x/3} + 2 = 5", { parts: ["[red:*x*] = 9"] }).status).toBe("passed");
+    expect(checkFinalAnswer("Solve 4x = 2", "**x = {1/2}**").status).toBe("passed");
+  });
+});
+
+describe("Arithmetic", () => {
+  test("passes a correct result", () => {
+    expect(checkFinalAnswer("Calculate 3 × {1/2} + 4", "5.5").status).toBe("passed");
+    expect(checkFinalAnswer("What is 2^10^?", "1,024").status).toBe("passed");
+  });
+
+  test("compares the value after the last equals sign", () => {
+    expect(checkFinalAnswer("Calculate 3 × {1/2} + 4", "3 × {1/2} + 4 = 6").status).toBe("failed");
+  });
+});
+
+describe("Skipped (never a false alarm)", () => {
+  test("skips problems that are not a bare expression", () => {
+    expect(checkFinalAnswer("Find 3/4 of 20", "15").status).toBe("skipped");
+    expect(checkFinalAnswer("A train travels 60 miles in 2 hours. What is its speed?", "30 mph").status).toBe(
+      "skipped"
+    );
+  });
+
+  test("skips equations with more than one variable", () => {
+    expect(checkFinalAnswer("Solve 2x + 3y = 6", "x = 3").status).toBe("skipped");
+  });
+
+  test("does not read 4x = 16 as a value for x", () => {
+    expect(checkFinalAnswer("If 2x + 3 = 11, what is 4x?", "4x = 16").status).toBe("skipped");
+    expect(checkFinalAnswer("If 2x + 3 = 11, what is 4x?", "x = 4, so 4x = 16").status).toBe("passed");
+  });
+
+  test("does not read a bare value as the variable when something else is asked", () => {
+    expect(checkFinalAnswer("If 2x + 3 = 7, what is x + 5?", "7").status).toBe("skipped");
+    expect(checkFinalAnswer("A number x satisfies 3x + 2 = 11. Find x + 1.", "4").status).toBe("skipped");
+    expect(checkFinalAnswer("Solve 2x + 1 = 7. Then compute 3x - 1.", "8").status).toBe("skipped");
+  });
+
+  test("still reads a bare value when the variable itself is asked for", () => {
+    expect(checkFinalAnswer("A number x satisfies 3x + 2 = 11. Find x.", "3").status).toBe("passed");
+    expect(checkFinalAnswer("What is x if 2x + 3 = 7?", "5").status).toBe("failed");
+  });
+
+  test("skips inequalities", () => {
+    expect(checkFinalAnswer("Solve 2x + 3 > 7", "x > 2").status).toBe("skipped");
+  });
+
+  test("treats given values as given when the question asks to evaluate", () => {
+    expect(checkFinalAnswer("If x = 5, what is 2x + 3?", "13").status).toBe("skipped");
+    expect(checkFinalAnswer("Given a = 4, evaluate a^2^ + 1", "17").status).toBe("skipped");
+    expect(checkFinalAnswer("Let n = 7. Compute n choose 2.", "21").status).toBe("skipped");
+    expect(checkFinalAnswer("If 5 = y, what is y + 1?", "y = 6").status).toBe("skipped");
+  });
+
+  test("still checks an equation next to a given value", () => {
+    expect(checkFinalAnswer("If y = 3, what is x when 2x + 1 = 9?", "x = 4").status).toBe("passed");
+    expect(checkFinalAnswer("If y = 3, what is x when 2x + 1 = 9?", "x = 5").status).toBe("failed");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Answer Checker");
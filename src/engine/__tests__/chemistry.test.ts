@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Chemistry
+ *
+ * These tests verify:
+ * - Formulas in app, plain and Unicode notation (groups, hydrates, charges)
+ * - Molar masses from the periodic table
+ * - Reactions are read out of step text and checked for balance
+ * - Balancing finds the smallest whole-number coefficients (including redox)
+ * - Unbalanced final answers fail the local answer check
+ * - The generated atom-count step
+ *
+ * Run with: bun src/engine/__tests__/chemistry.test.ts
+ */
+
+import {
+  parseFormula,
+  molarMass,
+  parseReaction,
+  isBalanced,
+  balanceReaction,
+  formatReaction,
+  checkSolutionChemistry,
+  buildBalancingStep,
+} from "../chemistry";
+import { checkFinalAnswer } from "../answerChecker";
+import type { HomeworkSolution } from "../../types/homework";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function balanced(text: string): string | null {
+  const reaction = parseReaction(text);
+  const result = reaction && balanceReaction(reaction);
+  return result ? formatReaction(result) : null;
+}
+
+function solutionWith(...equations: string[]): HomeworkSolution {
+  return {
+    problem: "",
+    steps: equations.map((equation, index) => ({ id: `step-${index}`, title: "", rawEquation: equation })),
+    finalAnswer: "",
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Formulas", () => {
+  test("reads subscripts and parenthesized groups", () => {
+    expect(parseFormula("Ca(OH)_2_")?.atoms).toEqual({ Ca: 1, O: 2, H: 2 });
+    expect(parseFormula("K_4_[Fe(CN)_6_]")?.atoms).toEqual({ K: 4, Fe: 1, C: 6, N: 6 });
+  });
+
+  test("reads plain and Unicode subscripts", () => {
+    expect(parseFormula("H2SO4")?.atoms).toEqual({ H: 2, S: 1, O: 4 });
+    expect(parseFormula("H₂SO₄")?.atoms).toEqual({ H: 2, S: 1, O: 4 });
+  });
+
+  test("reads hydrates", () => {
+    expect(parseFormula("CuSO_4_·5H_2_O")?.atoms).toEqual({ Cu: 1, S: 1, O: 9, H: 10 });
+  });
+
+  test("reads charges and drops state symbols", () => {
+    expect(parseFormula("SO_4_^2-^")?.charge).toBe(-2);
+    expect(parseFormula("Fe^3+^(aq)")?.charge).toBe(3);
+    expect(parseFormula("NH₄⁺")?.charge).toBe(1);
+  });
+
+  test("tells Co (cobalt) from CO (carbon monoxide)", () => {
+    expect(parseFormula("Co")?.atoms).toEqual({ Co: 1 });
+    expect(parseFormula("CO")?.atoms).toEqual({ C: 1, O: 1 });
+  });
+
+  test("rejects unknown elements and plain words", () => {
+    expect(parseFormula("Xy_2_")).toBe(null);
+    expect(parseFormula("mol")).toBe(null);
+  });
+
+  test("computes molar masses", () => {
+    expect(molarMass("H_2_O") ?? 0).toBeCloseTo(18.015, 0.01);
+    expect(molarMass("H_2_SO_4_") ?? 0).toBeCloseTo(98.07, 0.01);
+    expect(molarMass("Ca(OH)_2_") ?? 0).toBeCloseTo(74.09, 0.01);
+  });
+});
+
+describe("Reactions", () => {
+  test("reads a reaction out of a line of prose", () => {
+    const reaction = parseReaction("Balanced equation: 2H_2_ + O_2_ → 2H_2_O (balanced).");
+    expect(reaction && formatReaction(reaction)).toBe("2H_2_ + O_2_ → 2H_2_O");
+  });
+
+  test("reads highlighted coefficients and ignores heat", () => {
+    const reaction = parseReaction("CH_4_ + [red:2]O_2_ → CO_2_ + [red:2]H_2_O + heat");
+    expect(reaction !== null && isBalanced(reaction)).toBe(true);
+  });
+
+  test("checks charge as well as atoms", () => {
+    const reaction = parseReaction("Fe^3+^ + e^-^ → Fe^2+^");
+    expect(reaction !== null && isBalanced(reaction)).toBe(true);
+    const wrong = parseReaction("Fe^3+^ → Fe^2+^");
+    expect(wrong !== null && isBalanced(wrong)).toBe(false);
+  });
+
+  test("leaves math arrows alone", () => {
+    expect(parseReaction("x → 0")).toBe(null);
+    expect(parseReaction("n = 2 mol → m = 36 g")).toBe(null);
+  });
+});
+
+describe("Balancing", () => {
+  test("balances combustion", () => {
+    expect(balanced("C_3_H_8_ + O_2_ → CO_2_ + H_2_O")).toBe("C_3_H_8_ + 5O_2_ → 3CO_2_ + 4H_2_O");
+  });
+
+  test("balances a redox reaction with charges", () => {
+    expect(balanced("MnO_4_^-^ + Fe^2+^ + H^+^ → Mn^2+^ + Fe^3+^ + H_2_O")).toBe(
+      "MnO_4_^-^ + 5Fe^2+^ + 8H^+^ → Mn^2+^ + 5Fe^3+^ + 4H_2_O"
+    );
+  });
+
+  test("gives up when the species can't be balanced", () => {
+    expect(balanced("H_2_O → CO_2_")).toBe(null);
+  });
+});
+
+describe("Solution checks", () => {
+  test("fails an unbalanced reaction in the final answer", () => {
+    const result = checkFinalAnswer("Balance: Fe + O2 → Fe2O3", "Fe + O_2_ → Fe_2_O_3_");
+    expect(result.status).toBe("failed");
+    expect(result.status === "failed" && result.issues[0].includes("4Fe + 3O₂ → 2Fe₂O₃")).toBe(true);
+  });
+
+  test("passes a balanced reaction in the final answer", () => {
+    expect(checkFinalAnswer("Balance: Fe + O2 → Fe2O3", { parts: ["4Fe + 3O_2_ → 2Fe_2_O_3_"] }).status).toBe(
+      "passed"
+    );
+  });
+
+  test("warns about unbalanced reactions and wrong molar masses in steps", () => {
+    const warnings = checkSolutionChemistry(
+      solutionWith("M(H_2_O) = 2(1.008) + 16.00 = 20.02 g/mol", "H_2_ + O_2_ → H_2_O")
+    );
+    expect(warnings.length).toBe(2);
+    expect(warnings[0].startsWith("Step 1: the molar mass of H₂O is 18.02 g/mol")).toBe(true);
+    expect(warnings[1].startsWith("Step 2: H₂ + O₂ → H₂O is not balanced")).toBe(true);
+  });
+
+  test("accepts rounded molar masses", () => {
+    expect(checkSolutionChemistry(solutionWith("molar mass of CO_2_ is 44 g/mol")).length).toBe(0);
+  });
+});
+
+describe("Balancing step", () => {
+  test("counts every element after the step with the balanced reaction", () => {
+    const steps = [
+      { equation: "Fe + O_2_ → Fe_2_O_3_" },
+      { equation: "4Fe + 3O_2_ → 2Fe_2_O_3_" },
+      { equation: "n(Fe_2_O_3_) = 2.0 mol" },
+    ];
+    const balancing = buildBalancingStep(steps, "4.0 mol");
+    expect(balancing?.position).toBe(2);
+    expect(balancing?.step.equation.split("\n")).toEqual([
+      "4Fe + 3O_2_ → 2Fe_2_O_3_",
+      "Fe: 4 × 1 = [blue:4] on the left, 2 × 2 = [blue:4] on the right",
+      "O: 3 × 2 = [blue:6] on the left, 2 × 3 = [blue:6] on the right",
+    ]);
+  });
+
+  test("is skipped when there is no reaction", () => {
+    expect(buildBalancingStep([{ equation: "2x + 5 = 13" }], "x = 4")).toBe(null);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Chemistry");
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Geometry Diagrams
+ *
+ * These tests verify:
+ * - Diagrams are scaled to fit with their proportions kept and y pointing up
+ * - Labels are placed outside the figure
+ * - Angle arcs take the interior angle; right angles get a square mark
+ * - Elements that refer to unknown points are left out
+ * - A malformed diagram is dropped without failing the step
+ *
+ * Run with: bun src/engine/__tests__/diagram.test.ts
+ */
+
+import { layoutDiagram, diagramHeight } from "../diagram";
+import { SolutionStepSchema } from "../../utils/solutionSchema";
+import type { GeometryDiagram } from "../../types/homework";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SIZE = { width: 364, height: 300 };
+
+// 3-4-5 right triangle with the right angle at A
+const TRIANGLE: GeometryDiagram = {
+  points: [
+    { id: "A", x: 0, y: 0 },
+    { id: "B", x: 4, y: 0 },
+    { id: "C", x: 0, y: 3 },
+  ],
+  segments: [
+    { from: "A", to: "B", label: "4 cm" },
+    { from: "B", to: "C", label: "5 cm" },
+    { from: "C", to: "A", label: "3 cm" },
+  ],
+  angles: [
+    { at: "A", from: "B", to: "C", right: true },
+    { at: "B", from: "C", to: "A", label: "37°" },
+  ],
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Scaling", () => {
+  test("fits the figure with one scale for both axes and y pointing up", () => {
+    const layout = layoutDiagram(TRIANGLE, SIZE);
+    const [a, b, c] = layout.points.map((point) => point.position);
+    // 300px wide drawable area / 4 units = 75 px per unit, limited by width
+    expect(b.x - a.x).toBeCloseTo(300);
+    expect(a.y - c.y).toBeCloseTo(225);
+    expect(a.y > c.y).toBe(true);
+  });
+
+  test("centers the figure", () => {
+    const layout = layoutDiagram(TRIANGLE, SIZE);
+    const ys = layout.points.map((point) => point.position.y);
+    const top = Math.min(...ys);
+    const bottom = Math.max(...ys);
+    expect(top).toBeCloseTo(SIZE.height - bottom);
+  });
+
+  test("follows the figure's proportions for the canvas height", () => {
+    expect(diagramHeight(TRIANGLE, 364)).toBeCloseTo(289);
+    const flat: GeometryDiagram = { points: [{ id: "A", x: 0, y: 0 }, { id: "B", x: 10, y: 0 }] };
+    expect(diagramHeight(flat, 364)).toBe(160);
+  });
+});
+
+describe("Labels", () => {
+  test("puts point labels outside the figure", () => {
+    const layout = layoutDiagram(TRIANGLE, SIZE);
+    const a = layout.points[0];
+    expect(a.labelPosition.x < a.position.x).toBe(true);
+    expect(a.labelPosition.y > a.position.y).toBe(true);
+  });
+
+  test("puts side labels on the outer side of each segment", () => {
+    const layout = layoutDiagram(TRIANGLE, SIZE);
+    const [bottom, hypotenuse] = layout.segments;
+    expect(bottom.label).toBe("4 cm");
+    expect(bottom.labelPosition.y > bottom.from.y).toBe(true);
+    // Hypotenuse label goes up and to the right, away from the right angle
+    const midpoint = { x: (hypotenuse.from.x + hypotenuse.to.x) / 2, y: (hypotenuse.from.y + hypotenuse.to.y) / 2 };
+    expect(hypotenuse.labelPosition.x > midpoint.x).toBe(true);
+    expect(hypotenuse.labelPosition.y < midpoint.y).toBe(true);
+  });
+
+  test("hides a point label set to an empty string", () => {
+    const diagram: GeometryDiagram = { points: [{ id: "A", x: 0, y: 0, label: "" }, { id: "B", x: 1, y: 1 }] };
+    expect(layoutDiagram(diagram, SIZE).points.map((point) => point.label)).toEqual(["", "B"]);
+  });
+});
+
+describe("Angles", () => {
+  test("draws a square mark for a right angle", () => {
+    const [right] = layoutDiagram(TRIANGLE, SIZE).angles;
+    expect(right.right).toBe(true);
+    expect(right.corner.length).toBe(3);
+    expect(right.corner[1].x - right.vertex.x).toBeCloseTo(11);
+    expect(right.vertex.y - right.corner[1].y).toBeCloseTo(11);
+  });
+
+  test("sweeps the interior angle", () => {
+    const [, arc] = layoutDiagram(TRIANGLE, SIZE).angles;
+    expect(arc.right).toBe(false);
+    expect(Math.abs(arc.sweepAngle)).toBeCloseTo(36.87, 0.01);
+    expect(arc.label).toBe("37°");
+  });
+});
+
+describe("Robustness", () => {
+  test("leaves out elements that refer to unknown points", () => {
+    const layout = layoutDiagram(
+      {
+        points: [{ id: "A", x: 0, y: 0 }, { id: "B", x: 2, y: 0 }],
+        segments: [{ from: "A", to: "B" }, { from: "A", to: "Z" }],
+        angles: [{ at: "A", from: "B", to: "Q" }],
+        circles: [{ center: "Q", radius: 1 }],
+      },
+      SIZE
+    );
+    expect(layout.segments.length).toBe(1);
+    expect(layout.angles.length).toBe(0);
+    expect(layout.circles.length).toBe(0);
+  });
+
+  test("sizes a circle from a point it passes through", () => {
+    const layout = layoutDiagram(
+      { points: [{ id: "O", x: 0, y: 0 }, { id: "P", x: 3, y: 4 }], circles: [{ center: "O", through: "P" }] },
+      SIZE
+    );
+    // Diameter 10 units fills the 236px drawable height
+    expect(layout.circles[0].radius).toBeCloseTo(118);
+  });
+
+  test("drops a malformed diagram but keeps the step", () => {
+    const result = SolutionStepSchema.safeParse({ title: "Draw", equation: "x = 1", diagram: { points: "ABC" } });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.diagram).toBe(undefined);
+  });
+
+  test("keeps a valid diagram on the step", () => {
+    const result = SolutionStepSchema.safeParse({ title: "Draw", diagram: TRIANGLE });
+    expect(result.success && result.data.diagram?.segments?.length).toBe(3);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Diagram");
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Question Fingerprints
+ *
+ * These tests verify:
+ * - Text questions match regardless of case and whitespace, and differ when the wording does
+ * - Image questions are keyed by the photo and the selected problem number
+ * - The solve prompt version is part of the key
+ *
+ * Run with: bun src/engine/__tests__/fingerprint.test.ts
+ */
+
+import { getQuestionFingerprint, hashString, normalizeQuestionText } from "../fingerprint";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Text questions", () => {
+  test("normalizes case and whitespace", () => {
+    expect(normalizeQuestionText("  Solve  2x=8\n")).toBe("solve 2x=8");
+    expect(getQuestionFingerprint({ kind: "text", text: "Solve  2x=8 " })).toBe(
+      getQuestionFingerprint({ kind: "text", text: "solve 2x=8" })
+    );
+  });
+
+  test("gives different questions different keys", () => {
+    const first = getQuestionFingerprint({ kind: "text", text: "Solve 2x = 8" });
+    expect(first === getQuestionFingerprint({ kind: "text", text: "Solve 2x = 9" })).toBe(false);
+  });
+});
+
+describe("Image questions", () => {
+  test("keys by the photo and the problem number", () => {
+    const photo = { kind: "image" as const, imageBase64: "aGVsbG8=" };
+    const first = getQuestionFingerprint({ ...photo, problemNumber: "3" });
+    expect(first).toBe(getQuestionFingerprint({ ...photo, problemNumber: " 3 " }));
+    expect(first === getQuestionFingerprint({ ...photo, problemNumber: "4" })).toBe(false);
+    expect(first === getQuestionFingerprint({ ...photo, imageBase64: "d29ybGQ=", problemNumber: "3" })).toBe(false);
+  });
+
+  test("never matches a text question", () => {
+    expect(getQuestionFingerprint({ kind: "text", text: "aGVsbG8=" }).includes(":text:")).toBe(true);
+    expect(getQuestionFingerprint({ kind: "image", imageBase64: "aGVsbG8=" }).includes(":image:")).toBe(true);
+  });
+});
+
+describe("Prompt versions", () => {
+  test("includes the resolved solve prompt id", () => {
+    const question = { kind: "text" as const, text: "Solve 2x = 8" };
+    expect(getQuestionFingerprint(question).startsWith("v2:solve.text@2:")).toBe(true);
+    expect(getQuestionFingerprint(question, { "solve.text": 1 }).startsWith("v2:solve.text@1:")).toBe(true);
+    expect(getQuestionFingerprint({ kind: "image", imageBase64: "aGVsbG8=" }).startsWith("v2:solve.image@1:")).toBe(
+      true
+    );
+  });
+
+  test("ignores pins for prompts the question doesn't use", () => {
+    const question = { kind: "text" as const, text: "Solve 2x = 8" };
+    expect(getQuestionFingerprint(question, { verify: 1, "solve.image": 1 })).toBe(getQuestionFingerprint(question));
+  });
+});
+
+describe("Hashing", () => {
+  test("is stable and fixed-length", () => {
+    expect(hashString("solve 2x=8")).toBe(hashString("solve 2x=8"));
+    expect(hashString("").length).toBe(28);
+    expect(hashString("a") === hashString("b")).toBe(false);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Fingerprint");
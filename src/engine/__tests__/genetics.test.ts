@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for Genetics
+ *
+ * These tests verify:
+ * - Genotypes and crosses parse from [PUNNETT: ...] specs (trait names optional)
+ * - Gametes cover every allele combination
+ * - The grid and the genotype / phenotype ratios for mono-, di- and trihybrid crosses
+ * - X-linked, codominant and multiple-allele crosses
+ * - Unreadable crosses give null instead of a wrong grid
+ *
+ * Run with: bun src/engine/__tests__/genetics.test.ts
+ */
+
+import { parseGenotype, parseCross, gametes, buildPunnettSquare, formatRatio, formatPercent } from "../genetics";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cross(spec: string) {
+  const square = buildPunnettSquare(spec);
+  if (!square) throw new Error(`Could not cross "${spec}"`);
+  return square;
+}
+
+/** "TT 1, Tt 2, tt 1" */
+function summary(entries: { label: string; count: number }[]): string {
+  return entries.map((entry) => `${entry.label} ${entry.count}`).join(", ");
+}
+
+// =============================================================================
+// TEST SUITE 1: Parsing
+// =============================================================================
+
+describe("Parsing", () => {
+  test("reads genotypes gene by gene, dominant allele first", () => {
+    expect(parseGenotype("Tt")).toEqual([{ gene: "t", alleles: ["T", "t"] }]);
+    expect(parseGenotype("aABb")).toEqual([
+      { gene: "a", alleles: ["A", "a"] },
+      { gene: "b", alleles: ["B", "b"] },
+    ]);
+  });
+
+  test("rejects mismatched letters, repeats and more than three genes", () => {
+    expect(parseGenotype("Ab")).toBe(null);
+    expect(parseGenotype("AaAa")).toBe(null);
+    expect(parseGenotype("T")).toBe(null);
+    expect(parseGenotype("AaBbCcDd")).toBe(null);
+  });
+
+  test("reads superscripted alleles and the Y chromosome", () => {
+    expect(parseGenotype("X^r^X^R^")).toEqual([{ gene: "X", alleles: ["X^R^", "X^r^"] }]);
+    expect(parseGenotype("YX^R^")).toEqual([{ gene: "X", alleles: ["X^R^", "Y"] }]);
+    expect(parseGenotype("iI^A^")).toEqual([{ gene: "i", alleles: ["I^A^", "i"] }]);
+    expect(parseGenotype("YyRr")).toEqual([
+      { gene: "y", alleles: ["Y", "y"] },
+      { gene: "r", alleles: ["R", "r"] },
+    ]);
+  });
+
+  test("reads the cross sign in any common form and trait names", () => {
+    expect(parseCross("Tt × tt")?.parents.length).toBe(2);
+    expect(parseCross("Tt * tt")?.parents.length).toBe(2);
+    expect(parseCross("Tt X tt")?.parents.length).toBe(2);
+    expect(parseCross("Tt x tt; T: tall; t = short")?.traits).toEqual({ T: "tall", t: "short" });
+  });
+
+  test("rejects parents with different genes", () => {
+    expect(parseCross("Aa x Bb")).toBe(null);
+    expect(parseCross("AaBb x Aa")).toBe(null);
+    expect(parseCross("Tt")).toBe(null);
+    expect(parseCross("X^R^Y x X^r^Y")).toBe(null);
+    expect(buildPunnettSquare("y = 2x + 1")).toBe(null);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 2: Gametes
+// =============================================================================
+
+describe("Gametes", () => {
+  test("lists one allele per gene in every combination", () => {
+    expect(gametes(parseGenotype("AaBb")!)).toEqual(["AB", "Ab", "aB", "ab"]);
+    expect(gametes(parseGenotype("TT")!)).toEqual(["T", "T"]);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 3: Crosses
+// =============================================================================
+
+describe("Crosses", () => {
+  test("Tt x Tt gives 1 : 2 : 1 genotypes and 3 : 1 phenotypes", () => {
+    const square = cross("Tt x Tt");
+    expect(square.cells).toEqual([
+      ["TT", "Tt"],
+      ["Tt", "tt"],
+    ]);
+    expect(summary(square.genotypes)).toBe("TT 1, Tt 2, tt 1");
+    expect(formatRatio(square.genotypes)).toBe("1 : 2 : 1");
+    expect(summary(square.phenotypes)).toBe("T_ 3, tt 1");
+    expect(formatRatio(square.phenotypes)).toBe("3 : 1");
+  });
+
+  test("parent 1 runs across the top, parent 2 down the side", () => {
+    const square = cross("TT x tt");
+    expect(square.columnGametes).toEqual(["T", "T"]);
+    expect(square.rowGametes).toEqual(["t", "t"]);
+    expect(square.parents).toEqual(["TT", "tt"]);
+  });
+
+  test("names phenotypes with the given traits", () => {
+    const square = cross("Tt x tt; T: tall; t: short");
+    expect(summary(square.phenotypes)).toBe("tall 2, short 2");
+    expect(square.phenotypeOf.tt).toBe("short");
+  });
+
+  test("AaBb x AaBb gives the 9 : 3 : 3 : 1 phenotype ratio", () => {
+    const square = cross("AaBb x AaBb");
+    expect(square.cells.length).toBe(4);
+    expect(square.genotypes.length).toBe(9);
+    expect(formatRatio(square.genotypes)).toBe("1 : 2 : 1 : 2 : 4 : 2 : 1 : 2 : 1");
+    expect(summary(square.phenotypes)).toBe("A_B_ 9, A_bb 3, aaB_ 3, aabb 1");
+  });
+
+  test("a dihybrid test cross gives four equal phenotypes", () => {
+    const square = cross("AaBb x aabb");
+    expect(formatRatio(square.phenotypes)).toBe("1 : 1 : 1 : 1");
+    expect(square.cells[3]).toEqual(["AaBb", "Aabb", "aaBb", "aabb"]);
+  });
+
+  test("AaBbCc x AaBbCc gives an 8 × 8 grid and 27 : 9 : 9 : 9 : 3 : 3 : 3 : 1", () => {
+    const square = cross("AaBbCc x AaBbCc");
+    expect(square.cells.length).toBe(8);
+    expect(square.genotypes.length).toBe(27);
+    expect(summary(square.phenotypes.slice(0, 2))).toBe("A_B_C_ 27, A_B_cc 9");
+    expect(formatRatio(square.phenotypes)).toBe("27 : 9 : 9 : 3 : 9 : 3 : 3 : 1");
+  });
+});
+
+describe("X-linked crosses", () => {
+  test("a carrier mother and a dominant father give affected sons only", () => {
+    const square = cross("X^R^X^r^ x X^R^Y");
+    expect(square.columnGametes).toEqual(["X^R^", "X^r^"]);
+    expect(square.rowGametes).toEqual(["X^R^", "Y"]);
+    expect(square.cells).toEqual([
+      ["X^R^X^R^", "X^R^X^r^"],
+      ["X^R^Y", "X^r^Y"],
+    ]);
+    expect(summary(square.phenotypes)).toBe("X^R^_ 2, X^R^Y 1, X^r^Y 1");
+  });
+
+  test("names phenotypes with the sex", () => {
+    const square = cross("X^R^X^r^ x X^r^Y; R: red eyes; r: white eyes");
+    expect(summary(square.phenotypes)).toBe(
+      "red eyes female 1, white eyes female 1, red eyes male 1, white eyes male 1"
+    );
+  });
+});
+
+describe("Multiple alleles", () => {
+  test("I^A^i x I^B^i gives all four blood types", () => {
+    const square = cross("I^A^i x I^B^i; A: A; B: B; i: O");
+    expect(square.cells).toEqual([
+      ["I^A^I^B^", "I^B^i"],
+      ["I^A^i", "ii"],
+    ]);
+    expect(summary(square.phenotypes)).toBe("A and B 1, A 1, B 1, O 1");
+  });
+
+  test("codominant alleles both show without trait names", () => {
+    const square = cross("C^R^C^W^ x C^R^C^W^");
+    expect(summary(square.genotypes)).toBe("C^R^C^R^ 1, C^R^C^W^ 2, C^W^C^W^ 1");
+    expect(summary(square.phenotypes)).toBe("C^R^C^R^ 1, C^R^C^W^ 2, C^W^C^W^ 1");
+  });
+});
+
+// =============================================================================
+// TEST SUITE 4: Formatting
+// =============================================================================
+
+describe("Formatting", () => {
+  test("reduces ratios and writes percentages", () => {
+    expect(formatRatio([{ label: "a", count: 4 }, { label: "b", count: 12 }])).toBe("1 : 3");
+    expect(formatPercent({ label: "A_B_", count: 9 }, 16)).toBe("56.25%");
+    expect(formatPercent({ label: "T_", count: 3 }, 4)).toBe("75%");
+    expect(formatPercent({ label: "aaB_", count: 2 }, 16)).toBe("12.5%");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Genetics");
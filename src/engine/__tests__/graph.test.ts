@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Function Graphs
+ *
+ * These tests verify:
+ * - [GRAPH: ...] specs are read into curves, vertical lines, ranges and points
+ * - Intercepts and intersections are computed exactly (no image model guessing)
+ * - Asymptotes split sampled curves instead of joining their branches
+ * - Zooming keeps the anchor in place
+ *
+ * Run with: bun src/engine/__tests__/graph.test.ts
+ */
+
+import {
+  parseGraphSpec,
+  findKeyPoints,
+  findRoots,
+  niceTicks,
+  sampleCurve,
+  zoomRange,
+  formatCoordinate,
+  type GraphSpec,
+} from "../graph";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function parse(spec: string): GraphSpec {
+  const graph = parseGraphSpec(spec);
+  if (!graph) throw new Error(`Could not parse "${spec}"`);
+  return graph;
+}
+
+function keyPointLabels(spec: string): string[] {
+  return findKeyPoints(parse(spec)).map((point) => `${point.kind} ${point.label}`);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Spec parsing", () => {
+  test("reads a line with axis ranges", () => {
+    const graph = parse("y = 5/6 x - 6; x:-2..10; y:-8..2");
+    expect(graph.curves.length).toBe(1);
+    expect(graph.curves[0].label).toBe("y = 5/6 x - 6");
+    expect(graph.curves[0].evaluate(6)).toBe(-1);
+    expect(graph.xRange).toEqual({ min: -2, max: 10 });
+    expect(graph.yRange).toEqual({ min: -8, max: 2 });
+  });
+
+  test("reads app notation, function names and bare expressions", () => {
+    const graph = parse("f(x) = x^2^ - 4; sin(x); y = |x|");
+    expect(graph.curves.map((curve) => curve.label)).toEqual(["f(x) = x^2^ - 4", "y = sin(x)", "y = |x|"]);
+    expect(graph.curves[0].evaluate(3)).toBe(5);
+    expect(graph.curves[2].evaluate(-2)).toBe(2);
+  });
+
+  test("reads vertical lines, points and 'a to b' ranges", () => {
+    const graph = parse("y = 2x; x = 3; x: -1 to 5; points: (1, 2) A, (4, 0)");
+    expect(graph.verticalLines).toEqual([3]);
+    expect(graph.xRange).toEqual({ min: -1, max: 5 });
+    expect(graph.givenPoints.map((point) => point.label)).toEqual(["A (1, 2)", "(4, 0)"]);
+  });
+
+  test("fits the y range to the curve when it is omitted", () => {
+    const graph = parse("y = x^2; x:-3..3");
+    expect(graph.yRange.min < 0).toBe(true);
+    expect(graph.yRange.max >= 9).toBe(true);
+  });
+
+  test("returns null when there is nothing to plot", () => {
+    expect(parseGraphSpec("x:-2..10; y:-8..2")).toBe(null);
+    expect(parseGraphSpec("y = banana")).toBe(null);
+  });
+});
+
+describe("Key points", () => {
+  test("finds both intercepts of a line exactly", () => {
+    expect(keyPointLabels("y = 5/6 x - 6; x:-2..10")).toEqual(["y-intercept (0, -6)", "x-intercept (7.2, 0)"]);
+  });
+
+  test("finds both roots of a parabola and a touching double root", () => {
+    expect(keyPointLabels("y = x^2 - 4")).toEqual(["y-intercept (0, -4)", "x-intercept (-2, 0)", "x-intercept (2, 0)"]);
+    expect(keyPointLabels("y = (x - 1)^2; x:-5..5")).toEqual(["y-intercept (0, 1)", "x-intercept (1, 0)"]);
+  });
+
+  test("finds intersections of two curves", () => {
+    const labels = keyPointLabels("y = x^2; y = x + 2; x:-5..5");
+    expect(labels.includes("intersection (-1, 1)")).toBe(true);
+    expect(labels.includes("intersection (2, 4)")).toBe(true);
+  });
+
+  test("does not report asymptotes as roots", () => {
+    expect(findRoots((x) => 1 / x, { min: -5, max: 5 })).toEqual([]);
+    expect(findRoots(Math.tan, { min: -3, max: 3 }).map(formatCoordinate)).toEqual(["0"]);
+  });
+
+  test("lists vertical lines and given points", () => {
+    expect(keyPointLabels("x = 3; points: (1, 2) A")).toEqual(["x-intercept (3, 0)", "given A (1, 2)"]);
+  });
+});
+
+describe("Plotting helpers", () => {
+  test("chooses round tick steps", () => {
+    expect(niceTicks({ min: -2, max: 10 })).toEqual([-2, 0, 2, 4, 6, 8, 10]);
+    expect(niceTicks({ min: 0, max: 1 }, 5)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+  });
+
+  test("splits curves at asymptotes", () => {
+    const graph = parse("y = 1/x; x:-5..5; y:-5..5");
+    const segments = sampleCurve(graph.curves[0], graph.xRange, graph.yRange, { width: 400, height: 300 });
+    expect(segments.length).toBe(2);
+  });
+
+  test("keeps the anchor in place when zooming", () => {
+    const zoomed = zoomRange({ min: -10, max: 10 }, 2, 4);
+    expect(zoomed).toEqual({ min: -3, max: 7 });
+  });
+
+  test("formats coordinates without noise", () => {
+    expect(formatCoordinate(7.199999999)).toBe("7.2");
+    expect(formatCoordinate(-0.0001)).toBe("0");
+    expect(formatCoordinate(1 / 3)).toBe("0.33");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Graph");
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for the LaTeX Bridge
+ *
+ * These tests verify:
+ * - LaTeX from model output becomes app notation ({a/b}, ^x^, _x_, √, [matrix: ...])
+ * - App notation that is already present passes through untouched
+ * - Step equations convert to LaTeX for "Copy as LaTeX"
+ *
+ * Run with: bun src/engine/__tests__/latex.test.ts
+ */
+
+import { appNotationToLatex, latexToAppNotation } from "../latex";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("LaTeX to app notation", () => {
+  test("converts fractions and scripts", () => {
+    expect(latexToAppNotation("$\\frac{1}{2}mv^{2}$")).toBe("{1/2}mv^2^");
+    expect(latexToAppNotation("v_{0} + a t")).toBe("v_0_ + a t");
+    expect(latexToAppNotation("\\frac{\\frac{1}{2}}{3}")).toBe("{{1/2}/3}");
+  });
+
+  test("converts roots", () => {
+    expect(latexToAppNotation("\\sqrt{2}")).toBe("√2");
+    expect(latexToAppNotation("\\sqrt{b^2 - 4ac}")).toBe("√(b^2^ - 4ac)");
+    expect(latexToAppNotation("\\sqrt[3]{x+1}")).toBe("∛(x+1)");
+  });
+
+  test("keeps sums and integrals with their limits", () => {
+    expect(latexToAppNotation("\\sum_{i=1}^{n} i")).toBe("Σ_i=1_^n^ i");
+    expect(latexToAppNotation("\\int_0^1 x\\,dx")).toBe("∫_0_^1^ x dx");
+  });
+
+  test("converts matrices and determinants", () => {
+    expect(latexToAppNotation("\\begin{pmatrix} 1 & 2 \\\\ 3 & 4 \\end{pmatrix}")).toBe("[matrix: 1, 2; 3, 4]");
+    expect(latexToAppNotation("\\begin{vmatrix} a & b \\\\ c & d \\end{vmatrix}")).toBe("det[matrix: a, b; c, d]");
+  });
+
+  test("writes Greek letters and functions as words", () => {
+    expect(latexToAppNotation("\\sin\\theta = 0.5")).toBe("sin theta = 0.5");
+    expect(latexToAppNotation("90^\\circ")).toBe("90°");
+  });
+
+  test("unwraps text, colors and sizing commands", () => {
+    expect(latexToAppNotation("\\text{Speed} = 5\\text{ m/s}")).toBe("Speed = 5 m/s");
+    expect(latexToAppNotation("\\textcolor{red}{x = 4}")).toBe("[red:x = 4]");
+    expect(latexToAppNotation("\\left| x - 3 \\right| = 5")).toBe("| x - 3 | = 5");
+  });
+
+  test("puts aligned rows on separate lines", () => {
+    expect(latexToAppNotation("\\begin{aligned} x &= 2 \\\\ y &= 3 \\end{aligned}")).toBe("x = 2\ny = 3");
+  });
+
+  test("leaves app notation and money alone", () => {
+    expect(latexToAppNotation("x^2^ + \\frac{1}{2}")).toBe("x^2^ + {1/2}");
+    expect(latexToAppNotation("v_0_ = \\alpha t")).toBe("v_0_ = alpha t");
+    expect(latexToAppNotation("Costs $5 and $6")).toBe("Costs $5 and $6");
+  });
+});
+
+describe("App notation to LaTeX", () => {
+  test("converts the quadratic formula", () => {
+    expect(appNotationToLatex("*x* = {-*b* ± √(*b*^2^ - 4*a**c*)/2*a*}")).toBe(
+      "x = \\frac{-b \\pm \\sqrt{b^{2} - 4ac}}{2a}"
+    );
+  });
+
+  test("converts roots, degrees and sums", () => {
+    expect(appNotationToLatex("∛(27) = 3")).toBe("\\sqrt[3]{27} = 3");
+    expect(appNotationToLatex("^4^√(16) = 2")).toBe("\\sqrt[4]{16} = 2");
+    expect(appNotationToLatex("5^2^√(2) = 25√(2)")).toBe("5^{2}\\sqrt{2} = 25\\sqrt{2}");
+    expect(appNotationToLatex("30°")).toBe("30^{\\circ}");
+    expect(appNotationToLatex("Σ_i=1_^n^ i")).toBe("\\sum_{i=1}^{n} i");
+  });
+
+  test("drops colors and keeps units in math mode", () => {
+    expect(appNotationToLatex("[red:*x* = 4]")).toBe("x = 4");
+    expect(appNotationToLatex("v = 9.8 m/s²")).toBe("v = 9.8 m/s^{2}");
+    expect(appNotationToLatex("F_net_ = 20 N")).toBe("F_{\\text{net}} = 20 N");
+  });
+
+  test("turns Greek words and functions into commands", () => {
+    expect(appNotationToLatex("sin theta = 0.5")).toBe("\\sin \\theta = 0.5");
+  });
+
+  test("converts matrices", () => {
+    expect(appNotationToLatex("[matrix: 1, 2; 3, 4]")).toBe("\\begin{bmatrix} 1 & 2 \\\\ 3 & 4 \\end{bmatrix}");
+  });
+
+  test("converts tables with a ruled header and drops Punnett markers", () => {
+    expect(appNotationToLatex("[TABLE: x | y; 1 | 2]")).toBe("\\begin{array}{c|c} x & y \\\\ \\hline 1 & 2 \\end{array}");
+    expect(appNotationToLatex("[PUNNETT: Tt x Tt]\n*x* = 2")).toBe("x = 2");
+  });
+
+  test("aligns multi-line work on the equals sign", () => {
+    expect(appNotationToLatex("Subtract 5 from both sides:\n2*x* = 8\n*x* = 4")).toBe(
+      "\\begin{aligned}\n&\\text{Subtract }5\\text{ from both sides:} \\\\\n2x &= 8 \\\\\nx &= 4\n\\end{aligned}"
+    );
+  });
+
+  test("round-trips through latexToAppNotation", () => {
+    const app = "KE = {1/2}mv^2^";
+    expect(latexToAppNotation(appNotationToLatex(app))).toBe(app);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("LaTeX Bridge");
@@ -0,0 +1,183 @@
+/**
+ * Unit Tests for Physics Diagrams
+ *
+ * These tests verify:
+ * - Normal force, friction and weight follow the incline they act on
+ * - Arrows of the same kind are drawn to scale from their magnitudes
+ * - A rope over a pulley hangs straight down to a mass below it
+ * - Arrows pointing the same way on one object don't overlap
+ * - Angle labels get an arc from the reference axis
+ * - A malformed diagram is dropped without failing the step
+ *
+ * Run with: bun src/engine/__tests__/physicsDiagram.test.ts
+ */
+
+import { layoutPhysicsDiagram } from "../physicsDiagram";
+import { length, normalize, sub, toDegrees, type Vec } from "../diagram";
+import { SolutionStepSchema } from "../../utils/solutionSchema";
+import type { PhysicsDiagram } from "../../types/homework";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const WIDTH = 360;
+
+/** Screen direction of an arrow in degrees, counterclockwise from +x with y up */
+function arrowAngle(from: Vec, to: Vec): number {
+  const direction = normalize(sub(to, from));
+  return toDegrees(Math.atan2(-direction.y, direction.x));
+}
+
+// Block halfway up a 30° incline
+const INCLINE: PhysicsDiagram = {
+  surfaces: [{ type: "incline", angle: 30, length: 5 }],
+  objects: [{ id: "block", label: "m", incline: 0.5 }],
+  vectors: [
+    { on: "block", label: "mg", direction: "down", magnitude: 19.6 },
+    { on: "block", label: "N", direction: "normal", magnitude: 17 },
+    { on: "block", label: "f", direction: "upSlope", magnitude: 5 },
+  ],
+};
+
+// Atwood-style setup: a block on the ground tied over a pulley to a hanging mass
+const PULLEY: PhysicsDiagram = {
+  surfaces: [{ type: "ground", y: 0 }],
+  objects: [
+    { id: "A", label: "m_1_", x: 0, y: 0 },
+    { id: "B", label: "m_2_", x: 3, y: -1.5 },
+  ],
+  pulleys: [{ id: "P", x: 3, y: 0.4 }],
+  ropes: [{ from: "A", to: "B", over: "P" }],
+  vectors: [{ on: "B", label: "T", direction: "alongRope" }],
+};
+
+// Ball at the top of a loop
+const LOOP: PhysicsDiagram = {
+  surfaces: [{ type: "circle", x: 0, y: 0, radius: 2.7 }],
+  objects: [{ id: "ball", shape: "ball", circle: 90 }],
+  vectors: [
+    { on: "ball", label: "N", direction: "towardCenter" },
+    { on: "ball", label: "mg", direction: "down" },
+    { on: "ball", kind: "velocity", label: "v", direction: "tangent" },
+  ],
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Inclines", () => {
+  test("rotates the block onto the slope", () => {
+    const layout = layoutPhysicsDiagram(INCLINE, WIDTH);
+    expect(Math.abs(layout.objects[0].rotation)).toBeCloseTo(30);
+  });
+
+  test("points the normal force perpendicular to the slope, away from it", () => {
+    const layout = layoutPhysicsDiagram(INCLINE, WIDTH);
+    const normal = layout.vectors.find((vector) => vector.label === "N")!;
+    expect(arrowAngle(normal.from, normal.to)).toBeCloseTo(120, 1);
+  });
+
+  test("points friction up the slope and weight straight down", () => {
+    const layout = layoutPhysicsDiagram(INCLINE, WIDTH);
+    const friction = layout.vectors.find((vector) => vector.label === "f")!;
+    const weight = layout.vectors.find((vector) => vector.label === "mg")!;
+    expect(arrowAngle(friction.from, friction.to)).toBeCloseTo(30, 1);
+    expect(arrowAngle(weight.from, weight.to)).toBeCloseTo(-90, 1);
+  });
+
+  test("marks the incline angle with an arc", () => {
+    const layout = layoutPhysicsDiagram(INCLINE, WIDTH);
+    expect(layout.arcs.length).toBe(1);
+    expect(Math.abs(layout.arcs[0].sweepAngle)).toBeCloseTo(30, 1);
+    expect(layout.arcs[0].label).toBe("30°");
+  });
+});
+
+describe("Vectors", () => {
+  test("draws forces to scale from their magnitudes", () => {
+    const layout = layoutPhysicsDiagram(INCLINE, WIDTH);
+    const arrowLength = (label: string) => {
+      const vector = layout.vectors.find((v) => v.label === label)!;
+      return length(sub(vector.to, vector.from));
+    };
+    expect(arrowLength("mg") > arrowLength("N")).toBe(true);
+    expect(arrowLength("N") > arrowLength("f")).toBe(true);
+  });
+
+  test("keeps arrows pointing the same way apart", () => {
+    const layout = layoutPhysicsDiagram(LOOP, WIDTH);
+    const normal = layout.vectors.find((vector) => vector.label === "N")!;
+    const weight = layout.vectors.find((vector) => vector.label === "mg")!;
+    expect(arrowAngle(normal.from, normal.to)).toBeCloseTo(-90, 1);
+    expect(arrowAngle(weight.from, weight.to)).toBeCloseTo(-90, 1);
+    expect(Math.abs(normal.from.x - weight.from.x) > 8).toBe(true);
+  });
+
+  test("draws velocity along the loop at the top", () => {
+    const layout = layoutPhysicsDiagram(LOOP, WIDTH);
+    const velocity = layout.vectors.find((vector) => vector.kind === "velocity")!;
+    expect(Math.abs(velocity.from.y - velocity.to.y)).toBeCloseTo(0, 1);
+  });
+
+  test("draws an arc and a reference line for an angle label", () => {
+    const layout = layoutPhysicsDiagram(
+      { objects: [{ id: "crate", x: 0, y: 0 }], vectors: [{ on: "crate", label: "T", angle: 30, angleLabel: "30°" }] },
+      WIDTH
+    );
+    expect(layout.arcs.length).toBe(1);
+    expect(layout.arcs[0].label).toBe("30°");
+    expect(Math.abs(layout.arcs[0].sweepAngle)).toBeCloseTo(30, 1);
+    expect(layout.referenceLines.length).toBe(1);
+  });
+});
+
+describe("Pulleys", () => {
+  test("hangs the rope straight down to a mass under the pulley", () => {
+    const layout = layoutPhysicsDiagram(PULLEY, WIDTH);
+    const rope = layout.ropes[0];
+    const [lastBend, end] = rope.slice(-2);
+    expect(Math.abs(lastBend.x - end.x)).toBeCloseTo(0, 1);
+  });
+
+  test("pulls the hanging mass up along its rope", () => {
+    const layout = layoutPhysicsDiagram(PULLEY, WIDTH);
+    const tension = layout.vectors[0];
+    expect(arrowAngle(tension.from, tension.to)).toBeCloseTo(90, 1);
+  });
+});
+
+describe("Robustness", () => {
+  test("fits the diagram to the canvas width", () => {
+    for (const diagram of [INCLINE, PULLEY, LOOP]) {
+      const layout = layoutPhysicsDiagram(diagram, WIDTH);
+      const everything = [...layout.objects.map((object) => object.center), ...layout.vectors.map((v) => v.to)];
+      expect(everything.every((point) => point.x >= 0 && point.x <= WIDTH && point.y >= 0)).toBe(true);
+      expect(everything.every((point) => point.y <= layout.height)).toBe(true);
+    }
+  });
+
+  test("leaves out vectors on unknown objects", () => {
+    const layout = layoutPhysicsDiagram({ ...INCLINE, vectors: [{ on: "ghost", label: "F" }] }, WIDTH);
+    expect(layout.vectors.length).toBe(0);
+  });
+
+  test("drops a malformed physics diagram but keeps the step", () => {
+    const result = SolutionStepSchema.safeParse({ title: "Forces", physicsDiagram: { objects: [] } });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.physicsDiagram).toBe(undefined);
+  });
+
+  test("keeps a valid physics diagram on the step", () => {
+    const result = SolutionStepSchema.safeParse({ title: "Forces", physicsDiagram: INCLINE });
+    expect(result.success && result.data.physicsDiagram?.vectors?.length).toBe(3);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Physics Diagram");
@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for the Prompt Registry
+ *
+ * These tests verify:
+ * - Every prompt has a registered default version; pinned versions are honored
+ * - "solve.text" v2 adds grade-level instructions, subject rules and only the detected subject's notes
+ * - "solve.text" v1 still renders the original prompt (all notes, history context)
+ * - Diagram and multiple-choice guidance follow the question
+ *
+ * Run with: bun src/engine/__tests__/promptRegistry.test.ts
+ */
+
+import {
+  renderPrompt,
+  getPromptTemplate,
+  listPromptTemplates,
+  DEFAULT_PROMPT_VERSIONS,
+  type PromptName,
+} from "../promptRegistry";
+import { CHEMISTRY_NOTE, GENETICS_NOTE, CALCULUS_NOTE, LEGACY_HISTORY_CONTEXT } from "../prompts";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const HISTORY_QUESTION = "What did the Emancipation Proclamation change for President Lincoln in 1863?";
+
+function solveText(question: string, version?: number): string {
+  return renderPrompt("solve.text", { question }, { "solve.text": version }).text;
+}
+
+function occurrences(text: string, part: string): number {
+  return text.split(part).length - 1;
+}
+
+// =============================================================================
+// TEST SUITE 1: Registry
+// =============================================================================
+
+describe("Registry", () => {
+  test("every prompt's default version is registered", () => {
+    for (const [name, version] of Object.entries(DEFAULT_PROMPT_VERSIONS)) {
+      expect(getPromptTemplate(name as PromptName).version).toBe(version);
+    }
+  });
+
+  test("versions of a prompt are numbered 1, 2, ... in order", () => {
+    const versions: Record<string, number[]> = {};
+    for (const template of listPromptTemplates()) {
+      (versions[template.name] ??= []).push(template.version);
+    }
+    for (const list of Object.values(versions)) {
+      expect(list).toEqual(list.map((_, index) => index + 1));
+    }
+  });
+
+  test("renders the pinned version and reports its id", () => {
+    const rendered = renderPrompt("solve.text", { question: "Solve 2x + 5 = 13" }, { "solve.text": 1 });
+    expect(rendered.id).toBe("solve.text@1");
+    expect(rendered.version).toBe(1);
+
+    const solution = { problem: "p", steps: [], finalAnswer: "1" };
+    expect(renderPrompt("verify", { originalProblem: "p", solution }).id).toBe("verify@1");
+  });
+
+  test("throws for a version that isn't registered", () => {
+    let message = "";
+    try {
+      renderPrompt("simplify", { problem: "2x = 4" }, { simplify: 99 });
+    } catch (e) {
+      message = e instanceof Error ? e.message : String(e);
+    }
+    expect(message).toBe("Unknown prompt version simplify@99");
+  });
+});
+
+// =============================================================================
+// TEST SUITE 2: Text Solve Prompt
+// =============================================================================
+
+describe("Text Solve Prompt", () => {
+  test("v2 adds the grade level detected from the question", () => {
+    const elementary = solveText("What is 5 + 3?");
+    expect(elementary.includes("**GRADE LEVEL: ELEMENTARY (K-5)**")).toBe(true);
+    const high = solveText("Find the derivative of f(x) = 3x^2 + 5x");
+    expect(high.includes("**GRADE LEVEL: HIGH SCHOOL (9-12)**")).toBe(true);
+  });
+
+  test("v2 adds the subject rules and only that subject's notes", () => {
+    const prompt = solveText("How many moles are in 36 g of water H2O? molar mass");
+    expect(prompt.includes("**DETECTED SUBJECT: CHEMISTRY**")).toBe(true);
+    expect(prompt.includes("3. **Chemical Notation**")).toBe(true);
+    expect(prompt.includes(CHEMISTRY_NOTE)).toBe(true);
+    expect(prompt.includes(GENETICS_NOTE)).toBe(false);
+    expect(prompt.includes(CALCULUS_NOTE)).toBe(false);
+  });
+
+  test("v2 sends the history question as asked", () => {
+    const prompt = solveText(HISTORY_QUESTION);
+    expect(prompt.includes(`Question: ${HISTORY_QUESTION}\n`)).toBe(true);
+    expect(prompt.includes("Xiongnu")).toBe(false);
+  });
+
+  test("v1 keeps every subject note and the history context", () => {
+    const prompt = solveText(HISTORY_QUESTION, 1);
+    expect(prompt.includes(`Question: ${HISTORY_QUESTION}${LEGACY_HISTORY_CONTEXT}\n`)).toBe(true);
+    expect(prompt.includes(CHEMISTRY_NOTE) && prompt.includes(GENETICS_NOTE)).toBe(true);
+    expect(prompt.includes("**GRADE LEVEL")).toBe(false);
+  });
+
+  test("picks the diagram guidance from the question", () => {
+    const physics = solveText("A 2 kg block slides down a 30 degree incline with friction. Find the net force.");
+    expect(physics.includes('Add a "physicsDiagram" object to Step 1')).toBe(true);
+    const geometry = solveText("Find the area of a triangle with base 6 and height 4");
+    expect(geometry.includes('You MUST add a "diagram" object to Step 1')).toBe(true);
+    const graph = solveText("Graph the equation 5x - 6y = 36 and find the slope of the line");
+    expect(graph.includes("You MUST include the [GRAPH: ...] marker")).toBe(true);
+  });
+
+  test("numerical answer choices are matched, not discussed", () => {
+    const prompt = solveText("What is the tension? A. None of these B. 1200 N C. 2400 N D. 600 N");
+    expect(prompt.includes("THIS IS A MULTIPLE CHOICE QUESTION")).toBe(true);
+    expect(prompt.includes("NUMERICAL ANSWERS DETECTED")).toBe(true);
+  });
+
+  test("every section appears once", () => {
+    const prompt = solveText("Solve 3x + 6 = 2x - 4");
+    expect(occurrences(prompt, "**CRITICAL: Two-Part Step Structure**")).toBe(1);
+    expect(occurrences(prompt, "**CRITICAL FORMATTING RULES - READ CAREFULLY**")).toBe(1);
+    expect(occurrences(prompt, "**JSON Response Format**")).toBe(1);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 3: Other Prompts
+// =============================================================================
+
+describe("Other Prompts", () => {
+  test("the photo prompt focuses on the chosen problem", () => {
+    const chosen = renderPrompt("solve.image", { problemNumber: "12b" }).text;
+    expect(chosen.includes("Focus ONLY on problem number 12b.")).toBe(true);
+    const first = renderPrompt("solve.image", {}).text;
+    expect(first.includes("Identify and solve the first problem")).toBe(true);
+  });
+
+  test("the correction prompt lists each issue with the question", () => {
+    const issues = ["Wrong units", "Wrong quantity"];
+    const text = renderPrompt("correct.text", { question: "Find the period", issues }).text;
+    expect(text.includes("ORIGINAL PROBLEM: Find the period")).toBe(true);
+    expect(text.includes("ISSUES FOUND:\nWrong units\nWrong quantity")).toBe(true);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Prompt Registry");
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for the Solution Engine
+ *
+ * These tests verify:
+ * - Verified solutions are cached and served from the cache without calling the AI again
+ * - Callers are told about a cache hit (so a repeat is not saved to History twice)
+ * - A pinned solve prompt version never reads solutions written by another version
+ * - Unverified solutions (verifier down, verification turned off) are never cached
+ * - A correction that still fails the local answer check is reported as failed, with the reason
+ *
+ * No network - the AIService is a stub. Run with: bun src/engine/__tests__/solutionEngine.test.ts
+ */
+
+import type { AIService, AITask } from "../../types/ai";
+import type { HomeworkSolution } from "../../types/homework";
+import { createSolutionEngine, type SolutionCache } from "../solutionEngine";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const QUESTION = { kind: "text" as const, text: "Why do leaves change color in the fall?" };
+
+const SOLVE_RESPONSE = JSON.stringify({
+  problem: QUESTION.text,
+  steps: [
+    {
+      title: "Chlorophyll breaks down",
+      content: "Shorter days stop the tree from making chlorophyll, so the green fades.",
+      summary: "The green pigment goes away.",
+    },
+  ],
+  finalAnswer: "The green chlorophyll breaks down and reveals yellow and orange pigments.",
+});
+
+const VERIFY_RESPONSE = JSON.stringify({
+  questionAsking: "why leaves change color",
+  solutionProvides: "chlorophyll breaks down",
+  isCorrect: true,
+  issues: [],
+});
+
+/** Answers solve calls, and verify calls unless the verifier is "down"; records every task asked for */
+function createStubAI(verifierDown = false, solveResponse = SOLVE_RESPONSE): { ai: AIService; tasks: AITask[] } {
+  const tasks: AITask[] = [];
+  const answer = async (task: AITask = "chat") => {
+    tasks.push(task);
+    if (task === "verify" && verifierDown) throw new Error("Network request failed");
+    return { content: task === "verify" ? VERIFY_RESPONSE : solveResponse, finishReason: "stop" as const };
+  };
+  return {
+    ai: { chat: (_messages, options) => answer(options?.task), complete: (_prompt, options) => answer(options?.task) },
+    tasks,
+  };
+}
+
+function createMemoryCache(): SolutionCache & { entries: Map<string, HomeworkSolution> } {
+  const entries = new Map<string, HomeworkSolution>();
+  return {
+    entries,
+    get: async (key) => entries.get(key) ?? null,
+    set: async (key, solution) => {
+      entries.set(key, solution);
+    },
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Caching", () => {
+  test("caches a verified solution and serves repeats from the cache", async () => {
+    const { ai, tasks } = createStubAI();
+    const cache = createMemoryCache();
+    const engine = createSolutionEngine({ ai, cache });
+
+    const first = await engine.solve(QUESTION);
+    expect(first.verification?.status).toBe("verified");
+    expect(cache.entries.size).toBe(1);
+
+    let cacheHits = 0;
+    const callsAfterFirst = tasks.length;
+    const second = await engine.solve(QUESTION, { onCacheHit: () => cacheHits++ });
+    expect(tasks.length).toBe(callsAfterFirst);
+    expect(second.finalAnswer).toBe(first.finalAnswer);
+    expect(cacheHits).toBe(1);
+  });
+
+  test("keeps solutions from different solve prompt versions apart", async () => {
+    const cache = createMemoryCache();
+    await createSolutionEngine({ ai: createStubAI().ai, cache }).solve(QUESTION);
+
+    const { ai, tasks } = createStubAI();
+    let cacheHits = 0;
+    const pinned = createSolutionEngine({ ai, cache, promptVersions: { "solve.text": 1 } });
+    await pinned.solve(QUESTION, { onCacheHit: () => cacheHits++ });
+    expect(cacheHits).toBe(0);
+    expect(tasks.includes("solve")).toBe(true);
+    expect(cache.entries.size).toBe(2);
+  });
+
+  test("does not cache a solution the verifier could not check", async () => {
+    const { ai, tasks } = createStubAI(true);
+    const cache = createMemoryCache();
+    const engine = createSolutionEngine({ ai, cache });
+
+    const solution = await engine.solve(QUESTION);
+    expect(solution.verification?.status).toBe("unverified");
+    expect(cache.entries.size).toBe(0);
+
+    // The next attempt goes back to the AI instead of replaying the unchecked answer
+    await engine.solve(QUESTION);
+    expect(tasks.filter((task) => task === "solve").length).toBe(2);
+  });
+
+  test("does not cache when verification is turned off", async () => {
+    const cache = createMemoryCache();
+    const engine = createSolutionEngine({ ai: createStubAI().ai, cache, verify: false });
+
+    await engine.solve(QUESTION);
+    expect(cache.entries.size).toBe(0);
+  });
+});
+
+describe("Correction", () => {
+  test("reports a correction that still fails the local check as failed", async () => {
+    const question = { kind: "text" as const, text: "Solve for x: 2x + 5 = 13" };
+    const wrongAnswer = JSON.stringify({
+      problem: question.text,
+      steps: [{ title: "Subtract 5", content: "2x = 10", summary: "Isolate the x term." }],
+      finalAnswer: "x = 5",
+    });
+    const { ai, tasks } = createStubAI(false, wrongAnswer);
+    const cache = createMemoryCache();
+
+    const solution = await createSolutionEngine({ ai, cache }).solve(question);
+    expect(tasks.filter((task) => task === "solve").length).toBe(2);
+    expect(solution.verification?.status).toBe("failed");
+    expect(solution.verification?.error).toBe("The corrected answer still does not check out");
+    expect(cache.entries.size).toBe(0);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Solution Engine");
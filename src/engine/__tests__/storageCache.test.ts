@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for the Storage-Backed Solution Cache
+ *
+ * These tests verify:
+ * - Solutions round-trip and a re-cached key moves to the newest end of the index
+ * - The oldest solutions are evicted beyond the limit, and clear() removes everything
+ * - Overlapping set() calls (a worksheet solving 3 at once) keep every key in the index
+ *
+ * No AsyncStorage - an in-memory store with slow reads stands in.
+ * Run with: bun src/engine/__tests__/storageCache.test.ts
+ */
+
+import type { HomeworkSolution } from "../../types/homework";
+import { createStorageSolutionCache, type KeyValueStorage } from "../storageCache";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** In-memory storage whose reads take a tick (and return the value from when they started) */
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => {
+      const value = items.get(key) ?? null;
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return value;
+    },
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    multiRemove: async (keys) => {
+      keys.forEach((key) => items.delete(key));
+    },
+  };
+}
+
+function solution(problem: string): HomeworkSolution {
+  return { problem, steps: [], finalAnswer: "42" };
+}
+
+function cachedKeys(storage: { items: Map<string, string> }): string[] {
+  return [...storage.items.keys()].filter((key) => key !== "solution-cache:index").sort();
+}
+
+function indexOf(storage: { items: Map<string, string> }): string[] {
+  return JSON.parse(storage.items.get("solution-cache:index") ?? "[]");
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Reading and writing", () => {
+  test("returns a cached solution and null for a miss", async () => {
+    const cache = createStorageSolutionCache(createMemoryStorage());
+    await cache.set("a", solution("Solve 2x = 8"));
+    expect((await cache.get("a"))?.problem).toBe("Solve 2x = 8");
+    expect(await cache.get("b")).toBe(null);
+  });
+
+  test("moves a re-cached key to the newest end", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache(storage);
+    await cache.set("a", solution("a"));
+    await cache.set("b", solution("b"));
+    await cache.set("a", solution("a again"));
+    expect(indexOf(storage)).toEqual(["b", "a"]);
+  });
+});
+
+describe("Eviction", () => {
+  test("evicts the oldest solutions beyond the limit", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache(storage, 2);
+    for (const key of ["a", "b", "c", "d"]) {
+      await cache.set(key, solution(key));
+    }
+    expect(indexOf(storage)).toEqual(["c", "d"]);
+    expect(cachedKeys(storage)).toEqual(["solution-cache:c", "solution-cache:d"]);
+    expect(await cache.get("a")).toBe(null);
+  });
+
+  test("clear removes every solution and the index", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache(storage);
+    await cache.set("a", solution("a"));
+    await cache.set("b", solution("b"));
+    await cache.clear();
+    expect(storage.items.size).toBe(0);
+  });
+});
+
+describe("Concurrent writes", () => {
+  test("keeps every key in the index when sets overlap", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache(storage);
+    await Promise.all(["a", "b", "c"].map((key) => cache.set(key, solution(key))));
+    expect(indexOf(storage)).toEqual(["a", "b", "c"]);
+  });
+
+  test("still evicts every old solution after overlapping sets", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache(storage, 2);
+    await Promise.all(["a", "b", "c", "d", "e"].map((key) => cache.set(key, solution(key))));
+    expect(cachedKeys(storage)).toEqual(["solution-cache:d", "solution-cache:e"]);
+  });
+
+  test("a failed write does not block the next one", async () => {
+    const storage = createMemoryStorage();
+    const cache = createStorageSolutionCache({
+      ...storage,
+      setItem: async (key, value) => {
+        if (key === "solution-cache:bad") throw new Error("Storage full");
+        await storage.setItem(key, value);
+      },
+    });
+    let failed = false;
+    await cache.set("bad", solution("bad")).catch(() => (failed = true));
+    await cache.set("good", solution("good"));
+    expect(failed).toBe(true);
+    expect(indexOf(storage)).toEqual(["good"]);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Solution Cache");
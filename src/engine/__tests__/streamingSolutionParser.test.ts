@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for the Streaming Solution Parser
+ *
+ * These tests verify steps are emitted as soon as they are complete:
+ * - Emission does not depend on how the response is chunked
+ * - Braces/brackets/quotes inside strings don't confuse the scanner
+ * - Only entries of the root "steps" array are emitted
+ * - Invalid steps are skipped; a cut-off step is never emitted
+ *
+ * Run with: bun src/engine/__tests__/streamingSolutionParser.test.ts
+ */
+
+import { createStreamingSolutionParser, normalizeLatexInJSON } from "../streamingSolutionParser";
+import type { ValidatedSolutionStep } from "../../utils/solutionSchema";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SAMPLE_RESPONSE = JSON.stringify({
+  problem: "Solve for x: 2x + 5 = 13",
+  steps: [
+    { title: "Subtract 5", equation: "2x + 5 - 5 = 13 - 5\n2x = 8", summary: "Remove the constant" },
+    { title: "Divide by 2", equation: "x = {8/2} = 4", summary: "Isolate x" },
+  ],
+  finalAnswer: "x = 4",
+});
+
+function feed(text: string, chunkSize: number) {
+  let problem = null as string | null;
+  const steps: ValidatedSolutionStep[] = [];
+  const indexes: number[] = [];
+  const parser = createStreamingSolutionParser({
+    onProblem: (p) => {
+      problem = p;
+    },
+    onStep: (step, index) => {
+      steps.push(step);
+      indexes.push(index);
+    },
+  });
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+  return { problem, steps, indexes, parser };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Step emission", () => {
+  test("emits every step when the response arrives in one chunk", () => {
+    const { steps, indexes } = feed(SAMPLE_RESPONSE, SAMPLE_RESPONSE.length);
+    expect(steps.map((s) => s.title)).toEqual(["Subtract 5", "Divide by 2"]);
+    expect(indexes).toEqual([0, 1]);
+  });
+
+  test("emits the same steps regardless of chunk size", () => {
+    for (const chunkSize of [1, 2, 3, 7, 16]) {
+      const { steps } = feed(SAMPLE_RESPONSE, chunkSize);
+      expect(steps).toEqual(JSON.parse(SAMPLE_RESPONSE).steps);
+    }
+  });
+
+  test("emits a step before the rest of the response has arrived", () => {
+    const cutoff = SAMPLE_RESPONSE.indexOf("Divide by 2");
+    const { steps } = feed(SAMPLE_RESPONSE.slice(0, cutoff), 5);
+    expect(steps.length).toBe(1);
+    expect(steps[0].title).toBe("Subtract 5");
+  });
+
+  test("does not emit a step that was cut off", () => {
+    const cutoff = SAMPLE_RESPONSE.indexOf("Isolate x");
+    const { steps } = feed(SAMPLE_RESPONSE.slice(0, cutoff), 4);
+    expect(steps.length).toBe(1);
+  });
+
+  test("reports the problem statement", () => {
+    const { problem } = feed(SAMPLE_RESPONSE, 3);
+    expect(problem).toBe("Solve for x: 2x + 5 = 13");
+  });
+
+  test("keeps the full text for the final parse", () => {
+    const { parser } = feed(SAMPLE_RESPONSE, 6);
+    expect(parser.getText()).toBe(SAMPLE_RESPONSE);
+  });
+});
+
+describe("Scanner robustness", () => {
+  test("ignores braces, brackets and escaped quotes inside strings", () => {
+    const response = JSON.stringify({
+      problem: 'Simplify {1/2} + [3] "quoted" }{',
+      steps: [{ title: "Step with } and ] and \"", equation: "{a/b} [x]" }],
+      finalAnswer: "done",
+    });
+    const { steps, problem } = feed(response, 1);
+    expect(steps.length).toBe(1);
+    expect(steps[0].title).toBe('Step with } and ] and "');
+    expect(problem).toBe('Simplify {1/2} + [3] "quoted" }{');
+  });
+
+  test("ignores a code fence before the root object", () => {
+    const { steps } = feed("```json\n" + SAMPLE_RESPONSE + "\n```", 4);
+    expect(steps.length).toBe(2);
+  });
+
+  test("only emits objects from the root steps array", () => {
+    const response = JSON.stringify({
+      problem: "p",
+      meta: { steps: [{ title: "nested" }] },
+      steps: [{ title: "real", extra: { title: "inner" } }],
+      finalAnswer: { parts: ["a", "b"] },
+    });
+    const { steps } = feed(response, 2);
+    expect(steps.map((s) => s.title)).toEqual(["real"]);
+  });
+
+  test("skips steps that fail schema validation without shifting indexes", () => {
+    const response = JSON.stringify({
+      problem: "p",
+      steps: [{ title: "" }, { title: "kept" }],
+      finalAnswer: "a",
+    });
+    const { steps, indexes } = feed(response, 3);
+    expect(steps.map((s) => s.title)).toEqual(["kept"]);
+    expect(indexes).toEqual([0]);
+  });
+
+  test("recovers steps containing stray LaTeX backslashes", () => {
+    const response = '{"problem": "p", "steps": [{"title": "Angle", "equation": "\\theta = \\frac{1}{2}"}], "finalAnswer": "a"}';
+    const { steps } = feed(response, 5);
+    expect(steps.length).toBe(1);
+    expect(steps[0].equation).toBe("theta = {1/2}");
+  });
+});
+
+describe("normalizeLatexInJSON", () => {
+  test("converts \\frac and \\text to app notation", () => {
+    expect(normalizeLatexInJSON("\\frac{3}{4} \\text{cm}")).toBe("{3/4} cm");
+  });
+
+  test("handles single and double backslashes inside JSON strings", () => {
+    expect(JSON.parse(normalizeLatexInJSON('{"e": "\\sqrt{x} \\times 2"}')).e).toBe("√x × 2");
+    expect(JSON.parse(normalizeLatexInJSON('{"e": "\\\\sqrt{x} \\\\times 2"}')).e).toBe("√x × 2");
+  });
+
+  test("keeps JSON escapes that are not LaTeX", () => {
+    const json = '{"e": "x = 5\\nu = 3\\ttab \\"quoted\\""}';
+    expect(normalizeLatexInJSON(json)).toBe(json);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Streaming Solution Parser");
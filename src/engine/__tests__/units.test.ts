@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for Units & Dimensional Analysis
+ *
+ * These tests verify:
+ * - Compound units in app notation are read into dimensions
+ * - Dimensions propagate through step equations and mismatches are reported
+ * - The dimension a question asks for is recognized
+ * - Final answers in the wrong dimension (or missing units) are flagged
+ *
+ * Run with: bun src/engine/__tests__/units.test.ts
+ */
+
+import {
+  parseUnit,
+  extractQuantities,
+  checkEquationLine,
+  getAskedDimension,
+  checkSolutionUnits,
+  describeDimension,
+  type Dimension,
+} from "../units";
+import type { HomeworkSolution } from "../../types/homework";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeUnit(unit: string): string | null {
+  const dimension = parseUnit(unit);
+  return dimension && describeDimension(dimension);
+}
+
+function describeAsked(problem: string): string | null {
+  const dimension: Dimension | null = getAskedDimension(problem);
+  return dimension && describeDimension(dimension);
+}
+
+function solutionWith(equations: string[], finalAnswer: string): HomeworkSolution {
+  return {
+    problem: "",
+    steps: equations.map((equation, index) => ({ id: `step-${index}`, title: "Step", equation })),
+    finalAnswer,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Unit parsing", () => {
+  test("reads compound units", () => {
+    expect(describeUnit("m/s")).toBe("m/s (speed)");
+    expect(describeUnit("km/h")).toBe("m/s (speed)");
+    expect(describeUnit("kg*m/s^2")).toBe("N (force)");
+    expect(describeUnit("N·m")).toBe("J (energy)");
+    expect(describeUnit("g/mol")).toBe("kg/mol (molar mass)");
+  });
+
+  test("reads app notation and unicode exponents", () => {
+    expect(describeUnit("m/s²")).toBe("m/s² (acceleration)");
+    expect(describeUnit("m/s^2^")).toBe("m/s² (acceleration)");
+  });
+
+  test("puts everything after the slash in the denominator", () => {
+    expect(describeUnit("J/mol·K")).toBe(describeUnit("J/(mol·K)"));
+  });
+
+  test("reads spelled-out units", () => {
+    expect(describeUnit("seconds")).toBe("s (time)");
+    expect(describeUnit("newtons")).toBe("N (force)");
+  });
+
+  test("rejects words that only start like a unit", () => {
+    expect(parseUnit("Math")).toBe(null);
+    expect(parseUnit("many")).toBe(null);
+  });
+});
+
+describe("Quantity extraction", () => {
+  test("finds number-unit pairs including scientific notation", () => {
+    const quantities = extractQuantities("c = 3.0 × 10^8^ m/s and M = 18 g/mol after 5 minutes");
+    expect(quantities.map((q) => q.value)).toEqual([300000000, 18, 5]);
+    expect(quantities.map((q) => describeDimension(q.dimension))).toEqual([
+      "m/s (speed)",
+      "kg/mol (molar mass)",
+      "s (time)",
+    ]);
+  });
+
+  test("ignores digits inside formulas and bare numbers", () => {
+    expect(extractQuantities("CO2 has 3 atoms").length).toBe(0);
+  });
+});
+
+describe("Dimension propagation", () => {
+  test("accepts consistent steps", () => {
+    expect(checkEquationLine("v = {100 m/20 s} = 5 m/s")).toEqual([]);
+    expect(checkEquationLine("F = (2 kg)(9.8 m/s²) = 19.6 N")).toEqual([]);
+    expect(checkEquationLine("KE = {1/2}(2 kg)(3 m/s)^2^ = 9 J")).toEqual([]);
+    expect(checkEquationLine("1 km = 1000 m")).toEqual([]);
+  });
+
+  test("flags a result in the wrong dimension", () => {
+    expect(checkEquationLine("v = 100 m / 20 s = 5 m")).toEqual([
+      '"100 m / 20 s" is in m/s (speed) but "5 m" is in m (length)',
+    ]);
+  });
+
+  test("flags adding different dimensions", () => {
+    expect(checkEquationLine("5 m + 3 s")).toEqual(['"5 m + 3 s" adds m (length) to s (time)']);
+  });
+
+  test("skips lines with variables", () => {
+    expect(checkEquationLine("d = v t")).toEqual([]);
+  });
+});
+
+describe("Asked dimension", () => {
+  test("recognizes the quantity after the question phrase", () => {
+    expect(describeAsked("How long does it take to travel 100 m at 5 m/s?")).toBe("s (time)");
+    expect(describeAsked("Find the orbital period of the satellite.")).toBe("s (time)");
+    expect(describeAsked("A 2 kg ball moves at 3 m/s. What is its momentum?")).toBe("kg·m/s (momentum)");
+    expect(describeAsked("Calculate the molar mass of H2O.")).toBe("kg/mol (molar mass)");
+  });
+
+  test("prefers an explicit unit request", () => {
+    expect(describeAsked("Give your answer in kJ. What is the energy?")).toBe("J (energy)");
+    expect(describeAsked("Find the force (in N)")).toBe("N (force)");
+  });
+
+  test("returns null when nothing is asked", () => {
+    expect(describeAsked("He was born in A.D. 50. What year was it?")).toBe(null);
+  });
+});
+
+describe("Solution check", () => {
+  test("flags a time answered in meters", () => {
+    const warnings = checkSolutionUnits(
+      "How long does it take to travel 100 m at 5 m/s?",
+      solutionWith(["t = {100 m/5 m/s} = 20 m"], "t = 20 m")
+    );
+    expect(warnings).toEqual([
+      'Step 1: "((100 m)/(5 m/s))" is in s (time) but "20 m" is in m (length)',
+      "The answer is in m (length), but the question asks for s (time)",
+    ]);
+  });
+
+  test("passes a correct answer", () => {
+    const warnings = checkSolutionUnits(
+      "How long does it take to travel 100 m at 5 m/s?",
+      solutionWith(["t = {100 m/5 m/s} = 20 s"], "t = 20 s")
+    );
+    expect(warnings).toEqual([]);
+  });
+
+  test("flags missing units when the problem gives units", () => {
+    const warnings = checkSolutionUnits("What is the speed of a car that travels 100 m in 20 s?", solutionWith([], "5"));
+    expect(warnings).toEqual(["The answer has no units, but the question asks for m/s (speed)"]);
+  });
+
+  test("allows a bare number for a unitless math problem", () => {
+    expect(checkSolutionUnits("Find the distance between (1,2) and (4,6).", solutionWith([], "5"))).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Units");
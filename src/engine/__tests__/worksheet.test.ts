@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for Worksheet Batch Solving
+ *
+ * These tests verify:
+ * - mapWithConcurrency never runs more than `limit` calls at once and keeps the input order
+ * - solveWorksheet reports a failed problem without stopping the others, and awaits async callbacks
+ * - Problems interrupted by an app restart are marked failed so they can be retried
+ *
+ * No network - the engine is a stub. Run with: bun src/engine/__tests__/worksheet.test.ts
+ */
+
+import type { HomeworkSolution, WorksheetRecord } from "../../types/homework";
+import type { SolutionEngine, SolutionQuestion } from "../solutionEngine";
+import { mapWithConcurrency, resetInterruptedSolves, solveWorksheet } from "../worksheet";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function solutionFor(problem: string): HomeworkSolution {
+  return { problem, steps: [], finalAnswer: `Answer to ${problem}` };
+}
+
+/** Solves "n" after a short delay; the numbers in `failing` throw instead */
+function createStubEngine(failing: string[] = []): SolutionEngine {
+  const solve = async (question: SolutionQuestion) => {
+    const number = question.kind === "image" ? (question.problemNumber ?? "") : question.text;
+    await wait(Number(number) % 3);
+    if (failing.includes(number)) throw new Error(`Could not read problem ${number}`);
+    return solutionFor(number);
+  };
+  return { solve } as unknown as SolutionEngine;
+}
+
+const problems = (...numbers: string[]) => numbers.map((number) => ({ number, text: `Problem ${number}` }));
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("mapWithConcurrency", () => {
+  test("never runs more than the limit at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await mapWithConcurrency([5, 1, 4, 2, 3, 1, 2], 3, async (ms) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await wait(ms);
+      running--;
+    });
+    expect(maxRunning).toBe(3);
+  });
+
+  test("keeps the input order when calls finish out of order", async () => {
+    const results = await mapWithConcurrency([6, 1, 4, 0], 2, async (ms, index) => {
+      await wait(ms);
+      return `${index}:${ms}`;
+    });
+    expect(results).toEqual(["0:6", "1:1", "2:4", "3:0"]);
+  });
+
+  test("handles an empty list and a limit above the item count", async () => {
+    expect(await mapWithConcurrency([], 3, async (item) => item)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 10, async (item) => item * 2)).toEqual([2, 4]);
+  });
+});
+
+describe("solveWorksheet", () => {
+  test("reports a failed problem without stopping the others", async () => {
+    const results = await solveWorksheet(createStubEngine(["2"]), "base64", problems("1", "2", "3"));
+    expect(results.map((result) => result.status)).toEqual(["solved", "failed", "solved"]);
+    const failed = results[1];
+    if (failed.status === "failed") {
+      expect(failed.error).toBe("Could not read problem 2");
+    }
+  });
+
+  test("awaits async onProblemDone callbacks before resolving", async () => {
+    const saved: string[] = [];
+    await solveWorksheet(createStubEngine(), "base64", problems("1", "2", "3", "4"), {
+      concurrency: 2,
+      onProblemDone: async (result) => {
+        await wait(5);
+        saved.push(result.problem.number);
+      },
+    });
+    expect(saved.length).toBe(4);
+  });
+
+  test("keeps going when a callback throws", async () => {
+    const results = await solveWorksheet(createStubEngine(), "base64", problems("1", "2"), {
+      onProblemDone: async (result) => {
+        if (result.problem.number === "1") throw new Error("History is full");
+      },
+    });
+    expect(results.map((result) => result.status)).toEqual(["solved", "solved"]);
+  });
+});
+
+describe("resetInterruptedSolves", () => {
+  test("marks pending and solving problems failed and leaves finished ones alone", () => {
+    const worksheet: WorksheetRecord = {
+      id: "w1",
+      imageUri: "file:///history/w1.jpg",
+      createdAt: 0,
+      problems: [
+        { number: "1", text: "a", status: "solved", historyId: "h1" },
+        { number: "2", text: "b", status: "solving" },
+        { number: "3", text: "c", status: "pending" },
+        { number: "4", text: "d", status: "failed", error: "Could not read problem 4" },
+      ],
+    };
+    const [reset] = resetInterruptedSolves([worksheet]);
+    expect(reset.problems.map((problem) => problem.status)).toEqual(["solved", "failed", "failed", "failed"]);
+    expect(reset.problems[3].error).toBe("Could not read problem 4");
+  });
+
+  test("returns finished worksheets unchanged", () => {
+    const worksheet: WorksheetRecord = {
+      id: "w2",
+      imageUri: "file:///history/w2.jpg",
+      createdAt: 0,
+      problems: [{ number: "1", text: "a", status: "solved", historyId: "h1" }],
+    };
+    expect(resetInterruptedSolves([worksheet])[0] === worksheet).toBe(true);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Worksheet");
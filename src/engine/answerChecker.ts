@@ -0,0 +1,399 @@
+/**
+ * Local Answer Checker
+ *
+ * Deterministic check of a final answer, without calling a model:
+ * - Equations in one variable ("Solve for x: 2x + 5 = 13"): every value the
+ *   answer gives for the variable is substituted back into the equation (a
+ *   bare number only counts when the question asks for the variable itself)
+ * - Plain arithmetic ("Calculate 3 × {1/2} + 4"): the expression is evaluated
+ *   and compared with the answer
+ * - Chemical reactions in the answer ("4Fe + 3O_2_ → 2Fe_2_O_3_"): every
+ *   element and the total charge must balance (see chemistry.ts)
+ *
+ * Reads the app's notation understood by contentFormatter: {a/b} fractions,
+ * ^n^ exponents, ×, ÷, −, [color:...] highlights and *x* italic variables.
+ *
+ * CRITICAL: Anything the checker can't read with confidence is "skipped",
+ * never "failed". A failure sends the solution back for correction, so a
+ * false alarm costs a model call and can replace a right answer.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import { toPlainMath, tokenize, tryParse, isMathToken, type Token, type ParsedExpr } from "./expression";
+import { checkAnswerReactions } from "./chemistry";
+
+// Re-exported for existing callers and tests
+export { toPlainMath };
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AnswerCheckResult =
+  | { status: "passed"; detail: string }
+  | { status: "failed"; issues: string[] }
+  | { status: "skipped"; reason: string };
+
+// Exact matches are accepted with this much relative slack (floating point noise)
+const EXACT_TOLERANCE = 1e-9;
+
+// Leading instructions stripped before an arithmetic problem must be a bare expression
+const ARITHMETIC_PREFIX =
+  /^\s*(?:calculate|compute|evaluate|simplify|solve|find|what\s+is|find\s+the\s+value\s+of)\s*:?\s*/i;
+
+// Questions that ask for a value ("If x = 5, what is 2x + 3?") - their "x = 5" is given, not solved for
+const EVALUATE_QUESTION =
+  /\b(?:calculate|compute|evaluate|simplify|what\s+is|find\s+the\s+value|how\s+many|choose|determine)\b/i;
+
+// ============================================================================
+// TOKEN RUNS
+// ============================================================================
+
+/** Collect the run of math tokens starting at `start` */
+function readMathRun(tokens: Token[], start: number): Token[] {
+  let end = start;
+  while (isMathToken(tokens[end])) end++;
+  return tokens.slice(start, end);
+}
+
+// ============================================================================
+// PROBLEM EXTRACTION
+// ============================================================================
+
+interface ProblemEquation {
+  variable: string;
+  left: ParsedExpr;
+  right: ParsedExpr;
+  text: string;
+  start: number; // Token span of the equation in the problem
+  end: number;
+}
+
+/** "x = 5" or "5 = x": a lone variable on one side, a constant on the other */
+function isGivenValue(leftTokens: Token[], rightTokens: Token[], left: ParsedExpr, right: ParsedExpr): boolean {
+  const loneVariable = (run: Token[]) => run.length === 1 && run[0].type === "ident";
+  return (
+    (loneVariable(leftTokens) && right.variables.size === 0) ||
+    (loneVariable(rightTokens) && left.variables.size === 0)
+  );
+}
+
+/**
+ * Find the single one-variable equation in a problem.
+ * Returns null for no equation, systems, or several variables.
+ * With `skipGivenValues`, "x = 5" assignments are given values, not equations.
+ */
+function findEquation(tokens: Token[], skipGivenValues = false): ProblemEquation | null {
+  const equations: ProblemEquation[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== "eq") continue;
+
+    let start = i;
+    while (isMathToken(tokens[start - 1])) start--;
+    const leftTokens = tokens.slice(start, i);
+    const rightTokens = readMathRun(tokens, i + 1);
+
+    // Chained "a = b = c" is not a single equation
+    if (tokens[i + 1 + rightTokens.length]?.type === "eq") return null;
+
+    const left = tryParse(leftTokens);
+    const right = tryParse(rightTokens);
+    if (!left || !right) continue;
+    if (skipGivenValues && isGivenValue(leftTokens, rightTokens, left, right)) continue;
+
+    const variables = new Set([...left.variables, ...right.variables]);
+    if (variables.size === 0) continue;
+    if (variables.size > 1) return null;
+
+    equations.push({
+      variable: [...variables][0],
+      left,
+      right,
+      text: `${describeTokens(leftTokens)} = ${describeTokens(rightTokens)}`,
+      start,
+      end: i + 1 + rightTokens.length,
+    });
+  }
+
+  return equations.length === 1 ? equations[0] : null;
+}
+
+// Single letters that are words, not variables ("A number x satisfies ...")
+const ONE_LETTER_WORDS = new Set(["a", "A", "I"]);
+
+/**
+ * Does the problem ask for the equation's variable itself ("Solve for x: 2x + 5 = 13")?
+ * Any other math outside the equation is something else being asked
+ * ("If 2x + 3 = 7, what is x + 5?", "Solve 2x + 1 = 7. Then compute 3x - 1.").
+ */
+function asksForVariable(tokens: Token[], equation: ProblemEquation): boolean {
+  for (let i = 0; i < tokens.length; i++) {
+    if (i === equation.start) i = equation.end;
+    const run = readMathRun(tokens, i);
+    if (run.length === 0) continue;
+    const word = run[0].type === "ident" ? run[0].text : "";
+    if (run.length > 1 || (word !== equation.variable && !ONE_LETTER_WORDS.has(word))) return false;
+    i += run.length - 1;
+  }
+  return true;
+}
+
+/**
+ * An arithmetic problem must be a bare expression once the instruction
+ * word is removed ("Calculate 3 × 4 + 2"). "Find 3/4 of 20" is not.
+ */
+function findArithmetic(plainProblem: string): { expr: ParsedExpr; text: string } | null {
+  const body = plainProblem.replace(ARITHMETIC_PREFIX, "").replace(/[?.!\s]+$/, "");
+  const tokens = tokenize(body);
+  if (tokens.length < 3 || !tokens.every(isMathToken)) return null;
+  if (!tokens.some((t) => t.type === "op" && t.text !== "(" && t.text !== ")")) return null;
+
+  const expr = tryParse(tokens);
+  if (!expr || expr.variables.size > 0) return null;
+  return { expr, text: describeTokens(tokens) };
+}
+
+// ============================================================================
+// ANSWER EXTRACTION
+// ============================================================================
+
+interface AnswerValue {
+  value: number;
+  tolerance: number;
+  text: string;
+}
+
+/**
+ * Evaluate a value run, expanding "±" into two values.
+ * Precision follows the most decimals written ("x ≈ 1.41" allows ±0.005).
+ */
+function readValues(run: Token[]): AnswerValue[] {
+  if (run.length === 0) return [];
+
+  const decimals = Math.max(
+    0,
+    ...run.map((t) => (t.type === "num" && t.text.includes(".") ? t.text.split(".")[1].length : 0))
+  );
+  const hasDecimals = run.some((t) => t.type === "num" && t.text.includes("."));
+  const text = describeTokens(run);
+
+  const plusMinus = run.findIndex((t) => t.type === "op" && t.text === "±");
+  const variants =
+    plusMinus === -1
+      ? [run]
+      : (["+", "-"] as const).map((sign) => [
+          ...run.slice(0, plusMinus),
+          ...(plusMinus === 0 ? [] : [{ type: "op", text: "+" } as Token]),
+          { type: "op", text: "(" } as Token,
+          { type: "op", text: sign } as Token,
+          { type: "op", text: "(" } as Token,
+          ...run.slice(plusMinus + 1),
+          { type: "op", text: ")" } as Token,
+          { type: "op", text: ")" } as Token,
+        ]);
+
+  const values: AnswerValue[] = [];
+  for (const variant of variants) {
+    const parsed = tryParse(variant);
+    if (!parsed || parsed.variables.size > 0) return [];
+    const value = parsed.evaluate({});
+    if (!Number.isFinite(value)) return [];
+    const tolerance = hasDecimals
+      ? 0.5 * Math.pow(10, -decimals) + EXACT_TOLERANCE
+      : EXACT_TOLERANCE * Math.max(1, Math.abs(value));
+    values.push({ value, tolerance, text });
+  }
+  return values;
+}
+
+function isAssignmentAt(tokens: Token[], index: number): boolean {
+  const token = tokens[index];
+  return token?.type === "ident" && token.text.length === 1 && tokens[index + 1]?.type === "eq";
+}
+
+/**
+ * Values given for `variable`: "x = 4", "x = 2 or x = -3", "x = 2, 3",
+ * "x = ±2", "x = {8/2} = 4". "4x = 16" is not an answer for x.
+ */
+function findAssignedValues(tokens: Token[], variable: string): AnswerValue[] {
+  const values: AnswerValue[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "ident" || token.text !== variable || tokens[i + 1]?.type !== "eq") continue;
+    if (isMathToken(tokens[i - 1])) continue;
+
+    let pos = i + 2;
+    for (;;) {
+      const run = readMathRun(tokens, pos);
+      if (run.length === 0) break;
+      values.push(...readValues(run));
+      pos += run.length;
+
+      const separator = tokens[pos];
+      const isListSeparator =
+        separator?.type === "comma" ||
+        separator?.type === "eq" ||
+        (separator?.type === "ident" && /^(or|and)$/i.test(separator.text));
+      // "x = 2, y = 3" / "x = 2 or x = -3": the next assignment is handled by the outer loop
+      if (!isListSeparator || isAssignmentAt(tokens, pos + 1)) break;
+      pos++;
+    }
+  }
+
+  return values;
+}
+
+/** A bare numeric answer ("4", "= 5.5", "3 × {1/2} + 4 = 5.5") - the value after the last "=" */
+function findBareValue(tokens: Token[]): AnswerValue[] {
+  const lastEq = tokens.map((t) => t.type).lastIndexOf("eq");
+  const rest = tokens.slice(lastEq + 1);
+  if (rest.length === 0 || !rest.every(isMathToken)) return [];
+  return readValues(rest);
+}
+
+function finalAnswerText(finalAnswer: HomeworkSolution["finalAnswer"]): string {
+  return typeof finalAnswer === "string" ? finalAnswer : (finalAnswer?.parts ?? []).join("\n");
+}
+
+/** Readable form of a token run for issue messages ("2x + 5 = 13") */
+function describeTokens(tokens: Token[]): string {
+  let text = "";
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const tokenText =
+      token.type === "num" || token.type === "ident" || token.type === "op"
+        ? token.text
+        : token.type === "eq"
+          ? "="
+          : ",";
+    const beforePrevious = tokens[index - 2];
+    const isUnaryMinus =
+      isOpToken(previous, "-") &&
+      (!beforePrevious ||
+        (beforePrevious.type !== "num" && beforePrevious.type !== "ident" && !isOpToken(beforePrevious, ")")));
+    const joined =
+      index === 0 ||
+      isUnaryMinus ||
+      (previous?.type === "num" && token.type === "ident") ||
+      isOpToken(previous, "^") ||
+      isOpToken(token, "^") ||
+      isOpToken(previous, "(") ||
+      isOpToken(previous, "√") ||
+      isOpToken(token, ")") ||
+      token.type === "comma";
+    text += joined ? tokenText : ` ${tokenText}`;
+  });
+  return text;
+}
+
+function isOpToken(token: Token | undefined, text: string): boolean {
+  return token?.type === "op" && token.text === text;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+/**
+ * Does `value` satisfy left(x) = right(x)?
+ * Accepts an exact match, or (for rounded answers) a sign change of
+ * left - right within the answer's rounding interval.
+ */
+function satisfies(equation: ProblemEquation, answer: AnswerValue): boolean {
+  const residual = (x: number) => {
+    const vars = { [equation.variable]: x };
+    return equation.left.evaluate(vars) - equation.right.evaluate(vars);
+  };
+
+  const vars = { [equation.variable]: answer.value };
+  const left = equation.left.evaluate(vars);
+  const right = equation.right.evaluate(vars);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) return false;
+
+  const scale = Math.max(1, Math.abs(left), Math.abs(right));
+  if (Math.abs(left - right) <= EXACT_TOLERANCE * scale) return true;
+
+  const below = residual(answer.value - answer.tolerance);
+  const above = residual(answer.value + answer.tolerance);
+  return Number.isFinite(below) && Number.isFinite(above) && below * above <= 0;
+}
+
+/**
+ * Check a final answer against the problem it answers.
+ *
+ * Usage:
+ *   checkFinalAnswer("Solve for x: 2x + 5 = 13", "x = 4")
+ *   // → { status: "passed", detail: "x = 4 satisfies 2 x + 5 = 13" }
+ */
+export function checkFinalAnswer(problem: string, finalAnswer: HomeworkSolution["finalAnswer"]): AnswerCheckResult {
+  // An answer that is a reaction is checked for balance, whatever the problem says
+  const reactionCheck = checkAnswerReactions(finalAnswer);
+  if (reactionCheck) return reactionCheck;
+
+  const plainProblem = toPlainMath(problem);
+  const answerTokens = tokenize(toPlainMath(finalAnswerText(finalAnswer)));
+
+  // CRITICAL: "If x = 5, what is 2x + 3?" must not check "13" against x = 5
+  const problemTokens = tokenize(plainProblem);
+  const equation = findEquation(problemTokens, EVALUATE_QUESTION.test(plainProblem));
+  if (equation) {
+    let values = findAssignedValues(answerTokens, equation.variable);
+    // A bare "4" answers "Solve for x"; "4x = 16" does not, and neither does "7" for "what is x + 5?"
+    if (values.length === 0 && answerTokens.every(isMathToken) && asksForVariable(problemTokens, equation)) {
+      values = readValues(answerTokens);
+    }
+    if (values.length === 0) {
+      return { status: "skipped", reason: `No value for ${equation.variable} found in the answer` };
+    }
+
+    const wrong = values.filter((answer) => !satisfies(equation, answer));
+    if (wrong.length > 0) {
+      return {
+        status: "failed",
+        issues: wrong.map((answer) => {
+          const vars = { [equation.variable]: answer.value };
+          const left = formatNumber(equation.left.evaluate(vars));
+          const right = formatNumber(equation.right.evaluate(vars));
+          return (
+            `${equation.variable} = ${formatNumber(answer.value)} does not satisfy ${equation.text} ` +
+            `(substituting it back in gives ${left} on the left and ${right} on the right)`
+          );
+        }),
+      };
+    }
+
+    const given = values.map((answer) => formatNumber(answer.value)).join(", ");
+    return { status: "passed", detail: `${equation.variable} = ${given} satisfies ${equation.text}` };
+  }
+
+  const arithmetic = findArithmetic(plainProblem);
+  if (arithmetic) {
+    const values = findBareValue(answerTokens);
+    if (values.length !== 1) {
+      return { status: "skipped", reason: "No single numeric value found in the answer" };
+    }
+
+    const expected = arithmetic.expr.evaluate({});
+    const answer = values[0];
+    const tolerance = Math.max(answer.tolerance, EXACT_TOLERANCE * Math.max(1, Math.abs(expected)));
+    if (Math.abs(expected - answer.value) > tolerance) {
+      return {
+        status: "failed",
+        issues: [
+          `${arithmetic.text} equals ${formatNumber(expected)}, but the answer gives ${formatNumber(answer.value)}`,
+        ],
+      };
+    }
+    return { status: "passed", detail: `${arithmetic.text} = ${formatNumber(expected)}` };
+  }
+
+  return { status: "skipped", reason: "No single-variable equation or arithmetic expression in the problem" };
+}
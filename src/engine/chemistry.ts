@@ -0,0 +1,662 @@
+/**
+ * Chemistry
+ *
+ * Reads chemical formulas and reaction equations written in the app's
+ * notation (the subscript markup the prompts ask for) and checks them:
+ * - Formulas: "H_2_O", "Ca(OH)_2_", "CuSO_4_·5H_2_O", "SO_4_^2-^", "Fe^3+^(aq)"
+ *   (plain "H2O" and Unicode "H₂O" are read too)
+ * - Molar masses from the built-in periodic table
+ * - Reactions: "2H_2_ + O_2_ → 2H_2_O" is balanced when every element (and
+ *   the total charge) is the same on both sides
+ * - Balancing: the smallest whole-number coefficients, when they are unique
+ *
+ * CRITICAL: Like the answer checker, anything that can't be read with
+ * confidence is skipped. An equation is only reported as unbalanced when a
+ * balanced version of the same species exists - otherwise the likelier
+ * explanation is that we misread it.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import type { AnswerCheckResult } from "./answerChecker";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Formula {
+  /** The formula as written, without coefficient ("H_2_O", "SO_4_^2-^") */
+  text: string;
+  /** Atom counts by element symbol */
+  atoms: Record<string, number>;
+  charge: number;
+}
+
+export interface ReactionTerm {
+  coefficient: number;
+  formula: Formula;
+}
+
+export interface Reaction {
+  reactants: ReactionTerm[];
+  products: ReactionTerm[];
+  /** The arrow as written ("→", "⇌", "->") */
+  arrow: string;
+}
+
+/** An element (or "charge") whose totals differ between the two sides */
+export interface Imbalance {
+  element: string;
+  left: number;
+  right: number;
+}
+
+/** The generated "check the balance" step, in the same shape as a model step */
+export interface BalancingStep {
+  /** Index in the step list where the step belongs */
+  position: number;
+  step: { title: string; equation: string; summary: string };
+}
+
+// ============================================================================
+// PERIODIC TABLE
+// ============================================================================
+
+/** Standard atomic weights (g/mol); mass number of the longest-lived isotope for unstable elements */
+const ATOMIC_MASSES: Record<string, number> = {
+  H: 1.008, He: 4.0026, Li: 6.94, Be: 9.0122, B: 10.81, C: 12.011, N: 14.007, O: 15.999,
+  F: 18.998, Ne: 20.18, Na: 22.99, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06,
+  Cl: 35.45, Ar: 39.948, K: 39.098, Ca: 40.078, Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996,
+  Mn: 54.938, Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38, Ga: 69.723, Ge: 72.63,
+  As: 74.922, Se: 78.971, Br: 79.904, Kr: 83.798, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+  Nb: 92.906, Mo: 95.95, Tc: 98, Ru: 101.07, Rh: 102.91, Pd: 106.42, Ag: 107.87, Cd: 112.41,
+  In: 114.82, Sn: 118.71, Sb: 121.76, Te: 127.6, I: 126.9, Xe: 131.29, Cs: 132.91, Ba: 137.33,
+  La: 138.91, Ce: 140.12, Pr: 140.91, Nd: 144.24, Pm: 145, Sm: 150.36, Eu: 151.96, Gd: 157.25,
+  Tb: 158.93, Dy: 162.5, Ho: 164.93, Er: 167.26, Tm: 168.93, Yb: 173.05, Lu: 174.97, Hf: 178.49,
+  Ta: 180.95, W: 183.84, Re: 186.21, Os: 190.23, Ir: 192.22, Pt: 195.08, Au: 196.97, Hg: 200.59,
+  Tl: 204.38, Pb: 207.2, Bi: 208.98, Po: 209, At: 210, Rn: 222, Fr: 223, Ra: 226,
+  Ac: 227, Th: 232.04, Pa: 231.04, U: 238.03, Np: 237, Pu: 244, Am: 243, Cm: 247,
+  Bk: 247, Cf: 251, Es: 252, Fm: 257, Md: 258, No: 259, Lr: 262, Rf: 267,
+  Db: 270, Sg: 269, Bh: 270, Hs: 270, Mt: 278, Ds: 281, Rg: 281, Cn: 285,
+  Nh: 286, Fl: 289, Mc: 289, Lv: 293, Ts: 293, Og: 294,
+};
+
+export function atomicMass(symbol: string): number | null {
+  return ATOMIC_MASSES[symbol] ?? null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBSCRIPT_DIGITS: Record<string, string> = {
+  "₀": "0", "₁": "1", "₂": "2", "₃": "3", "₄": "4",
+  "₅": "5", "₆": "6", "₇": "7", "₈": "8", "₉": "9",
+};
+const SUPERSCRIPT_CHARS: Record<string, string> = {
+  "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4",
+  "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9", "⁺": "+", "⁻": "-",
+};
+
+/** Reaction arrows, longest first so "-->" isn't read as "->" */
+const ARROW_PATTERN = /<=>|<->|-->|->|→|⟶|⇌|⇄|⟷|↔/g;
+
+/** Terms that may sit on either side of a reaction without being species */
+const NON_SPECIES = /^(?:heat|energy|light|Δ|hν|hv)$/i;
+
+// Relative slack for a molar mass written in a step (textbooks round atomic masses)
+const MOLAR_MASS_TOLERANCE = 0.01;
+
+// Keep the report readable
+const MAX_WARNINGS = 3;
+
+// ============================================================================
+// FORMULAS
+// ============================================================================
+
+/** Remove [color:...] highlights and bold/italic markers */
+function stripHighlights(text: string): string {
+  let result = text;
+  let previous;
+  do {
+    previous = result;
+    result = result.replace(/\[[a-z]+:([^[\]]*)\]/g, "$1");
+  } while (result !== previous);
+  return result.replace(/\*+/g, "");
+}
+
+/** Read a charge like "2+", "+", "3-", "+2" */
+function readCharge(text: string): number | null {
+  const match = /^(\d*)([+-])(\d*)$/.exec(text.replace(/[−–]/g, "-"));
+  if (!match || (match[1] && match[3])) return null;
+  const size = Number(match[1] || match[3] || "1");
+  return match[2] === "+" ? size : -size;
+}
+
+/** Atom counts for a formula body without charge or state ("Ca(OH)2", "CuSO4.5H2O") */
+function readAtoms(body: string): Record<string, number> | null {
+  const atoms: Record<string, number> = {};
+
+  // Hydrates and adducts: "CuSO4·5H2O" = CuSO4 + 5 × H2O
+  const parts = body.split(/[·•⋅.]/);
+  for (const part of parts) {
+    const multiplier = /^(\d+)(.*)$/.exec(part);
+    const count = multiplier && parts.length > 1 ? Number(multiplier[1]) : 1;
+    const group = readGroup(multiplier && parts.length > 1 ? multiplier[2] : part);
+    if (!group || Object.keys(group).length === 0) return null;
+    for (const [element, n] of Object.entries(group)) atoms[element] = (atoms[element] ?? 0) + n * count;
+  }
+  return atoms;
+}
+
+/** Recursive-descent read of elements, bracketed groups and counts */
+function readGroup(text: string): Record<string, number> | null {
+  let index = 0;
+
+  const readCount = (): number => {
+    const match = /^\d+/.exec(text.slice(index));
+    if (!match) return 1;
+    index += match[0].length;
+    return Number(match[0]);
+  };
+
+  const readSequence = (closing: string | null): Record<string, number> | null => {
+    const atoms: Record<string, number> = {};
+    const addAll = (group: Record<string, number>, times: number) => {
+      for (const [element, n] of Object.entries(group)) atoms[element] = (atoms[element] ?? 0) + n * times;
+    };
+
+    while (index < text.length) {
+      const char = text[index];
+      if (char === ")" || char === "]") {
+        if (char !== closing) return null;
+        index++;
+        return atoms;
+      }
+      if (char === "(" || char === "[") {
+        index++;
+        const inner = readSequence(char === "(" ? ")" : "]");
+        if (!inner || Object.keys(inner).length === 0) return null;
+        addAll(inner, readCount());
+        continue;
+      }
+      const element = /^[A-Z][a-z]?/.exec(text.slice(index))?.[0];
+      if (!element) return null;
+      // "Co" is cobalt, but "Cx" is not an element followed by "x"
+      const symbol = ATOMIC_MASSES[element] ? element : element[0];
+      if (!ATOMIC_MASSES[symbol]) return null;
+      index += symbol.length;
+      addAll({ [symbol]: 1 }, readCount());
+    }
+    return closing ? null : atoms;
+  };
+
+  return readSequence(null);
+}
+
+/**
+ * Parse a single formula (no coefficient) in app, plain or Unicode notation.
+ *
+ * Usage:
+ *   parseFormula("Ca(OH)_2_")   // → { text: "Ca(OH)_2_", atoms: { Ca: 1, O: 2, H: 2 }, charge: 0 }
+ *   parseFormula("SO_4_^2-^")   // → { ..., atoms: { S: 1, O: 4 }, charge: -2 }
+ */
+export function parseFormula(input: string): Formula | null {
+  const text = stripHighlights(input).trim();
+  if (!text) return null;
+
+  let body = text
+    .replace(/_(\d+)_/g, "$1")
+    .replace(/[₀-₉]/g, (digit) => SUBSCRIPT_DIGITS[digit])
+    .replace(/\((?:aq|s|l|g)\)$/, "");
+
+  let charge = 0;
+  const markupCharge = /\^([^^]+)\^$/.exec(body);
+  const unicodeCharge = /[⁰-⁹¹²³⁺⁻]+$/.exec(body);
+  if (markupCharge) {
+    const value = readCharge(markupCharge[1]);
+    if (value === null) return null;
+    charge = value;
+    body = body.slice(0, markupCharge.index);
+  } else if (unicodeCharge) {
+    const value = readCharge([...unicodeCharge[0]].map((char) => SUPERSCRIPT_CHARS[char] ?? char).join(""));
+    if (value === null) return null;
+    charge = value;
+    body = body.slice(0, unicodeCharge.index);
+  }
+  body = body.replace(/\((?:aq|s|l|g)\)$/, "");
+
+  // The electron: "e^-^", "e⁻"
+  if (body === "e" && charge === -1) return { text, atoms: {}, charge };
+
+  const atoms = readAtoms(body);
+  return atoms ? { text, atoms, charge } : null;
+}
+
+/**
+ * Molar mass in g/mol, or null when the formula can't be read.
+ *
+ * Usage:
+ *   molarMass("H_2_SO_4_") // → 98.072
+ */
+export function molarMass(formula: string | Formula): number | null {
+  const parsed = typeof formula === "string" ? parseFormula(formula) : formula;
+  if (!parsed || Object.keys(parsed.atoms).length === 0) return null;
+  return Object.entries(parsed.atoms).reduce((sum, [element, count]) => sum + ATOMIC_MASSES[element] * count, 0);
+}
+
+/** "H_2_O" → "H₂O", "SO_4_^2-^" → "SO₄²⁻" for plain-text messages */
+export function displayFormula(text: string): string {
+  const subscripts = "₀₁₂₃₄₅₆₇₈₉";
+  const superscripts: Record<string, string> = { "+": "⁺", "-": "⁻", "−": "⁻" };
+  return stripHighlights(text)
+    .replace(/_(\d+)_/g, (_, digits: string) => [...digits].map((d) => subscripts[Number(d)]).join(""))
+    .replace(/\^([\d+\-−]+)\^/g, (_, charge: string) =>
+      [...charge].map((char) => superscripts[char] ?? "⁰¹²³⁴⁵⁶⁷⁸⁹"[Number(char)]).join("")
+    );
+}
+
+// ============================================================================
+// REACTIONS
+// ============================================================================
+
+/** Read "2H_2_O", "2 H_2_O", "{1/2}O_2_", "½O_2_" */
+function parseTerm(input: string): ReactionTerm | null {
+  const text = input.trim();
+  const match = /^(\{\d+\/\d+\}|\d+\/\d+|\d+(?:\.\d+)?|½)?\s*(.+)$/.exec(text);
+  if (!match) return null;
+
+  let coefficient = 1;
+  if (match[1] === "½") coefficient = 0.5;
+  else if (match[1]?.includes("/")) {
+    const [numerator, denominator] = match[1].replace(/[{}]/g, "").split("/").map(Number);
+    coefficient = numerator / denominator;
+  } else if (match[1]) coefficient = Number(match[1]);
+  if (!(coefficient > 0)) return null;
+
+  const formula = parseFormula(match[2]);
+  return formula ? { coefficient, formula } : null;
+}
+
+/**
+ * Read one side of a reaction. The outermost term may carry surrounding
+ * prose ("Balanced: 2H_2_", "2H_2_O (balanced)"), which is trimmed off a
+ * word at a time.
+ */
+function parseSide(text: string, proseAt: "start" | "end"): ReactionTerm[] | null {
+  // Protect markup charges ("Na^+^") from the "+" split
+  const charges: string[] = [];
+  const masked = text.replace(/\^[^^\s]{1,4}\^/g, (charge) => `\u0001${charges.push(charge) - 1}\u0001`);
+  const restore = (part: string) => part.replace(/\u0001(\d+)\u0001/g, (_, index: string) => charges[Number(index)]);
+
+  const parts = masked
+    .split(/\s*\+\s*/)
+    .map(restore)
+    .filter((part) => !NON_SPECIES.test(part.trim().replace(/[.,;:!?]+$/, "")));
+  if (parts.length === 0) return null;
+
+  const terms: ReactionTerm[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const outer = (proseAt === "start" && i === 0) || (proseAt === "end" && i === parts.length - 1);
+    const term = outer ? parseOuterTerm(parts[i], proseAt) : parseTerm(parts[i]);
+    if (!term) return null;
+    terms.push(term);
+  }
+  return terms;
+}
+
+function parseOuterTerm(text: string, proseAt: "start" | "end"): ReactionTerm | null {
+  const words = text.trim().replace(/[.,;:!?]+$/, "").split(/\s+/);
+  for (let drop = 0; drop < words.length; drop++) {
+    const kept = proseAt === "start" ? words.slice(drop) : words.slice(0, words.length - drop);
+    const term = parseTerm(kept.join(" "));
+    if (term) return term;
+  }
+  return null;
+}
+
+/**
+ * Find the reaction in one line of text, if there is exactly one arrow and
+ * every species around it can be read.
+ *
+ * Usage:
+ *   parseReaction("Balanced: 2H_2_ + O_2_ → 2H_2_O")
+ *   // → { reactants: [2 H₂, 1 O₂], products: [2 H₂O], arrow: "→" }
+ */
+export function parseReaction(line: string): Reaction | null {
+  const text = stripHighlights(line);
+  const arrows = [...text.matchAll(ARROW_PATTERN)];
+  if (arrows.length !== 1) return null;
+
+  const arrow = arrows[0];
+  const reactants = parseSide(text.slice(0, arrow.index), "start");
+  const products = parseSide(text.slice((arrow.index ?? 0) + arrow[0].length), "end");
+  if (!reactants || !products) return null;
+
+  return { reactants, products, arrow: arrow[0] };
+}
+
+/** Every reaction in a block of text, one per line */
+export function findReactions(text: string): Reaction[] {
+  return text
+    .split("\n")
+    .map(parseReaction)
+    .filter((reaction): reaction is Reaction => reaction !== null);
+}
+
+function sideTotals(terms: ReactionTerm[]): { atoms: Record<string, number>; charge: number } {
+  const atoms: Record<string, number> = {};
+  let charge = 0;
+  for (const { coefficient, formula } of terms) {
+    for (const [element, count] of Object.entries(formula.atoms)) {
+      atoms[element] = (atoms[element] ?? 0) + coefficient * count;
+    }
+    charge += coefficient * formula.charge;
+  }
+  return { atoms, charge };
+}
+
+/** Elements (and "charge") that differ between the sides; empty when balanced */
+export function findImbalances(reaction: Reaction): Imbalance[] {
+  const left = sideTotals(reaction.reactants);
+  const right = sideTotals(reaction.products);
+  const elements = [...new Set([...Object.keys(left.atoms), ...Object.keys(right.atoms)])];
+
+  const imbalances: Imbalance[] = elements
+    .map((element) => ({ element, left: left.atoms[element] ?? 0, right: right.atoms[element] ?? 0 }))
+    .filter(({ left: l, right: r }) => Math.abs(l - r) > 1e-9);
+  if (Math.abs(left.charge - right.charge) > 1e-9) {
+    imbalances.push({ element: "charge", left: left.charge, right: right.charge });
+  }
+  return imbalances;
+}
+
+export function isBalanced(reaction: Reaction): boolean {
+  return findImbalances(reaction).length === 0;
+}
+
+// ============================================================================
+// BALANCING
+// ============================================================================
+
+function gcd(a: number, b: number): number {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y) [x, y] = [y, x % y];
+  return x;
+}
+
+const lcm = (a: number, b: number) => Math.abs(a * b) / gcd(a, b);
+
+function reduceRow(row: number[]): number[] {
+  const divisor = row.reduce((acc, value) => gcd(acc, value), 0);
+  return divisor > 1 ? row.map((value) => value / divisor) : row;
+}
+
+/**
+ * The same reaction with the smallest whole-number coefficients, or null
+ * when there is no balanced version or more than one independent one.
+ *
+ * Solves the atom-conservation equations (one row per element, plus charge)
+ * by integer Gauss-Jordan elimination; a unique answer leaves exactly one
+ * free coefficient.
+ *
+ * Usage:
+ *   balanceReaction(parseReaction("Fe + O_2_ → Fe_2_O_3_")!)
+ *   // → 4Fe + 3O_2_ → 2Fe_2_O_3_
+ */
+export function balanceReaction(reaction: Reaction): Reaction | null {
+  const species = [...reaction.reactants, ...reaction.products];
+  const reactantCount = reaction.reactants.length;
+  const elements = [...new Set(species.flatMap((term) => Object.keys(term.formula.atoms)))];
+
+  const rows = elements.map((element) =>
+    species.map((term, column) => (column < reactantCount ? 1 : -1) * (term.formula.atoms[element] ?? 0))
+  );
+  if (species.some((term) => term.formula.charge !== 0)) {
+    rows.push(species.map((term, column) => (column < reactantCount ? 1 : -1) * term.formula.charge));
+  }
+
+  const columns = species.length;
+  const pivots: number[] = [];
+  let pivotRow = 0;
+  for (let column = 0; column < columns && pivotRow < rows.length; column++) {
+    const found = rows.findIndex((row, index) => index >= pivotRow && row[column] !== 0);
+    if (found === -1) continue;
+    [rows[pivotRow], rows[found]] = [rows[found], rows[pivotRow]];
+
+    const pivot = rows[pivotRow];
+    for (let r = 0; r < rows.length; r++) {
+      if (r === pivotRow || rows[r][column] === 0) continue;
+      const factor = rows[r][column];
+      rows[r] = reduceRow(rows[r].map((value, c) => value * pivot[column] - pivot[c] * factor));
+    }
+    pivots.push(column);
+    pivotRow++;
+  }
+
+  if (columns - pivots.length !== 1) return null;
+  const free = [...Array(columns).keys()].find((column) => !pivots.includes(column))!;
+
+  const coefficients = new Array<number>(columns).fill(0);
+  coefficients[free] = pivots.reduce((acc, column, row) => lcm(acc, rows[row][column]), 1);
+  pivots.forEach((column, row) => {
+    coefficients[column] = (-rows[row][free] * coefficients[free]) / rows[row][column];
+  });
+
+  const sign = coefficients[0] < 0 ? -1 : 1;
+  const signed = coefficients.map((value) => value * sign);
+  if (signed.some((value) => value <= 0 || !Number.isInteger(value))) return null;
+  const divisor = signed.reduce((acc, value) => gcd(acc, value), 0);
+  const whole = signed.map((value) => value / divisor);
+
+  const withCoefficient = (term: ReactionTerm, index: number): ReactionTerm => ({ ...term, coefficient: whole[index] });
+  return {
+    ...reaction,
+    reactants: reaction.reactants.map(withCoefficient),
+    products: reaction.products.map((term, index) => withCoefficient(term, index + reactantCount)),
+  };
+}
+
+function formatCoefficient(value: number): string {
+  if (value === 1) return "";
+  if (Number.isInteger(value)) return String(value);
+  for (const denominator of [2, 3, 4]) {
+    const numerator = value * denominator;
+    if (Math.abs(numerator - Math.round(numerator)) < 1e-9) return `{${Math.round(numerator)}/${denominator}}`;
+  }
+  return String(Number(value.toFixed(3)));
+}
+
+/** Back to app notation: "2H_2_ + O_2_ → 2H_2_O" */
+export function formatReaction(reaction: Reaction): string {
+  const side = (terms: ReactionTerm[]) =>
+    terms.map((term) => `${formatCoefficient(term.coefficient)}${term.formula.text}`).join(" + ");
+  return `${side(reaction.reactants)} ${reaction.arrow} ${side(reaction.products)}`;
+}
+
+function describeImbalances(imbalances: Imbalance[]): string {
+  const number = (value: number) => String(Number(value.toFixed(3)));
+  return imbalances
+    .map(({ element, left, right }) => `${element}: ${number(left)} on the left, ${number(right)} on the right`)
+    .join("; ");
+}
+
+/** "2H_2_ + O_2_ → H_2_O is not balanced (...). Balanced: ..." - null when balanced or not balanceable */
+function describeUnbalanced(reaction: Reaction): string | null {
+  const imbalances = findImbalances(reaction);
+  if (imbalances.length === 0) return null;
+  const balanced = balanceReaction(reaction);
+  if (!balanced) return null;
+  return (
+    `${displayFormula(formatReaction(reaction))} is not balanced (${describeImbalances(imbalances)}). ` +
+    `Balanced: ${displayFormula(formatReaction(balanced))}`
+  );
+}
+
+// ============================================================================
+// SOLUTION CHECKS
+// ============================================================================
+
+function finalAnswerText(finalAnswer: HomeworkSolution["finalAnswer"]): string {
+  return typeof finalAnswer === "string" ? finalAnswer : (finalAnswer?.parts ?? []).join("\n");
+}
+
+/**
+ * Check the reactions given in a final answer. Returns null when the answer
+ * has no reaction, so the caller can fall through to its other checks.
+ *
+ * Usage:
+ *   checkAnswerReactions("2H_2_ + O_2_ → H_2_O")
+ *   // → { status: "failed", issues: ["2H₂ + O₂ → H₂O is not balanced (...). Balanced: ..."] }
+ */
+export function checkAnswerReactions(finalAnswer: HomeworkSolution["finalAnswer"]): AnswerCheckResult | null {
+  const reactions = findReactions(finalAnswerText(finalAnswer));
+  if (reactions.length === 0) return null;
+
+  const issues = reactions.map(describeUnbalanced).filter((issue): issue is string => issue !== null);
+  if (issues.length > 0) return { status: "failed", issues };
+
+  if (!reactions.every(isBalanced)) {
+    return { status: "skipped", reason: "The answer's reaction could not be balanced as written" };
+  }
+  const given = reactions.map((reaction) => displayFormula(formatReaction(reaction))).join(", ");
+  return { status: "passed", detail: `${given} is balanced` };
+}
+
+/** "M(H_2_O) = ... = 18.02 g/mol" and "molar mass of CO_2_ is 44.01 g/mol" */
+function checkMolarMasses(line: string): string[] {
+  const text = stripHighlights(line);
+  const claims = [...text.matchAll(/\bM\s*\(|\bmolar mass of\s+/gi)];
+  const warnings: string[] = [];
+
+  claims.forEach((claim, index) => {
+    let start = (claim.index ?? 0) + claim[0].length;
+    let formulaText: string;
+    if (claim[0].endsWith("(")) {
+      // Read to the matching parenthesis: "M(Ca(OH)_2_)"
+      let depth = 1;
+      let end = start;
+      while (end < text.length && depth > 0) {
+        if (text[end] === "(") depth++;
+        if (text[end] === ")") depth--;
+        end++;
+      }
+      if (depth > 0) return;
+      formulaText = text.slice(start, end - 1);
+      start = end;
+    } else {
+      formulaText = /^[^\s=:,]+/.exec(text.slice(start))?.[0] ?? "";
+      start += formulaText.length;
+    }
+
+    const segment = text.slice(start, claims[index + 1]?.index ?? text.length);
+    const values = [...segment.matchAll(/(\d+(?:\.\d+)?)\s*g\s*\/\s*mol\b/g)];
+    const expected = molarMass(formulaText);
+    if (values.length === 0 || expected === null) return;
+
+    const given = Number(values[values.length - 1][1]);
+    if (Math.abs(given - expected) / expected > MOLAR_MASS_TOLERANCE) {
+      warnings.push(
+        `the molar mass of ${displayFormula(formulaText)} is ${expected.toFixed(2)} g/mol, not ${given} g/mol`
+      );
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Chemistry warnings for a solution's steps: unbalanced reactions (with the
+ * balanced version) and molar masses that don't match the periodic table.
+ * Shown to the student; never grounds for regenerating a solution.
+ *
+ * Usage:
+ *   checkSolutionChemistry(solution)
+ *   // → ['Step 1: H₂ + O₂ → H₂O is not balanced (O: 2 on the left, 1 on the right). Balanced: ...']
+ */
+export function checkSolutionChemistry(solution: HomeworkSolution): string[] {
+  const warnings: string[] = [];
+
+  solution.steps.forEach((step, index) => {
+    const work = step.rawEquation ?? step.equation ?? step.content ?? "";
+    for (const line of work.split("\n")) {
+      const reaction = parseReaction(line);
+      const unbalanced = reaction && describeUnbalanced(reaction);
+      if (unbalanced) warnings.push(`Step ${index + 1}: ${unbalanced}`);
+      for (const warning of checkMolarMasses(line)) warnings.push(`Step ${index + 1}: ${warning}`);
+    }
+  });
+
+  return warnings.slice(0, MAX_WARNINGS);
+}
+
+// ============================================================================
+// BALANCING STEP
+// ============================================================================
+
+/** "H: 2 × 2 = [blue:4] on the left, 2 × 2 = [blue:4] on the right" */
+function countLine(element: string, reaction: Reaction): string {
+  const side = (terms: ReactionTerm[]) => {
+    const pieces = terms
+      .filter((term) => term.formula.atoms[element])
+      .map(({ coefficient, formula }) => {
+        const count = formula.atoms[element];
+        return coefficient === 1 ? `${count}` : `${formatCoefficient(coefficient) || coefficient} × ${count}`;
+      });
+    const total = terms.reduce((sum, term) => sum + term.coefficient * (term.formula.atoms[element] ?? 0), 0);
+    const totalText = String(Number(total.toFixed(3)));
+    return pieces.length === 1 && pieces[0] === totalText
+      ? `[blue:${totalText}]`
+      : `${pieces.join(" + ")} = [blue:${totalText}]`;
+  };
+  return `${element}: ${side(reaction.reactants)} on the left, ${side(reaction.products)} on the right`;
+}
+
+/**
+ * A generated step that counts every element on both sides of the
+ * solution's reaction. Uses the final answer's reaction when there is one,
+ * otherwise the last reaction in the steps (the step goes right after it).
+ * Returns null when there is no balanced reaction worth checking.
+ */
+export function buildBalancingStep(
+  steps: { equation?: string; content?: string }[],
+  finalAnswer: HomeworkSolution["finalAnswer"]
+): BalancingStep | null {
+  const worthChecking = (reaction: Reaction) =>
+    isBalanced(reaction) && reaction.reactants.length + reaction.products.length >= 3;
+
+  let reaction = findReactions(finalAnswerText(finalAnswer)).find(worthChecking);
+  let position = steps.length;
+  if (!reaction) {
+    for (let index = steps.length - 1; index >= 0 && !reaction; index--) {
+      reaction = findReactions(steps[index].equation ?? steps[index].content ?? "").filter(worthChecking).pop();
+      position = index + 1;
+    }
+  }
+  if (!reaction) return null;
+
+  const elements = [
+    ...new Set([...reaction.reactants, ...reaction.products].flatMap((term) => Object.keys(term.formula.atoms))),
+  ];
+  const charged = [...reaction.reactants, ...reaction.products].some((term) => term.formula.charge !== 0);
+  const lines = [formatReaction(reaction), ...elements.map((element) => countLine(element, reaction))];
+  if (charged) {
+    const total = (terms: ReactionTerm[]) =>
+      String(Number(terms.reduce((sum, term) => sum + term.coefficient * term.formula.charge, 0).toFixed(3)));
+    const left = total(reaction.reactants);
+    const right = total(reaction.products);
+    lines.push(`Charge: [blue:${left}] on the left, [blue:${right}] on the right`);
+  }
+
+  return {
+    position,
+    step: {
+      title: "Check the Atom Balance",
+      equation: lines.join("\n"),
+      summary: charged
+        ? "Every element and the total charge are the same on both sides, so the equation is balanced."
+        : "Every element has the same number of atoms on both sides, so the equation is balanced.",
+    },
+  };
+}
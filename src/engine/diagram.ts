@@ -0,0 +1,328 @@
+/**
+ * Geometry Diagrams
+ *
+ * Lays out the "diagram" JSON the model writes in a geometry step - points,
+ * segments, angle marks, circles and free labels - in screen pixels. The
+ * labels come from the same response as the solution text, so the numbers
+ * on the drawing always match the numbers in the steps.
+ *
+ *   {
+ *     "points": [{ "id": "A", "x": 0, "y": 0 }, { "id": "B", "x": 4, "y": 0 }, { "id": "C", "x": 0, "y": 3 }],
+ *     "segments": [{ "from": "A", "to": "B", "label": "4 cm" }, ...],
+ *     "angles": [{ "at": "A", "from": "B", "to": "C", "right": true }]
+ *   }
+ *
+ * Diagram coordinates have y pointing up; pixels have y pointing down.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import type { GeometryDiagram, DiagramCircle, DiagramPoint } from "../types/homework";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export interface DiagramSize {
+  width: number;
+  height: number;
+}
+
+export interface LaidOutPoint {
+  id: string;
+  label: string;
+  position: Vec;
+  labelPosition: Vec;
+}
+
+export interface LaidOutSegment {
+  from: Vec;
+  to: Vec;
+  dashed: boolean;
+  label?: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutAngle {
+  vertex: Vec;
+  right: boolean;
+  /** Arc radius in pixels (arcs only) */
+  radius: number;
+  /** Degrees, clockwise from +x in screen space - what Skia's addArc expects */
+  startAngle: number;
+  sweepAngle: number;
+  /** The three corners of the square mark (right angles only) */
+  corner: Vec[];
+  label?: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutCircle {
+  center: Vec;
+  radius: number;
+  label?: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutLabel {
+  text: string;
+  position: Vec;
+}
+
+export interface DiagramLayout {
+  points: LaidOutPoint[];
+  segments: LaidOutSegment[];
+  angles: LaidOutAngle[];
+  circles: LaidOutCircle[];
+  labels: LaidOutLabel[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Room around the figure for labels */
+const PADDING = 32;
+const MIN_HEIGHT = 160;
+const MAX_HEIGHT = 320;
+
+/** Distance from a point or line to the near edge of its label */
+const LABEL_GAP = 10;
+/** Rough label metrics at the renderer's 14px font - enough to keep text off the lines */
+const LABEL_CHAR_WIDTH = 8;
+const LABEL_HALF_HEIGHT = 10;
+
+const ANGLE_RADIUS = 22;
+const RIGHT_ANGLE_SIZE = 11;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pointMap(diagram: GeometryDiagram): Map<string, DiagramPoint> {
+  return new Map(diagram.points.map((point) => [point.id, point]));
+}
+
+function circleRadius(circle: DiagramCircle, points: Map<string, DiagramPoint>): number | null {
+  const center = points.get(circle.center);
+  if (!center) return null;
+  if (circle.radius && circle.radius > 0) return circle.radius;
+  const through = circle.through ? points.get(circle.through) : undefined;
+  if (!through) return null;
+  const radius = Math.hypot(through.x - center.x, through.y - center.y);
+  return radius > 0 ? radius : null;
+}
+
+interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** Extent of everything drawn, in diagram units */
+function diagramBounds(diagram: GeometryDiagram): Bounds {
+  const points = pointMap(diagram);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const point of diagram.points) {
+    xs.push(point.x);
+    ys.push(point.y);
+  }
+  for (const circle of diagram.circles ?? []) {
+    const center = points.get(circle.center);
+    const radius = circleRadius(circle, points);
+    if (!center || radius === null) continue;
+    xs.push(center.x - radius, center.x + radius);
+    ys.push(center.y - radius, center.y + radius);
+  }
+  for (const label of diagram.labels ?? []) {
+    xs.push(label.x);
+    ys.push(label.y);
+  }
+
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+export const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+export const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y });
+export const scale = (a: Vec, factor: number): Vec => ({ x: a.x * factor, y: a.y * factor });
+export const length = (a: Vec): number => Math.hypot(a.x, a.y);
+
+export function normalize(a: Vec): Vec {
+  const len = length(a);
+  return len === 0 ? { x: 0, y: -1 } : scale(a, 1 / len);
+}
+
+/** Approximate half width and half height of a rendered label */
+export function labelHalfSize(text: string): Vec {
+  return { x: (text.length * LABEL_CHAR_WIDTH) / 2, y: LABEL_HALF_HEIGHT };
+}
+
+/**
+ * Where to center a label so its near edge sits LABEL_GAP from the anchor
+ * in the given direction. Wide labels are pushed further out sideways.
+ */
+export function labelCenter(anchor: Vec, direction: Vec, text: string, gap = LABEL_GAP): Vec {
+  const unit = normalize(direction);
+  const half = labelHalfSize(text);
+  const reach = Math.abs(unit.x) * half.x + Math.abs(unit.y) * half.y;
+  return add(anchor, scale(unit, gap + reach));
+}
+
+/** Degrees, normalized to (-180, 180] */
+export function normalizeDegrees(angle: number): number {
+  let result = angle % 360;
+  if (result > 180) result -= 360;
+  if (result <= -180) result += 360;
+  return result;
+}
+
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Canvas height for a diagram at the given width - follows the figure's
+ * proportions, clamped so tall figures don't take over the screen.
+ */
+export function diagramHeight(diagram: GeometryDiagram, width: number): number {
+  const bounds = diagramBounds(diagram);
+  const spanX = bounds.maxX - bounds.minX;
+  const spanY = bounds.maxY - bounds.minY;
+  if (spanX === 0) return MAX_HEIGHT;
+
+  const drawable = width - PADDING * 2;
+  const height = (spanY / spanX) * drawable + PADDING * 2;
+  return Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, height));
+}
+
+/**
+ * Lay out a diagram in a canvas of the given size. The figure keeps its
+ * proportions (one scale for both axes) and is centered. Segments, angles
+ * and circles that refer to unknown points are left out.
+ */
+export function layoutDiagram(diagram: GeometryDiagram, size: DiagramSize): DiagramLayout {
+  const points = pointMap(diagram);
+  const bounds = diagramBounds(diagram);
+  const spanX = bounds.maxX - bounds.minX;
+  const spanY = bounds.maxY - bounds.minY;
+
+  const drawableWidth = Math.max(size.width - PADDING * 2, 1);
+  const drawableHeight = Math.max(size.height - PADDING * 2, 1);
+  const candidates = [spanX > 0 ? drawableWidth / spanX : Infinity, spanY > 0 ? drawableHeight / spanY : Infinity];
+  const pixelsPerUnit = Number.isFinite(Math.min(...candidates)) ? Math.min(...candidates) : 1;
+
+  const offsetX = (size.width - spanX * pixelsPerUnit) / 2;
+  const offsetY = (size.height - spanY * pixelsPerUnit) / 2;
+  const toScreen = (x: number, y: number): Vec => ({
+    x: offsetX + (x - bounds.minX) * pixelsPerUnit,
+    y: offsetY + (bounds.maxY - y) * pixelsPerUnit,
+  });
+  const screenOf = (id: string): Vec | null => {
+    const point = points.get(id);
+    return point ? toScreen(point.x, point.y) : null;
+  };
+
+  // Labels are pushed away from the middle of the figure
+  const screenPoints = diagram.points.map((point) => toScreen(point.x, point.y));
+  const centroid = scale(
+    screenPoints.reduce((sum, point) => add(sum, point), { x: 0, y: 0 }),
+    1 / screenPoints.length
+  );
+
+  const laidOutPoints: LaidOutPoint[] = diagram.points.map((point, index) => {
+    const position = screenPoints[index];
+    const label = point.label ?? point.id;
+    return { id: point.id, label, position, labelPosition: labelCenter(position, sub(position, centroid), label) };
+  });
+
+  const segments: LaidOutSegment[] = [];
+  for (const segment of diagram.segments ?? []) {
+    const from = screenOf(segment.from);
+    const to = screenOf(segment.to);
+    if (!from || !to) continue;
+
+    const midpoint = scale(add(from, to), 0.5);
+    const direction = sub(to, from);
+    let normal: Vec = { x: -direction.y, y: direction.x };
+    const outward = sub(midpoint, centroid);
+    if (normal.x * outward.x + normal.y * outward.y < 0) normal = scale(normal, -1);
+
+    segments.push({
+      from,
+      to,
+      dashed: segment.dashed ?? false,
+      label: segment.label || undefined,
+      labelPosition: labelCenter(midpoint, normal, segment.label ?? ""),
+    });
+  }
+
+  const angles: LaidOutAngle[] = [];
+  for (const angle of diagram.angles ?? []) {
+    const vertex = screenOf(angle.at);
+    const from = screenOf(angle.from);
+    const to = screenOf(angle.to);
+    if (!vertex || !from || !to) continue;
+
+    const rayFrom = sub(from, vertex);
+    const rayTo = sub(to, vertex);
+    const shortest = Math.min(length(rayFrom), length(rayTo));
+    if (shortest === 0) continue;
+
+    const startAngle = toDegrees(Math.atan2(rayFrom.y, rayFrom.x));
+    const sweepAngle = normalizeDegrees(toDegrees(Math.atan2(rayTo.y, rayTo.x)) - startAngle);
+    const bisector = toRadians(startAngle + sweepAngle / 2);
+    const bisectorDirection = { x: Math.cos(bisector), y: Math.sin(bisector) };
+    const right = angle.right ?? false;
+
+    const radius = Math.min(ANGLE_RADIUS, shortest * 0.4);
+    const markSize = Math.min(RIGHT_ANGLE_SIZE, shortest * 0.35);
+    const u = scale(normalize(rayFrom), markSize);
+    const w = scale(normalize(rayTo), markSize);
+
+    angles.push({
+      vertex,
+      right,
+      radius,
+      startAngle,
+      sweepAngle,
+      corner: right ? [add(vertex, u), add(add(vertex, u), w), add(vertex, w)] : [],
+      label: angle.label || undefined,
+      labelPosition: labelCenter(vertex, bisectorDirection, angle.label ?? "", (right ? markSize * 1.4 : radius) + 4),
+    });
+  }
+
+  const circles: LaidOutCircle[] = [];
+  for (const circle of diagram.circles ?? []) {
+    const center = screenOf(circle.center);
+    const radius = circleRadius(circle, points);
+    if (!center || radius === null) continue;
+
+    const pixelRadius = radius * pixelsPerUnit;
+    // Label just outside the circle, upper right
+    const diagonal = normalize({ x: 1, y: -1 });
+    circles.push({
+      center,
+      radius: pixelRadius,
+      label: circle.label || undefined,
+      labelPosition: labelCenter(add(center, scale(diagonal, pixelRadius)), diagonal, circle.label ?? "", 4),
+    });
+  }
+
+  const labels: LaidOutLabel[] = (diagram.labels ?? []).map((label) => ({
+    text: label.text,
+    position: toScreen(label.x, label.y),
+  }));
+
+  return { points: laidOutPoints, segments, angles, circles, labels };
+}
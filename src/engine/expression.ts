@@ -0,0 +1,279 @@
+/**
+ * Expression Parser
+ *
+ * Tokenizer and recursive-descent parser for plain math, shared by the
+ * answer checker, unit checks and function graphs. toPlainMath() first
+ * rewrites the app's notation ({a/b}, ^n^, ×, [color:...], *x*) as plain math.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Token =
+  | { type: "num"; value: number; text: string }
+  | { type: "ident"; text: string }
+  | { type: "op"; text: string } // + - * / ^ ( ) √ ±
+  | { type: "eq" }
+  | { type: "comma" }
+  | { type: "break" }; // Anything else: punctuation, newlines, unknown symbols
+
+export type Expr = (vars: Record<string, number>) => number;
+
+export interface ParsedExpr {
+  evaluate: Expr;
+  variables: Set<string>;
+}
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+};
+
+// ============================================================================
+// NOTATION → PLAIN MATH
+// ============================================================================
+
+/**
+ * Rewrite app notation as plain math the tokenizer understands.
+ */
+export function toPlainMath(text: string): string {
+  let result = text;
+
+  // [red:2x] → 2x (repeat for nested highlights)
+  let previous;
+  do {
+    previous = result;
+    result = result.replace(/\[[a-z]+:([^[\]]*)\]/g, "$1");
+  } while (result !== previous);
+
+  result = result
+    .replace(/\*\*/g, "")
+    .replace(/\*([A-Za-z])\*/g, "$1") // *x* italic variable
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, (digits) => "^" + [...digits].map((d) => SUPERSCRIPT_DIGITS[d]).join(""))
+    .replace(/[×·⋅]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/[−–]/g, "-")
+    .replace(/≈/g, "=")
+    .replace(/π/g, " pi ")
+    .replace(/(\d),(\d{3})(?!\d)/g, "$1$2") // 1,234 → 1234
+    .replace(/\^(-?[0-9A-Za-z.]+)\^/g, "^($1)") // x^2^ → x^(2)
+    .replace(/(\d+)\s+\{(\d+)\/(\d+)\}/g, "($1+$2/$3)"); // Mixed number 2 {1/2}
+
+  // {a/b} → ((a)/(b)), innermost first
+  do {
+    previous = result;
+    result = result.replace(/\{([^{}/]+)\/([^{}]+)\}/g, "(($1)/($2))");
+  } while (result !== previous);
+
+  return result;
+}
+
+// ============================================================================
+// TOKENIZER + PARSER
+// ============================================================================
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+(?:\.\d+)?|\.\d+)|([A-Za-z]+)|(\+\/-|[-+*/^()√±])|(=)|(,)|([ \t]+)|([\s\S])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const [, num, ident, op, eq, comma, space] = match;
+    if (num) tokens.push({ type: "num", value: parseFloat(num), text: num });
+    else if (ident) tokens.push({ type: "ident", text: ident });
+    else if (op) tokens.push({ type: "op", text: op === "+/-" ? "±" : op });
+    else if (eq) tokens.push({ type: "eq" });
+    else if (comma) tokens.push({ type: "comma" });
+    else if (!space) tokens.push({ type: "break" });
+  }
+
+  return tokens;
+}
+
+// Single letters are variables; these words are the only multi-letter names allowed in math
+const KNOWN_NAMES = new Set(["pi", "sqrt"]);
+
+/**
+ * Functions the parser evaluates ("sin x", "ln(x + 1)").
+ * Not in KNOWN_NAMES: the answer checker's math runs stay plain algebra.
+ */
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  sec: (value) => 1 / Math.cos(value),
+  csc: (value) => 1 / Math.sin(value),
+  cot: (value) => 1 / Math.tan(value),
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs,
+};
+
+export function isMathToken(token: Token | undefined): boolean {
+  if (!token) return false;
+  if (token.type === "num" || token.type === "op") return true;
+  return token.type === "ident" && (token.text.length === 1 || KNOWN_NAMES.has(token.text.toLowerCase()));
+}
+
+/**
+ * Parse a token run into an evaluator.
+ * Supports + - * / ^, parentheses, √ / sqrt(), pi, the FUNCTIONS above and
+ * implicit multiplication (2x, 3(x + 1), x(x - 2)). Throws on anything else.
+ */
+export function parseExpression(tokens: Token[]): ParsedExpr {
+  const variables = new Set<string>();
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (text: string) => {
+    const token = tokens[pos];
+    return token?.type === "op" && token.text === text;
+  };
+  const expectOp = (text: string) => {
+    if (!isOp(text)) throw new Error(`Expected "${text}"`);
+    pos++;
+  };
+
+  const startsPrimary = () => {
+    const token = peek();
+    return token?.type === "num" || token?.type === "ident" || isOp("(") || isOp("√");
+  };
+
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (isOp("+") || isOp("-")) {
+      const op = (peek() as { text: string }).text;
+      pos++;
+      const a = left;
+      const b = parseProduct();
+      left = op === "+" ? (v) => a(v) + b(v) : (v) => a(v) - b(v);
+    }
+    return left;
+  };
+
+  const parseProduct = (): Expr => {
+    let left = parseUnary();
+    for (;;) {
+      const a = left;
+      if (isOp("*") || isOp("/")) {
+        const op = (peek() as { text: string }).text;
+        pos++;
+        const b = parseUnary();
+        left = op === "*" ? (v) => a(v) * b(v) : (v) => a(v) / b(v);
+      } else if (startsPrimary() && !(peek().type === "num" && tokens[pos - 1]?.type === "num")) {
+        // Implicit multiplication (but "2 3" is not "6")
+        const b = parsePower();
+        left = (v) => a(v) * b(v);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): Expr => {
+    if (isOp("-")) {
+      pos++;
+      const a = parseUnary();
+      return (v) => -a(v);
+    }
+    if (isOp("+")) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Expr => {
+    const base = parsePrimary();
+    if (isOp("^")) {
+      pos++;
+      const exponent = parseUnary();
+      return (v) => Math.pow(base(v), exponent(v));
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    if (!token) throw new Error("Unexpected end of expression");
+
+    if (token.type === "num") {
+      pos++;
+      const value = token.value;
+      return () => value;
+    }
+
+    if (isOp("(")) {
+      pos++;
+      const inner = parseSum();
+      expectOp(")");
+      return inner;
+    }
+
+    if (isOp("√")) {
+      pos++;
+      const radicand = parsePower();
+      return (v) => Math.sqrt(radicand(v));
+    }
+
+    if (token.type === "ident") {
+      const name = token.text.toLowerCase();
+      pos++;
+      if (name === "pi") return () => Math.PI;
+      if (name === "sqrt") {
+        expectOp("(");
+        const radicand = parseSum();
+        expectOp(")");
+        return (v) => Math.sqrt(radicand(v));
+      }
+      const fn = FUNCTIONS[name];
+      if (fn) {
+        // sin(x)^2 squares the result; sin x^2 without parentheses squares x
+        const argument = isOp("(") ? parsePrimary() : parsePower();
+        if (isOp("^")) {
+          pos++;
+          const exponent = parseUnary();
+          return (v) => Math.pow(fn(argument(v)), exponent(v));
+        }
+        return (v) => fn(argument(v));
+      }
+      if (token.text.length !== 1) throw new Error(`Unknown name "${token.text}"`);
+      const variable = token.text;
+      variables.add(variable);
+      return (v) => {
+        if (!(variable in v)) throw new Error(`No value for ${variable}`);
+        return v[variable];
+      };
+    }
+
+    throw new Error("Unexpected token");
+  };
+
+  if (tokens.length === 0) throw new Error("Empty expression");
+  const evaluate = parseSum();
+  if (pos !== tokens.length) throw new Error("Unexpected trailing tokens");
+  return { evaluate, variables };
+}
+
+export function tryParse(tokens: Token[]): ParsedExpr | null {
+  try {
+    return parseExpression(tokens);
+  } catch {
+    return null;
+  }
+}
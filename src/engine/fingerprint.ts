@@ -0,0 +1,64 @@
+/**
+ * Question Fingerprint
+ *
+ * Stable cache key for a question, so asking the same thing twice (or
+ * re-opening the same worksheet photo) can be answered from the cache.
+ *
+ * - text: lowercased with whitespace collapsed ("Solve  2x=8 " ≡ "solve 2x=8")
+ * - image: hash of the image bytes plus the selected problem number
+ * - both: the solve prompt id ("solve.text@2"), so a new or pinned prompt version never
+ *   serves solutions written by another one
+ *
+ * CRITICAL: Bump FINGERPRINT_VERSION when the solution format changes, so
+ * stale cached solutions stop matching.
+ */
+
+import type { SolutionQuestion } from "./solutionEngine";
+import { getPromptTemplate, type PromptVersions } from "./promptRegistry";
+
+const FINGERPRINT_VERSION = "v2";
+
+/**
+ * Normalize question text for matching: case- and whitespace-insensitive
+ */
+export function normalizeQuestionText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * cyrb53 - fast non-cryptographic 53-bit string hash (pure JS, no native crypto needed)
+ */
+function cyrb53(str: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Hash a string to a hex digest (two seeds → ~106 bits, collisions are negligible)
+ */
+export function hashString(str: string): string {
+  return cyrb53(str, 0).toString(16).padStart(14, "0") + cyrb53(str, 1).toString(16).padStart(14, "0");
+}
+
+/**
+ * Build the cache key for a question solved with the given prompt versions
+ */
+export function getQuestionFingerprint(question: SolutionQuestion, promptVersions: PromptVersions = {}): string {
+  const promptName = question.kind === "text" ? "solve.text" : "solve.image";
+  const { version } = getPromptTemplate(promptName, promptVersions[promptName]);
+  const prefix = `${FINGERPRINT_VERSION}:${promptName}@${version}`;
+
+  if (question.kind === "text") {
+    return `${prefix}:text:${hashString(normalizeQuestionText(question.text))}`;
+  }
+  const problemNumber = normalizeQuestionText(question.problemNumber ?? "");
+  return `${prefix}:image:${hashString(question.imageBase64)}:${problemNumber}`;
+}
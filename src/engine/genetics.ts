@@ -0,0 +1,299 @@
+/**
+ * Genetics - Punnett Squares
+ *
+ * Builds the Punnett square for a cross written in a [PUNNETT: ...] marker
+ * and counts the genotype and phenotype ratios locally, so the grid the
+ * student sees and the ratios under it always agree.
+ *
+ *   [PUNNETT: Tt x Tt]                     monohybrid cross
+ *   [PUNNETT: AaBb x aabb]                 dihybrid cross
+ *   [PUNNETT: Tt x tt; T: tall; t: short]  optional trait names
+ *   [PUNNETT: X^R^X^r^ x X^R^Y]            X-linked cross (Y carries no allele)
+ *   [PUNNETT: I^A^i x I^B^i]               multiple alleles, codominance
+ *
+ * An allele is a letter with an optional superscript ("T", "I^A^", "X^r^").
+ * Uppercase is dominant: "T" over "t", "X^R^" over "X^r^", "I^A^" over "i";
+ * two different dominant alleles are codominant ("I^A^I^B^" shows both).
+ * Up to three genes (an 8 × 8 grid). Parent 1's gametes run across the top,
+ * parent 2's down the side.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One gene of a genotype: its name and the two alleles, dominant first ("Tt", "X^R^Y") */
+export interface GenePair {
+  gene: string;
+  alleles: [string, string];
+}
+
+export interface RatioEntry {
+  /** "Tt" for genotypes; "tall" or "T_" for phenotypes */
+  label: string;
+  /** Number of grid cells */
+  count: number;
+}
+
+export interface PunnettCross {
+  parents: [string, string];
+  /** Gametes of parent 1 (columns) */
+  columnGametes: string[];
+  /** Gametes of parent 2 (rows) */
+  rowGametes: string[];
+  /** cells[row][column] - offspring genotype */
+  cells: string[][];
+  genotypes: RatioEntry[];
+  phenotypes: RatioEntry[];
+  /** Phenotype label of each offspring genotype */
+  phenotypeOf: Record<string, string>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Three genes give an 8 × 8 grid - the most that still scrolls readably on a phone */
+const MAX_GENES = 3;
+
+/** Gene name of X-linked alleles - "X^R^" and the "Y" it pairs with */
+const SEX_GENE = "X";
+
+const CROSS_SIGN = /\s+[x×X*]\s+|\s*×\s*/;
+
+/** One allele: a letter with an optional superscript */
+const ALLELE_PATTERN = /[A-Za-z](?:\^[^^\s]+\^)?/g;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** The letters that name an allele: "T" → "T", "X^R^" → "R" */
+function alleleName(allele: string): string {
+  return /\^([^^]+)\^/.exec(allele)?.[1] ?? allele;
+}
+
+function isDominant(allele: string): boolean {
+  const name = alleleName(allele);
+  return name[0] !== name[0].toLowerCase();
+}
+
+/** The Y chromosome of an X-linked gene carries no allele */
+function isYChromosome(gene: string, allele: string): boolean {
+  return gene === SEX_GENE && allele === "Y";
+}
+
+/** "Aa" → "Aa", "aA" → "Aa", "YX^r^" → "X^r^Y", "I^B^I^A^" → "I^A^I^B^": dominant allele first, Y last */
+function orderAlleles(gene: string, first: string, second: string): [string, string] {
+  if (isYChromosome(gene, first)) return [second, first];
+  if (isYChromosome(gene, second)) return [first, second];
+  if (isDominant(first) !== isDominant(second)) return isDominant(first) ? [first, second] : [second, first];
+  return alleleName(first) <= alleleName(second) ? [first, second] : [second, first];
+}
+
+/** Gene two alleles belong to: "t" for T/t, "i" for I^A^/i, SEX_GENE for X^R^/X^r^/Y - or null */
+function geneOf(first: string, second: string): string | null {
+  const isX = (allele: string) => /^X\^/.test(allele);
+  if ((isX(first) && (isX(second) || second === "Y")) || (first === "Y" && isX(second))) return SEX_GENE;
+  return first[0].toLowerCase() === second[0].toLowerCase() ? first[0].toLowerCase() : null;
+}
+
+/**
+ * Parse a genotype written as allele pairs: "Tt", "AaBb", "I^A^i", "X^R^Y".
+ * Returns null unless the alleles pair up into at most MAX_GENES distinct genes.
+ */
+export function parseGenotype(text: string): GenePair[] | null {
+  const compact = text.replace(/\s+/g, "");
+  const alleles = compact.match(ALLELE_PATTERN) ?? [];
+  if (alleles.length === 0 || alleles.length % 2 !== 0 || alleles.join("") !== compact) return null;
+
+  const pairs: GenePair[] = [];
+  for (let i = 0; i < alleles.length; i += 2) {
+    const gene = geneOf(alleles[i], alleles[i + 1]);
+    if (!gene || pairs.some((pair) => pair.gene === gene)) return null;
+    pairs.push({ gene, alleles: orderAlleles(gene, alleles[i], alleles[i + 1]) });
+  }
+  return pairs.length <= MAX_GENES ? pairs : null;
+}
+
+/**
+ * Parse the text inside [PUNNETT: ...] into the two parents and any trait
+ * names ("T: tall", "X^r^: white eyes"). Returns null when the parents don't
+ * share the same genes, or both carry a Y.
+ */
+export function parseCross(
+  spec: string
+): { parents: [GenePair[], GenePair[]]; traits: Record<string, string> } | null {
+  const [cross, ...clauses] = spec.split(";").map((part) => part.trim());
+  const sides = cross.split(CROSS_SIGN).map((side) => side.trim());
+  if (sides.length !== 2) return null;
+
+  const first = parseGenotype(sides[0]);
+  const second = parseGenotype(sides[1]);
+  if (!first || !second || first.length !== second.length) return null;
+  if (first.some((pair, index) => pair.gene !== second[index].gene)) return null;
+  const hasY = (genotype: GenePair[]) => genotype.some((pair) => isYChromosome(pair.gene, pair.alleles[1]));
+  if (hasY(first) && hasY(second)) return null;
+
+  const traits: Record<string, string> = {};
+  for (const clause of clauses) {
+    const trait = /^([A-Za-z](?:\^[^^\s]+\^)?)\s*[:=]\s*(.+)$/.exec(clause);
+    if (trait) traits[trait[1]] = trait[2].trim();
+  }
+  return { parents: [first, second], traits };
+}
+
+// ============================================================================
+// CROSSING
+// ============================================================================
+
+/**
+ * Every gamete of a parent, one allele per gene: AaBb → AB, Ab, aB, ab.
+ * Homozygous genes repeat their allele (TT → T, T) so each gamete is equally likely.
+ */
+export function gametes(genotype: GenePair[]): string[] {
+  return gameteAlleles(genotype).map((alleles) => alleles.join(""));
+}
+
+function gameteAlleles(genotype: GenePair[]): string[][] {
+  return genotype.reduce<string[][]>(
+    (partial, pair) => partial.flatMap((prefix) => pair.alleles.map((allele) => [...prefix, allele])),
+    [[]]
+  );
+}
+
+/** Offspring from two gametes, gene by gene: "Ab" + "ab" → Aa, bb */
+function combine(genes: string[], first: string[], second: string[]): GenePair[] {
+  return genes.map((gene, index) => ({ gene, alleles: orderAlleles(gene, first[index], second[index]) }));
+}
+
+/** Trait name of an allele, by the allele ("X^r^: white") or its name ("r: white") */
+function traitOf(allele: string, traits: Record<string, string>): string | undefined {
+  return traits[allele] ?? traits[alleleName(allele)];
+}
+
+/**
+ * Phenotype of one gene pair: the trait names, or the alleles that show -
+ * "T_" (dominant over a recessive allele in the cross), "tt" (recessive),
+ * "I^A^I^B^" (codominant). X-linked genes say the sex when named ("red
+ * female", "white male"); without names "X^R^_" and "X^R^Y" tell them apart.
+ */
+function genePhenotype(pair: GenePair, traits: Record<string, string>, recessiveInCross: boolean): string {
+  const [first, second] = pair.alleles;
+  const male = isYChromosome(pair.gene, second);
+  // Both alleles show when neither dominates the other ("I^A^I^B^", two different recessives)
+  const bothShow = !male && first !== second && isDominant(first) === isDominant(second);
+  const shown = bothShow ? [first, second] : [first];
+
+  const names = shown.map((allele) => traitOf(allele, traits));
+  if (names.every(Boolean)) {
+    const sex = pair.gene === SEX_GENE ? (male ? " male" : " female") : "";
+    return names.join(" and ") + sex;
+  }
+  return isDominant(first) && !bothShow && !male && recessiveInCross ? `${first}_` : first + second;
+}
+
+/** Sort key putting dominant-heavy genotypes first, gene by gene: TT, Tt, tt (females before males) */
+function dominanceKey(genotype: GenePair[]): string {
+  return genotype
+    .map((pair) => {
+      const dominant = pair.alleles.filter((allele) => isDominant(allele) && !isYChromosome(pair.gene, allele));
+      const recessive = String(2 - dominant.length);
+      return pair.gene === SEX_GENE ? `${isYChromosome(pair.gene, pair.alleles[1]) ? 1 : 0}${recessive}` : recessive;
+    })
+    .join("");
+}
+
+/** Merge entries with the same label, keeping first-seen order */
+function tally(entries: RatioEntry[]): RatioEntry[] {
+  const counts = new Map<string, number>();
+  for (const { label, count } of entries) counts.set(label, (counts.get(label) ?? 0) + count);
+  return Array.from(counts, ([label, count]) => ({ label, count }));
+}
+
+/**
+ * Cross two parents from a [PUNNETT: ...] spec.
+ *
+ * Returns null when the spec can't be read - callers show the cross as
+ * written rather than a wrong grid.
+ */
+export function buildPunnettSquare(spec: string): PunnettCross | null {
+  const cross = parseCross(spec);
+  if (!cross) return null;
+
+  const [first, second] = cross.parents;
+  const genes = first.map((pair) => pair.gene);
+  const columnAlleles = gameteAlleles(first);
+  const rowAlleles = gameteAlleles(second);
+  const offspringOf = new Map<string, GenePair[]>();
+  const cells = rowAlleles.map((row) =>
+    columnAlleles.map((column) => {
+      const offspring = combine(genes, column, row);
+      const genotype = serializeGenotype(offspring);
+      offspringOf.set(genotype, offspring);
+      return genotype;
+    })
+  );
+
+  const genotypes = tally(cells.flat().map((label) => ({ label, count: 1 }))).sort(
+    (a, b) =>
+      dominanceKey(offspringOf.get(a.label)!).localeCompare(dominanceKey(offspringOf.get(b.label)!)) ||
+      a.label.localeCompare(b.label)
+  );
+  const recessiveInCross = genes.map((_, index) =>
+    [...first[index].alleles, ...second[index].alleles].some(
+      (allele) => !isDominant(allele) && !isYChromosome(genes[index], allele)
+    )
+  );
+
+  // "A_B_" in gene notation, "tall, round" with trait names
+  const separator = Object.keys(cross.traits).length > 0 ? ", " : "";
+  const phenotypeOf = Object.fromEntries(
+    genotypes.map((entry) => [
+      entry.label,
+      offspringOf
+        .get(entry.label)!
+        .map((pair, index) => genePhenotype(pair, cross.traits, recessiveInCross[index]))
+        .join(separator),
+    ])
+  );
+  // Phenotypes follow the genotype order, so the dominant phenotype comes first (9 : 3 : 3 : 1)
+  const phenotypes = tally(genotypes.map((entry) => ({ label: phenotypeOf[entry.label], count: entry.count })));
+
+  return {
+    parents: [serializeGenotype(first), serializeGenotype(second)],
+    columnGametes: columnAlleles.map((alleles) => alleles.join("")),
+    rowGametes: rowAlleles.map((alleles) => alleles.join("")),
+    cells,
+    genotypes,
+    phenotypes,
+    phenotypeOf,
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** Genotype back to text, dominant allele first: "AaBb" */
+export function serializeGenotype(genotype: GenePair[]): string {
+  return genotype.map((pair) => pair.alleles.join("")).join("");
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Counts reduced to lowest terms: [4, 8, 4] → "1 : 2 : 1" */
+export function formatRatio(entries: RatioEntry[]): string {
+  const divisor = entries.reduce((result, entry) => gcd(result, entry.count), 0) || 1;
+  return entries.map((entry) => entry.count / divisor).join(" : ");
+}
+
+/** Share of the offspring as a percentage: 3 of 4 → "75%" */
+export function formatPercent(entry: RatioEntry, total: number): string {
+  const percent = (entry.count / total) * 100;
+  return `${Number.isInteger(percent) ? percent : percent.toFixed(2).replace(/0+$/, "")}%`;
+}
@@ -0,0 +1,436 @@
+/**
+ * Function Graphs
+ *
+ * Reads the [GRAPH: ...] marker and computes everything the plot shows -
+ * curve samples, intercepts, intersections, axis ticks - locally, so the
+ * intercepts on screen are exact instead of whatever an image model draws.
+ *
+ *   [GRAPH: y = 5/6 x - 6; x:-2..10; y:-8..2]
+ *   [GRAPH: y = x^2^ - 4; y = 2x - 1; points: (1, -3) vertex]
+ *
+ * Clauses are separated by ";":
+ *   y = ... / f(x) = ...   a curve (app notation or plain math)
+ *   x = 3                  a vertical line
+ *   x:a..b / y:a..b        axis ranges (y is fitted to the curves if omitted)
+ *   points: (x, y) label   extra labeled points
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import { toPlainMath, tokenize, tryParse } from "./expression";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GraphRange {
+  min: number;
+  max: number;
+}
+
+export interface GraphCurve {
+  /** As written in the marker: "y = 5/6 x - 6" */
+  label: string;
+  /** NaN where the function is undefined */
+  evaluate: (x: number) => number;
+}
+
+export type GraphPointKind = "y-intercept" | "x-intercept" | "intersection" | "given";
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+  kind: GraphPointKind;
+  /** "(0, -6)", or "vertex (1, -3)" for given points */
+  label: string;
+}
+
+export interface GraphSpec {
+  curves: GraphCurve[];
+  verticalLines: number[];
+  xRange: GraphRange;
+  yRange: GraphRange;
+  /** Points given in the marker - intercepts are computed by findKeyPoints() */
+  givenPoints: GraphPoint[];
+}
+
+export interface GraphPixel {
+  x: number;
+  y: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_X_RANGE: GraphRange = { min: -10, max: 10 };
+
+/** Samples across the visible x range - enough for smooth curves and root brackets */
+const SAMPLE_COUNT = 400;
+
+/** |f(x)| below this after bisection counts as a root (larger means an asymptote) */
+const ROOT_TOLERANCE = 1e-6;
+
+/** Roots found without a sign change (x^2 touching the axis) must be this close to 0 */
+const TOUCH_TOLERANCE = 1e-8;
+
+/** A busy curve (sin x over a wide range) shouldn't bury the plot in dots */
+const MAX_ROOTS_PER_CURVE = 12;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Compile one side of a curve clause into a function of x.
+ * "e" is Euler's number; any other letter makes the clause unreadable.
+ */
+function compileCurve(expression: string): ((x: number) => number) | null {
+  const plain = toPlainMath(expression).replace(/\|([^|]+)\|/g, "abs($1)");
+  const parsed = tryParse(tokenize(plain));
+  if (!parsed || [...parsed.variables].some((variable) => variable !== "x" && variable !== "e")) return null;
+
+  return (x) => {
+    try {
+      return parsed.evaluate({ x, e: Math.E });
+    } catch {
+      return NaN;
+    }
+  };
+}
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.trim().replace(/[−–]/g, "-"));
+  return text.trim() !== "" && Number.isFinite(value) ? value : null;
+}
+
+function parseRange(text: string): GraphRange | null {
+  const [min, max] = text.split(/\.\.|\s+to\s+/).map(parseNumber);
+  return min !== null && max !== null && max !== undefined && min < max ? { min, max } : null;
+}
+
+function parsePoints(text: string): GraphPoint[] {
+  const points: GraphPoint[] = [];
+  for (const match of text.matchAll(/\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)\s*([^,(]*)/g)) {
+    const x = parseNumber(match[1]);
+    const y = parseNumber(match[2]);
+    if (x === null || y === null) continue;
+    const name = match[3].trim();
+    const coordinates = formatPoint(x, y);
+    points.push({ x, y, kind: "given", label: name ? `${name} ${coordinates}` : coordinates });
+  }
+  return points;
+}
+
+/**
+ * Parse the text inside [GRAPH: ...].
+ * Returns null when no curve or vertical line could be read - the caller
+ * shows the marker text instead of an empty plot.
+ */
+export function parseGraphSpec(spec: string): GraphSpec | null {
+  const curves: GraphCurve[] = [];
+  const verticalLines: number[] = [];
+  const givenPoints: GraphPoint[] = [];
+  let xRange: GraphRange | null = null;
+  let yRange: GraphRange | null = null;
+
+  for (const rawClause of spec.split(";")) {
+    const clause = rawClause.trim();
+    if (!clause) continue;
+
+    const range = /^([xy])\s*:\s*(.+)$/i.exec(clause);
+    if (range) {
+      const parsed = parseRange(range[2]);
+      if (range[1].toLowerCase() === "x") xRange = parsed ?? xRange;
+      else yRange = parsed ?? yRange;
+      continue;
+    }
+
+    const points = /^points?\s*:\s*(.+)$/i.exec(clause);
+    if (points) {
+      givenPoints.push(...parsePoints(points[1]));
+      continue;
+    }
+
+    const vertical = /^x\s*=\s*(.+)$/i.exec(clause);
+    if (vertical) {
+      const value = compileCurve(vertical[1])?.(0);
+      if (value !== undefined && Number.isFinite(value)) verticalLines.push(value);
+      continue;
+    }
+
+    // "y = ...", "f(x) = ..." or a bare expression in x
+    const curve = /^(?:y|[A-Za-z]\s*\(\s*x\s*\))\s*=\s*(.+)$/.exec(clause);
+    const evaluate = compileCurve(curve ? curve[1] : clause);
+    if (evaluate) curves.push({ label: curve ? clause : `y = ${clause}`, evaluate });
+  }
+
+  if (curves.length === 0 && verticalLines.length === 0) return null;
+
+  const resolvedXRange = xRange ?? DEFAULT_X_RANGE;
+  return {
+    curves,
+    verticalLines,
+    xRange: resolvedXRange,
+    yRange: yRange ?? fitYRange(curves, resolvedXRange, givenPoints),
+    givenPoints,
+  };
+}
+
+// ============================================================================
+// NUMERICS
+// ============================================================================
+
+/** Snap floating point noise (6.999999999) to the value the student expects */
+function snap(value: number): number {
+  const rounded = Math.round(value);
+  if (Math.abs(value - rounded) < 1e-9) return rounded;
+  return value;
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let a = low;
+  let b = high;
+  const fa = f(a);
+  for (let i = 0; i < 60; i++) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (fm === 0) return mid;
+    if (Math.sign(fm) === Math.sign(fa)) a = mid;
+    else b = mid;
+  }
+  return (a + b) / 2;
+}
+
+/** Minimum of |f| on [low, high] by ternary search (for roots that touch the axis) */
+function minimizeAbs(f: (x: number) => number, low: number, high: number): number {
+  let a = low;
+  let b = high;
+  for (let i = 0; i < 80; i++) {
+    const m1 = a + (b - a) / 3;
+    const m2 = b - (b - a) / 3;
+    if (Math.abs(f(m1)) < Math.abs(f(m2))) b = m2;
+    else a = m1;
+  }
+  return (a + b) / 2;
+}
+
+/**
+ * Zeros of f in the range. Sign changes are bisected (and dropped if |f|
+ * is still large there - that's an asymptote like tan x); local minima of
+ * |f| that reach 0 catch double roots like x^2.
+ */
+export function findRoots(f: (x: number) => number, range: GraphRange): number[] {
+  const roots: number[] = [];
+  const step = (range.max - range.min) / SAMPLE_COUNT;
+  const add = (root: number) => {
+    if (roots.some((existing) => Math.abs(existing - root) < step / 2)) return;
+    roots.push(snap(root));
+  };
+
+  const xs = Array.from({ length: SAMPLE_COUNT + 1 }, (_, i) => range.min + i * step);
+  const ys = xs.map(f);
+
+  for (let i = 0; i < xs.length; i++) {
+    const y = ys[i];
+    if (!Number.isFinite(y)) continue;
+    if (y === 0) {
+      add(xs[i]);
+      continue;
+    }
+
+    const previous = ys[i - 1];
+    if (i > 0 && Number.isFinite(previous) && previous !== 0 && Math.sign(previous) !== Math.sign(y)) {
+      const root = bisect(f, xs[i - 1], xs[i]);
+      if (Math.abs(f(root)) <= ROOT_TOLERANCE) add(root);
+      continue;
+    }
+
+    const next = ys[i + 1];
+    const isLocalMinimum =
+      i > 0 && Math.abs(previous) > Math.abs(y) && Number.isFinite(next) && Math.abs(next) >= Math.abs(y);
+    if (isLocalMinimum && Math.sign(next) === Math.sign(y)) {
+      const candidate = minimizeAbs(f, xs[i - 1], xs[i + 1]);
+      if (Math.abs(f(candidate)) <= TOUCH_TOLERANCE) add(candidate);
+    }
+  }
+
+  return roots.sort((a, b) => a - b).slice(0, MAX_ROOTS_PER_CURVE);
+}
+
+/**
+ * Y range that shows the curves over the x range, with the x-axis and the
+ * given points in view. Asymptotes (1/x, tan x) are cut off at the bulk of
+ * the values instead of stretching the plot to 10^15.
+ */
+function fitYRange(curves: GraphCurve[], xRange: GraphRange, points: GraphPoint[]): GraphRange {
+  const values: number[] = [0, ...points.map((point) => point.y)];
+  const step = (xRange.max - xRange.min) / SAMPLE_COUNT;
+  for (const curve of curves) {
+    for (let i = 0; i <= SAMPLE_COUNT; i++) {
+      const y = curve.evaluate(xRange.min + i * step);
+      if (Number.isFinite(y)) values.push(y);
+    }
+  }
+
+  values.sort((a, b) => a - b);
+  let min = values[0];
+  let max = values[values.length - 1];
+
+  const low = values[Math.floor(values.length * 0.05)];
+  const high = values[Math.ceil(values.length * 0.95) - 1];
+  if (high > low && max - min > 20 * (high - low)) {
+    // Leave room to see the curve heading toward the asymptote
+    const span = high - low;
+    min = Math.min(low - span, 0);
+    max = Math.max(high + span, 0);
+  }
+
+  if (max - min < 1e-9) {
+    min -= 1;
+    max += 1;
+  }
+
+  const padding = (max - min) * 0.1;
+  return { min: min - padding, max: max + padding };
+}
+
+// ============================================================================
+// KEY POINTS
+// ============================================================================
+
+/** 2 decimals at most, no trailing zeros, no "-0" */
+export function formatCoordinate(value: number): string {
+  const rounded = Number(value.toFixed(2));
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function formatPoint(x: number, y: number): string {
+  return `(${formatCoordinate(x)}, ${formatCoordinate(y)})`;
+}
+
+function inRange(value: number, range: GraphRange): boolean {
+  return value >= range.min && value <= range.max;
+}
+
+/**
+ * Intercepts of every curve and intersections of every pair of curves
+ * within the x range, followed by the given points.
+ */
+export function findKeyPoints(spec: GraphSpec, xRange: GraphRange = spec.xRange): GraphPoint[] {
+  const points: GraphPoint[] = [];
+  const add = (x: number, y: number, kind: GraphPointKind) => {
+    if (!Number.isFinite(y)) return;
+    const isDuplicate = points.some((point) => Math.abs(point.x - x) < 1e-6 && Math.abs(point.y - y) < 1e-6);
+    if (!isDuplicate) points.push({ x: snap(x), y: snap(y), kind, label: formatPoint(snap(x), snap(y)) });
+  };
+
+  spec.curves.forEach((curve, index) => {
+    if (inRange(0, xRange)) add(0, curve.evaluate(0), "y-intercept");
+    for (const root of findRoots(curve.evaluate, xRange)) add(root, 0, "x-intercept");
+
+    for (const other of spec.curves.slice(index + 1)) {
+      const difference = (x: number) => curve.evaluate(x) - other.evaluate(x);
+      for (const x of findRoots(difference, xRange)) add(x, curve.evaluate(x), "intersection");
+    }
+  });
+
+  for (const x of spec.verticalLines) {
+    if (inRange(x, xRange)) add(x, 0, "x-intercept");
+  }
+
+  return [...points, ...spec.givenPoints];
+}
+
+// ============================================================================
+// PLOTTING HELPERS
+// ============================================================================
+
+/**
+ * Round tick positions (1, 2 or 5 × 10^n apart) covering the range.
+ */
+export function niceTicks(range: GraphRange, maxTicks = 10): number[] {
+  const rawStep = (range.max - range.min) / maxTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rawStep) ?? rawStep;
+
+  const ticks: number[] = [];
+  for (let value = Math.ceil(range.min / step) * step; value <= range.max + step * 1e-9; value += step) {
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Sample a curve into pixel-space polylines. The curve is split where it is
+ * undefined and where it jumps across an asymptote, so tan x doesn't get
+ * vertical lines joining its branches.
+ */
+export function sampleCurve(
+  curve: GraphCurve,
+  xRange: GraphRange,
+  yRange: GraphRange,
+  size: { width: number; height: number }
+): GraphPixel[][] {
+  const segments: GraphPixel[][] = [];
+  let current: GraphPixel[] = [];
+  let previousY: number | null = null;
+  const ySpan = yRange.max - yRange.min;
+  const step = (xRange.max - xRange.min) / SAMPLE_COUNT;
+
+  const endSegment = () => {
+    if (current.length > 1) segments.push(current);
+    current = [];
+  };
+
+  for (let i = 0; i <= SAMPLE_COUNT; i++) {
+    const x = xRange.min + i * step;
+    const y = curve.evaluate(x);
+    if (!Number.isFinite(y)) {
+      endSegment();
+      previousY = null;
+      continue;
+    }
+
+    if (previousY !== null && Math.abs(y - previousY) > ySpan * 2) endSegment();
+    previousY = y;
+
+    // Clamp far off-screen values so the path stays drawable
+    const clampedY = Math.max(yRange.min - ySpan, Math.min(yRange.max + ySpan, y));
+    current.push(toPixel({ x, y: clampedY }, xRange, yRange, size));
+  }
+
+  endSegment();
+  return segments;
+}
+
+export function toPixel(
+  point: { x: number; y: number },
+  xRange: GraphRange,
+  yRange: GraphRange,
+  size: { width: number; height: number }
+): GraphPixel {
+  return {
+    x: ((point.x - xRange.min) / (xRange.max - xRange.min)) * size.width,
+    y: ((yRange.max - point.y) / (yRange.max - yRange.min)) * size.height,
+  };
+}
+
+/** Smallest and largest visible span - keeps pinch zoom from collapsing the axes */
+const MIN_SPAN = 1e-3;
+const MAX_SPAN = 1e6;
+
+/**
+ * Zoom a range by a factor (>1 zooms in), keeping the anchor value at the
+ * same place on screen - the point between the user's fingers stays put.
+ */
+export function zoomRange(range: GraphRange, factor: number, anchor: number): GraphRange {
+  const span = range.max - range.min;
+  const nextSpan = Math.min(MAX_SPAN, Math.max(MIN_SPAN, span / factor));
+  const ratio = nextSpan / span;
+  return { min: anchor - (anchor - range.min) * ratio, max: anchor + (range.max - anchor) * ratio };
+}
+
+export function shiftRange(range: GraphRange, delta: number): GraphRange {
+  return { min: range.min + delta, max: range.max + delta };
+}
@@ -0,0 +1,823 @@
+/**
+ * LaTeX Bridge
+ *
+ * Converts between LaTeX and the app's own math notation:
+ *   {a/b}      fraction               \frac{a}{b}
+ *   ^x^        superscript            ^{x}
+ *   _x_        subscript              _{x}
+ *   √(x)       square root            \sqrt{x}
+ *   ∛(x)       cube root              \sqrt[3]{x}
+ *   [matrix: a, b; c, d]              \begin{bmatrix} a & b \\ c & d \end{bmatrix}
+ *   Σ_i=1_^n^  sums/products/integrals keep their symbol with sub/superscripts
+ *
+ * latexToAppNotation() is used on model output (which sometimes ignores the
+ * "no LaTeX" prompt rules), appNotationToLatex() powers "Copy as LaTeX".
+ *
+ * CRITICAL: Greek letters stay words ("theta") in app notation, matching the
+ * prompts - the formatter and MathText expect words, not symbols.
+ */
+
+// ============================================================================
+// SYMBOL TABLES
+// ============================================================================
+
+const GREEK_LETTERS = [
+  "alpha",
+  "beta",
+  "gamma",
+  "delta",
+  "epsilon",
+  "varepsilon",
+  "zeta",
+  "eta",
+  "theta",
+  "vartheta",
+  "iota",
+  "kappa",
+  "lambda",
+  "mu",
+  "nu",
+  "xi",
+  "pi",
+  "varpi",
+  "rho",
+  "varrho",
+  "sigma",
+  "varsigma",
+  "tau",
+  "upsilon",
+  "phi",
+  "varphi",
+  "chi",
+  "psi",
+  "omega",
+  "Gamma",
+  "Delta",
+  "Theta",
+  "Lambda",
+  "Xi",
+  "Pi",
+  "Sigma",
+  "Upsilon",
+  "Phi",
+  "Psi",
+  "Omega",
+];
+
+/** Unicode Greek letters the model sometimes writes directly in app notation */
+const GREEK_SYMBOLS: Record<string, string> = {
+  α: "alpha",
+  β: "beta",
+  γ: "gamma",
+  δ: "delta",
+  ε: "epsilon",
+  θ: "theta",
+  λ: "lambda",
+  μ: "mu",
+  π: "pi",
+  ρ: "rho",
+  σ: "sigma",
+  τ: "tau",
+  φ: "phi",
+  ω: "omega",
+  Δ: "Delta",
+  Θ: "Theta",
+  Ω: "Omega",
+};
+
+const FUNCTION_NAMES = [
+  "sin",
+  "cos",
+  "tan",
+  "sec",
+  "csc",
+  "cot",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "sinh",
+  "cosh",
+  "tanh",
+  "log",
+  "ln",
+  "exp",
+  "lim",
+  "max",
+  "min",
+  "det",
+  "gcd",
+];
+
+/** LaTeX commands that map to a single character */
+const LATEX_SYMBOLS: Record<string, string> = {
+  times: "×",
+  div: "÷",
+  cdot: "·",
+  pm: "±",
+  mp: "∓",
+  leq: "≤",
+  le: "≤",
+  geq: "≥",
+  ge: "≥",
+  neq: "≠",
+  ne: "≠",
+  approx: "≈",
+  equiv: "≡",
+  sim: "~",
+  propto: "∝",
+  infty: "∞",
+  to: "→",
+  rightarrow: "→",
+  longrightarrow: "→",
+  leftarrow: "←",
+  leftrightarrow: "↔",
+  Rightarrow: "⇒",
+  implies: "⇒",
+  Leftrightarrow: "⇔",
+  iff: "⇔",
+  rightleftharpoons: "⇌",
+  circ: "°",
+  degree: "°",
+  angle: "∠",
+  triangle: "△",
+  perp: "⊥",
+  parallel: "∥",
+  in: "∈",
+  notin: "∉",
+  subset: "⊂",
+  subseteq: "⊆",
+  cup: "∪",
+  cap: "∩",
+  emptyset: "∅",
+  varnothing: "∅",
+  forall: "∀",
+  exists: "∃",
+  partial: "∂",
+  nabla: "∇",
+  cdots: "⋯",
+  ldots: "…",
+  dots: "…",
+  prime: "′",
+  therefore: "∴",
+  because: "∵",
+  neg: "¬",
+  land: "∧",
+  lor: "∨",
+  langle: "⟨",
+  rangle: "⟩",
+  lfloor: "⌊",
+  rfloor: "⌋",
+  lceil: "⌈",
+  rceil: "⌉",
+  mid: "|",
+  vert: "|",
+  Vert: "‖",
+  hbar: "ℏ",
+  ell: "ℓ",
+  sum: "Σ",
+  prod: "∏",
+  int: "∫",
+  iint: "∬",
+  oint: "∮",
+};
+
+/** Escaped characters: \{ → { */
+const LATEX_ESCAPES: Record<string, string> = {
+  "{": "{",
+  "}": "}",
+  "%": "%",
+  $: "$",
+  "&": "&",
+  "#": "#",
+  _: "_",
+  "|": "‖",
+  ",": " ",
+  ";": " ",
+  ":": " ",
+  " ": " ",
+  "!": "",
+};
+
+/** Commands whose argument is shown as-is */
+const TEXT_COMMANDS = ["text", "textrm", "mathrm", "mbox", "operatorname", "mathsf", "mathcal", "mathbb"];
+const BOLD_COMMANDS = ["textbf", "mathbf", "boldsymbol", "bm"];
+const ITALIC_COMMANDS = ["textit", "mathit", "emph"];
+
+/** Accents become a combining mark on a single character */
+const ACCENTS: Record<string, string> = {
+  vec: "⃗",
+  hat: "̂",
+  bar: "̅",
+  overline: "̅",
+  dot: "̇",
+  ddot: "̈",
+  tilde: "̃",
+};
+
+/** Sizing and layout commands with no visible output */
+const IGNORED_COMMANDS = [
+  "left",
+  "right",
+  "middle",
+  "big",
+  "Big",
+  "bigg",
+  "Bigg",
+  "bigl",
+  "bigr",
+  "Bigl",
+  "Bigr",
+  "displaystyle",
+  "textstyle",
+  "limits",
+  "nolimits",
+  "mathstrut",
+];
+
+const HIGHLIGHT_COLORS = ["red", "blue", "green", "orange", "purple", "yellow"];
+
+const MATRIX_ENVIRONMENTS = ["matrix", "pmatrix", "bmatrix", "Bmatrix", "vmatrix", "Vmatrix", "smallmatrix", "array"];
+
+/**
+ * Every command name the bridge understands.
+ * Used to tell "\theta" from a JSON tab escape followed by "heta".
+ */
+export const KNOWN_LATEX_COMMANDS: ReadonlySet<string> = new Set([
+  ...GREEK_LETTERS,
+  ...FUNCTION_NAMES,
+  ...Object.keys(LATEX_SYMBOLS),
+  ...TEXT_COMMANDS,
+  ...BOLD_COMMANDS,
+  ...ITALIC_COMMANDS,
+  ...Object.keys(ACCENTS),
+  ...IGNORED_COMMANDS,
+  "frac",
+  "dfrac",
+  "tfrac",
+  "cfrac",
+  "sqrt",
+  "begin",
+  "end",
+  "textcolor",
+  "color",
+  "quad",
+  "qquad",
+]);
+
+// ============================================================================
+// LATEX → APP NOTATION
+// ============================================================================
+
+/**
+ * Strip math delimiters: $$...$$, \[...\], \(...\) and $...$ around LaTeX.
+ * A lone "$5" (money) is left alone.
+ */
+function stripMathDelimiters(latex: string): string {
+  return latex
+    .replace(/\$\$([\s\S]+?)\$\$/g, "$1")
+    .replace(/\\[[\]()]/g, "")
+    .replace(/\$([^$\n]*[\\^_][^$\n]*)\$/g, "$1");
+}
+
+/** Word-like output ("theta", "sin") needs a space before it if it follows a letter */
+function appendWord(output: string, word: string): string {
+  return /[A-Za-z]$/.test(output) ? `${output} ${word}` : output + word;
+}
+
+/** Plain letters and digits don't need parentheses after √ */
+function isSimpleOperand(text: string): boolean {
+  return /^[A-Za-z0-9.]+$/.test(text);
+}
+
+function wrapScript(marker: "^" | "_", content: string): string {
+  if (marker === "^" && (content === "°" || content === "′")) return content;
+  return `${marker}${content}${marker}`;
+}
+
+function createLatexReader(source: string) {
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  /** Read a balanced {...} group starting at "{", returning its raw inside */
+  const readGroup = (): string => {
+    let depth = 0;
+    const start = pos + 1;
+    for (; pos < source.length; pos++) {
+      const char = source[pos];
+      if (char === "\\") {
+        pos++;
+        continue;
+      }
+      if (char === "{") depth++;
+      if (char === "}" && --depth === 0) {
+        pos++;
+        return source.slice(start, pos - 1);
+      }
+    }
+    return source.slice(start);
+  };
+
+  /** Read an optional [...] argument (e.g. the index of \sqrt[3]{x}) */
+  const readOptional = (): string | null => {
+    skipSpaces();
+    if (source[pos] !== "[") return null;
+    const close = source.indexOf("]", pos);
+    if (close === -1) return null;
+    const inner = source.slice(pos + 1, close);
+    pos = close + 1;
+    return inner;
+  };
+
+  const readCommandName = (): string => {
+    const match = /^[A-Za-z]+/.exec(source.slice(pos));
+    if (match) {
+      pos += match[0].length;
+      return match[0];
+    }
+    return source[pos++] ?? "";
+  };
+
+  /** Read one argument: a {group}, a single \command or a single character */
+  const readArgument = (): string => {
+    skipSpaces();
+    if (source[pos] === "{") return convertLatex(readGroup());
+    if (source[pos] === "\\") {
+      pos++;
+      return convertCommand(readCommandName());
+    }
+    return source[pos++] ?? "";
+  };
+
+  /** Read a raw argument without converting it (environment and color names) */
+  const readRawArgument = (): string => {
+    skipSpaces();
+    return source[pos] === "{" ? readGroup() : (source[pos++] ?? "");
+  };
+
+  const readEnvironment = (name: string): string => {
+    const endTag = `\\end{${name}}`;
+    const endIndex = source.indexOf(endTag, pos);
+    const body = source.slice(pos, endIndex === -1 ? source.length : endIndex);
+    pos = endIndex === -1 ? source.length : endIndex + endTag.length;
+
+    // array has a column spec: \begin{array}{cc}
+    const content = name === "array" ? body.replace(/^\s*\{[^}]*\}/, "") : body;
+    const rows = content
+      .split(/\\\\/)
+      .map((row) => row.trim())
+      .filter((row) => row.length > 0 && !/^\\hline$/.test(row));
+
+    if (MATRIX_ENVIRONMENTS.includes(name)) {
+      const cells = rows.map((row) => row.split("&").map((cell) => convertLatex(cell).trim()));
+      const matrix = `[matrix: ${cells.map((row) => row.join(", ")).join("; ")}]`;
+      return name === "vmatrix" || name === "Vmatrix" ? `det${matrix}` : matrix;
+    }
+
+    // aligned, cases, align*, gather... - one line per row, alignment marks dropped
+    return rows.map((row) => convertLatex(row.replace(/&/g, " ")).trim()).join("\n");
+  };
+
+  function convertCommand(name: string): string {
+    if (name in LATEX_ESCAPES) return LATEX_ESCAPES[name];
+    if (name === "\\") return "\n";
+    if (name in LATEX_SYMBOLS) return LATEX_SYMBOLS[name];
+    if (GREEK_LETTERS.includes(name)) return name.replace(/^var/, "");
+    if (FUNCTION_NAMES.includes(name)) return name;
+    if (IGNORED_COMMANDS.includes(name)) {
+      // \left. and \right. are invisible delimiters
+      skipSpaces();
+      if (source[pos] === ".") pos++;
+      return "";
+    }
+    if (name === "quad" || name === "qquad") return " ";
+
+    if (name === "frac" || name === "dfrac" || name === "tfrac" || name === "cfrac") {
+      const numerator = readArgument();
+      const denominator = readArgument();
+      return `{${numerator}/${denominator}}`;
+    }
+
+    if (name === "sqrt") {
+      const index = readOptional();
+      const radicand = readArgument();
+      const body = isSimpleOperand(radicand) ? radicand : `(${radicand})`;
+      if (!index || index === "2") return `√${body}`;
+      if (index === "3") return `∛${body}`;
+      if (index === "4") return `∜${body}`;
+      return `^${convertLatex(index)}^√${body}`;
+    }
+
+    if (TEXT_COMMANDS.includes(name)) return readArgument();
+    if (BOLD_COMMANDS.includes(name)) return `**${readArgument()}**`;
+    if (ITALIC_COMMANDS.includes(name)) return `*${readArgument()}*`;
+
+    if (name in ACCENTS) {
+      const base = readArgument();
+      return base.length === 1 ? base + ACCENTS[name] : base;
+    }
+
+    if (name === "textcolor" || name === "color") {
+      const color = readRawArgument().trim().toLowerCase();
+      const content = readArgument();
+      return HIGHLIGHT_COLORS.includes(color) ? `[${color}:${content}]` : content;
+    }
+
+    if (name === "begin") return readEnvironment(readRawArgument().trim());
+    if (name === "end") {
+      readRawArgument();
+      return "";
+    }
+
+    // Unknown command - keep its name so nothing silently disappears
+    return name;
+  }
+
+  function convertAll(): string {
+    let output = "";
+    while (pos < source.length) {
+      const char = source[pos];
+
+      if (char === "\\") {
+        pos++;
+        const name = readCommandName();
+        const converted = convertCommand(name);
+        output = /^[A-Za-z]{2,}/.test(converted) ? appendWord(output, converted) : output + converted;
+        continue;
+      }
+
+      if (char === "^" || char === "_") {
+        // Already app notation (x^2^, v_0_) - copy it through
+        const appScript = new RegExp(`^\\${char}[^\\s{}\\\\${char}]+\\${char}`).exec(source.slice(pos));
+        if (appScript) {
+          output += appScript[0];
+          pos += appScript[0].length;
+          continue;
+        }
+        pos++;
+        output += wrapScript(char, readArgument());
+        continue;
+      }
+
+      if (char === "{") {
+        const inner = readGroup();
+        const converted = convertLatex(inner);
+        // {a/b} is already app notation for a fraction - keep its braces
+        output += inner.includes("/") ? `{${converted}}` : converted;
+        continue;
+      }
+
+      if (char === "&") {
+        pos++;
+        continue;
+      }
+
+      output += char === "~" ? " " : char;
+      pos++;
+    }
+    return output;
+  }
+
+  return { convertAll };
+}
+
+function convertLatex(source: string): string {
+  return createLatexReader(source).convertAll();
+}
+
+/**
+ * Convert a LaTeX string (or text with LaTeX mixed in) to app notation.
+ *
+ * Example:
+ *   latexToAppNotation("$\\frac{1}{2}mv^{2}$") → "{1/2}mv^2^"
+ */
+export function latexToAppNotation(latex: string): string {
+  return convertLatex(stripMathDelimiters(latex))
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/[ \t]+$/gm, "");
+}
+
+/** Whether text contains anything latexToAppNotation() would change */
+export function containsLatex(text: string): boolean {
+  return /\\[A-Za-z]|\^\{|_\{|\$\$/.test(text);
+}
+
+// ============================================================================
+// APP NOTATION → LATEX
+// ============================================================================
+
+const APP_SYMBOLS: Record<string, string> = {
+  "×": "\\times",
+  "÷": "\\div",
+  "·": "\\cdot",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≠": "\\neq",
+  "≈": "\\approx",
+  "≡": "\\equiv",
+  "∝": "\\propto",
+  "∞": "\\infty",
+  "→": "\\rightarrow",
+  "←": "\\leftarrow",
+  "↔": "\\leftrightarrow",
+  "⇒": "\\Rightarrow",
+  "⇔": "\\Leftrightarrow",
+  "⇌": "\\rightleftharpoons",
+  "°": "^{\\circ}",
+  "∠": "\\angle",
+  "△": "\\triangle",
+  "⊥": "\\perp",
+  "∥": "\\parallel",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "⊂": "\\subset",
+  "⊆": "\\subseteq",
+  "∪": "\\cup",
+  "∩": "\\cap",
+  "∅": "\\emptyset",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "⋯": "\\cdots",
+  "…": "\\ldots",
+  "′": "'",
+  "∴": "\\therefore",
+  "∵": "\\because",
+  "⟨": "\\langle",
+  "⟩": "\\rangle",
+  "‖": "\\|",
+  "ℏ": "\\hbar",
+  "Σ": "\\sum",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∬": "\\iint",
+  "∮": "\\oint",
+  "−": "-",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  "&": "\\&",
+};
+
+const UNICODE_SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+  "⁻": "-",
+};
+
+const ROOT_INDEXES: Record<string, string> = { "√": "", "∛": "3", "∜": "4" };
+
+const ALIGNMENT_RELATIONS = ["=", "<", ">", "\\approx", "\\leq", "\\geq", "\\neq"];
+
+/** Words that read as prose rather than a product of variables ("mgh") */
+function isTextWord(word: string): boolean {
+  return word.length >= 3 && /[aeiouy]/i.test(word);
+}
+
+/** Where a LaTeX line aligns: its first relation outside any {...} group */
+function findAlignmentPoint(line: string): number {
+  let depth = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "{") depth++;
+    if (line[i] === "}") depth--;
+    if (depth === 0 && ALIGNMENT_RELATIONS.some((relation) => line.startsWith(relation, i))) return i;
+  }
+  return -1;
+}
+
+/** Find the index of the closing character that balances the opener at start */
+function findClosing(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    if (text[i] === close && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Index of a "/" that is not inside a nested {...} */
+function findTopLevelSlash(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    if (text[i] === "}") depth--;
+    if (text[i] === "/" && depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Closing marker of ^x^ / _x_ / *x* / **x**, or -1 if the marker is unpaired on this line */
+function findMarkerEnd(text: string, start: number, marker: string): number {
+  const end = text.indexOf(marker, start);
+  const lineEnd = text.indexOf("\n", start);
+  return end === -1 || (lineEnd !== -1 && end > lineEnd) ? -1 : end;
+}
+
+/**
+ * Convert one line of app notation to LaTeX.
+ */
+function convertAppLine(text: string): string {
+  let output = "";
+  let i = 0;
+
+  const appendCommand = (command: string) => {
+    output += command;
+    // "\theta x" - a command followed by a letter needs a separating space
+    if (/[A-Za-z]$/.test(command) && /^[A-Za-z]/.test(text.slice(i))) output += " ";
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // [color:content], [matrix: a, b; c, d] and [TABLE: a | b; c | d]
+    const bracket = /^\[([a-z]+):/i.exec(rest);
+    if (bracket) {
+      const close = findClosing(text, i, "[", "]");
+      if (close !== -1) {
+        const kind = bracket[1].toLowerCase();
+        const inner = text.slice(i + bracket[0].length, close).trim();
+        if (kind === "matrix") {
+          const rows = inner.split(";").map((row) =>
+            row
+              .split(",")
+              .map((cell) => convertAppLine(cell.trim()))
+              .join(" & ")
+          );
+          output += `\\begin{bmatrix} ${rows.join(" \\\\ ")} \\end{bmatrix}`;
+        } else if (kind === "table") {
+          const rows = inner.split(";").map((row) => row.split("|").map((cell) => convertAppLine(cell.trim())));
+          const columns = Math.max(...rows.map((row) => row.length));
+          // Header row ruled off from the data
+          const [header, ...data] = rows.map((row) => row.join(" & "));
+          const body = [`${header} \\\\ \\hline`, data.join(" \\\\ ")].join(" ");
+          output += `\\begin{array}{${Array(columns).fill("c").join("|")}} ${body} \\end{array}`;
+        } else if (HIGHLIGHT_COLORS.includes(kind)) {
+          output += convertAppLine(inner);
+        }
+        // Any other marker ([IMAGE NEEDED: ...], [GRAPH: ...], [PUNNETT: ...]) has no LaTeX form
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === "{") {
+      const close = findClosing(text, i, "{", "}");
+      if (close !== -1) {
+        const inner = text.slice(i + 1, close);
+        const slash = findTopLevelSlash(inner);
+        if (slash === -1) {
+          output += `\\{${convertAppLine(inner)}\\}`;
+        } else {
+          const numerator = convertAppLine(inner.slice(0, slash).trim());
+          const denominator = convertAppLine(inner.slice(slash + 1).trim());
+          output += `\\frac{${numerator}}{${denominator}}`;
+        }
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("**")) {
+      const end = findMarkerEnd(text, i + 2, "**");
+      if (end !== -1) {
+        output += `\\mathbf{${convertAppLine(text.slice(i + 2, end))}}`;
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (char === "*") {
+      // *x* italics - math mode is already italic
+      i++;
+      continue;
+    }
+
+    if (char === "^" || char === "_") {
+      // ^2^ is closed; a bare x^2 only takes the letters/digits that follow
+      const end = findMarkerEnd(text, i + 1, char);
+      const isClosedScript = end > i + 1 && !/\s/.test(text.slice(i + 1, end));
+      const content = isClosedScript ? text.slice(i + 1, end) : (/^[A-Za-z0-9]+/.exec(text.slice(i + 1))?.[0] ?? "");
+      const next = isClosedScript ? end + 1 : i + 1 + content.length;
+
+      // ^n^√(x) is an nth root - unless a base comes right before it: x^2^√(3) is x² times √3
+      const startsTerm = i === 0 || /[\s+\-−×÷*/·±=(,:[{]/.test(text[i - 1]);
+      if (char === "^" && isClosedScript && startsTerm && text[next] === "√") {
+        i = next + 1;
+        output += `\\sqrt[${convertAppLine(content)}]{${readRadicand()}}`;
+        continue;
+      }
+
+      output += `${char}{${convertAppLine(content)}}`;
+      i = next;
+      continue;
+    }
+
+    if (char in ROOT_INDEXES) {
+      const index = ROOT_INDEXES[char];
+      i++;
+      output += index ? `\\sqrt[${index}]{${readRadicand()}}` : `\\sqrt{${readRadicand()}}`;
+      continue;
+    }
+
+    if (char in UNICODE_SUPERSCRIPTS) {
+      let digits = "";
+      while (i < text.length && text[i] in UNICODE_SUPERSCRIPTS) digits += UNICODE_SUPERSCRIPTS[text[i++]];
+      output += `^{${digits}}`;
+      continue;
+    }
+
+    if (char in GREEK_SYMBOLS) {
+      i++;
+      appendCommand(`\\${GREEK_SYMBOLS[char]}`);
+      continue;
+    }
+
+    if (char in APP_SYMBOLS) {
+      i++;
+      appendCommand(APP_SYMBOLS[char]);
+      continue;
+    }
+
+    // Words: Greek letters and functions become commands, anything else is \text{}
+    const word = /^[A-Za-z]+/.exec(rest)?.[0];
+    if (word) {
+      i += word.length;
+      if (GREEK_LETTERS.includes(word) || FUNCTION_NAMES.includes(word)) {
+        appendCommand(`\\${word}`);
+      } else if (!isTextWord(word)) {
+        // Variables and units ("mgh", "kg") stay in math mode
+        output += word;
+      } else {
+        // Keep a run of words ("from both sides") in a single \text{}, with the spaces around it
+        let phrase = /^(?:[ ,.:;'’]+[A-Za-z]{2,})*[:.,;]?/.exec(text.slice(i))?.[0] ?? "";
+        i += phrase.length;
+        if (text[i] === " " && i + 1 < text.length) {
+          phrase += " ";
+          i++;
+        }
+        const leading = /\S $/.test(output) ? " " : "";
+        output = `${output.trimEnd()}\\text{${leading}${word}${phrase}}`;
+      }
+      continue;
+    }
+
+    output += char;
+    i++;
+  }
+
+  return output;
+
+  /** Read the operand of a root: (group) or a run of letters/digits */
+  function readRadicand(): string {
+    if (text[i] === "(") {
+      const close = findClosing(text, i, "(", ")");
+      if (close !== -1) {
+        const inner = text.slice(i + 1, close);
+        i = close + 1;
+        return convertAppLine(inner);
+      }
+    }
+    const operand = /^[A-Za-z0-9.]+/.exec(text.slice(i))?.[0] ?? "";
+    i += operand.length;
+    return convertAppLine(operand);
+  }
+}
+
+/**
+ * Convert app notation (a step's equation) to LaTeX.
+ * Several lines become an aligned block, aligned on each line's first relation.
+ *
+ * Example:
+ *   appNotationToLatex("*x* = {-*b* ± √(*b*^2^ - 4*a**c*)/2*a*}")
+ *     → "x = \\frac{-b \\pm \\sqrt{b^{2} - 4ac}}{2a}"
+ */
+export function appNotationToLatex(text: string): string {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^\[(IMAGE|GRAPH|PUNNETT)/i.test(line))
+    .map((line) => convertAppLine(line).replace(/\s{2,}/g, " ").trim());
+
+  if (lines.length <= 1) return lines[0] ?? "";
+
+  const aligned = lines.map((line) => {
+    const point = findAlignmentPoint(line);
+    return point === -1 ? `&${line}` : `${line.slice(0, point)}&${line.slice(point)}`;
+  });
+  return `\\begin{aligned}\n${aligned.join(" \\\\\n")}\n\\end{aligned}`;
+}
@@ -0,0 +1,690 @@
+/**
+ * Physics Diagrams
+ *
+ * Lays out the "physicsDiagram" JSON the model writes in a physics step -
+ * objects on the ground, on an incline or around a loop, pulleys and ropes,
+ * and labeled force / velocity / acceleration vectors - in screen pixels.
+ * Arrow directions come from the same surfaces the solution uses (the
+ * normal force really is perpendicular to the incline) and arrows of the
+ * same kind are drawn to scale from their magnitudes.
+ *
+ *   {
+ *     "surfaces": [{ "type": "incline", "angle": 30, "length": 5 }],
+ *     "objects": [{ "id": "block", "label": "m", "incline": 0.5 }],
+ *     "vectors": [
+ *       { "on": "block", "label": "mg", "direction": "down", "magnitude": 19.6 },
+ *       { "on": "block", "label": "N", "direction": "normal", "magnitude": 17 }
+ *     ]
+ *   }
+ *
+ * Layout happens in two passes: the scene is drawn at a nominal scale
+ * (arrows and objects have fixed pixel sizes), then everything is fitted
+ * to the canvas width.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import type {
+  PhysicsDiagram,
+  PhysicsObject,
+  PhysicsObjectShape,
+  PhysicsSurface,
+  PhysicsVector,
+  PhysicsVectorKind,
+} from "../types/homework";
+import {
+  add,
+  sub,
+  scale,
+  length,
+  normalize,
+  labelCenter,
+  labelHalfSize,
+  normalizeDegrees,
+  toDegrees,
+  toRadians,
+  type Vec,
+} from "./diagram";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PhysicsArc {
+  center: Vec;
+  radius: number;
+  /** Degrees, clockwise from +x in screen space - what Skia's addArc expects */
+  startAngle: number;
+  sweepAngle: number;
+  label?: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutPhysicsObject {
+  id: string;
+  shape: PhysicsObjectShape;
+  center: Vec;
+  /** Box side or ball diameter in pixels */
+  size: number;
+  /** Degrees, clockwise in screen space */
+  rotation: number;
+  label?: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutVector {
+  kind: PhysicsVectorKind;
+  from: Vec;
+  to: Vec;
+  /** Arrowhead triangle: tip, then the two back corners */
+  head: Vec[];
+  label: string;
+  labelPosition: Vec;
+}
+
+export interface LaidOutCircle {
+  center: Vec;
+  radius: number;
+}
+
+export interface PhysicsLayout {
+  width: number;
+  height: number;
+  /** Ground, ceiling and walls */
+  lines: [Vec, Vec][];
+  /** Short strokes on the solid side of ground, ceiling and walls */
+  hatches: [Vec, Vec][];
+  /** Incline triangles */
+  inclines: Vec[][];
+  /** Loops and circular tracks */
+  tracks: LaidOutCircle[];
+  ropes: Vec[][];
+  pulleys: LaidOutCircle[];
+  objects: LaidOutPhysicsObject[];
+  vectors: LaidOutVector[];
+  /** Incline angles and vector angle labels */
+  arcs: PhysicsArc[];
+  /** Dashed reference axes the vector angles are measured from */
+  referenceLines: [Vec, Vec][];
+}
+
+/** Where an object sits and which way its surface faces (world degrees) */
+interface Placement {
+  object: PhysicsObject;
+  shape: PhysicsObjectShape;
+  world: Vec;
+  normal: number;
+  slope: number;
+  /** Angle around the circle it rides on, if any */
+  circleAngle: number | null;
+  /** Move the object off its surface by half its size (it sits on it) */
+  seated: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Larger side of the scene at the nominal scale */
+const NOMINAL_SCENE = 220;
+
+const BOX_SIZE = 40;
+const BALL_SIZE = 30;
+const POINT_SIZE = 8;
+const PULLEY_RADIUS = 14;
+
+const MAX_ARROW = 72;
+const MIN_ARROW = 22;
+const DEFAULT_ARROW = 56;
+const HEAD_LENGTH = 10;
+const HEAD_HALF_WIDTH = 5;
+/** Gap between arrows that point the same way from one object */
+const PARALLEL_SPACING = 14;
+
+const HATCH_SPACING = 10;
+const HATCH_LENGTH = 7;
+/** How far ground and ceiling lines reach past the scene */
+const SURFACE_OVERHANG = 30;
+
+const INCLINE_ARC_RADIUS = 30;
+const VECTOR_ARC_RADIUS = 26;
+
+const DEFAULT_INCLINE_ANGLE = 30;
+const DEFAULT_INCLINE_LENGTH = 5;
+const DEFAULT_CIRCLE_RADIUS = 2;
+
+const PADDING = 16;
+const MIN_HEIGHT = 180;
+const MAX_HEIGHT = 360;
+/** Don't blow small scenes up past this */
+const MAX_FIT_SCALE = 1.5;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Screen-space unit vector for a world angle (y flips) */
+function screenDirection(worldAngle: number): Vec {
+  const radians = toRadians(worldAngle);
+  return { x: Math.cos(radians), y: -Math.sin(radians) };
+}
+
+function worldAngleOf(screenVector: Vec): number {
+  return toDegrees(Math.atan2(-screenVector.y, screenVector.x));
+}
+
+/** Arc at center from world angle a to world angle b, the short way round */
+function arcBetween(center: Vec, radius: number, a: number, b: number, label: string | undefined): PhysicsArc {
+  const sweep = normalizeDegrees(b - a);
+  const bisector = a + sweep / 2;
+  return {
+    center,
+    radius,
+    startAngle: -a,
+    sweepAngle: -sweep,
+    label: label || undefined,
+    labelPosition: labelCenter(center, screenDirection(bisector), label ?? "", radius + 4),
+  };
+}
+
+/** The one of two opposite axis directions closest to the angle */
+function nearestAxis(angle: number, axis: number): number {
+  return Math.abs(normalizeDegrees(angle - axis)) <= 90 ? axis : axis + 180;
+}
+
+/** Incline slope direction: rising to the right for positive angles, to the left for negative */
+function inclineSlope(incline: PhysicsSurface): number {
+  const angle = incline.angle ?? DEFAULT_INCLINE_ANGLE;
+  return angle >= 0 ? angle : 180 + angle;
+}
+
+function inclineCorners(incline: PhysicsSurface): Vec[] {
+  const corner = { x: incline.x ?? 0, y: incline.y ?? 0 };
+  const slope = toRadians(inclineSlope(incline));
+  const slopeLength = incline.length ?? DEFAULT_INCLINE_LENGTH;
+  const run = slopeLength * Math.cos(slope);
+  const rise = slopeLength * Math.sin(slope);
+  return [corner, { x: corner.x + run, y: corner.y }, { x: corner.x + run, y: corner.y + rise }];
+}
+
+function objectSize(shape: PhysicsObjectShape, label: string | undefined): number {
+  const labelWidth = label ? labelHalfSize(label).x * 2 + 12 : 0;
+  if (shape === "box") return Math.max(BOX_SIZE, labelWidth);
+  if (shape === "ball") return Math.max(BALL_SIZE, labelWidth);
+  return POINT_SIZE;
+}
+
+/** Distance from the center of a (rotated) box or ball to its edge in a direction */
+function edgeDistance(object: LaidOutPhysicsObject, direction: Vec): number {
+  const half = object.size / 2;
+  if (object.shape !== "box") return half;
+  const relative = toRadians(worldAngleOf(direction) + object.rotation);
+  return half / Math.max(Math.abs(Math.cos(relative)), Math.abs(Math.sin(relative)));
+}
+
+function placeObject(object: PhysicsObject, surfaces: PhysicsSurface[]): Placement {
+  const shape = object.shape ?? "box";
+  const incline = surfaces.find((surface) => surface.type === "incline");
+  const circle = surfaces.find((surface) => surface.type === "circle");
+
+  if (object.incline !== undefined && incline) {
+    const [corner] = inclineCorners(incline);
+    const slope = inclineSlope(incline);
+    const distance = object.incline * (incline.length ?? DEFAULT_INCLINE_LENGTH);
+    const radians = toRadians(slope);
+    return {
+      object,
+      shape,
+      world: { x: corner.x + distance * Math.cos(radians), y: corner.y + distance * Math.sin(radians) },
+      normal: slope + ((incline.angle ?? DEFAULT_INCLINE_ANGLE) >= 0 ? 90 : -90),
+      slope,
+      circleAngle: null,
+      seated: true,
+    };
+  }
+
+  if (object.circle !== undefined && circle) {
+    const radius = circle.radius ?? DEFAULT_CIRCLE_RADIUS;
+    const radians = toRadians(object.circle);
+    return {
+      object,
+      shape,
+      world: { x: (circle.x ?? 0) + radius * Math.cos(radians), y: (circle.y ?? 0) + radius * Math.sin(radians) },
+      // Riding on the inside of the track: the track pushes toward the center
+      normal: object.circle + 180,
+      slope: object.circle + 90,
+      circleAngle: object.circle,
+      seated: true,
+    };
+  }
+
+  const world = { x: object.x ?? 0, y: object.y ?? 0 };
+  const ground = surfaces.find((surface) => surface.type === "ground" && (surface.y ?? 0) === world.y);
+  return { object, shape, world, normal: 90, slope: 0, circleAngle: null, seated: ground !== undefined };
+}
+
+/** Points where a rope from an outside point touches the pulley, preferring the top */
+function pulleyTangent(point: Vec, center: Vec, radius: number): Vec {
+  const offset = sub(point, center);
+  const distance = length(offset);
+  if (distance <= radius) return { x: center.x, y: center.y - radius };
+
+  const base = Math.atan2(offset.y, offset.x);
+  const spread = Math.acos(radius / distance);
+  const candidates = [base - spread, base + spread].map((angle) => ({
+    x: center.x + radius * Math.cos(angle),
+    y: center.y + radius * Math.sin(angle),
+  }));
+  return candidates[0].y <= candidates[1].y ? candidates[0] : candidates[1];
+}
+
+/**
+ * Rope from a to b wrapped over the top of a pulley. An end hanging right
+ * under the pulley drops straight down from the pulley's side.
+ */
+function ropeOverPulley(a: Vec, b: Vec, center: Vec, radius: number): Vec[] {
+  const hang = (end: Vec, other: Vec): { end: Vec; touch: Vec } => {
+    if (Math.abs(end.x - center.x) >= radius || end.y <= center.y) {
+      return { end, touch: pulleyTangent(end, center, radius) };
+    }
+    const side = end.x !== center.x ? Math.sign(end.x - center.x) : other.x <= center.x ? 1 : -1;
+    const x = center.x + side * radius;
+    return { end: { x, y: end.y }, touch: { x, y: center.y } };
+  };
+  const { end: endA, touch: touchA } = hang(a, b);
+  const { end: endB, touch: touchB } = hang(b, a);
+  const startAngle = Math.atan2(touchA.y - center.y, touchA.x - center.x);
+  const endAngle = Math.atan2(touchB.y - center.y, touchB.x - center.x);
+
+  let shortSweep = endAngle - startAngle;
+  while (shortSweep > Math.PI) shortSweep -= 2 * Math.PI;
+  while (shortSweep <= -Math.PI) shortSweep += 2 * Math.PI;
+  const longSweep = shortSweep - Math.sign(shortSweep || 1) * 2 * Math.PI;
+
+  const sample = (sweep: number) =>
+    Array.from({ length: 13 }, (_, i) => {
+      const angle = startAngle + (sweep * i) / 12;
+      return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+  const averageY = (points: Vec[]) => points.reduce((sum, point) => sum + point.y, 0) / points.length;
+
+  // The rope goes over the top - take whichever way round stays higher
+  const shortArc = sample(shortSweep);
+  const longArc = sample(longSweep);
+  const arc = averageY(shortArc) <= averageY(longArc) ? shortArc : longArc;
+  return [endA, ...arc, endB];
+}
+
+function hatchLine(from: Vec, to: Vec, side: Vec): [Vec, Vec][] {
+  const direction = normalize(sub(to, from));
+  const total = length(sub(to, from));
+  const hatches: [Vec, Vec][] = [];
+  for (let distance = 0; distance <= total; distance += HATCH_SPACING) {
+    const start = add(from, scale(direction, distance));
+    hatches.push([start, add(start, scale(add(side, scale(direction, -1)), HATCH_LENGTH / Math.SQRT2))]);
+  }
+  return hatches;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Lay out a physics diagram for a canvas of the given width. The height is
+ * chosen to fit the scene (clamped), and returned with the layout. Ropes
+ * and vectors that refer to unknown objects are left out.
+ */
+export function layoutPhysicsDiagram(diagram: PhysicsDiagram, width: number): PhysicsLayout {
+  const surfaces = diagram.surfaces ?? [];
+  const placements = diagram.objects.map((object) => placeObject(object, surfaces));
+
+  // --------------------------------------------------------------------------
+  // Pass 1: nominal scale
+  // --------------------------------------------------------------------------
+
+  const xs: number[] = placements.map((placement) => placement.world.x);
+  const ys: number[] = placements.map((placement) => placement.world.y);
+  for (const pulley of diagram.pulleys ?? []) {
+    xs.push(pulley.x);
+    ys.push(pulley.y);
+  }
+  for (const surface of surfaces) {
+    if (surface.type === "incline") {
+      for (const corner of inclineCorners(surface)) {
+        xs.push(corner.x);
+        ys.push(corner.y);
+      }
+    } else if (surface.type === "circle") {
+      const radius = surface.radius ?? DEFAULT_CIRCLE_RADIUS;
+      xs.push((surface.x ?? 0) - radius, (surface.x ?? 0) + radius);
+      ys.push((surface.y ?? 0) - radius, (surface.y ?? 0) + radius);
+    } else if (surface.type === "wall" && surface.x !== undefined) {
+      xs.push(surface.x);
+    } else if (surface.y !== undefined) {
+      ys.push(surface.y);
+    }
+  }
+
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const span = Math.max(Math.max(...xs) - minX, maxY - Math.min(...ys));
+  const unit = span > 0 ? NOMINAL_SCENE / span : 1;
+  const nominal = (point: Vec): Vec => ({ x: (point.x - minX) * unit, y: (maxY - point.y) * unit });
+
+  const objects: LaidOutPhysicsObject[] = placements.map((placement) => {
+    const size = objectSize(placement.shape, placement.object.label);
+    const seat = placement.seated && placement.shape !== "point" ? size / 2 : 0;
+    const center = add(nominal(placement.world), scale(screenDirection(placement.normal), seat));
+    const label = placement.object.label || undefined;
+    return {
+      id: placement.object.id,
+      shape: placement.shape,
+      center,
+      size,
+      rotation: placement.shape === "box" ? -(placement.normal - 90) : 0,
+      label,
+      labelPosition: placement.shape === "point" ? labelCenter(center, { x: 1, y: -1 }, label ?? "", 6) : center,
+    };
+  });
+  const objectById = new Map(objects.map((object) => [object.id, object]));
+  const placementById = new Map(placements.map((placement) => [placement.object.id, placement]));
+
+  // Scene extent so far, for ground / ceiling / wall lines
+  const sceneXs = objects.flatMap((object) => [object.center.x - object.size, object.center.x + object.size]);
+  const sceneYs = objects.flatMap((object) => [object.center.y - object.size, object.center.y + object.size]);
+  const inclines = surfaces
+    .filter((surface) => surface.type === "incline")
+    .map((surface) => inclineCorners(surface).map(nominal));
+  for (const corner of inclines.flat()) {
+    sceneXs.push(corner.x);
+    sceneYs.push(corner.y);
+  }
+  const sceneLeft = Math.min(...sceneXs) - SURFACE_OVERHANG;
+  const sceneRight = Math.max(...sceneXs) + SURFACE_OVERHANG;
+  const sceneTop = Math.min(...sceneYs) - SURFACE_OVERHANG;
+  const sceneBottom = Math.max(...sceneYs) + SURFACE_OVERHANG;
+  const averageObjectX = objects.reduce((sum, object) => sum + object.center.x, 0) / objects.length;
+
+  const lines: [Vec, Vec][] = [];
+  const hatches: [Vec, Vec][] = [];
+  const tracks: LaidOutCircle[] = [];
+  const arcs: PhysicsArc[] = [];
+
+  for (const surface of surfaces) {
+    switch (surface.type) {
+      case "ground": {
+        const y = nominal({ x: 0, y: surface.y ?? 0 }).y;
+        const line: [Vec, Vec] = [{ x: sceneLeft, y }, { x: sceneRight, y }];
+        lines.push(line);
+        hatches.push(...hatchLine(line[0], line[1], { x: 0, y: 1 }));
+        break;
+      }
+      case "ceiling": {
+        const y = surface.y !== undefined ? nominal({ x: 0, y: surface.y }).y : sceneTop;
+        const line: [Vec, Vec] = [{ x: sceneLeft, y }, { x: sceneRight, y }];
+        lines.push(line);
+        hatches.push(...hatchLine(line[0], line[1], { x: 0, y: -1 }));
+        break;
+      }
+      case "wall": {
+        const x = surface.x !== undefined ? nominal({ x: surface.x, y: 0 }).x : sceneLeft;
+        const line: [Vec, Vec] = [{ x, y: sceneTop }, { x, y: sceneBottom }];
+        lines.push(line);
+        hatches.push(...hatchLine(line[0], line[1], { x: averageObjectX >= x ? -1 : 1, y: 0 }));
+        break;
+      }
+      case "incline": {
+        const [corner] = inclineCorners(surface).map(nominal);
+        const slope = inclineSlope(surface);
+        const label = surface.label ?? `${Math.abs(surface.angle ?? DEFAULT_INCLINE_ANGLE)}°`;
+        arcs.push(arcBetween(corner, INCLINE_ARC_RADIUS, nearestAxis(slope, 0), slope, label));
+        break;
+      }
+      case "circle": {
+        const radius = surface.radius ?? DEFAULT_CIRCLE_RADIUS;
+        tracks.push({ center: nominal({ x: surface.x ?? 0, y: surface.y ?? 0 }), radius: radius * unit });
+        break;
+      }
+    }
+  }
+
+  const pulleys = new Map(
+    (diagram.pulleys ?? []).map((pulley) => [
+      pulley.id,
+      {
+        center: nominal(pulley),
+        radius: pulley.radius ? Math.max(pulley.radius * unit, 8) : PULLEY_RADIUS,
+      },
+    ])
+  );
+  const anchorOf = (id: string): Vec | null => objectById.get(id)?.center ?? pulleys.get(id)?.center ?? null;
+
+  const ropes: Vec[][] = [];
+  for (const rope of diagram.ropes ?? []) {
+    const from = anchorOf(rope.from);
+    const to = anchorOf(rope.to);
+    if (!from || !to) continue;
+    const pulley = rope.over ? pulleys.get(rope.over) : undefined;
+    ropes.push(pulley ? ropeOverPulley(from, to, pulley.center, pulley.radius) : [from, to]);
+  }
+
+  /** Direction of the first rope leaving an object, in world degrees */
+  const ropeDirection = (id: string): number | null => {
+    const index = (diagram.ropes ?? []).findIndex((rope) => rope.from === id || rope.to === id);
+    const rope = (diagram.ropes ?? [])[index];
+    const path = ropes[index];
+    if (!rope || !path || path.length < 2) return null;
+    const [start, next] = rope.from === id ? [path[0], path[1]] : [path[path.length - 1], path[path.length - 2]];
+    return worldAngleOf(sub(next, start));
+  };
+
+  const resolveAngle = (vector: PhysicsVector, placement: Placement): number => {
+    if (vector.angle !== undefined) return vector.angle;
+    const circleAngle = placement.circleAngle;
+    switch (vector.direction) {
+      case "up":
+        return 90;
+      case "left":
+        return 180;
+      case "right":
+        return 0;
+      case "normal":
+        return placement.normal;
+      case "upSlope":
+        return placement.slope;
+      case "downSlope":
+        return placement.slope + 180;
+      case "towardCenter":
+        return circleAngle !== null ? circleAngle + 180 : 270;
+      case "awayFromCenter":
+        return circleAngle !== null ? circleAngle : 90;
+      case "tangent":
+        return placement.slope;
+      case "alongRope":
+        return ropeDirection(placement.object.id) ?? 90;
+      default:
+        // Down is the one direction every free-body diagram has (gravity)
+        return 270;
+    }
+  };
+
+  const largestMagnitude = (kind: PhysicsVectorKind) =>
+    Math.max(
+      0,
+      ...(diagram.vectors ?? [])
+        .filter((vector) => (vector.kind ?? "force") === kind)
+        .map((vector) => vector.magnitude ?? 0)
+    );
+
+  const vectors: LaidOutVector[] = [];
+  const vectorObjects: string[] = [];
+  const referenceLines: [Vec, Vec][] = [];
+  for (const vector of diagram.vectors ?? []) {
+    const object = objectById.get(vector.on);
+    const placement = placementById.get(vector.on);
+    if (!object || !placement) continue;
+
+    const kind = vector.kind ?? "force";
+    const angle = resolveAngle(vector, placement);
+    const direction = screenDirection(angle);
+    const largest = largestMagnitude(kind);
+    const arrowLength =
+      vector.magnitude !== undefined && largest > 0
+        ? Math.max(MIN_ARROW, (MAX_ARROW * vector.magnitude) / largest)
+        : DEFAULT_ARROW;
+
+    // Arrows in the same direction on one object (N and mg at the top of a loop) sit side by side
+    const sameDirection = vectors.filter(
+      (other, index) =>
+        vectorObjects[index] === object.id && length(sub(normalize(sub(other.to, other.from)), direction)) < 0.02
+    ).length;
+    const perpendicular = { x: -direction.y, y: direction.x };
+    // Alternate sides: 0, +1, -1, +2, ... spacings from the center line
+    const side = sameDirection % 2 ? 1 : -1;
+    const shift = sameDirection === 0 ? 0 : Math.ceil(sameDirection / 2) * PARALLEL_SPACING * side;
+
+    const edge = add(object.center, scale(direction, edgeDistance(object, direction)));
+    const from = add(edge, scale(perpendicular, shift));
+    const to = add(from, scale(direction, arrowLength));
+    const back = add(to, scale(direction, -HEAD_LENGTH));
+
+    vectors.push({
+      kind,
+      from,
+      to,
+      head: [to, add(back, scale(perpendicular, HEAD_HALF_WIDTH)), add(back, scale(perpendicular, -HEAD_HALF_WIDTH))],
+      label: vector.label,
+      labelPosition: labelCenter(to, direction, vector.label, 4),
+    });
+    vectorObjects.push(object.id);
+
+    if (vector.angleLabel) {
+      const axis =
+        vector.angleFrom === "vertical" ? 90 : vector.angleFrom === "slope" ? placement.slope : 0;
+      const reference = nearestAxis(angle, axis);
+      referenceLines.push([from, add(from, scale(screenDirection(reference), VECTOR_ARC_RADIUS + 14))]);
+      arcs.push(arcBetween(from, VECTOR_ARC_RADIUS, reference, angle, vector.angleLabel));
+    }
+  }
+
+  const nominalLayout: PhysicsLayout = {
+    width,
+    height: 0,
+    lines,
+    hatches,
+    inclines,
+    tracks,
+    ropes,
+    pulleys: [...pulleys.values()],
+    objects,
+    vectors,
+    arcs,
+    referenceLines,
+  };
+
+  // --------------------------------------------------------------------------
+  // Pass 2: fit to the canvas
+  // --------------------------------------------------------------------------
+
+  return fitLayout(nominalLayout, width);
+}
+
+/** Everything the layout draws, as points (labels as their corners) */
+function layoutExtent(layout: PhysicsLayout): Vec[] {
+  const points: Vec[] = [
+    ...layout.lines.flat(),
+    ...layout.hatches.flat(),
+    ...layout.inclines.flat(),
+    ...layout.ropes.flat(),
+    ...layout.referenceLines.flat(),
+    ...layout.vectors.flatMap((vector) => [vector.from, vector.to]),
+  ];
+  const circles = [
+    ...layout.tracks,
+    ...layout.pulleys,
+    ...layout.arcs,
+    // Rotated boxes reach out to half their diagonal
+    ...layout.objects.map((object) => ({ center: object.center, radius: (object.size / 2) * Math.SQRT2 })),
+  ];
+  for (const { center, radius } of circles) {
+    points.push(add(center, { x: -radius, y: -radius }), add(center, { x: radius, y: radius }));
+  }
+  const labels: [string | undefined, Vec][] = [
+    ...layout.vectors.map((vector): [string, Vec] => [vector.label, vector.labelPosition]),
+    ...layout.arcs.map((arc): [string | undefined, Vec] => [arc.label, arc.labelPosition]),
+    ...layout.objects
+      .filter((object) => object.shape === "point")
+      .map((object): [string | undefined, Vec] => [object.label, object.labelPosition]),
+  ];
+  for (const [text, position] of labels) {
+    if (!text) continue;
+    const half = labelHalfSize(text);
+    points.push(sub(position, half), add(position, half));
+  }
+  return points;
+}
+
+/**
+ * Scale and center a nominal layout into the canvas. The height follows
+ * the scene's proportions within MIN_HEIGHT..MAX_HEIGHT.
+ */
+function fitLayout(layout: PhysicsLayout, width: number): PhysicsLayout {
+  const extent = layoutExtent(layout);
+  const minX = Math.min(...extent.map((point) => point.x));
+  const maxX = Math.max(...extent.map((point) => point.x));
+  const minY = Math.min(...extent.map((point) => point.y));
+  const maxY = Math.max(...extent.map((point) => point.y));
+  const sceneWidth = Math.max(maxX - minX, 1);
+  const sceneHeight = Math.max(maxY - minY, 1);
+
+  let factor = Math.min(MAX_FIT_SCALE, (width - PADDING * 2) / sceneWidth);
+  let height = sceneHeight * factor + PADDING * 2;
+  if (height > MAX_HEIGHT) {
+    factor = (MAX_HEIGHT - PADDING * 2) / sceneHeight;
+    height = MAX_HEIGHT;
+  }
+  height = Math.max(MIN_HEIGHT, height);
+
+  const offset = {
+    x: (width - sceneWidth * factor) / 2 - minX * factor,
+    y: (height - sceneHeight * factor) / 2 - minY * factor,
+  };
+  const map = (point: Vec): Vec => add(scale(point, factor), offset);
+  const mapPair = ([a, b]: [Vec, Vec]): [Vec, Vec] => [map(a), map(b)];
+  const mapCircle = (circle: LaidOutCircle): LaidOutCircle => ({
+    center: map(circle.center),
+    radius: circle.radius * factor,
+  });
+
+  return {
+    width,
+    height,
+    lines: layout.lines.map(mapPair),
+    hatches: layout.hatches.map(mapPair),
+    inclines: layout.inclines.map((corners) => corners.map(map)),
+    tracks: layout.tracks.map(mapCircle),
+    ropes: layout.ropes.map((rope) => rope.map(map)),
+    pulleys: layout.pulleys.map(mapCircle),
+    objects: layout.objects.map((object) => ({
+      ...object,
+      center: map(object.center),
+      size: object.size * factor,
+      labelPosition: map(object.labelPosition),
+    })),
+    vectors: layout.vectors.map((vector) => ({
+      ...vector,
+      from: map(vector.from),
+      to: map(vector.to),
+      head: vector.head.map(map),
+      labelPosition: map(vector.labelPosition),
+    })),
+    arcs: layout.arcs.map((arc) => ({
+      ...arc,
+      center: map(arc.center),
+      radius: arc.radius * factor,
+      labelPosition: map(arc.labelPosition),
+    })),
+    referenceLines: layout.referenceLines.map(mapPair),
+  };
+}
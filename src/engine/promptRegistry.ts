@@ -0,0 +1,248 @@
+/**
+ * Prompt Registry
+ *
+ * Named, versioned prompt templates for every model call the solution
+ * engine makes. Each template composes the fragments in prompts.ts with the
+ * subject rules (getSubjectFormattingRules) and grade-level instructions
+ * (getGradeAppropriateInstructions), so a prompt can be rendered, diffed
+ * against another version and unit-tested without calling a model.
+ *
+ *   renderPrompt("solve.text", { question })                     default version
+ *   renderPrompt("solve.text", { question }, { "solve.text": 1 }) pinned version
+ *
+ * CRITICAL: Never edit a registered version in place. Add a new version,
+ * point DEFAULT_PROMPT_VERSIONS at it, and keep the old one so runs made
+ * with it can still be replayed and compared.
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import { detectSubject, getSubjectFormattingRules } from "../utils/subjectDetection";
+import { detectDifficultyLevel, getGradeAppropriateInstructions } from "../utils/difficultyDetection";
+import {
+  TWO_PART_STEP_STRUCTURE,
+  SUBJECT_NOTES,
+  ALL_SUBJECT_NOTES,
+  LEGACY_HISTORY_CONTEXT,
+  FORMATTING_RULES,
+  RESPONSE_FORMAT,
+  COUNT_ALL_QUANTITIES,
+  IMAGE_DIAGRAM_GUIDANCE,
+  buildDiagramGuidance,
+  buildMultipleChoiceGuidance,
+  buildStrategicFirstStep,
+  buildProblemFocus,
+  buildProblemEnumerationPrompt,
+  buildVerificationPrompt,
+  buildTextCorrectionPrompt,
+  buildImageCorrectionPrompt,
+  buildSimplifiedExplanationPrompt,
+  buildDiagramPrompt,
+} from "./prompts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What each prompt is rendered from */
+export interface PromptInputs {
+  "solve.text": { question: string };
+  "solve.image": { problemNumber?: string };
+  enumerate: Record<string, never>;
+  verify: { originalProblem: string; solution: HomeworkSolution };
+  "correct.text": { question: string; issues: string[] };
+  "correct.image": { issues: string[] };
+  simplify: { problem: string };
+  diagram: { description: string };
+}
+
+export type PromptName = keyof PromptInputs;
+
+export interface PromptTemplate<N extends PromptName = PromptName> {
+  name: N;
+  version: number;
+  /** What changed in this version */
+  description: string;
+  render: (input: PromptInputs[N]) => string;
+}
+
+/** Version to use per prompt; prompts left out use DEFAULT_PROMPT_VERSIONS */
+export type PromptVersions = Partial<Record<PromptName, number>>;
+
+export interface RenderedPrompt {
+  name: PromptName;
+  version: number;
+  /** "solve.text@2" - for logs and recorded runs */
+  id: string;
+  text: string;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/** Sections of a prompt, separated by blank lines */
+function compose(...sections: string[]): string {
+  return sections.filter(Boolean).join("\n\n");
+}
+
+const SOLVE_INTRO = "You are an expert educator. Provide a clean, easy-to-follow solution.";
+const TEXT_FIRST_EQUATION = "[IMAGE NEEDED: ...] (if applicable, otherwise describe the given information)";
+const IMAGE_FIRST_EQUATION = "[IMAGE NEEDED: ...] followed by description of given information";
+
+const PROMPT_TEMPLATES: { [N in PromptName]: PromptTemplate<N>[] } = {
+  "solve.text": [
+    {
+      name: "solve.text",
+      version: 1,
+      description: "Original text prompt: every subject note, history context appended to the question",
+      render: ({ question }) => {
+        const { subject } = detectSubject(question);
+        const questionText = subject === "history" ? question + LEGACY_HISTORY_CONTEXT : question;
+        return compose(
+          SOLVE_INTRO,
+          `**DETECTED SUBJECT: ${subject.toUpperCase()}**`,
+          TWO_PART_STEP_STRUCTURE,
+          ...ALL_SUBJECT_NOTES,
+          `**Visual Diagrams**:\n${buildDiagramGuidance(subject, questionText)}`,
+          `**CRITICAL: Multiple Choice Question Handling**:\n${buildMultipleChoiceGuidance(question)}`,
+          buildStrategicFirstStep(TEXT_FIRST_EQUATION),
+          FORMATTING_RULES,
+          `Question: ${questionText}`,
+          RESPONSE_FORMAT
+        );
+      },
+    },
+    {
+      name: "solve.text",
+      version: 2,
+      description: "Grade-level instructions and subject rules; only the detected subject's notes; no history context",
+      render: ({ question }) => {
+        const { subject } = detectSubject(question);
+        const { gradeLevel } = detectDifficultyLevel(question, subject);
+        return compose(
+          SOLVE_INTRO,
+          `**DETECTED SUBJECT: ${subject.toUpperCase()}**`,
+          getGradeAppropriateInstructions(gradeLevel).trim(),
+          TWO_PART_STEP_STRUCTURE,
+          ...(SUBJECT_NOTES[subject] ?? []),
+          `**SUBJECT RULES**:\n${getSubjectFormattingRules(subject).trim()}`,
+          `**Visual Diagrams**:\n${buildDiagramGuidance(subject, question)}`,
+          `**CRITICAL: Multiple Choice Question Handling**:\n${buildMultipleChoiceGuidance(question)}`,
+          buildStrategicFirstStep(TEXT_FIRST_EQUATION),
+          FORMATTING_RULES,
+          `Question: ${question}`,
+          RESPONSE_FORMAT
+        );
+      },
+    },
+  ],
+  "solve.image": [
+    {
+      name: "solve.image",
+      version: 1,
+      description: "Original photo prompt: the model detects the subject, every diagram kind described",
+      render: ({ problemNumber }) =>
+        compose(
+          `You are an expert educator. ${buildProblemFocus(problemNumber)} Provide a clean, easy-to-follow solution.`,
+          COUNT_ALL_QUANTITIES,
+          "**IMPORTANT: Detect the subject and respond accordingly**",
+          TWO_PART_STEP_STRUCTURE,
+          `**MANDATORY Visual Diagrams**:\n${IMAGE_DIAGRAM_GUIDANCE}`,
+          buildStrategicFirstStep(IMAGE_FIRST_EQUATION),
+          FORMATTING_RULES,
+          RESPONSE_FORMAT
+        ),
+    },
+  ],
+  enumerate: [
+    {
+      name: "enumerate",
+      version: 1,
+      description: "List the problems on a worksheet photo",
+      render: () => buildProblemEnumerationPrompt(),
+    },
+  ],
+  verify: [
+    {
+      name: "verify",
+      version: 1,
+      description: "Check the solution answers what the question asks, with dimensional analysis",
+      render: ({ originalProblem, solution }) => buildVerificationPrompt(originalProblem, solution),
+    },
+  ],
+  "correct.text": [
+    {
+      name: "correct.text",
+      version: 1,
+      description: "Re-solve a typed question with the verification issues and an explicit JSON shape",
+      render: ({ question, issues }) => buildTextCorrectionPrompt(question, issues),
+    },
+  ],
+  "correct.image": [
+    {
+      name: "correct.image",
+      version: 1,
+      description: "Re-solve a photographed problem, counting every quantity",
+      render: ({ issues }) => buildImageCorrectionPrompt(issues),
+    },
+  ],
+  simplify: [
+    {
+      name: "simplify",
+      version: 1,
+      description: '"I Still Don\'t Get It" re-explanation in smaller steps',
+      render: ({ problem }) => buildSimplifiedExplanationPrompt(problem),
+    },
+  ],
+  diagram: [
+    {
+      name: "diagram",
+      version: 1,
+      description: "Image generation for an [IMAGE NEEDED: ...] description",
+      render: ({ description }) => buildDiagramPrompt(description),
+    },
+  ],
+};
+
+/** Versions the app uses unless a caller pins another */
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptName, number> = {
+  "solve.text": 2,
+  "solve.image": 1,
+  enumerate: 1,
+  verify: 1,
+  "correct.text": 1,
+  "correct.image": 1,
+  simplify: 1,
+  diagram: 1,
+};
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/** Every registered version of every prompt, oldest first */
+export function listPromptTemplates(): PromptTemplate[] {
+  return Object.values(PROMPT_TEMPLATES).flat() as PromptTemplate[];
+}
+
+/**
+ * A prompt template by name, at the given version or the default one.
+ * Throws for a version that isn't registered - a pinned version that
+ * silently fell back would make an A/B run compare the wrong prompts.
+ */
+export function getPromptTemplate<N extends PromptName>(name: N, version?: number): PromptTemplate<N> {
+  const wanted = version ?? DEFAULT_PROMPT_VERSIONS[name];
+  const template = (PROMPT_TEMPLATES[name] as PromptTemplate<N>[]).find((entry) => entry.version === wanted);
+  if (!template) throw new Error(`Unknown prompt version ${name}@${wanted}`);
+  return template;
+}
+
+/** Render a prompt at the version chosen in `versions` (default version otherwise) */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  input: PromptInputs[N],
+  versions: PromptVersions = {}
+): RenderedPrompt {
+  const template = getPromptTemplate(name, versions[name]);
+  return { name, version: template.version, id: `${name}@${template.version}`, text: template.render(input) };
+}
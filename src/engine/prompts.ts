@@ -0,0 +1,853 @@
+/**
+ * Solution Engine Prompts
+ *
+ * The text of every model call made by the solution engine: solving (text
+ * and image), verification, correction, simplification and diagram
+ * generation. Solve prompts are kept as fragments that promptRegistry.ts
+ * composes into named, versioned templates.
+ *
+ * CRITICAL: These are the ONLY copies of the app's prompts. The app, the TestBot
+ * and the Node scripts all go through the engine, so edit prompts here.
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import type { SubjectType } from "../utils/subjectDetection";
+
+// ============================================================================
+// SOLVE PROMPT FRAGMENTS
+// ============================================================================
+
+/** Every solve prompt asks for an "equation" and a "summary" per step */
+export const TWO_PART_STEP_STRUCTURE = `**CRITICAL: Two-Part Step Structure**
+Each step MUST have TWO components:
+1. "equation": The mathematical work (equations, calculations, formulas)
+2. "summary": A single plain-English sentence explaining what we're doing`;
+
+export const CHEMISTRY_NOTE = `**IMPORTANT NOTE FOR CHEMISTRY**:
+- Calculating the molar mass is a necessary step to convert grams to moles, which is essential for solving stoichiometry problems.
+- **Understanding Moles**: A mole represents 6.022 x 10^23 particles (Avogadro's number), which helps in understanding the scale of chemical reactions.
+- **CATALYSTS - CRITICAL MECHANISTIC DETAIL**: When discussing catalysts, provide COMPLETE mechanistic explanation: (1) Catalysts provide an alternative reaction pathway with LOWER activation energy Ea, (2) They are NOT consumed - they regenerate after each cycle, (3) They increase BOTH forward AND reverse reaction rates equally (no effect on equilibrium position), (4) ALWAYS provide specific examples with mechanisms: platinum in catalytic converters (oxidizes CO → CO2 via surface adsorption), enzymes like catalase (decomposes H2O2 → H2O + O2 via active site binding), acid catalysts (protonate substrates to activate them). (5) Include energy diagram comparison showing Ea(uncatalyzed) vs Ea(catalyzed).
+- **ATOMIC STRUCTURE SIGNIFICANCE**: When discussing elements, connect atomic number to electron configuration AND real-world importance: Oxygen (Z=8, [He]2s²2p⁴) needs 2e⁻ to complete octet → forms 2 bonds → essential for cellular respiration and water formation.`;
+
+export const CALCULUS_NOTE = `**IMPORTANT NOTE FOR CALCULUS - COMPLETE DERIVATIVE REASONING**:
+- **POWER RULE WITH REASONING**: Don't just apply d/dx[x^n] = nx^(n-1). Explain: (1) Why it works: derivative measures instantaneous rate of change, (2) Show term-by-term: d/dx[3x²] = 3·2·x^(2-1) = 6x, (3) Constants: d/dx[5] = 0 because constant functions don't change.
+- **CRITICAL POINTS - COMPLETE ANALYSIS**: For optimization/maxima/minima: (1) Find f'(x) = 0 to locate critical points, (2) SECOND DERIVATIVE TEST: f''(x) > 0 → local minimum (concave up, ∪ shape), f''(x) < 0 → local maximum (concave down, ∩ shape), f''(x) = 0 → inconclusive (use first derivative test), (3) ALWAYS verify with sign chart or test points, (4) Connect to real world: "derivative = 0 means slope = 0, we're at a peak or valley".
+- **REAL-WORLD APPLICATIONS**: Every calculus problem must connect to practical meaning: velocity → derivative of position, acceleration → derivative of velocity, marginal cost → derivative of cost function.`;
+
+export const GENETICS_NOTE = `**IMPORTANT NOTE FOR GENETICS**:
+- **Understanding Recessive Alleles**: In genetics, a phenotype is determined by alleles. 'tt' results in a short phenotype because both alleles are recessive, meaning they do not express the dominant trait.
+- **PUNNETT SQUARES**: For any cross, put a [PUNNETT: ...] marker in the equation field of the step that builds the square, e.g. "[PUNNETT: Tt x tt; T: tall; t: short]" or "[PUNNETT: AaBb x AaBb]". The app draws the grid and computes the genotype and phenotype ratios from the parents, so your ratios MUST match the cross exactly. Do NOT use [IMAGE NEEDED: ...] for Punnett squares.`;
+
+export const PROGRAMMING_NOTE = `**IMPORTANT NOTE FOR PROGRAMMING**:
+- Put code in the equation field as a fenced block with its language: "\`\`\`python\\ndef area(r):\\n    return 3.14 * r ** 2\\n\`\`\`" (python, java, javascript or cpp). The app shows it with syntax highlighting, line numbers and a copy button.
+- Keep real indentation and line breaks inside the fence, and NO color tags, fractions or italics in code. Explain the code in the summary.`;
+
+/** Subject notes for a typed question, by detected subject (code questions detect as math or general) */
+export const SUBJECT_NOTES: Partial<Record<SubjectType, string[]>> = {
+  chemistry: [CHEMISTRY_NOTE],
+  biology: [GENETICS_NOTE],
+  math: [CALCULUS_NOTE, PROGRAMMING_NOTE],
+  general: [PROGRAMMING_NOTE],
+};
+
+/** Every subject note, as the first text prompt sent them with every question */
+export const ALL_SUBJECT_NOTES = [CHEMISTRY_NOTE, CALCULUS_NOTE, GENETICS_NOTE, PROGRAMMING_NOTE];
+
+/**
+ * Sentences the first text prompt appended to EVERY history question.
+ * Kept only so "solve.text" version 1 can be replayed unchanged.
+ */
+export const LEGACY_HISTORY_CONTEXT =
+  " Consider the influence of various groups such as the Mongols and the Xiongnu to provide a comprehensive historical point." +
+  " Include specific examples of Confederate areas under Union control, such as New Orleans, Norfolk, and parts of Tennessee, which were excluded from the Emancipation Proclamation.";
+
+/**
+ * Diagram guidance for a typed question, picked from the subject and from
+ * keywords in the question (graphing, geometry, acid-base).
+ */
+export function buildDiagramGuidance(subject: SubjectType, questionText: string): string {
+  const geometryKeywords = ['triangle', 'circle', 'rectangle', 'square', 'polygon', 'angle', 'perimeter', 'area', 'volume', 'diameter', 'radius', 'hypotenuse', 'perpendicular', 'parallel'];
+  const isGeometry = geometryKeywords.some(kw => questionText.toLowerCase().includes(kw));
+  const acidBaseKeywords = ['acidosis', 'alkalosis', 'ph', 'buffer', 'bicarbonate', 'pco2', 'hco3', 'blood gas', 'compensation'];
+  const isAcidBase = acidBaseKeywords.some(kw => questionText.toLowerCase().includes(kw));
+  const graphingKeywords = ['graph', 'plot', 'sketch the line', 'draw the line', 'graphing', 'coordinate plane', 'x-axis', 'y-axis'];
+  const isGraphingProblem = graphingKeywords.some(kw => questionText.toLowerCase().includes(kw)) &&
+                           (questionText.toLowerCase().includes('equation') || questionText.toLowerCase().includes('line') || questionText.toLowerCase().includes('slope'));
+
+  if (subject === 'physics') {
+    return `- YOU MUST INCLUDE A DIAGRAM - This physics problem requires visual representation
+- **Understanding Net Force**: Net force is the sum of all forces acting on an object. It determines the object's acceleration according to Newton's second law (F = ma). Clearly identify and sum all forces to find the net force.
+- **Understanding Uniformly Distributed Load**: A uniformly distributed load is spread evenly across a structure, such as a beam, and is crucial for ensuring structural integrity by preventing localized stress concentrations that could lead to failure.
+- **NON-NEGOTIABLE**: Add a "physicsDiagram" object to Step 1 (next to "title", "equation", "summary")
+- Do NOT use [IMAGE NEEDED: ...] for free-body diagrams, inclines, pulleys or loops - the app draws the "physicsDiagram" JSON exactly
+- The physicsDiagram is JSON with these fields (positions in the problem's units, y points UP, angles in degrees counterclockwise from +x):
+  * "surfaces": [{"type": "incline", "angle": 30, "length": 5, "label": "30°"}] - type is "ground", "ceiling", "wall", "incline" or "circle" (a loop or track, with "radius")
+  * "objects": [{"id": "block", "label": "m"}] - "shape": "box", "ball" or "point"; place with "x"/"y", "incline": 0..1 along the slope, or "circle": degrees around the loop (90 = top)
+  * "pulleys": [{"id": "P", "x": 4, "y": 3}] and "ropes": [{"from": "A", "to": "B", "over": "P"}]
+  * "vectors": [{"on": "block", "label": "mg", "direction": "down", "magnitude": 19.6}] - "kind": "force" (default), "velocity" or "acceleration"
+- Vector directions: "up", "down", "left", "right", "normal", "upSlope", "downSlope", "towardCenter", "awayFromCenter", "tangent", "alongRope" - or "angle" in degrees; add "angleLabel": "30°" with "angleFrom": "horizontal", "vertical" or "slope" to mark the angle
+- Include EVERY force in your equations, with the same labels and magnitudes (arrows of the same kind are drawn to scale)
+- Example: "physicsDiagram": {"surfaces": [{"type": "circle", "radius": 2.7}], "objects": [{"id": "ball", "shape": "ball", "circle": 90}], "vectors": [{"on": "ball", "label": "N", "direction": "towardCenter"}, {"on": "ball", "label": "mg", "direction": "down"}, {"on": "ball", "kind": "velocity", "label": "v", "direction": "tangent"}]}`;
+  } else if (isGraphingProblem) {
+    return `- **ABSOLUTELY MANDATORY - YOU MUST INCLUDE A GRAPH** - This problem explicitly asks to graph or plot the equation
+- **NON-NEGOTIABLE**: You MUST include the [GRAPH: ...] marker in the FINAL STEP equation field
+- Place this marker AFTER the final answer y = mx + b is derived, in the equation field of the last step
+- Do NOT use [IMAGE NEEDED: ...] for graphs - the app plots [GRAPH: ...] exactly and marks the intercepts itself
+- Inside the marker, clauses are separated by semicolons:
+  * The curve(s): "y = 5/6 x - 6" (one clause per curve or line; "x = 3" for a vertical line)
+  * Axis ranges: "x:-2..10; y:-8..2" (choose ranges that show every intercept)
+  * Optional extra points: "points: (1, -3) vertex, (4, 0) A"
+- Use plain math inside the marker: x^2 for powers, 5/6 x for fractions, sqrt(x), sin(x), ln(x), |x|
+- EXACT FORMAT REQUIRED: "[GRAPH: y = [slope] x + [intercept]; x:[min]..[max]; y:[min]..[max]]"
+- Example: "[GRAPH: y = 5/6 x - 6; x:-2..10; y:-8..2]"
+- **THIS IS NOT OPTIONAL** - If you solve a graphing problem without including this marker, you have failed the task`;
+  } else if (isGeometry) {
+    return `- **ABSOLUTELY MANDATORY - YOU MUST INCLUDE A DIAGRAM** - This geometry problem requires visual representation
+- **NON-NEGOTIABLE**: You MUST add a "diagram" object to Step 1 (next to "title", "equation", "summary")
+- Do NOT use [IMAGE NEEDED: ...] for geometry - the app draws the "diagram" JSON exactly
+- Geometry problems CANNOT be properly understood without seeing the shape, dimensions, and relationships
+- The diagram is JSON with these fields (all coordinates are numbers, y points UP):
+  * "points": [{"id": "A", "x": 0, "y": 0}] - every vertex, center and labeled point; the id is shown as its label
+  * "segments": [{"from": "A", "to": "B", "label": "5 cm"}] - sides, heights, radii; "dashed": true for heights and construction lines
+  * "angles": [{"at": "B", "from": "A", "to": "C", "label": "30°"}] - "right": true for a right-angle square mark
+  * "circles": [{"center": "O", "radius": 5, "label": "r = 5"}] - or "through": "A" instead of "radius"
+  * "labels": [{"text": "P = 54", "x": 2, "y": -1}] - free text at a position
+- Choose coordinates that match the problem's proportions (a 3-4-5 right triangle at (0,0), (4,0), (0,3))
+- Labels MUST use the same values and variable names as your steps (e.g. "w", "2w + 3", "5 cm")
+- For an unknown dimension, still pick plausible coordinates and label the side with its variable
+- **THIS IS NOT OPTIONAL** - If you solve a geometry problem without a "diagram", you have failed the task
+- Example for a perimeter problem: "diagram": {"points": [{"id": "A", "x": 0, "y": 0}, {"id": "B", "x": 10, "y": 0}, {"id": "C", "x": 10, "y": 17}, {"id": "D", "x": 0, "y": 17}], "segments": [{"from": "A", "to": "B", "label": "w"}, {"from": "B", "to": "C", "label": "2w + 3"}, {"from": "C", "to": "D", "label": "w"}, {"from": "D", "to": "A", "label": "2w + 3"}], "angles": [{"at": "A", "from": "B", "to": "D", "right": true}]}`;
+  } else if (subject === 'chemistry' && isAcidBase) {
+    return `- YOU MUST INCLUDE A DAVENPORT DIAGRAM - Acid-base problems require a proper Davenport diagram
+- Include [IMAGE NEEDED: description] in Step 1 equation field before any analysis
+- **CRITICAL: Request a Davenport diagram specifically** - this is the standard clinical tool for acid-base interpretation
+- The Davenport diagram plots HCO3- (bicarbonate) on Y-axis vs pH on X-axis, showing metabolic and respiratory acidosis/alkalosis regions
+- Example: "[IMAGE NEEDED: Davenport diagram with pH on x-axis (7.0-7.6) and HCO3- on y-axis (10-40 mEq/L). Show the patient's values (pH=7.48, HCO3-=33 mEq/L) plotted as a red dot in the metabolic alkalosis region (upper right quadrant). Include normal range box at pH 7.35-7.45 and HCO3- 22-26 mEq/L. Label four regions: metabolic acidosis (lower left), metabolic alkalosis (upper right), respiratory acidosis (lower right), respiratory alkalosis (upper left). Draw buffer line through normal point showing respiratory compensation.]"`;
+  } else if (subject === 'biology' && isAcidBase) {
+    return `- YOU MUST INCLUDE A DAVENPORT DIAGRAM - Acid-base disturbance problems require a proper Davenport diagram
+- Include [IMAGE NEEDED: description] in Step 1 equation field before any analysis
+- **CRITICAL: Request a Davenport diagram specifically** - this is the standard medical tool for acid-base interpretation
+- The Davenport diagram plots HCO3- (bicarbonate) on Y-axis vs pH on X-axis, showing metabolic and respiratory acidosis/alkalosis regions
+- Example: "[IMAGE NEEDED: Davenport diagram with pH on x-axis (7.0-7.6) and HCO3- on y-axis (10-40 mEq/L). Show the patient's values (pH=7.48, HCO3-=33 mEq/L) plotted as a red dot in the metabolic alkalosis region (upper right quadrant). Include normal range box at pH 7.35-7.45 and HCO3- 22-26 mEq/L. Label four regions: metabolic acidosis (lower left), metabolic alkalosis (upper right), respiratory acidosis (lower right), respiratory alkalosis (upper left). Draw buffer line through normal point showing respiratory compensation.]"`;
+  } else if (subject === 'languageArts') {
+    return `- For Language Arts problems, diagrams are OPTIONAL and should only be included if they genuinely help visualize the concept
+- Most Language Arts problems (grammar, writing, analysis) do NOT need diagrams
+- Only include [IMAGE NEEDED: ...] if the problem involves visual elements like plot structure, sentence diagrams, or concept maps that truly aid understanding`;
+  } else if (subject === 'history') {
+    return `- For History problems, diagrams are OPTIONAL and rarely needed
+- Most history questions are text-based analysis and do NOT benefit from diagrams
+- Only include [IMAGE NEEDED: ...] if the problem specifically requires a map, timeline, or battle formation diagram
+- Avoid creating diagrams for standard historical analysis questions`;
+  } else if (subject === 'socialStudies') {
+    return `- For Social Studies problems, diagrams are OPTIONAL and rarely needed
+- Most social studies questions are conceptual analysis and do NOT benefit from diagrams
+- Only include [IMAGE NEEDED: ...] if the problem requires an organizational chart or government structure diagram
+- Avoid creating diagrams for standard political science, civics, or economics questions`;
+  } else if (subject === 'law') {
+    return `- **DO NOT CREATE DIAGRAMS FOR LAW QUESTIONS** - Law problems are text-based analytical problems
+- **CRITICAL: NO [IMAGE NEEDED: ...] markers should be included for law questions**
+- Legal analysis relies on textual reasoning, not visual representations
+- Standard legal analysis, case law, and statutory interpretation do NOT use diagrams
+- Constitutional analysis, Fourth Amendment questions, and legal doctrine discussions are purely textual
+- Only organizational charts or legal process flowcharts might use diagrams, but NOT standard legal reasoning questions`;
+  } else {
+    return `- Include [IMAGE NEEDED: description] in Step 1 if visualization substantially helps understanding
+- Only create diagrams when they add genuine value to conceptualizing the problem
+- Example: "[IMAGE NEEDED: diagram showing the setup with labeled dimensions]"`;
+  }
+}
+
+/** Multiple-choice rules - stricter when the question lists A-D choices */
+export function buildMultipleChoiceGuidance(question: string): string {
+  const isMultipleChoice = /\b[A-D][\.\)]\s+[A-Z]/.test(question);
+  const hasNumericalAnswers = /\b[A-D][\.\)]\s+[\d\.\,]+/.test(question);
+  if (isMultipleChoice) {
+    return `- THIS IS A MULTIPLE CHOICE QUESTION - Follow these rules EXACTLY:
+
+**PROBLEM FIELD - ABSOLUTELY MANDATORY LINE BREAKS:**
+- In the "problem" field, you MUST put each answer choice on a NEW LINE
+- Use the newline character (\\n) or actual line breaks between choices
+- NEVER write all choices in one continuous sentence
+- Format EXACTLY like this (with actual line breaks):
+  "Question text here?
+  A. First choice
+  B. Second choice
+  C. Third choice
+  D. Fourth choice"
+
+**ANALYSIS STEP - CRITICAL RULES:**
+${hasNumericalAnswers ? `- NUMERICAL ANSWERS DETECTED: When answer choices are numerical values (like A. 1200 N, B. 2400 N), DO NOT analyze or discuss the wrong answers
+- Simply identify which choice matches your calculated result
+- Create a brief step like "Compare Result to Answer Choices"
+- In the equation field, write: "Our calculated result is [blue:calculated_value]. Comparing to the options, this matches [red:A. numerical_value]"
+- DO NOT create a list explaining why B, C, and D are incorrect - they are just wrong numbers and don't need explanation` : `- Create a step titled "Analyze Each Answer Choice"
+- In the equation field, you MUST put each option on a NEW LINE
+- Use actual newline characters between each option
+- NEVER let options run together in one paragraph
+- **COLOR HIGHLIGHTING FOR CORRECTNESS**: Use [red:Correct] when identifying the correct answer and [blue:Incorrect] for wrong answers
+- Format EXACTLY like this (with actual line breaks):
+  "A. [text] - [blue:Incorrect] because [reason]
+  B. [text] - [red:Correct] because [reason]
+  C. [text] - [blue:Incorrect] because [reason]
+  D. [text] - [blue:Incorrect] because [reason]"`}
+
+**FINAL ANSWER:**
+- Include BOTH the letter AND the full answer text
+- Example: "[red:B. IV diltiazem]" NOT just "IV diltiazem"
+
+**THIS IS NON-NEGOTIABLE - Line breaks between A, B, C, D are MANDATORY in ALL subjects**`;
+  }
+  return `- If this is a multiple choice question with options A, B, C, D:
+  * In the "problem" field: Put EACH choice on its OWN LINE with actual line breaks
+  * In analysis step: Put EACH option on its OWN LINE with actual line breaks
+  * NEVER let A, B, C, D run together - always separate with newlines
+  * Include the letter in your final answer (e.g., "[red:A. Political Socialization]")`;
+}
+
+/** The overview step for multi-step problems; `firstEquation` describes Step 1's equation */
+export function buildStrategicFirstStep(firstEquation: string): string {
+  return `**CRITICAL: Strategic First Step for Multi-Step Problems**:
+- If this problem requires 3+ steps, START with a strategic overview step
+- Step 1 Title: "Understand the Problem and Strategy"
+- Step 1 Equation: "${firstEquation}"
+- Step 1 Summary: "Brief 1-2 sentence strategy explaining the approach to solve this problem"
+- Example Summary: "We need to find the height using trigonometry by first identifying this as a right triangle and then applying the sine ratio with the given angle and hypotenuse."`;
+}
+
+export const FORMATTING_RULES = `**CRITICAL FORMATTING RULES - READ CAREFULLY**:
+1. ALL fractions MUST use {numerator/denominator} syntax - NEVER use forward slash / or inline division
+   ✓ CORRECT: {1/2} renders as a proper fraction
+   ✓ CORRECT: E = {1/2}*m**v*^2^
+   ✗ WRONG: 1/2 (renders as text, not fraction)
+   ✗ WRONG: E = 1/2 m v^2^
+
+2. Subscripts: Use text_subscript_ format
+   ✓ CORRECT: *v*_peri_ (velocity at perihelion)
+   ✓ CORRECT: *GM*_m_/*r*
+   ✗ WRONG: [*v*_(peri):] (brackets and colons break rendering)
+   ✗ WRONG: v_(peri) (parentheses in subscript)
+
+3. Superscripts: Use text^superscript^ format
+   ✓ CORRECT: *v*^2^
+   ✓ CORRECT: m/s^2^
+   ✗ WRONG: v^2 (missing closing ^)
+
+4. Variables in italics: *variable*
+   ✓ CORRECT: *v*, *m*, *r*, *E*
+   ✗ WRONG: v, m, r (not italic)
+
+4a. Roots, absolute values, sums/integrals and matrices:
+   ✓ CORRECT: √(*b*^2^ - 4*a**c*), ∛(27), ^5^√(32)
+   ✓ CORRECT: |*x* - 3| = 5
+   ✓ CORRECT: Σ_i=1_^n^ *i* = {*n*(*n* + 1)/2}, ∫_0_^1^ *x*^2^ d*x*
+   ✓ CORRECT: *A* = [matrix: 1, 2; 3, 4] (commas between entries, semicolons between rows), det[matrix: 1, 2; 3, 4]
+   ✗ WRONG: sqrt(x), abs(x - 3), sum from i=1 to n
+
+4b. Tables and Punnett squares:
+   ✓ CORRECT: [TABLE: Genotype | Phenotype | Ratio; TT | tall | 1; Tt | tall | 2; tt | short | 1] (header row first, | between cells, semicolons between rows)
+   ✓ CORRECT: [PUNNETT: Tt x Tt; T: tall; t: short] (parent genotypes, optional trait names - the app draws the grid and counts the ratios)
+   ✓ ALSO FINE: a markdown table for data, timelines and comparisons ("| Year | Event |", "|---|---|", one row per line) - it is shown as the same grid
+   ✗ WRONG: ASCII grids drawn with dashes and plus signs, or Punnett squares written out as text
+
+5. **PROFESSIONAL MULTI-STEP CALCULATIONS - VISUAL CLARITY REQUIREMENTS**:
+   - **MANDATORY VISUAL FLOW**: Multi-step calculations MUST use professional formatting with visual aids to guide the student
+   - **VERTICAL ALIGNMENT**: Align equal signs vertically across calculation steps for easy visual tracking
+   - **ARROWS FOR FLOW**: Use → arrows to show where results transfer to the next step
+   - **COLOR FLOW SYSTEM**:
+     * [red:result] for the answer calculated in current step
+     * [blue:value] in the NEXT step to show where that red result is being used
+     * This creates a visual "trail" showing how values flow through the problem
+   - **BLANK LINES**: Add blank lines between distinct operations for visual separation
+   - **PROGRESSIVE SUBSTITUTION**: Show the formula, then substitution, then calculation as separate lines
+   - **CRITICAL FOR ALL SUBJECTS**: When presenting multiple items, options, or points (A, B, C, D or 1, 2, 3), put EACH item on its own line
+   - **LINE BREAK RULES**:
+     * DO NOT break lines in the middle of coordinate pairs like (0, 4) or expressions
+     * DO NOT break between numbers and their units
+     * Complete thoughts/steps should be on same line or properly separated with blank lines
+     * Keep related information together: "y-intercept (0, 4)" should stay on one line
+
+   ✓ CORRECT (professional multi-step with visual flow):
+   "Step 1 - Find centripetal force:
+   *F*_c_ = *m**v*^2^ / *r*
+        = (0.40 kg)(4.2 m/s)^2^ / 0.60 m
+        = 7.056 / 0.60
+        → [red:11.76 N]
+
+   Step 2 - Apply to circular motion:
+   [blue:11.76 N] = *N* + *m**g*
+   [blue:11.76 N] = *N* + (0.40 kg)(9.8 m/s^2^)
+   [blue:11.76 N] = *N* + 3.92 N
+                *N* = 11.76 - 3.92
+                   → [red:7.84 N]"
+
+   ✓ CORRECT (simple problem with alignment):
+   "Calculate net force:
+   *F*_net_ = *m**a*
+           = (2.5 kg)(3.2 m/s^2^)
+           → [red:8.0 N]"
+
+   ✓ CORRECT (value flowing to next calculation):
+   "Find total weight:
+   *W* = *w* × *L* = 600 N/m × 4.0 m → [red:2400 N]
+
+   Calculate reaction force:
+   *R* = [blue:2400 N] / 2 → [red:1200 N]"
+
+   ✓ CORRECT (list of items - MANDATORY FORMAT):
+   "A. Rise of Populist Movement - Directly addresses railroad regulation demands.
+   B. Passage of Thirteenth Amendment - Focuses on abolition of slavery, not railroads.
+   C. U.S. acquisition of colonies - Involves military expansion, not directly linked to domestic railroads.
+   D. Growth of temperance movement - Social issue, unrelated to economic/industrial patterns."
+
+   ✗ ABSOLUTELY WRONG (no alignment, cramped, no visual flow):
+   "*F*_c_ = *m**v*^2^ / *r* = (0.40 kg)(4.2 m/s)^2^ / 0.60 m = 11.76 N and then 11.76 N = *N* + *m**g* = *N* + 3.92 N so *N* = 7.84 N"
+
+   ✗ WRONG (missing color flow - doesn't show how 11.76 N transfers):
+   "Step 1: *F*_c_ = 11.76 N
+   Step 2: 11.76 N = *N* + 3.92 N"
+   (Should use [red:11.76 N] in Step 1 and [blue:11.76 N] in Step 2)
+
+   - **ALIGNMENT RULES**: Use spaces to align equal signs vertically within each calculation block
+   - **SPACING RULES**: Blank line between major calculation steps, aligned lines within each step
+   - **ARROW USAGE**: → arrow before final result in each step to draw eye to the answer
+   - **REMEMBER: A, B, C, D answer choices ALWAYS get their own lines - this is universal across all subjects**
+
+
+5a. **ALGEBRA EQUATION SOLVING - PROFESSIONAL VISUAL FORMATTING**:
+   - **MANDATORY VERTICAL ALIGNMENT**: Align equal signs vertically for professional appearance
+   - **MANDATORY LINE BREAKS**: EVERY algebraic manipulation MUST be shown on a SEPARATE line with blank lines between operations
+   - **Start with the original equation** before showing any manipulations
+   - **Show the operation being performed** on its own line (e.g., "Subtract 2x from both sides:", "Divide every term by -6:")
+   - **Display intermediate steps** showing what happens to each term with aligned equal signs
+   - **NEVER cram multiple steps on one line** - use newlines to separate each transformation
+   - **Include blank lines** between different operations for visual clarity
+   - **Use spaces** to align equal signs for professional mathematical formatting
+
+   ✓ CORRECT (solving 3x + 6 = 2x - 4 with vertical alignment):
+   "Original equation:
+   3*x* + 6 = 2*x* - 4
+
+   Subtract 2*x* from both sides:
+   3*x* - 2*x* + 6 = 2*x* - 2*x* - 4
+              *x* + 6 = -4
+
+   Subtract 6 from both sides:
+          *x* + 6 - 6 = -4 - 6
+                   *x* = -10 → [red:*x* = -10]"
+
+   ✓ ALSO CORRECT (alternative approach with alignment):
+   "Start with:
+   3*x* + 6 = 2*x* - 4
+
+   Subtract 2*x* from both sides:
+        *x* + 6 = -4
+
+   Subtract 6 from both sides:
+             *x* = -10 → [red:*x* = -10]"
+
+   ✗ ABSOLUTELY WRONG (skipping steps):
+   "3*x* + 6 = 2*x* - 4
+   *x* = -10"
+
+   ✗ WRONG (jumping to combined form without showing original):
+   "7*x* - 3*x* = 28 + 4
+   4*x* = 32"
+
+   ✓ CORRECT (slope-intercept form conversion with vertical alignment):
+   "Original equation:
+   5*x* - 6*y* = 36
+
+   Subtract 5*x* from both sides:
+         -6*y* = -5*x* + 36
+
+   Divide every term by -6:
+            *y* = {5/6}*x* - 6 → [red:*y* = {5/6}*x* - 6]"
+
+   ✗ ABSOLUTELY WRONG (cramming all steps on one line):
+   "Original equation: 5 x - 6 y = 36 Subtract 5 x from both sides: -6 y = -5 x + 36 Divide every term by -6: y = 5/6 x - 6"
+
+   **DIAGRAM REQUIREMENTS FOR ALGEBRA**:
+   - When creating [IMAGE NEEDED: ...] for algebra equations, **identify individual terms**, NOT grouped sides
+   - ✓ CORRECT: Color code "3x" as x-term, "6" as constant, "2x" as x-term, "-4" as constant
+   - ✗ WRONG: Color code "3x + 6" as one group or "2x - 4" as one group
+   - Example: "[IMAGE NEEDED: Equation 3x + 6 = 2x - 4 with each term individually identified - highlight '3x' and '2x' in orange as x-terms, highlight '6' and '-4' in green as constants, with clear labels]"
+
+6. **CRITICAL: NEVER USE UNDERSCORES IN LIST MARKERS**:
+   - **ABSOLUTELY FORBIDDEN**: Do NOT write "A_.", "B_.", "C_.", or "D_." with underscores
+   - Underscores are ONLY for subscripts in variables (like *v*_initial_ or *F*_net_)
+   - List markers are ALWAYS: "A. ", "B. ", "C. ", "D. " (letter, period, space - NO underscore)
+   - ✓ CORRECT: "A. First option" or "B. Second option"
+   - ✗ ABSOLUTELY WRONG: "A_. First option" or "B_. Second option" or "C_." or "D_."
+   - This is NON-NEGOTIABLE: List markers use periods, NOT underscores
+
+7. **STRICT COLOR HIGHLIGHTING RULES** - Follow these rules EXACTLY:
+   - **RED HIGHLIGHTING IS MANDATORY**: EVERY step that calculates a numerical result MUST red-highlight that result
+   - **RED**: The SINGLE final answer calculated in that step box ONLY
+     Example: "... = 11.76 N → [red:11.76 N]" or "... → [red:*t* = 1.97 s]"
+     Example: "*W*_total_ = *w* × *L* = 600 N/m × 4.0 m = 2400 N → [red:2400 N]"
+     Example: "*R*_1_ = *R*_2_ = *W*_total_/2 = 2400 N / 2 = 1200 N → [red:1200 N]"
+     Example: "Slope *m* = (0 - 4) / (8 - 0) = [red:-½] Y-intercept = [red:4]"
+     Example: "Solve for *x*: 5*x* + 3 = 18 → 5*x* = 15 → *x* = [red:3]"
+   - **CRITICAL**: If a step has a numerical calculation with a result, that result MUST be in [red:...]
+   - **MULTIPLE RESULTS IN ONE STEP**: If a single step calculates multiple values (like slope AND y-intercept), EACH value MUST be red-highlighted individually
+     Example: "Slope = [red:-½], Y-intercept = [red:4]" NOT "Slope = -½, Y-intercept = 4"
+   - **BLUE**: Values from PREVIOUS steps being used in THIS step's calculations
+     Example: If Step 1 calculated 11.76 N, then Step 2 uses it: "[blue:11.76 N] = *N* + (0.40 kg)(9.8 m/s²)"
+   - **NO OTHER COLORS**: Do not highlight given values, constants, coefficients, or anything else
+   - This creates visual flow showing how answers propagate through the solution
+   - Example sequence:
+     * Step 1: "F = ma = (2 kg)(5 m/s²) → [red:10 N]"
+     * Step 2: "Work = [blue:10 N] × 3 m → [red:30 J]"
+     * Step 3: "Power = [blue:30 J] / 2 s → [red:15 W]"
+
+**Title Field Guidelines**:
+- PLAIN TEXT ONLY - NO formatting markup (no asterisks, no color codes, no brackets)
+- Clear, concise action description
+- Example: "Rearrange the Equation into Slope-Intercept Form"
+- ✓ CORRECT: "Calculate Net Force"
+- ✗ WRONG: "*Calculate* *Net* *Force*" (NO asterisks!)
+- ✗ WRONG: "Calculate [red:Net] Force" (NO color codes!)
+
+**Summary Field Guidelines**:
+- ONE clear sentence in plain English
+- NO math symbols, NO color highlighting
+- Explain what the step accomplishes
+- Example: "Plugging values helps compute normal force by isolating N in the net force equation."`;
+
+export const RESPONSE_FORMAT = `**JSON Response Format**:
+**CRITICAL JSON RULES**:
+- DO NOT use LaTeX notation in JSON - this breaks JSON parsing
+- ✗ WRONG: "\\frac{1}{2}" or "\\alpha" or "\\beta" or "\\n"
+- ✓ CORRECT: "{1/2}" for fractions, "alpha"/"beta" for Greek letters
+- Use our fraction syntax: {numerator/denominator} NOT \\frac{numerator}{denominator}
+- Use Greek letters as words: "alpha", "beta", "sigma" NOT "\\alpha", "\\beta", "\\sigma"
+- Use actual newline characters for line breaks, not "\\n" literal text
+- All backslashes in strings must be properly escaped as "\\\\" if you need them
+- Example WRONG: "For \\alpha = 0.05" - Example CORRECT: "For alpha = 0.05"
+- Example WRONG: "\\frac{1}{2}*x*" - Example CORRECT: "{1/2}*x*"
+
+**CRITICAL: NO MARKDOWN EMPHASIS ASTERISKS**:
+- DO NOT use asterisks for emphasis (no *x*, no *word*, no *token*)
+- Variables must appear as plain letters: x, y, m, b (NOT *x*, *y*, *m*, *b*)
+- Never use * for multiplication. Use implicit multiplication (5x) or × if needed
+- ✓ CORRECT: "x = 5", "2x + 3", "y = mx + b", "{3/4} × 8"
+- ✗ ABSOLUTELY WRONG: "*x* = 5", "2*x* + 3", "*y* = *m**x* + *b*"
+- ✗ WRONG: "{3/4}*8" (using * for multiplication)
+- If you need to show multiplication explicitly, use × (multiplication sign): "5 × x" or just write "5x"
+- This prevents rendering bugs where asterisks appear literally in the UI
+
+{
+  "problem": "Restate the FULL problem or question clearly - for multiple choice, include the complete question text",
+  "steps": [
+    {
+      "title": "PLAIN TEXT ONLY - NO asterisks, NO color codes, NO brackets",
+      "equation": "Mathematical work with {fractions/like_this}, plain variables (x, y, m), [blue:highlighting] for intermediate values, and [red:results]. For algebra, use SEPARATE LINES with blank lines between operations. For lists (A, B, C, D), put EACH item on its own line using newlines.",
+      "summary": "Plain English explanation - ONE sentence, NO math symbols."
+    }
+  ],
+  "finalAnswer": {
+    "parts": [
+      "1) Normal force at the top: [red:7.84 N]",
+      "2) Minimum speed: [red:2.43 m/s]"
+    ]
+  }
+}
+
+**Example - Multiple Choice with Line Breaks**:
+{
+  "title": "Analyze Each Answer Choice",
+  "equation": "A. To demonstrate that skepticism about the external world is logically incoherent - Incorrect because Descartes himself uses skepticism as a tool, not to refute its coherence.
+B. To show that even the most basic beliefs could be false, forcing the search for indubitable truths - Correct because Descartes uses the evil demon hypothesis to illustrate that our fundamental beliefs might be deceived, and hence we must find something utterly certain.
+C. To argue that moral truths are independent of empirical observation - Incorrect because the evil demon scenario is not specifically addressing moral truths but rather general knowledge.
+D. To support the view that mathematical knowledge is acquired through sensory perception - Incorrect because Descartes suggests mathematical knowledge could be certain and distinct from sensory perception.",
+  "summary": "We evaluate each option to determine which best explains Descartes purpose in using the evil demon thought experiment."
+}
+
+**Example - Calculate Net Force (Simple - One Line)**:
+{
+  "title": "Calculate Centripetal Force",
+  "equation": "*F*_centripetal_ = *m**v*^2^ / *r* = (0.40 kg)(4.2 m/s)^2^ / 0.60 m → [red:11.76 N]",
+  "summary": "We calculate the centripetal force needed to keep the object moving in a circle."
+}
+
+**Example - Apply Newton's Second Law (Multi-Step - Line Breaks)**:
+{
+  "title": "Find Normal Force",
+  "equation": "At the top, net force toward center equals:
+[blue:11.76 N] = *N* + *mg*
+[blue:11.76 N] = *N* + (0.40 kg)(9.8 m/s^2^)
+[blue:11.76 N] = *N* + 3.92 N
+Solving for *N*:
+*N* = [blue:11.76 N] - 3.92 N → [red:7.84 N]",
+  "summary": "We use the centripetal force from the previous step to find the normal force at the top of the loop."
+}
+
+**CRITICAL ANSWER DISPLAY RULE**:
+- When a step calculates a final numerical answer, END the equation with → [red:answer] or → [red:*variable* = answer]
+- **DO NOT REPEAT THE ANSWER**: The answer should ONLY appear once, inside the [red:...] tag
+- **NEVER use a colon before [red:...]**: Always use an arrow →
+- ✓ CORRECT: "... = 13 → [red:*t* ≈ 1.97 seconds]"
+- ✓ CORRECT: "... *y* = {-3/8}*x* + 4 → [red:*y* = {-3/8}*x* + 4]"
+- ✗ ABSOLUTELY WRONG: "y = -3/8 x + 4: [red:y = -3/8 x + 4]" (redundant, uses colon)
+- ✗ WRONG: "answer = 13: [red:13]" (redundant, uses colon)
+- The RED highlighted answer must be the LAST element in the equation box
+- The answer must have units and be clearly labeled
+- This ensures students see the answer prominently in the solution box, not just in the summary
+
+**Example - Energy Conservation**:
+{
+  "title": "Apply Conservation of Energy",
+  "equation": "Total energy *E* = kinetic + potential → *E* = {1/2}*m**v*^2^ - *GM*_m_/*r*. At perihelion: {1/2}*m**v*_peri_^2^ - *GM*_m_/*r*_peri_ = *E*_total_.",
+  "summary": "We use conservation of energy to relate velocities and distances at different points in the orbit."
+}`;
+
+// ============================================================================
+// IMAGE SOLVE PROMPT FRAGMENTS
+// ============================================================================
+
+/** Which problem on the photo to solve */
+export function buildProblemFocus(problemNumber?: string): string {
+  return problemNumber
+    ? `Focus ONLY on problem number ${problemNumber}.`
+    : "Identify and solve the first problem you see in the image.";
+}
+
+export const COUNT_ALL_QUANTITIES = `**CRITICAL: READ THE PROBLEM CAREFULLY AND COUNT ALL QUANTITIES**
+- When a problem asks for multiple items (e.g., "2 life jackets and 2 jet skis"), you MUST calculate costs/values for ALL items mentioned
+- CAREFULLY identify each quantity in the problem: if it says "2 life jackets", your calculation MUST include multiplication by 2
+- Common mistake: calculating for only 1 item when the problem asks for 2 or more
+- Example: If the problem asks "cost for 2 life jackets and 2 jet skis for 8 hours", your final calculation MUST include:
+  * Cost of 2 life jackets (not 1)
+  * Cost of 2 jet skis (not 1)
+  * For 8 hours duration
+- VERIFY your final answer accounts for ALL quantities before completing the solution`;
+
+/** The model detects the subject from the photo, so every diagram kind is described */
+export const IMAGE_DIAGRAM_GUIDANCE = `- IF THIS IS A PHYSICS PROBLEM: YOU MUST INCLUDE A "physicsDiagram" OBJECT IN STEP 1
+- IF THIS IS A GEOMETRY PROBLEM: YOU MUST INCLUDE A "diagram" OBJECT IN STEP 1 - **THIS IS NON-NEGOTIABLE**
+- IF THIS IS AN ACID-BASE/pH DISTURBANCE PROBLEM: YOU MUST INCLUDE A DAVENPORT DIAGRAM
+- IF THIS IS A GRAPHING PROBLEM (asks to graph, plot, or sketch an equation/line): YOU MUST INCLUDE A GRAPH in the FINAL STEP
+- Include [IMAGE NEEDED: description] at the START of Step 1 equation field (for acid-base)
+- For physics: add "physicsDiagram": {"surfaces": [...], "objects": [...], "pulleys": [...], "ropes": [...], "vectors": [...]} to Step 1 instead of [IMAGE NEEDED: ...]. Surfaces are {"type": "ground" | "ceiling" | "wall" | "incline" | "circle", "x", "y", "angle", "length", "radius", "label"}; objects {"id", "shape": "box" | "ball" | "point", "label", "x", "y" or "incline": 0..1 or "circle": degrees}; pulleys {"id", "x", "y"}; ropes {"from", "to", "over"}; vectors {"on", "kind": "force" | "velocity" | "acceleration", "label", "direction" or "angle", "magnitude", "angleLabel", "angleFrom"}. Vector labels and magnitudes must match your equations
+- For geometry: add "diagram": {"points": [...], "segments": [...], "angles": [...], "circles": [...], "labels": [...]} to Step 1 instead of [IMAGE NEEDED: ...]. Points are {"id", "x", "y"} with y pointing up; segments {"from", "to", "label", "dashed"}; angles {"at", "from", "to", "label", "right"}; circles {"center", "radius" or "through", "label"}; labels {"text", "x", "y"}. Labels must use the same values and variable names as your steps
+- For graphing problems: Include [GRAPH: ...] (NOT [IMAGE NEEDED: ...]) in the FINAL STEP after computing the equation in slope-intercept form
+- Physics topics: forces, motion, circular motion, projectiles, inclines, pulleys, tension, friction, collisions, energy
+- Geometry topics: triangles, circles, rectangles, squares, polygons, angles, perimeter, areas, volumes, shapes, spatial relationships
+- Acid-base topics: acidosis, alkalosis, pH, bicarbonate, HCO3-, pCO2, blood gas, compensation, metabolic, respiratory
+- Graphing: problems that explicitly ask to "graph", "plot", "sketch the line", "draw the graph" of an equation or line
+- Describe ALL relevant elements: forces, velocities, angles, dimensions, shapes, and coordinate systems
+- Example Physics Loop: "physicsDiagram": {"surfaces": [{"type": "circle", "radius": 2.7}], "objects": [{"id": "m", "shape": "ball", "circle": 90}], "vectors": [{"on": "m", "label": "N", "direction": "towardCenter"}, {"on": "m", "label": "mg", "direction": "down"}, {"on": "m", "kind": "velocity", "label": "v", "direction": "tangent"}]}
+- Example Physics Incline: "physicsDiagram": {"surfaces": [{"type": "incline", "angle": 30, "length": 5, "label": "θ = 30°"}], "objects": [{"id": "block", "label": "m", "incline": 0.5}], "vectors": [{"on": "block", "label": "mg", "direction": "down", "magnitude": 49}, {"on": "block", "label": "N", "direction": "normal", "magnitude": 42.4}, {"on": "block", "label": "f", "direction": "upSlope", "magnitude": 12}]}
+- Example Geometry Rectangle: "diagram": {"points": [{"id": "A", "x": 0, "y": 0}, {"id": "B", "x": 10, "y": 0}, {"id": "C", "x": 10, "y": 17}, {"id": "D", "x": 0, "y": 17}], "segments": [{"from": "A", "to": "B", "label": "w"}, {"from": "B", "to": "C", "label": "2w + 3"}, {"from": "C", "to": "D", "label": "w"}, {"from": "D", "to": "A", "label": "2w + 3"}], "angles": [{"at": "A", "from": "B", "to": "D", "right": true}], "labels": [{"text": "P = 54", "x": 5, "y": 8.5}]}
+- Example Geometry Triangle: "diagram": {"points": [{"id": "A", "x": 0, "y": 0}, {"id": "B", "x": 4.33, "y": 2.5}, {"id": "C", "x": 5.77, "y": 0}], "segments": [{"from": "A", "to": "B", "label": "5 cm"}, {"from": "B", "to": "C"}, {"from": "C", "to": "A"}], "angles": [{"at": "B", "from": "A", "to": "C", "right": true}, {"at": "A", "from": "C", "to": "B", "label": "30°"}]}
+- Example Acid-Base: "[IMAGE NEEDED: Davenport diagram with pH on x-axis (7.0-7.6) and HCO3- on y-axis (10-40 mEq/L). Show the patient's values (pH=7.48, HCO3-=33 mEq/L) plotted as a red dot in the metabolic alkalosis region (upper right quadrant). Include normal range box at pH 7.35-7.45 and HCO3- 22-26 mEq/L. Label four regions: metabolic acidosis (lower left), metabolic alkalosis (upper right), respiratory acidosis (lower right), respiratory alkalosis (upper left). Draw buffer line through normal point.]"
+- Example Graphing: "[GRAPH: y = 5/6 x - 6; x:-2..10; y:-8..2]" - curves separated by semicolons, then axis ranges. The app computes and labels the intercepts`;
+
+// ============================================================================
+// WORKSHEET PROMPT
+// ============================================================================
+
+/**
+ * Build the prompt that lists every problem on a worksheet photo (no solving).
+ * Labels are later passed back as the problem number for each solve.
+ */
+export function buildProblemEnumerationPrompt(): string {
+  return `You are looking at a photo of a homework worksheet. List EVERY separate problem on the page, in the order they appear. Do NOT solve anything.
+
+For each problem give:
+- "number": the label exactly as printed (e.g., "3", "12b", "Q4"). If a problem has no printed label, use its position on the page ("1", "2", ...)
+- "text": a one-line summary of the problem so a student can recognize it (max ~100 characters)
+
+Sub-parts that share one question (a, b, c) are listed separately only if each asks for its own answer.
+Ignore instructions, headers, names, dates and worked examples.
+
+RESPOND WITH JSON ONLY:
+{
+  "problems": [
+    { "number": "1", "text": "Solve for x: 3x + 7 = 22" }
+  ]
+}`;
+}
+
+// ============================================================================
+// VERIFICATION & CORRECTION PROMPTS
+// ============================================================================
+
+/**
+ * Build the verification prompt that checks a solution answers the actual question.
+ */
+export function buildVerificationPrompt(originalProblem: string, solution: HomeworkSolution): string {
+  return `You are a verification expert. Your job is to verify if the provided solution correctly answers the question.
+
+CRITICAL VERIFICATION TASKS:
+1. Extract what the question is ACTUALLY asking for (e.g., "find the orbital period", "calculate the height", "determine the force")
+2. Check if the solution answers the correct question
+3. Verify dimensional analysis - if asking for time, answer should be in time units (not distance)
+4. Check if the calculation approach is correct for what's being asked
+5. Identify any mismatches between question and answer
+
+ORIGINAL PROBLEM: ${originalProblem}
+
+PROVIDED SOLUTION:
+Problem Restatement: ${solution.problem}
+Steps: ${JSON.stringify(solution.steps.map(s => ({ title: s.title, equation: s.equation || s.content })), null, 2)}
+Final Answer: ${typeof solution.finalAnswer === 'string' ? solution.finalAnswer : JSON.stringify(solution.finalAnswer)}
+
+RESPOND WITH JSON ONLY:
+{
+  "questionAsking": "What the problem is actually asking for (e.g., 'orbital period in seconds', 'height in meters')",
+  "solutionProvides": "What the solution actually calculates (e.g., 'semi-major axis in meters', 'time in seconds')",
+  "isCorrect": true/false,
+  "dimensionalAnalysis": "Check if units match what's being asked",
+  "issues": ["List any problems found"],
+  "correctApproach": "If incorrect, briefly describe the correct approach"
+}`;
+}
+
+/**
+ * Build the correction prompt for a typed question that failed verification.
+ */
+export function buildTextCorrectionPrompt(question: string, issues: string[]): string {
+  return `CRITICAL ERROR DETECTED: The previous solution was INCORRECT.
+
+ORIGINAL PROBLEM: ${question}
+
+ISSUES FOUND:
+${issues.join('\n')}
+
+You MUST provide a corrected solution that:
+1. Answers the ACTUAL question being asked (not a related but different question)
+2. Uses the correct approach for what's being asked
+3. Provides an answer with correct dimensional units
+
+Follow all previous formatting rules, but most importantly: SOLVE THE CORRECT PROBLEM.
+
+**CRITICAL**: You MUST respond with JSON in EXACTLY this format:
+{
+  "problem": "the problem statement",
+  "steps": [
+    {
+      "title": "Step title",
+      "equation": "equation content with formatting",
+      "summary": "summary text"
+    }
+  ],
+  "finalAnswer": "the final answer"
+}
+
+DO NOT use "corrected_solution" or any other structure. Use "steps" array as shown above.`;
+}
+
+/**
+ * Build the correction prompt for a photographed problem that failed verification.
+ */
+export function buildImageCorrectionPrompt(issues: string[]): string {
+  return `CRITICAL ERROR DETECTED: The previous solution was INCORRECT.
+
+ISSUES FOUND:
+${issues.join('\n')}
+
+You MUST provide a corrected solution that:
+1. Answers the ACTUAL question being asked (not a related but different question)
+2. Uses the correct approach for what's being asked
+3. Provides an answer with correct dimensional units
+4. CAREFULLY counts ALL items mentioned (e.g., if asking for "2 life jackets and 2 jet skis", calculate costs for ALL 2 life jackets AND ALL 2 jet skis)
+5. Shows the complete calculation including all quantities multiplied correctly
+
+IMPORTANT: When the problem asks for multiple items (e.g., "2 life jackets"), you MUST multiply by the quantity. Do not forget to include all items in your final calculation.
+
+Follow all previous formatting rules, but most importantly: SOLVE THE CORRECT PROBLEM WITH THE CORRECT QUANTITIES.
+
+**CRITICAL**: You MUST respond with JSON in EXACTLY this format:
+{
+  "problem": "the problem statement",
+  "steps": [
+    {
+      "title": "Step title",
+      "equation": "equation content with formatting",
+      "summary": "summary text"
+    }
+  ],
+  "finalAnswer": "the final answer"
+}
+
+DO NOT use "corrected_solution" or any other structure. Use "steps" array as shown above.`;
+}
+
+// ============================================================================
+// SIMPLIFICATION PROMPT
+// ============================================================================
+
+/**
+ * Build the "I Still Don't Get It" prompt for re-explaining a solved problem.
+ */
+export function buildSimplifiedExplanationPrompt(problem: string): string {
+  return `You are an exceptionally patient and supportive tutor helping a student who is struggling to understand this concept.
+
+ORIGINAL PROBLEM: ${problem}
+
+The student has seen a solution but said "I Still Don't Get It". Your mission is to re-explain this in the SIMPLEST possible way with:
+
+1. **Slower, Smaller Steps**: Break down EVERY operation into tiny, manageable pieces
+2. **Plain Language**: Explain each step in simple, everyday terms before showing the math
+3. **Background Education**: Define any terms, concepts, or operations the student might not know
+4. **Why We Do It**: Explain the reasoning behind each step, not just what to do
+5. **Visual Analogies**: Use real-world comparisons when helpful
+
+CRITICAL FORMATTING (same as before):
+- Use {numerator/denominator} for ALL fractions
+- For EVERY operation, show the work WITH red highlighting on terms being operated on
+- Add arrow → to show the progression to the result
+- Highlight the outcome in appropriate color (green, orange, blue, etc.)
+- NO color coding in final answer
+- Maintain format consistency throughout
+
+**CRITICAL - JSON FORMAT**: You MUST respond with valid JSON only. Do not include any text before or after the JSON object.
+
+Format your response as JSON:
+{
+  "problem": "Restate the problem simply",
+  "steps": [
+    {
+      "title": "Simple, clear step title",
+      "content": "The math/equation for this step",
+      "explanation": "Detailed explanation in simple language: why we do this, what it means, any background concepts"
+    }
+  ],
+  "finalAnswer": "The answer with no color coding"
+}
+
+EXAMPLE - "Solve: 2x + 5 = 13":
+{
+  "problem": "Find the value of x in the equation: 2x + 5 = 13",
+  "steps": [
+    {
+      "title": "Understand what we have",
+      "content": "2x + 5 = 13",
+      "explanation": "This equation has a variable (x) that we need to find. The left side says '2 times x, plus 5' equals 13. Our goal is to get x by itself on one side."
+    },
+    {
+      "title": "Remove the 5 from the left side",
+      "content": "2x + 5 - [red:5] = 13 - [red:5] → 2x = 8",
+      "explanation": "We want to isolate x, so we need to get rid of the +5. To keep the equation balanced (like a seesaw), whatever we do to one side, we must do to the other. We subtract 5 from BOTH sides."
+    },
+    {
+      "title": "Divide to find x",
+      "content": "2x ÷ [red:2] = 8 ÷ [red:2] → x = 4",
+      "explanation": "We have 2x, which means 2 times x. To undo multiplication, we divide. We divide both sides by 2 to get x by itself. 8 divided by 2 equals 4."
+    },
+    {
+      "title": "Verify the answer",
+      "content": "x = 4",
+      "explanation": "Let's check: if x is 4, then 2(4) + 5 = 8 + 5 = 13. It works!"
+    }
+  ],
+  "finalAnswer": "x = 4"
+}
+
+Now create a simplified explanation for the problem: ${problem}`;
+}
+
+// ============================================================================
+// DIAGRAM PROMPT
+// ============================================================================
+
+/**
+ * Build the image generation prompt for an [IMAGE NEEDED: ...] description.
+ */
+export function buildDiagramPrompt(description: string): string {
+  return `Create a clear, educational diagram showing: ${description}.
+
+Style: Clean, simple, easy to understand. Use labels and clear lines.
+Make it appropriate for a student learning this concept.
+Use colors to distinguish different elements.
+
+CRITICAL - UNIVERSAL MATHEMATICAL VERIFICATION PROTOCOL:
+Before finalizing ANY diagram containing numbers, coordinates, measurements, or calculations:
+1. Extract ALL marked/labeled values from your diagram (coordinates, lengths, angles, intercepts, etc.)
+2. Substitute these values back into the relevant equation/formula/relationship from the description
+3. Verify mathematically that the values satisfy the relationship EXACTLY
+4. If ANY value fails verification, recalculate the correct value and reposition/relabel in the diagram
+5. This applies universally to: graph intercepts, triangle measurements, physics diagrams, chemical equations, etc.
+
+Example verification for line equation y=12x-8 with x-intercept at (a,0):
+- Check: Does 0 = 12(a) - 8?
+- If a=2: 0 ≟ 12(2)-8 = 16 ✗ INCORRECT
+- Solve correctly: 0 = 12a-8 → a = 2/3 ✓
+- Place marker at x ≈ 0.67, not at x = 2
+
+PROBLEM STATEMENT:
+- For rectangles: Ensure opposite sides have EQUAL measurements (top side length = bottom side length, left side length = right side length)
+  - When calculating dimensions with a surrounding path, remember the path adds twice its width to each dimension (once for each side).
+
+CRITICAL FOR ALGEBRA ANALYSIS:
+- The distributive property allows us to multiply a single term by each term inside a parenthesis. Ensure this is explained before applying it in solutions.
+- Vieta's formulas state that for a quadratic equation ax^2 + bx + c = 0, the sum of the roots is -b/a and the product is c/a. Include this explanation to help students unfamiliar with these concepts.
+- Explain that a zero discriminant in a quadratic equation indicates the vertex of the parabola touches the x-axis at one point, resulting in a double root. This means the equation has exactly one real solution, where the parabola is tangent to the x-axis. To find the double root, you can factor the quadratic equation if possible, or use the quadratic formula. When using the quadratic formula, the double root is given by -b/(2a) when the discriminant is zero.
+- **Verification is crucial**: After each algebraic manipulation, verify the step to ensure no errors have been introduced. This helps in maintaining accuracy and understanding the logical flow of the solution.
+- **Second Derivative Test**: Explain that the second derivative test helps determine the nature of critical points in a function. If the second derivative at a critical point is positive, the function has a local minimum at that point. If the second derivative is negative, the function has a local maximum. If the second derivative is zero, the test is inconclusive, and further analysis is needed.
+- **Critical Points and Derivatives**: Include a brief explanation that setting the first derivative to zero finds critical points where the slope of the tangent is horizontal. These points are potential maxima or minima, as they indicate where the function changes direction.
+
+EVALUATION CRITERIA:
+- Verify mathematical accuracy by checking the dimensions and ensuring they meet the specified conditions.
+- For cubes: All edges must be the SAME length
+- For rectangular prisms: Opposite faces must have IDENTICAL dimensions
+- For triangles: Verify all sides and angles follow geometric rules (angles sum to 180°)
+- If the description has conflicting dimensions (e.g., "width 6 for PQ and length 8 for SR" where PQ and SR are opposite sides), CORRECT the error by making opposite sides equal
+- Choose the most logical interpretation: if uncertain, make the longer dimension the length and shorter dimension the width, applied consistently to opposite sides
+
+CRITICAL FOR ALGEBRA ANALYSIS:
+- **Identify INDIVIDUAL TERMS, not grouped sides**
+- Ensure translations include 'livre' to 'book' as required by evaluation criteria
+
+CRITICAL FOR BIOLOGY:
+- Briefly explain that 'H' and 'O' are standard chemical symbols for hydrogen and oxygen, respectively, as per the periodic table. Highlight the atomic number's role in determining an element's properties and its biological significance, such as hydrogen's role in forming water and organic compounds, and oxygen's role in respiration and energy production.
+- Explain how catalysts alter reaction mechanisms by providing an alternative pathway with a lower activation energy. Include a diagram or detailed chemical equations to illustrate this process. Catalysts do not get consumed in the reaction and can be used repeatedly.
+- Provide an example of the use of platinum in catalytic converters to demonstrate the variety of applications of catalysts in industry. Explain how platinum helps convert harmful gases from car exhaust into less harmful substances.
+- Include interactive questions to test understanding of the photosynthesis process, such as:
+  1. What are the main reactants and products of photosynthesis?
+  2. Describe the role of chlorophyll in photosynthesis.
+  3. Explain how light intensity affects the rate of photosynthesis.
+- Provide scenarios or diagrams for students to analyze and identify the stages of photosynthesis.
+- Correctly calculate the number of years from 1 AD to 2023 AD as 2023 years. Update any statements or explanations to reflect this accurate calculation.
+
+CRITICAL FOR TRIGONOMETRY:
+- Include an explanation for the use of the cosine function: 'The cosine function relates the adjacent side to the hypotenuse in a right triangle. It is used to find the length of the adjacent side when the angle and hypotenuse are known.'
+- When converting expressions like '5√3', explicitly show the conversion step: '5√3 ≈ 8.66' to clarify the final answer
+
+CRITICAL FOR KINEMATICS:
+- Provide a brief explanation of why specific kinematic equations are used: 'Kinematic equations are used to describe the motion of objects under constant acceleration. They allow us to calculate unknown variables such as displacement, velocity, and time when certain other variables are known.'
+- Ensure each step of the calculation is shown, including identifying known variables, selecting the appropriate equation, and solving for the unknown variable.
+- For algebraic calculations, break down the steps: 
+  1. Identify the variables involved.
+  2. Write down the equation.
+  3. Solve for the unknown variable step-by-step, showing each transformation.
+- For trigonometric calculations, break down the steps:
+  1. Identify the known sides and angles.
+  2. Choose the appropriate trigonometric function.
+  3. Substitute the known values into the function.
+  4. Solve for the unknown side or angle, showing each calculation step.
+
+CRITICAL FOR LITERARY ANALYSIS:
+- Incorporate specific quotes or passages from 'To Kill a Mockingbird' to substantiate the analysis of literary techniques.
+- Ensure quotes are relevant to the literary technique being analyzed and provide context for their inclusion.
+
+CRITICAL FOR CALCULUS:
+- Simplify the definition of a derivative to: 'The derivative of a function gives us the rate at which the function is changing.'
+- Expand the explanation of the second derivative test: 'The second derivative of a function provides information about the concavity of the function. If the second derivative is positive at a critical point, the function is concave up, indicating a local minimum. Conversely, if the second derivative is negative at a critical point, the function is concave down, indicating a local maximum. This is because a positive second derivative suggests the slope is increasing, while a negative second derivative suggests the slope is decreasing.'
+- Explain the power rule: 'The power rule is a shortcut for finding the derivative of a function of the form f(x) = x^n. It works because when you apply the definition of a derivative, the exponent n comes down as a coefficient, and the new exponent becomes n-1. This is a result of the limit definition of a derivative and the properties of exponents.'
+- Encourage the use of a sign chart or test values to verify the nature of critical points. This helps confirm whether a critical point is a local maximum, minimum, or neither by analyzing the sign changes of the first derivative around the critical points.'
+
+CRITICAL FOR PROJECTILE MOTION:
+- **Explain the significance of the vertical component of velocity**
+- Emphasize that the vertical component is crucial for calculating the maximum height because it determines how high the projectile will rise before gravity brings it back down.
+- For equations like "3x + 6 = 2x - 4", ensure each term is clearly identified without using color tags:
+  * Clearly identify "3x" as an x-term
+  * Clearly identify "6" as a constant
+  * Clearly identify "2x" as an x-term
+  * Clearly identify "-4" as a constant
+- DO NOT group "3x + 6" together or "2x - 4" together
+- Each term must have its own color box and label
+
+Generate the diagram with mathematically correct dimensions and proper term identification.`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Storage-Backed Solution Cache
+ *
+ * A SolutionCache on top of any AsyncStorage-like key-value store. Each
+ * solution is its own item, so lookups never load the whole cache; an index
+ * item lists the keys oldest first so the oldest solutions are evicted
+ * beyond `maxSolutions`.
+ *
+ * CRITICAL: Writes are serialized. set() reads, changes and writes back the
+ * index - two overlapping sets (a worksheet solves 3 problems at once) would
+ * each write an index missing the other's key, and a solution missing from
+ * the index is never evicted.
+ *
+ * Pure TypeScript with NO React Native imports - state/solutionCache.ts
+ * binds it to AsyncStorage.
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import type { SolutionCache } from "./solutionEngine";
+
+/** The part of AsyncStorage the cache uses */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+}
+
+export interface StorageSolutionCache extends SolutionCache {
+  /** Remove every cached solution */
+  clear(): Promise<void>;
+}
+
+// Item keys - the index is stored next to the solutions
+const KEY_PREFIX = "solution-cache:";
+const INDEX_KEY = `${KEY_PREFIX}index`;
+
+export const DEFAULT_MAX_CACHED_SOLUTIONS = 100;
+
+/**
+ * Create a solution cache that keeps at most `maxSolutions` solutions in `storage`
+ */
+export function createStorageSolutionCache(
+  storage: KeyValueStorage,
+  maxSolutions = DEFAULT_MAX_CACHED_SOLUTIONS
+): StorageSolutionCache {
+  // Tail of the write queue - each index update starts after the previous one settles
+  let pending: Promise<void> = Promise.resolve();
+  const serialized = (task: () => Promise<void>): Promise<void> => {
+    const run = pending.then(task);
+    pending = run.catch(() => {});
+    return run;
+  };
+
+  const readIndex = async (): Promise<string[]> => {
+    const raw = await storage.getItem(INDEX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  };
+
+  return {
+    get: async (key) => {
+      const raw = await storage.getItem(KEY_PREFIX + key);
+      return raw ? (JSON.parse(raw) as HomeworkSolution) : null;
+    },
+
+    set: (key, solution) =>
+      serialized(async () => {
+        const index = [...(await readIndex()).filter((k) => k !== key), key];
+        const evicted = index.slice(0, Math.max(0, index.length - maxSolutions));
+
+        await storage.setItem(KEY_PREFIX + key, JSON.stringify(solution));
+        if (evicted.length > 0) {
+          await storage.multiRemove(evicted.map((k) => KEY_PREFIX + k));
+        }
+        await storage.setItem(INDEX_KEY, JSON.stringify(index.slice(evicted.length)));
+      }),
+
+    clear: () =>
+      serialized(async () => {
+        const index = await readIndex();
+        await storage.multiRemove([...index.map((k) => KEY_PREFIX + k), INDEX_KEY]);
+      }),
+  };
+}
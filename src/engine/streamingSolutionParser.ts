@@ -0,0 +1,239 @@
+/**
+ * Streaming Solution Parser
+ *
+ * Incremental JSON parser for solution responses that arrive in chunks.
+ * Emits the "problem" statement and each entry of the "steps" array as soon
+ * as it is complete, so steps can be shown while the model is still writing.
+ *
+ * CRITICAL: This only drives the progressive preview. The full response is
+ * still parsed and validated by parseAIResponse() once the stream ends.
+ *
+ * Usage:
+ *   const parser = createStreamingSolutionParser({ onStep: (step, index) => ... });
+ *   for await (const chunk of stream) parser.push(chunk);
+ */
+
+import { SolutionStepSchema, type ValidatedSolutionStep } from "../utils/solutionSchema";
+import { containsLatex, KNOWN_LATEX_COMMANDS, latexToAppNotation } from "./latex";
+
+export interface StreamingSolutionParserHandlers {
+  /** Called once when the root "problem" string is complete */
+  onProblem?: (problem: string) => void;
+  /** Called for each complete, schema-valid entry of the root "steps" array */
+  onStep?: (step: ValidatedSolutionStep, index: number) => void;
+}
+
+export interface StreamingSolutionParser {
+  /** Feed the next chunk of response text */
+  push(chunk: string): void;
+  /** Everything received so far */
+  getText(): string;
+}
+
+/** JSON escapes other than a backslash before a letter */
+const JSON_ESCAPES: Record<string, string> = { '"': '"', "\\": "\\", "/": "/" };
+const JSON_LETTER_ESCAPES: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+
+/**
+ * With a single backslash these read more often as a newline followed by
+ * text ("\nu" = newline + "u") than as the LaTeX command.
+ */
+const AMBIGUOUS_SINGLE_ESCAPES = new Set(["ne", "ni", "nu"]);
+
+/**
+ * Decode the inside of a JSON string literal, reading "\theta" and "\\theta"
+ * as the LaTeX command and "\n" as a newline. Unknown escapes keep their backslash.
+ */
+function decodeJSONStringWithLatex(content: string): string {
+  let decoded = "";
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char !== "\\" || i === content.length - 1) {
+      decoded += char;
+      continue;
+    }
+
+    const next = content[i + 1];
+    const name = /^[A-Za-z]+/.exec(content.slice(i + 1))?.[0];
+    if (name && KNOWN_LATEX_COMMANDS.has(name) && !AMBIGUOUS_SINGLE_ESCAPES.has(name)) {
+      decoded += `\\${name}`;
+      i += name.length;
+    } else if (next in JSON_ESCAPES) {
+      decoded += JSON_ESCAPES[next];
+      i++;
+    } else if (next in JSON_LETTER_ESCAPES) {
+      decoded += JSON_LETTER_ESCAPES[next];
+      i++;
+    } else if (next === "u" && /^[0-9a-fA-F]{4}$/.test(content.slice(i + 2, i + 6))) {
+      decoded += String.fromCharCode(parseInt(content.slice(i + 2, i + 6), 16));
+      i += 5;
+    } else {
+      // Stray backslash (\{, \,) - keep it for the LaTeX converter
+      decoded += "\\";
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Convert LaTeX the model sometimes emits inside JSON string values into our syntax.
+ * Must run BEFORE JSON.parse - unescaped backslashes break JSON parsing.
+ * Strings without LaTeX are left byte-for-byte unchanged.
+ */
+export function normalizeLatexInJSON(jsonString: string): string {
+  return jsonString.replace(/"((?:[^"\\]|\\.)*)"|[^"]+/g, (segment, content: string | undefined) => {
+    // Outside a string literal (or text that isn't JSON at all)
+    if (content === undefined) return containsLatex(segment) ? latexToAppNotation(segment) : segment;
+
+    if (!/[\\^_$]/.test(content)) return segment;
+    const decoded = decodeJSONStringWithLatex(content);
+    return containsLatex(decoded) ? JSON.stringify(latexToAppNotation(decoded)) : segment;
+  });
+}
+
+/**
+ * Escape backslashes inside JSON string values that aren't valid escape sequences
+ * (e.g. a stray \alpha that should have been \\alpha)
+ */
+export function escapeStrayBackslashes(jsonString: string): string {
+  return jsonString.replace(/"([^"]*(?:\\.[^"]*)*)"/g, (match, content: string) => {
+    // Don't double-escape already escaped sequences
+    const fixed = content.replace(/\\(?!["\\/bfnrtu])/g, '\\\\');
+    return `"${fixed}"`;
+  });
+}
+
+function parseStepObject(objectText: string): ValidatedSolutionStep | null {
+  const normalized = normalizeLatexInJSON(objectText);
+  for (const candidate of [normalized, escapeStrayBackslashes(normalized)]) {
+    try {
+      const result = SolutionStepSchema.safeParse(JSON.parse(candidate));
+      return result.success ? result.data : null;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Create an incremental parser.
+ *
+ * Tracks string/escape state and container nesting character by character,
+ * remembering which root key each value belongs to. Text before the root
+ * object (e.g. a ```json fence) is ignored.
+ */
+export function createStreamingSolutionParser(
+  handlers: StreamingSolutionParserHandlers = {}
+): StreamingSolutionParser {
+  let text = "";
+  let position = 0;
+
+  // Scanner state (persists between chunks)
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastRootString: string | null = null; // Last complete string directly inside the root object
+  let rootKey: string | null = null; // Key whose value is currently being read
+  let expectingRootValue = false;
+  let stepsArrayDepth = -1; // Depth inside the root "steps" array, -1 when not in it
+  let stepStart = -1;
+  let stepIndex = 0;
+  let problemEmitted = false;
+
+  const handleStringEnd = (end: number) => {
+    if (depth !== 1) return;
+
+    let value: string;
+    try {
+      value = JSON.parse(text.slice(stringStart, end + 1));
+    } catch {
+      value = text.slice(stringStart + 1, end);
+    }
+
+    if (expectingRootValue) {
+      expectingRootValue = false;
+      if (rootKey === "problem" && !problemEmitted) {
+        problemEmitted = true;
+        handlers.onProblem?.(value);
+      }
+    } else {
+      lastRootString = value;
+    }
+  };
+
+  const scan = () => {
+    for (; position < text.length; position++) {
+      const char = text[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          handleStringEnd(position);
+        }
+        continue;
+      }
+
+      // Ignore anything before the root object starts
+      if (depth === 0 && char !== "{") continue;
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = position;
+          break;
+        case ":":
+          if (depth === 1) {
+            rootKey = lastRootString;
+            expectingRootValue = true;
+          }
+          break;
+        case ",":
+          if (depth === 1) expectingRootValue = false;
+          break;
+        case "{":
+        case "[":
+          if (depth === 1) {
+            expectingRootValue = false;
+            if (char === "[" && rootKey === "steps") {
+              stepsArrayDepth = depth + 1;
+            }
+          }
+          if (char === "{" && depth === stepsArrayDepth) {
+            stepStart = position;
+          }
+          depth++;
+          break;
+        case "}":
+        case "]":
+          depth--;
+          if (char === "}" && depth === stepsArrayDepth && stepStart !== -1) {
+            const step = parseStepObject(text.slice(stepStart, position + 1));
+            stepStart = -1;
+            if (step) {
+              handlers.onStep?.(step, stepIndex);
+              stepIndex++;
+            }
+          } else if (char === "]" && depth === stepsArrayDepth - 1) {
+            stepsArrayDepth = -1;
+          }
+          break;
+      }
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      text += chunk;
+      scan();
+    },
+    getText() {
+      return text;
+    },
+  };
+}
@@ -0,0 +1,632 @@
+/**
+ * Units & Dimensional Analysis
+ *
+ * Reads quantities with units ("9.8 m/s²", "25 g/mol", "3.0 × 10^8^ m/s")
+ * out of solution steps and final answers, and warns when:
+ * - A step's equation changes dimension across "=" ("100 m / 20 s = 5 m")
+ * - The final answer's dimension isn't what the question asks for
+ *   (a time in meters, a speed with no units)
+ *
+ * Only dimensions are tracked, not magnitudes: "1 km = 1000 m" is fine,
+ * "5 m = 5 s" is not. Anything that can't be read (variables, unknown
+ * symbols) is skipped rather than guessed - these are warnings, never
+ * grounds for regenerating a solution.
+ *
+ * Pure TypeScript with NO React Native imports (runs inside the engine).
+ */
+
+import type { HomeworkSolution } from "../types/homework";
+import { toPlainMath } from "./expression";
+
+// ============================================================================
+// DIMENSIONS
+// ============================================================================
+
+/** Exponents of the SI base dimensions: length, mass, time, current, temperature, amount */
+export type Dimension = readonly [number, number, number, number, number, number];
+
+const BASE_SYMBOLS = ["m", "kg", "s", "A", "K", "mol"];
+
+const DIMENSIONLESS: Dimension = [0, 0, 0, 0, 0, 0];
+const LENGTH: Dimension = [1, 0, 0, 0, 0, 0];
+const MASS: Dimension = [0, 1, 0, 0, 0, 0];
+const TIME: Dimension = [0, 0, 1, 0, 0, 0];
+const CURRENT: Dimension = [0, 0, 0, 1, 0, 0];
+const TEMPERATURE: Dimension = [0, 0, 0, 0, 1, 0];
+const AMOUNT: Dimension = [0, 0, 0, 0, 0, 1];
+const AREA: Dimension = [2, 0, 0, 0, 0, 0];
+const VOLUME: Dimension = [3, 0, 0, 0, 0, 0];
+const SPEED: Dimension = [1, 0, -1, 0, 0, 0];
+const ACCELERATION: Dimension = [1, 0, -2, 0, 0, 0];
+const FORCE: Dimension = [1, 1, -2, 0, 0, 0];
+const ENERGY: Dimension = [2, 1, -2, 0, 0, 0];
+const POWER: Dimension = [2, 1, -3, 0, 0, 0];
+const PRESSURE: Dimension = [-1, 1, -2, 0, 0, 0];
+const FREQUENCY: Dimension = [0, 0, -1, 0, 0, 0];
+const MOMENTUM: Dimension = [1, 1, -1, 0, 0, 0];
+const DENSITY: Dimension = [-3, 1, 0, 0, 0, 0];
+const CHARGE: Dimension = [0, 0, 1, 1, 0, 0];
+const VOLTAGE: Dimension = [2, 1, -3, -1, 0, 0];
+const RESISTANCE: Dimension = [2, 1, -3, -2, 0, 0];
+const MOLAR_MASS: Dimension = [0, 1, 0, 0, 0, -1];
+const CONCENTRATION: Dimension = [-3, 0, 0, 0, 0, 1];
+
+export function multiplyDimensions(a: Dimension, b: Dimension): Dimension {
+  return a.map((exponent, i) => exponent + b[i]) as unknown as Dimension;
+}
+
+export function divideDimensions(a: Dimension, b: Dimension): Dimension {
+  return a.map((exponent, i) => exponent - b[i]) as unknown as Dimension;
+}
+
+function powerDimension(a: Dimension, power: number): Dimension {
+  return a.map((exponent) => exponent * power) as unknown as Dimension;
+}
+
+export function sameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((exponent, i) => Math.abs(exponent - b[i]) < 1e-9);
+}
+
+// Names used in warnings, most specific first
+const DIMENSION_NAMES: { dimension: Dimension; name: string; unit: string }[] = [
+  { dimension: LENGTH, name: "length", unit: "m" },
+  { dimension: MASS, name: "mass", unit: "kg" },
+  { dimension: TIME, name: "time", unit: "s" },
+  { dimension: AREA, name: "area", unit: "m²" },
+  { dimension: VOLUME, name: "volume", unit: "m³" },
+  { dimension: SPEED, name: "speed", unit: "m/s" },
+  { dimension: ACCELERATION, name: "acceleration", unit: "m/s²" },
+  { dimension: FORCE, name: "force", unit: "N" },
+  { dimension: ENERGY, name: "energy", unit: "J" },
+  { dimension: POWER, name: "power", unit: "W" },
+  { dimension: PRESSURE, name: "pressure", unit: "Pa" },
+  { dimension: FREQUENCY, name: "frequency", unit: "Hz" },
+  { dimension: MOMENTUM, name: "momentum", unit: "kg·m/s" },
+  { dimension: DENSITY, name: "density", unit: "kg/m³" },
+  { dimension: CURRENT, name: "current", unit: "A" },
+  { dimension: CHARGE, name: "charge", unit: "C" },
+  { dimension: VOLTAGE, name: "voltage", unit: "V" },
+  { dimension: RESISTANCE, name: "resistance", unit: "Ω" },
+  { dimension: TEMPERATURE, name: "temperature", unit: "K" },
+  { dimension: AMOUNT, name: "amount of substance", unit: "mol" },
+  { dimension: MOLAR_MASS, name: "molar mass", unit: "kg/mol" },
+  { dimension: CONCENTRATION, name: "concentration", unit: "mol/m³" },
+  { dimension: DIMENSIONLESS, name: "pure number", unit: "" },
+];
+
+/** "m/s (speed)" for known dimensions, SI base units ("kg·m²/s³") otherwise */
+export function describeDimension(dimension: Dimension): string {
+  const known = DIMENSION_NAMES.find((entry) => sameDimension(entry.dimension, dimension));
+  if (known) return known.unit ? `${known.unit} (${known.name})` : known.name;
+
+  const part = (sign: 1 | -1) =>
+    BASE_SYMBOLS.map((symbol, i) => {
+      const exponent = dimension[i] * sign;
+      if (exponent <= 0) return "";
+      return exponent === 1 ? symbol : `${symbol}^${exponent}`;
+    })
+      .filter(Boolean)
+      .join("·");
+  const numerator = part(1) || "1";
+  const denominator = part(-1);
+  return denominator ? `${numerator}/${denominator}` : numerator;
+}
+
+// ============================================================================
+// UNIT TABLE
+// ============================================================================
+
+// Symbols are matched case-sensitively and only as whole words right after a number
+const UNITS: Record<string, Dimension> = {
+  // Length
+  m: LENGTH,
+  cm: LENGTH,
+  mm: LENGTH,
+  km: LENGTH,
+  μm: LENGTH,
+  nm: LENGTH,
+  ft: LENGTH,
+  mi: LENGTH,
+  // Mass
+  g: MASS,
+  kg: MASS,
+  mg: MASS,
+  // Time
+  s: TIME,
+  ms: TIME,
+  min: TIME,
+  h: TIME,
+  hr: TIME,
+  // Volume
+  L: VOLUME,
+  mL: VOLUME,
+  // Speed (single symbols)
+  mph: SPEED,
+  // Mechanics
+  N: FORCE,
+  kN: FORCE,
+  J: ENERGY,
+  kJ: ENERGY,
+  cal: ENERGY,
+  kcal: ENERGY,
+  eV: ENERGY,
+  W: POWER,
+  kW: POWER,
+  Pa: PRESSURE,
+  kPa: PRESSURE,
+  atm: PRESSURE,
+  mmHg: PRESSURE,
+  bar: PRESSURE,
+  Hz: FREQUENCY,
+  kHz: FREQUENCY,
+  // Electricity
+  A: CURRENT,
+  mA: CURRENT,
+  C: CHARGE,
+  V: VOLTAGE,
+  Ω: RESISTANCE,
+  ohm: RESISTANCE,
+  ohms: RESISTANCE,
+  // Temperature
+  K: TEMPERATURE,
+  "°C": TEMPERATURE,
+  "°F": TEMPERATURE,
+  // Chemistry
+  mol: AMOUNT,
+  mmol: AMOUNT,
+  M: CONCENTRATION,
+};
+
+// Spelled-out units ("12 seconds", "3 newtons")
+const UNIT_WORDS: [string[], Dimension][] = [
+  [["meter", "meters", "metre", "metres", "kilometer", "kilometers", "centimeter", "centimeters"], LENGTH],
+  [["feet", "foot", "mile", "miles"], LENGTH],
+  [["gram", "grams", "kilogram", "kilograms"], MASS],
+  [["second", "seconds", "minute", "minutes", "hour", "hours"], TIME],
+  [["liter", "liters", "litre", "litres"], VOLUME],
+  [["newton", "newtons"], FORCE],
+  [["joule", "joules", "calorie", "calories"], ENERGY],
+  [["watt", "watts"], POWER],
+  [["pascal", "pascals"], PRESSURE],
+  [["hertz"], FREQUENCY],
+  [["amp", "amps", "ampere", "amperes"], CURRENT],
+  [["coulomb", "coulombs"], CHARGE],
+  [["volt", "volts"], VOLTAGE],
+  [["kelvin"], TEMPERATURE],
+  [["mole", "moles"], AMOUNT],
+];
+for (const [words, dimension] of UNIT_WORDS) {
+  for (const word of words) UNITS[word] = dimension;
+}
+
+// Longest first so "mmHg" wins over "mm" and "kg" over "k..."
+const UNIT_SYMBOLS = Object.keys(UNITS).sort((a, b) => b.length - a.length);
+
+// ============================================================================
+// UNIT PARSING
+// ============================================================================
+
+interface ParsedUnit {
+  dimension: Dimension;
+  end: number;
+}
+
+function matchSymbol(text: string, pos: number): ParsedUnit | null {
+  for (const symbol of UNIT_SYMBOLS) {
+    if (!text.startsWith(symbol, pos)) continue;
+    // Whole word only: "m" must not match the start of "meters" or "many"
+    if (/[A-Za-zμΩ]/.test(text[pos + symbol.length] ?? "")) continue;
+    return { dimension: UNITS[symbol], end: pos + symbol.length };
+  }
+  return null;
+}
+
+/** Optional exponent after a unit: ^2, ^-1, ^(2) */
+function matchExponent(text: string, pos: number): { power: number; end: number } {
+  const match = /^\^\(?(-?\d+)\)?/.exec(text.slice(pos));
+  return match ? { power: parseInt(match[1], 10), end: pos + match[0].length } : { power: 1, end: pos };
+}
+
+/**
+ * Parse a unit expression starting at `pos` ("m/s^2", "kg*m/s^(2)", "J/(mol*K)").
+ * Everything after the first "/" is the denominator, so "J/mol*K" reads as J/(mol·K).
+ */
+function parseUnitAt(text: string, pos: number): ParsedUnit | null {
+  let cursor = pos;
+  let dimension = DIMENSIONLESS;
+  let inDenominator = false;
+  let factors = 0;
+
+  for (;;) {
+    let factor: ParsedUnit | null = null;
+
+    if (text[cursor] === "(") {
+      const inner = parseUnitAt(text, cursor + 1);
+      if (inner && text[inner.end] === ")") factor = { dimension: inner.dimension, end: inner.end + 1 };
+    } else {
+      factor = matchSymbol(text, cursor);
+    }
+    if (!factor) break;
+
+    const exponent = matchExponent(text, factor.end);
+    const factorDimension = powerDimension(factor.dimension, exponent.power);
+    dimension = inDenominator
+      ? divideDimensions(dimension, factorDimension)
+      : multiplyDimensions(dimension, factorDimension);
+    cursor = exponent.end;
+    factors++;
+
+    // Continue only when another unit follows the operator ("m/s" yes, "m / 20 s" no)
+    const operator = text[cursor];
+    if (operator !== "/" && operator !== "*") break;
+    const next = text[cursor + 1];
+    if (next !== "(" && !matchSymbol(text, cursor + 1)) break;
+    if (operator === "/") inDenominator = true;
+    cursor++;
+  }
+
+  return factors > 0 ? { dimension, end: cursor } : null;
+}
+
+/**
+ * Read a unit written on its own ("m/s²", "g/mol").
+ * Returns null unless the whole string is a unit.
+ */
+export function parseUnit(unit: string): Dimension | null {
+  const text = toPlainMath(unit).trim();
+  const parsed = parseUnitAt(text, 0);
+  return parsed && parsed.end === text.length ? parsed.dimension : null;
+}
+
+// ============================================================================
+// QUANTITIES
+// ============================================================================
+
+export interface Quantity {
+  value: number;
+  dimension: Dimension;
+  text: string;
+}
+
+// A number, optionally in scientific notation: 3.0 * 10^(8), 1.5e-3
+const NUMBER_SOURCE = String.raw`-?\d+(?:\.\d+)?(?:e-?\d+)?(?:\s*\*\s*10\^\(?-?\d+\)?)?`;
+
+function readNumber(text: string): number {
+  const [mantissa, exponent] = text.split(/\s*\*\s*10\^/);
+  const value = parseFloat(mantissa);
+  return exponent === undefined ? value : value * Math.pow(10, parseInt(exponent.replace(/[()]/g, ""), 10));
+}
+
+/**
+ * Every "number unit" pair in a piece of text (app notation allowed).
+ * Numbers without a unit are not returned.
+ */
+export function extractQuantities(text: string): Quantity[] {
+  const plain = toPlainMath(text);
+  const quantities: Quantity[] = [];
+
+  for (const match of plain.matchAll(new RegExp(NUMBER_SOURCE, "g"))) {
+    const start = match.index ?? 0;
+    // Skip digits inside words/identifiers ("x2", "CO2")
+    if (/[A-Za-z_]/.test(plain[start - 1] ?? "")) continue;
+
+    let unitStart = start + match[0].length;
+    while (plain[unitStart] === " ") unitStart++;
+    const unit = parseUnitAt(plain, unitStart);
+    if (!unit) continue;
+
+    quantities.push({
+      value: readNumber(match[0]),
+      dimension: unit.dimension,
+      text: plain.slice(start, unit.end).trim(),
+    });
+  }
+
+  return quantities;
+}
+
+// ============================================================================
+// DIMENSION PROPAGATION
+// ============================================================================
+
+type DimToken =
+  | { type: "qty"; dimension: Dimension; hasUnit: boolean; value: number }
+  | { type: "op"; text: string };
+
+/** Tokenize one side of an equation; null if it contains variables or unknown symbols */
+function tokenizeSide(text: string): DimToken[] | null {
+  const tokens: DimToken[] = [];
+  const numberAt = new RegExp(NUMBER_SOURCE, "y");
+  let pos = 0;
+
+  while (pos < text.length) {
+    const char = text[pos];
+    if (char === " ") {
+      pos++;
+      continue;
+    }
+    if ("+-*/^()".includes(char)) {
+      tokens.push({ type: "op", text: char });
+      pos++;
+      continue;
+    }
+
+    numberAt.lastIndex = pos;
+    const number = char === "-" ? null : numberAt.exec(text);
+    if (number) {
+      let unitStart = pos + number[0].length;
+      while (text[unitStart] === " ") unitStart++;
+      const unit = parseUnitAt(text, unitStart);
+      tokens.push({
+        type: "qty",
+        dimension: unit ? unit.dimension : DIMENSIONLESS,
+        hasUnit: !!unit,
+        value: readNumber(number[0]),
+      });
+      pos = unit ? unit.end : pos + number[0].length;
+      continue;
+    }
+
+    return null;
+  }
+
+  return tokens;
+}
+
+type SideDimension = { dimension: Dimension; hasUnit: boolean } | { mismatch: [Dimension, Dimension] };
+
+/**
+ * Dimension of an arithmetic expression of quantities.
+ * Sums must agree (unitless numbers are taken to match anything).
+ */
+function evaluateSide(tokens: DimToken[]): SideDimension | null {
+  let pos = 0;
+  const found: { mismatch?: [Dimension, Dimension] } = {};
+  const isOp = (text: string) => {
+    const token = tokens[pos];
+    return token?.type === "op" && token.text === text;
+  };
+
+  type Value = { dimension: Dimension; hasUnit: boolean };
+
+  const parseSum = (): Value | null => {
+    let left = parseProduct();
+    while (left && (isOp("+") || isOp("-"))) {
+      pos++;
+      const right = parseProduct();
+      if (!right) return null;
+      if (left.hasUnit && right.hasUnit && !sameDimension(left.dimension, right.dimension)) {
+        found.mismatch = found.mismatch ?? [left.dimension, right.dimension];
+      }
+      left = left.hasUnit ? left : right;
+    }
+    return left;
+  };
+
+  const parseProduct = (): Value | null => {
+    let left = parsePower();
+    for (;;) {
+      if (!left) return null;
+      if (isOp("*") || isOp("/")) {
+        const divide = isOp("/");
+        pos++;
+        const right = parsePower();
+        if (!right) return null;
+        left = {
+          dimension: divide
+            ? divideDimensions(left.dimension, right.dimension)
+            : multiplyDimensions(left.dimension, right.dimension),
+          hasUnit: left.hasUnit || right.hasUnit,
+        };
+      } else if (tokens[pos]?.type === "qty" || isOp("(")) {
+        // (2 kg)(9.8 m/s^2)
+        const right = parsePower();
+        if (!right) return null;
+        left = {
+          dimension: multiplyDimensions(left.dimension, right.dimension),
+          hasUnit: left.hasUnit || right.hasUnit,
+        };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parsePower = (): Value | null => {
+    const base = parsePrimary();
+    if (!base || !isOp("^")) return base;
+    pos++;
+    let sign = 1;
+    if (isOp("-")) {
+      sign = -1;
+      pos++;
+    }
+    const exponentToken = tokens[pos];
+    if (exponentToken?.type === "qty" && !exponentToken.hasUnit) {
+      pos++;
+      return { dimension: powerDimension(base.dimension, sign * exponentToken.value), hasUnit: base.hasUnit };
+    }
+    if (isOp("(")) {
+      // ^(2) from app notation
+      pos++;
+      const inner = tokens[pos];
+      if (inner?.type !== "qty" || inner.hasUnit || tokens[pos + 1]?.type !== "op") return null;
+      pos += 2;
+      return { dimension: powerDimension(base.dimension, sign * inner.value), hasUnit: base.hasUnit };
+    }
+    return null;
+  };
+
+  const parsePrimary = (): Value | null => {
+    const token = tokens[pos];
+    if (!token) return null;
+    if (token.type === "qty") {
+      pos++;
+      return { dimension: token.dimension, hasUnit: token.hasUnit };
+    }
+    if (isOp("-") || isOp("+")) {
+      pos++;
+      return parsePrimary();
+    }
+    if (isOp("(")) {
+      pos++;
+      const inner = parseSum();
+      if (!isOp(")")) return null;
+      pos++;
+      return inner;
+    }
+    return null;
+  };
+
+  const result = parseSum();
+  if (!result || pos !== tokens.length) return null;
+  return found.mismatch ? { mismatch: found.mismatch } : result;
+}
+
+/**
+ * Warnings for one equation line: sums of different dimensions, or sides of
+ * "=" with different dimensions. Sides with no units at all are ignored.
+ */
+export function checkEquationLine(line: string): string[] {
+  const warnings: string[] = [];
+  const sides = toPlainMath(line)
+    .split("=")
+    .map((side) => side.trim())
+    .filter(Boolean);
+
+  let previous: { text: string; dimension: Dimension } | null = null;
+  for (const side of sides) {
+    const tokens = tokenizeSide(side);
+    const result = tokens && evaluateSide(tokens);
+    if (!result) continue;
+
+    if ("mismatch" in result) {
+      const [a, b] = result.mismatch;
+      warnings.push(`"${side}" adds ${describeDimension(a)} to ${describeDimension(b)}`);
+      continue;
+    }
+    if (!result.hasUnit) continue;
+
+    if (previous && !sameDimension(previous.dimension, result.dimension)) {
+      warnings.push(
+        `"${previous.text}" is in ${describeDimension(previous.dimension)} ` +
+          `but "${side}" is in ${describeDimension(result.dimension)}`
+      );
+    }
+    previous = { text: side, dimension: result.dimension };
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// WHAT THE QUESTION ASKS FOR
+// ============================================================================
+
+// Checked in order; the first keyword found after the last question phrase wins
+const ASKED_QUANTITIES: { pattern: RegExp; dimension: Dimension }[] = [
+  { pattern: /\bmolar mass\b/, dimension: MOLAR_MASS },
+  { pattern: /\b(molarity|concentration)\b/, dimension: CONCENTRATION },
+  { pattern: /\b(how many moles|number of moles|moles)\b/, dimension: AMOUNT },
+  { pattern: /\bacceleration\b/, dimension: ACCELERATION },
+  { pattern: /\b(velocity|speed|how fast)\b/, dimension: SPEED },
+  { pattern: /\bmomentum\b/, dimension: MOMENTUM },
+  { pattern: /\b(kinetic energy|potential energy|energy|work done|heat)\b/, dimension: ENERGY },
+  { pattern: /\b(net force|force|tension|weight)\b/, dimension: FORCE },
+  { pattern: /\bpower\b/, dimension: POWER },
+  { pattern: /\bpressure\b/, dimension: PRESSURE },
+  { pattern: /\bdensity\b/, dimension: DENSITY },
+  { pattern: /\bfrequency\b/, dimension: FREQUENCY },
+  { pattern: /\b(period|how much time|how long does|how long will|how long did|time)\b/, dimension: TIME },
+  { pattern: /\b(distance|displacement|height|wavelength|radius|how far|how high)\b/, dimension: LENGTH },
+  { pattern: /\bvolume\b/, dimension: VOLUME },
+  { pattern: /\bmass\b/, dimension: MASS },
+  { pattern: /\bcurrent\b/, dimension: CURRENT },
+  { pattern: /\b(voltage|potential difference)\b/, dimension: VOLTAGE },
+  { pattern: /\bresistance\b/, dimension: RESISTANCE },
+  { pattern: /\bcharge\b/, dimension: CHARGE },
+  { pattern: /\btemperature\b/, dimension: TEMPERATURE },
+];
+
+const QUESTION_PHRASE = /\b(find|calculate|determine|compute|what is|what's|what was|what will|how)\b/gi;
+
+/**
+ * The dimension the question asks for, or null if it can't tell.
+ * An explicit "in m/s" / "in seconds" wins over keywords.
+ */
+export function getAskedDimension(problem: string): Dimension | null {
+  const plain = toPlainMath(problem);
+
+  // "Give your answer in m/s", "express the result in seconds", "(in kJ)"
+  const explicitUnit =
+    /\b(?:answer|express|expressed|give|write|result|units)\b[^.?!]*?\bin (?:units of )?([^\s,.;?!()]+)/i.exec(plain) ??
+    /\(in ([^\s)]+)\)/i.exec(plain);
+  const explicitDimension = explicitUnit && parseUnit(explicitUnit[1]);
+  if (explicitDimension) return explicitDimension;
+
+  const lower = plain.toLowerCase();
+  const phrases = [...lower.matchAll(QUESTION_PHRASE)];
+  if (phrases.length === 0) return null;
+  const asked = lower.slice(phrases[phrases.length - 1].index ?? 0);
+
+  let best: { index: number; dimension: Dimension } | null = null;
+  for (const { pattern, dimension } of ASKED_QUANTITIES) {
+    const match = pattern.exec(asked);
+    if (match && (!best || match.index < best.index)) best = { index: match.index, dimension };
+  }
+  return best?.dimension ?? null;
+}
+
+// ============================================================================
+// SOLUTION CHECK
+// ============================================================================
+
+// Keep the report readable
+const MAX_STEP_WARNINGS = 3;
+
+/**
+ * Unit warnings for a solution: inconsistent step equations, and a final
+ * answer whose dimension doesn't match the question.
+ *
+ * Usage:
+ *   checkSolutionUnits("How long does it take to travel 100 m at 5 m/s?", solution)
+ *   // → ['The answer is in m (length), but the question asks for s (time)']
+ */
+export function checkSolutionUnits(problem: string, solution: HomeworkSolution): string[] {
+  const warnings: string[] = [];
+
+  solution.steps.forEach((step, index) => {
+    const work = step.rawEquation ?? step.equation ?? step.content ?? "";
+    for (const line of work.split("\n")) {
+      for (const warning of checkEquationLine(line)) {
+        warnings.push(`Step ${index + 1}: ${warning}`);
+      }
+    }
+  });
+  warnings.splice(MAX_STEP_WARNINGS);
+
+  const asked = getAskedDimension(problem);
+  if (!asked || sameDimension(asked, DIMENSIONLESS)) return warnings;
+
+  const answerText =
+    typeof solution.finalAnswer === "string" ? solution.finalAnswer : (solution.finalAnswer?.parts ?? []).join("\n");
+  const quantities = extractQuantities(answerText);
+
+  if (quantities.length === 0) {
+    // "Find the distance between (1,2) and (4,6)" is answered with a bare number;
+    // once the problem gives its data in units, the answer must carry them too
+    if (extractQuantities(problem).length > 0) {
+      warnings.push(`The answer has no units, but the question asks for ${describeDimension(asked)}`);
+    }
+    return warnings;
+  }
+
+  if (!quantities.some((quantity) => sameDimension(quantity.dimension, asked))) {
+    const given = quantities[quantities.length - 1];
+    warnings.push(
+      `The answer is in ${describeDimension(given.dimension)}, but the question asks for ${describeDimension(asked)}`
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,113 @@
+/**
+ * Worksheet Batch Solving
+ *
+ * Solves several problems from one worksheet photo in parallel, with a cap
+ * on how many solves run at once so a 20-problem page doesn't fire 20
+ * simultaneous requests (and trip provider rate limits).
+ *
+ * Usage:
+ *   const problems = await engine.enumerateProblems(imageBase64);
+ *   await solveWorksheet(engine, imageBase64, problems, {
+ *     onProblemDone: (result) => ...,
+ *   });
+ */
+
+import type { HomeworkSolution, WorksheetProblemRecord, WorksheetRecord } from "../types/homework";
+import type { SolutionEngine, WorksheetProblem } from "./solutionEngine";
+
+// Default number of problems solved at the same time
+export const DEFAULT_WORKSHEET_CONCURRENCY = 3;
+
+export type WorksheetProblemResult =
+  | { problem: WorksheetProblem; status: "solved"; solution: HomeworkSolution }
+  | { problem: WorksheetProblem; status: "failed"; error: string };
+
+export interface SolveWorksheetOptions {
+  /** Max problems solved at once (default: DEFAULT_WORKSHEET_CONCURRENCY) */
+  concurrency?: number;
+  /** Called when a problem starts solving */
+  onProblemStart?: (problem: WorksheetProblem) => void;
+  /**
+   * Called as each problem finishes, in completion order. An async callback is
+   * awaited (solveWorksheet resolves after the last one), and its errors don't stop the others.
+   */
+  onProblemDone?: (result: WorksheetProblemResult) => void | Promise<void>;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Solve each problem on a worksheet photo by its number.
+ * A failed problem is reported as "failed" and does not stop the others.
+ */
+export async function solveWorksheet(
+  engine: SolutionEngine,
+  imageBase64: string,
+  problems: WorksheetProblem[],
+  options: SolveWorksheetOptions = {}
+): Promise<WorksheetProblemResult[]> {
+  const { concurrency = DEFAULT_WORKSHEET_CONCURRENCY, onProblemStart, onProblemDone } = options;
+
+  return mapWithConcurrency(problems, concurrency, async (problem) => {
+    onProblemStart?.(problem);
+
+    let result: WorksheetProblemResult;
+    try {
+      const solution = await engine.solve({ kind: "image", imageBase64, problemNumber: problem.number });
+      result = { problem, status: "solved", solution };
+    } catch (error) {
+      console.log(`[Worksheet] Problem ${problem.number} failed:`, error);
+      result = { problem, status: "failed", error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      await onProblemDone?.(result);
+    } catch (error) {
+      console.log(`[Worksheet] Problem ${problem.number} callback failed:`, error);
+    }
+    return result;
+  });
+}
+
+/**
+ * Solves don't survive an app restart - a worksheet problem still "pending" or
+ * "solving" when the app closed was interrupted and would otherwise spin forever.
+ * Marked failed instead, so it can be tapped to retry.
+ */
+export function resetInterruptedSolves(worksheets: WorksheetRecord[]): WorksheetRecord[] {
+  const isInterrupted = (problem: WorksheetProblemRecord) =>
+    problem.status === "pending" || problem.status === "solving";
+
+  return worksheets.map((worksheet) =>
+    worksheet.problems.some(isInterrupted)
+      ? {
+          ...worksheet,
+          problems: worksheet.problems.map((problem) =>
+            isInterrupted(problem) ? { ...problem, status: "failed", error: "Interrupted before it finished" } : problem
+          ),
+        }
+      : worksheet
+  );
+}
@@ -9,6 +9,8 @@ import TextInputScreen from "../screens/TextInputScreen";
 import ProblemSelectionScreen from "../screens/ProblemSelectionScreen";
 import SolutionScreen from "../screens/SolutionScreen";
 import QuestionScreen from "../screens/QuestionScreen";
+import HistoryScreen from "../screens/HistoryScreen";
+import WorksheetScreen from "../screens/WorksheetScreen";
 
 export type RootStackParamList = {
   Home: undefined;
@@ -21,10 +23,15 @@ export type RootStackParamList = {
     problem: SelectedProblem;
     problemNumber?: string;
     textQuestion?: string;
+    historyId?: string; // Show a saved solution from History instead of solving
   };
   Question: {
     previousSolution: string;
   };
+  History: undefined;
+  Worksheet:
+    | { image: HomeworkImage } // Find and solve the problems on a new photo
+    | { worksheetId: string }; // Show a saved worksheet from History
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -43,6 +50,8 @@ export default function AppNavigator() {
       <Stack.Screen name="TextInput" component={TextInputScreen} />
       <Stack.Screen name="ProblemSelection" component={ProblemSelectionScreen} />
       <Stack.Screen name="Solution" component={SolutionScreen} />
+      <Stack.Screen name="History" component={HistoryScreen} />
+      <Stack.Screen name="Worksheet" component={WorksheetScreen} />
       <Stack.Screen
         name="Question"
         component={QuestionScreen}
@@ -0,0 +1,294 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, Pressable, TextInput, FlatList, ScrollView, Alert } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RootStackParamList } from "../navigation/AppNavigator";
+import * as Haptics from "expo-haptics";
+import { useHistoryStore } from "../state/historyStore";
+import { searchHistory, toPlainText } from "../utils/historySearch";
+import { HistoryEntry } from "../types/homework";
+import { SubjectType } from "../utils/subjectDetection";
+import { colors } from "../utils/designSystem";
+import { responsiveTypography, responsiveSpacing, responsiveElements } from "../utils/responsive";
+
+type HistoryScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, "History">;
+};
+
+const SUBJECT_LABELS: Record<SubjectType, string> = {
+  math: "Math",
+  chemistry: "Chemistry",
+  physics: "Physics",
+  biology: "Biology",
+  bible: "Bible",
+  languageArts: "Language Arts",
+  geography: "Geography",
+  history: "History",
+  socialStudies: "Social Studies",
+  law: "Law",
+  general: "General",
+};
+
+function formatEntryDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function HistoryScreen({ navigation }: HistoryScreenProps) {
+  const entries = useHistoryStore((s) => s.entries);
+  const removeEntry = useHistoryStore((s) => s.removeEntry);
+  const clearHistory = useHistoryStore((s) => s.clearHistory);
+  const [query, setQuery] = useState("");
+  const [subjectFilter, setSubjectFilter] = useState<SubjectType | "all">("all");
+
+  const iconSize = responsiveElements.iconSize;
+  const borderRadius = responsiveElements.borderRadius;
+
+  // Only offer filters for subjects that actually appear in the history
+  const subjects = useMemo(() => {
+    const present = new Set(entries.map((e) => e.subject));
+    return (Object.keys(SUBJECT_LABELS) as SubjectType[]).filter((subject) => present.has(subject));
+  }, [entries]);
+
+  // A subject whose last entry was deleted has no chip left to clear it, so fall back to all
+  const activeFilter = subjectFilter !== "all" && subjects.includes(subjectFilter) ? subjectFilter : "all";
+
+  const results = useMemo(() => searchHistory(entries, query, activeFilter), [entries, query, activeFilter]);
+
+  const handleOpenEntry = (entry: HistoryEntry) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("Solution", {
+      problem: { imageUri: entry.source.kind === "image" ? entry.source.imageUri : "" },
+      problemNumber: entry.source.kind === "image" ? entry.source.problemNumber : undefined,
+      textQuestion: entry.source.kind === "text" ? entry.source.text : undefined,
+      historyId: entry.id,
+    });
+  };
+
+  // Entries solved from a worksheet link back to the whole page
+  const handleOpenWorksheet = (entry: HistoryEntry) => {
+    if (!entry.worksheetId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("Worksheet", { worksheetId: entry.worksheetId });
+  };
+
+  const handleDeleteEntry = (entry: HistoryEntry) => {
+    Alert.alert("Delete Solution", "Remove this solution from your history?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => removeEntry(entry.id) },
+    ]);
+  };
+
+  const handleClearHistory = () => {
+    Alert.alert("Clear History", "Remove all saved solutions?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: () => {
+          clearHistory();
+          setSubjectFilter("all");
+        },
+      },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => (
+    <Pressable onPress={() => handleOpenEntry(item)} onLongPress={() => handleDeleteEntry(item)}>
+      {({ pressed }) => (
+        <View
+          className="bg-white flex-row items-center"
+          style={{
+            borderRadius: borderRadius,
+            padding: responsiveSpacing.lg,
+            gap: responsiveSpacing.md,
+            opacity: pressed ? 0.7 : 1,
+            shadowColor: "#000",
+            shadowOffset: { width: 0, height: 2 },
+            shadowOpacity: 0.06,
+            shadowRadius: 8,
+            elevation: 2,
+          }}
+        >
+          {item.source.kind === "image" ? (
+            <Image
+              source={{ uri: item.source.imageUri }}
+              style={{ width: 56, height: 56, borderRadius: 12, backgroundColor: colors.surfaceAlt }}
+              contentFit="cover"
+            />
+          ) : (
+            <View
+              className="items-center justify-center"
+              style={{ width: 56, height: 56, borderRadius: 12, backgroundColor: "#eef2ff" }}
+            >
+              <Ionicons name="create" size={iconSize} color={colors.primary} />
+            </View>
+          )}
+
+          <View className="flex-1">
+            <Text
+              numberOfLines={2}
+              style={{ ...responsiveTypography.bodyMedium, color: colors.textPrimary }}
+            >
+              {toPlainText(item.solution.problem)}
+            </Text>
+            <Text style={{ ...responsiveTypography.bodySmall, color: colors.textTertiary, marginTop: 4 }}>
+              {SUBJECT_LABELS[item.subject]}
+              {item.worksheetId && item.source.kind === "image" && (
+                <>
+                  {" · "}
+                  <Text onPress={() => handleOpenWorksheet(item)} style={{ color: colors.primary, fontWeight: "600" }}>
+                    Worksheet #{item.source.problemNumber}
+                  </Text>
+                </>
+              )}
+              {" · "}
+              {formatEntryDate(item.createdAt)}
+            </Text>
+          </View>
+
+          <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+        </View>
+      )}
+    </Pressable>
+  );
+
+  return (
+    <SafeAreaView className="flex-1" style={{ backgroundColor: colors.background }} edges={["top"]}>
+      {/* Header */}
+      <View
+        className="bg-white"
+        style={{
+          paddingHorizontal: responsiveSpacing.xl,
+          paddingVertical: responsiveSpacing.lg,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View className="flex-row items-center justify-between">
+          <Pressable onPress={() => navigation.goBack()}>
+            {({ pressed }) => (
+              <View
+                className="rounded-full bg-gray-100 items-center justify-center"
+                style={{
+                  width: responsiveElements.iconButtonSize,
+                  height: responsiveElements.iconButtonSize,
+                  opacity: pressed ? 0.5 : 1,
+                }}
+              >
+                <Ionicons name="arrow-back" size={iconSize} color={colors.textPrimary} />
+              </View>
+            )}
+          </Pressable>
+          <Text style={{ ...responsiveTypography.displayMedium, color: colors.textPrimary }}>History</Text>
+          <Pressable onPress={handleClearHistory} disabled={entries.length === 0}>
+            {({ pressed }) => (
+              <View
+                className="items-center justify-center"
+                style={{
+                  width: responsiveElements.iconButtonSize,
+                  height: responsiveElements.iconButtonSize,
+                  opacity: entries.length === 0 ? 0.3 : pressed ? 0.5 : 1,
+                }}
+              >
+                <Ionicons name="trash-outline" size={iconSize} color={colors.textSecondary} />
+              </View>
+            )}
+          </Pressable>
+        </View>
+
+        {/* Search */}
+        <View
+          className="flex-row items-center"
+          style={{
+            marginTop: responsiveSpacing.md,
+            backgroundColor: colors.surfaceAlt,
+            borderRadius: borderRadius,
+            paddingHorizontal: responsiveSpacing.md,
+            gap: responsiveSpacing.sm,
+          }}
+        >
+          <Ionicons name="search" size={18} color={colors.textTertiary} />
+          <TextInput
+            className="flex-1"
+            style={{
+              ...responsiveTypography.bodyMedium,
+              color: colors.textPrimary,
+              paddingVertical: responsiveSpacing.md,
+            }}
+            placeholder="Search your solutions..."
+            placeholderTextColor={colors.textTertiary}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+        </View>
+
+        {/* Subject filters */}
+        {subjects.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={{ marginTop: responsiveSpacing.md }}
+            contentContainerStyle={{ gap: responsiveSpacing.sm }}
+          >
+            {(["all", ...subjects] as const).map((subject) => {
+              const isSelected = activeFilter === subject;
+              return (
+                <Pressable key={subject} onPress={() => setSubjectFilter(subject)}>
+                  <View
+                    style={{
+                      paddingHorizontal: responsiveSpacing.lg,
+                      paddingVertical: responsiveSpacing.sm,
+                      borderRadius: 999,
+                      backgroundColor: isSelected ? colors.primary : colors.surfaceAlt,
+                    }}
+                  >
+                    <Text
+                      style={{
+                        ...responsiveTypography.bodySmall,
+                        color: isSelected ? "#ffffff" : colors.textSecondary,
+                        fontWeight: "600",
+                      }}
+                    >
+                      {subject === "all" ? "All" : SUBJECT_LABELS[subject]}
+                    </Text>
+                  </View>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={{ padding: responsiveSpacing.xl, gap: responsiveSpacing.md, flexGrow: 1 }}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View className="flex-1 items-center justify-center" style={{ paddingVertical: responsiveSpacing.xxl }}>
+            <Ionicons name={entries.length === 0 ? "time-outline" : "search"} size={48} color={colors.textTertiary} />
+            <Text
+              className="text-center"
+              style={{ ...responsiveTypography.bodyMedium, color: colors.textSecondary, marginTop: responsiveSpacing.md }}
+            >
+              {entries.length === 0
+                ? "Problems you solve will show up here"
+                : "No saved solutions match your search"}
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
@@ -26,6 +26,10 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     navigation.navigate("Camera");
   };
 
+  const handleOpenHistory = () => {
+    navigation.navigate("History");
+  };
+
   const handleTypeQuestion = () => {
     navigation.navigate("TextInput");
   };
@@ -68,6 +72,29 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           paddingVertical: responsiveSpacing.lg
         }}
       >
+        {/* History */}
+        <View className="absolute" style={{ top: responsiveSpacing.lg, right: responsiveSpacing.xl, zIndex: 1 }}>
+          <Pressable onPress={handleOpenHistory}>
+            {({ pressed }) => (
+              <View
+                className="rounded-full bg-white items-center justify-center"
+                style={{
+                  width: responsiveElements.iconButtonSize,
+                  height: responsiveElements.iconButtonSize,
+                  opacity: pressed ? 0.5 : 1,
+                  shadowColor: "#000",
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.06,
+                  shadowRadius: 6,
+                  elevation: 2,
+                }}
+              >
+                <Ionicons name="time-outline" size={iconSize} color="#4b5563" />
+              </View>
+            )}
+          </Pressable>
+        </View>
+
         {/* Header */}
         <View className="items-center" style={{ marginTop: responsiveSpacing.xxl }}>
           <View
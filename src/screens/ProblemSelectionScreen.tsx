@@ -7,6 +7,8 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp } from "@react-navigation/native";
 import { RootStackParamList } from "../navigation/AppNavigator";
 import { useHomeworkStore } from "../state/homeworkStore";
+import { ProblemArea } from "../types/homework";
+import { CropOverlay } from "../components/CropOverlay";
 import * as Haptics from "expo-haptics";
 import { colors } from "../utils/designSystem";
 import { responsiveTypography, responsiveSpacing, responsiveElements, responsive } from "../utils/responsive";
@@ -17,6 +19,7 @@ type ProblemSelectionScreenProps = {
 };
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
+const PREVIEW_MAX_HEIGHT = 280;
 
 export default function ProblemSelectionScreen({
   navigation,
@@ -25,16 +28,32 @@ export default function ProblemSelectionScreen({
   const { image } = route.params;
   const [isProcessing, setIsProcessing] = useState(false);
   const [problemNumber, setProblemNumber] = useState("");
+  const [problemArea, setProblemArea] = useState<ProblemArea | undefined>(undefined);
+  const [isDraggingCrop, setIsDraggingCrop] = useState(false);
+  const [cropResetKey, setCropResetKey] = useState(0);
   const setSelectedProblem = useHomeworkStore((s) => s.setSelectedProblem);
 
+  // Exact on-screen size of the photo, so the crop box maps 1:1 onto image pixels
+  const aspectRatio = image.width / image.height;
+  const previewWidth = Math.min(SCREEN_WIDTH - 48, PREVIEW_MAX_HEIGHT * aspectRatio);
+  const previewHeight = previewWidth / aspectRatio;
+
+  const handleResetCrop = () => {
+    setProblemArea(undefined);
+    setCropResetKey((key) => key + 1);
+  };
+
   const handleContinue = async () => {
     Keyboard.dismiss();
     setIsProcessing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-    // Set the selected problem with the full image and problem number
+    // Set the selected problem with the full image and the selected region (if any)
     setSelectedProblem({
       imageUri: image.uri,
+      problemArea,
+      imageWidth: image.width,
+      imageHeight: image.height,
     });
 
     // Navigate to solution screen
@@ -42,6 +61,9 @@ export default function ProblemSelectionScreen({
       navigation.navigate("Solution", {
         problem: {
           imageUri: image.uri,
+          problemArea,
+          imageWidth: image.width,
+          imageHeight: image.height,
         },
         problemNumber: problemNumber.trim() || undefined,
       });
@@ -49,6 +71,13 @@ export default function ProblemSelectionScreen({
     }, 300);
   };
 
+  // Solve every problem on the page instead of a single one
+  const handleSolveWorksheet = () => {
+    Keyboard.dismiss();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    navigation.navigate("Worksheet", { image });
+  };
+
   return (
     <SafeAreaView className="flex-1" style={{ backgroundColor: colors.background }} edges={["top"]}>
       {/* Header */}
@@ -79,16 +108,16 @@ export default function ProblemSelectionScreen({
           contentContainerStyle={{ flexGrow: 1 }}
           keyboardShouldPersistTaps="handled"
           showsVerticalScrollIndicator={false}
+          scrollEnabled={!isDraggingCrop}
         >
           <View className="flex-1" style={{ paddingHorizontal: responsiveSpacing.xl, paddingTop: responsiveSpacing.lg, paddingBottom: responsiveSpacing.xl }}>
-            {/* Image Preview - Smaller */}
+            {/* Image Preview with problem-area selection */}
             <View className="items-center">
               <View
                 className="bg-white rounded-3xl overflow-hidden"
                 style={{
-                  width: SCREEN_WIDTH - 48,
-                  aspectRatio: image.width / image.height,
-                  maxHeight: 280, // Reduced from 400
+                  width: previewWidth,
+                  height: previewHeight,
                   shadowColor: "#000",
                   shadowOffset: { width: 0, height: 4 },
                   shadowOpacity: 0.1,
@@ -101,6 +130,30 @@ export default function ProblemSelectionScreen({
                   style={{ width: "100%", height: "100%" }}
                   contentFit="contain"
                 />
+                <CropOverlay
+                  key={cropResetKey}
+                  displayWidth={previewWidth}
+                  displayHeight={previewHeight}
+                  imageWidth={image.width}
+                  imageHeight={image.height}
+                  onChange={setProblemArea}
+                  onDraggingChange={setIsDraggingCrop}
+                />
+              </View>
+
+              <View className="flex-row items-center justify-center" style={{ marginTop: responsiveSpacing.sm, gap: responsiveSpacing.sm }}>
+                <Text style={{ fontSize: responsiveTypography.bodySmall.fontSize, color: colors.textSecondary }}>
+                  {problemArea ? "Only the highlighted area will be solved" : "Drag the corners to box in one problem"}
+                </Text>
+                {problemArea && (
+                  <Pressable onPress={handleResetCrop}>
+                    {({ pressed }) => (
+                      <Text style={{ fontSize: responsiveTypography.bodySmall.fontSize, fontWeight: "600", color: colors.primary, opacity: pressed ? 0.6 : 1 }}>
+                        Reset
+                      </Text>
+                    )}
+                  </Pressable>
+                )}
               </View>
             </View>
 
@@ -182,6 +235,26 @@ export default function ProblemSelectionScreen({
             )}
           </Pressable>
 
+          <Pressable onPress={handleSolveWorksheet} disabled={isProcessing}>
+            {({ pressed }) => (
+              <View
+                className="bg-white border-2 rounded-2xl flex-row items-center justify-center"
+                style={{
+                  borderColor: colors.primary,
+                  paddingVertical: responsiveSpacing.md,
+                  paddingHorizontal: responsiveSpacing.lg,
+                  gap: responsiveSpacing.sm,
+                  opacity: pressed ? 0.7 : 1,
+                }}
+              >
+                <Ionicons name="list" size={responsiveElements.iconSize} color={colors.primary} />
+                <Text style={{ fontSize: responsiveTypography.titleMedium.fontSize, fontWeight: '600', color: colors.primary }}>
+                  Solve Whole Worksheet
+                </Text>
+              </View>
+            )}
+          </Pressable>
+
           <Pressable onPress={() => navigation.goBack()}>
             {({ pressed }) => (
               <View
@@ -6,13 +6,17 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp } from "@react-navigation/native";
 import Animated, { FadeInUp } from "react-native-reanimated";
 import { RootStackParamList } from "../navigation/AppNavigator";
-import { getOpenAITextResponse } from "../api/chat-service";
+import { createRoutedAIService } from "../api/model-router";
 import { detectSubject } from "../utils/subjectDetection";
 import { detectDifficultyLevel, getGradeAppropriateInstructions } from "../utils/difficultyDetection";
 import * as Haptics from "expo-haptics";
 import { MathText } from "../components/MathText";
+import { detectContentKind, formatByKind } from "../utils/contentFormatter";
 import { typography, spacing, colors } from "../utils/designSystem";
 
+// Follow-up chat is routed by the "chat" task so it fails over across providers
+const chatService = createRoutedAIService();
+
 type QuestionScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, "Question">;
   route: RouteProp<RootStackParamList, "Question">;
@@ -24,21 +28,27 @@ interface Message {
   content: string;
 }
 
-// Component to render assistant messages with markdown-like formatting
-function AssistantMessage({ content }: { content: string }) {
-  // Clean up the content - remove markdown and normalize
-  let cleanContent = content
+// Clean up one paragraph of a reply - remove markdown and normalize
+function cleanParagraph(text: string): string {
+  return text
     .replace(/^#+\s+/gm, '')  // Remove markdown headers
     .replace(/\*\*/g, '')      // Remove bold markers
     .replace(/\*/g, '')        // Remove italic markers
     .replace(/^-\s+/gm, '• ')  // Convert markdown bullets to proper bullets
     .replace(/\s+/g, ' ')      // Normalize whitespace to single spaces
     .trim();
+}
 
-  // Split into sentences for natural paragraph breaks (only on double newlines if present)
-  const paragraphs = cleanContent
-    .split(/\n\n+/)
-    .map(p => p.trim())
+// Component to render assistant messages with markdown-like formatting
+function AssistantMessage({ content }: { content: string }) {
+  // Markdown tables become [TABLE: ...] grids, each in its own paragraph -
+  // whitespace normalization would otherwise flatten their rows into one line
+  const blocks = detectContentKind(content) === "table"
+    ? formatByKind(content, "table").split(/\n\s*\n/)
+    : [content];
+
+  const paragraphs = blocks
+    .map(cleanParagraph)
     .filter(p => p.length > 0);
 
   return (
@@ -153,7 +163,7 @@ CRITICAL RULES:
 2. Answer ONLY what the student asked - don't over-explain
 3. Use PLAIN language - explain like you're talking to a friend
 4. Write in CONTINUOUS PARAGRAPHS - don't break sentences across multiple lines
-5. NO markdown formatting (no **, no ###, no bullets, no line breaks mid-sentence)
+5. NO markdown formatting (no **, no ###, no bullets, no line breaks mid-sentence) - EXCEPT tables: when comparing items or listing data, a markdown table (header row, |---| line, one row per line) is shown as a real table
 6. Format notation properly:
    - Fractions: {numerator/denominator} like {3/4}
    - Keep fraction with its variable: write "{-4/3}y" not "{-4/3} y"
@@ -195,7 +205,7 @@ Keep it conversational, clear, and concise! Write naturally in flowing sentences
         },
       ];
 
-      const response = await getOpenAITextResponse(conversationMessages);
+      const response = await chatService.chat(conversationMessages, { task: "chat" });
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
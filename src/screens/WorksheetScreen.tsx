@@ -0,0 +1,397 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { View, Text, Pressable, ScrollView, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import * as FileSystem from "expo-file-system";
+import * as Haptics from "expo-haptics";
+import { RootStackParamList } from "../navigation/AppNavigator";
+import { useHistoryStore } from "../state/historyStore";
+import { WorksheetProblemRecord } from "../types/homework";
+import { solutionEngine } from "../api/solution-engine";
+import type { WorksheetProblem } from "../engine/solutionEngine";
+import { solveWorksheet } from "../engine/worksheet";
+import { colors } from "../utils/designSystem";
+import { responsiveTypography, responsiveSpacing, responsiveElements } from "../utils/responsive";
+
+type WorksheetScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, "Worksheet">;
+  route: RouteProp<RootStackParamList, "Worksheet">;
+};
+
+type StatusIcon = { name: keyof typeof Ionicons.glyphMap; color: string };
+
+const STATUS_ICONS: Record<WorksheetProblemRecord["status"], StatusIcon> = {
+  pending: { name: "ellipse-outline", color: colors.textTertiary },
+  solving: { name: "hourglass-outline", color: colors.primary },
+  solved: { name: "checkmark-circle", color: colors.secondary },
+  failed: { name: "alert-circle", color: "#ef4444" },
+};
+
+export default function WorksheetScreen({ navigation, route }: WorksheetScreenProps) {
+  const image = "image" in route.params ? route.params.image : null;
+  const savedWorksheetId = "worksheetId" in route.params ? route.params.worksheetId : null;
+  const [problems, setProblems] = useState<WorksheetProblem[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isEnumerating, setIsEnumerating] = useState(!savedWorksheetId);
+  const [error, setError] = useState<string | null>(null);
+  const [worksheetId, setWorksheetId] = useState<string | null>(savedWorksheetId);
+  const imageBase64 = useRef<string | null>(null);
+  const hasStarted = useRef(false);
+
+  const addWorksheet = useHistoryStore((s) => s.addWorksheet);
+  const updateWorksheetProblem = useHistoryStore((s) => s.updateWorksheetProblem);
+  const addHistoryEntry = useHistoryStore((s) => s.addEntry);
+  const worksheet = useHistoryStore((s) => s.worksheets.find((w) => w.id === worksheetId));
+
+  const iconSize = responsiveElements.iconSize;
+  const borderRadius = responsiveElements.borderRadius;
+  const isSolving = worksheet?.problems.some((p) => p.status === "pending" || p.status === "solving") ?? false;
+
+  const findProblems = useCallback(async () => {
+    if (!image) return;
+
+    try {
+      setIsEnumerating(true);
+      setError(null);
+
+      imageBase64.current = await FileSystem.readAsStringAsync(image.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const found = await solutionEngine.enumerateProblems(imageBase64.current);
+
+      if (found.length === 0) {
+        setError("No problems were found on this page. Try a clearer photo.");
+        return;
+      }
+
+      setProblems(found);
+      setSelected(new Set(found.map((p) => p.number)));
+    } catch (err) {
+      console.log("Error finding worksheet problems:", err);
+      setError("Failed to read the worksheet. Please try again.");
+    } finally {
+      setIsEnumerating(false);
+    }
+  }, [image]);
+
+  // Runs once on open - the worksheet changes as its problems are solved, which must not read the photo again
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+
+    // Opened from History - show the saved worksheet instead of reading the photo again
+    if (savedWorksheetId) {
+      if (!worksheet) setError("This worksheet is no longer in your history.");
+      return;
+    }
+    findProblems();
+  }, [savedWorksheetId, worksheet, findProblems]);
+
+  const toggleProblem = (number: string) => {
+    Haptics.selectionAsync();
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(number)) {
+        next.delete(number);
+      } else {
+        next.add(number);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === problems.length ? new Set() : new Set(problems.map((p) => p.number)));
+  };
+
+  /**
+   * Solve problems of a saved worksheet, recording each solution in History
+   * as soon as it finishes
+   */
+  const runSolves = async (id: string, worksheetImageUri: string, toSolve: WorksheetProblem[]) => {
+    // A worksheet opened from History hasn't read its photo yet
+    if (!imageBase64.current) {
+      try {
+        imageBase64.current = await FileSystem.readAsStringAsync(worksheetImageUri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+      } catch (err) {
+        console.log("Error reading worksheet photo:", err);
+        toSolve.forEach((problem) =>
+          updateWorksheetProblem(id, problem.number, { status: "failed", error: "The worksheet photo is missing" }),
+        );
+        return;
+      }
+    }
+
+    await solveWorksheet(solutionEngine, imageBase64.current, toSolve, {
+      onProblemStart: (problem) => {
+        updateWorksheetProblem(id, problem.number, { status: "solving", error: undefined });
+      },
+      onProblemDone: async (result) => {
+        if (result.status === "failed") {
+          updateWorksheetProblem(id, result.problem.number, { status: "failed", error: result.error });
+          return;
+        }
+        const entry = await addHistoryEntry(
+          result.solution,
+          { kind: "image", imageUri: worksheetImageUri, problemNumber: result.problem.number },
+          id,
+        );
+        updateWorksheetProblem(id, result.problem.number, { status: "solved", historyId: entry.id });
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      },
+    });
+  };
+
+  const handleSolveSelected = async () => {
+    const toSolve = problems.filter((p) => selected.has(p.number));
+    if (!image || toSolve.length === 0) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const record = await addWorksheet(image.uri, toSolve);
+    setWorksheetId(record.id);
+    await runSolves(record.id, record.imageUri, toSolve);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const handleOpenProblem = (problem: WorksheetProblemRecord) => {
+    if (!worksheet) return;
+
+    if (problem.status === "solved" && problem.historyId) {
+      navigation.navigate("Solution", {
+        problem: { imageUri: worksheet.imageUri },
+        problemNumber: problem.number,
+        historyId: problem.historyId,
+      });
+    } else if (problem.status === "failed") {
+      runSolves(worksheet.id, worksheet.imageUri, [{ number: problem.number, text: problem.text }]);
+    }
+  };
+
+  const renderProblemRow = (
+    key: string,
+    number: string,
+    text: string,
+    trailing: React.ReactNode,
+    onPress: () => void,
+    subtitle?: string,
+  ) => (
+    <Pressable key={key} onPress={onPress}>
+      {({ pressed }) => (
+        <View
+          className="bg-white flex-row items-center"
+          style={{
+            borderRadius: borderRadius,
+            padding: responsiveSpacing.lg,
+            gap: responsiveSpacing.md,
+            opacity: pressed ? 0.7 : 1,
+            shadowColor: "#000",
+            shadowOffset: { width: 0, height: 2 },
+            shadowOpacity: 0.06,
+            shadowRadius: 8,
+            elevation: 2,
+          }}
+        >
+          <View
+            className="items-center justify-center rounded-full"
+            style={{ minWidth: 36, height: 36, paddingHorizontal: 6, backgroundColor: "#eef2ff" }}
+          >
+            <Text style={{ ...responsiveTypography.titleMedium, color: colors.primary }}>{number}</Text>
+          </View>
+          <View className="flex-1">
+            <Text numberOfLines={2} style={{ ...responsiveTypography.bodyMedium, color: colors.textPrimary }}>
+              {text || `Problem ${number}`}
+            </Text>
+            {subtitle && (
+              <Text style={{ ...responsiveTypography.bodySmall, color: colors.textTertiary, marginTop: 2 }}>
+                {subtitle}
+              </Text>
+            )}
+          </View>
+          {trailing}
+        </View>
+      )}
+    </Pressable>
+  );
+
+  const solvedCount = worksheet?.problems.filter((p) => p.status === "solved").length ?? 0;
+
+  return (
+    <SafeAreaView className="flex-1" style={{ backgroundColor: colors.background }} edges={["top"]}>
+      {/* Header */}
+      <View
+        className="bg-white"
+        style={{
+          paddingHorizontal: responsiveSpacing.xl,
+          paddingVertical: responsiveSpacing.lg,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View className="flex-row items-center justify-between">
+          <Pressable onPress={() => navigation.goBack()}>
+            {({ pressed }) => (
+              <View
+                className="rounded-full bg-gray-100 items-center justify-center"
+                style={{
+                  width: responsiveElements.iconButtonSize,
+                  height: responsiveElements.iconButtonSize,
+                  opacity: pressed ? 0.5 : 1,
+                }}
+              >
+                <Ionicons name="arrow-back" size={iconSize} color={colors.textPrimary} />
+              </View>
+            )}
+          </Pressable>
+          <Text style={{ ...responsiveTypography.displayMedium, color: colors.textPrimary }}>Worksheet</Text>
+          <View style={{ width: responsiveElements.iconButtonSize }} />
+        </View>
+      </View>
+
+      {isEnumerating ? (
+        <View className="flex-1 items-center justify-center px-6">
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text className="text-gray-700 text-xl font-semibold mt-6">Finding problems...</Text>
+        </View>
+      ) : error ? (
+        <View className="flex-1 items-center justify-center px-6">
+          <Ionicons name="alert-circle" size={64} color="#ef4444" />
+          <Text className="text-gray-900 text-xl font-semibold mt-6 text-center">{error}</Text>
+          {image && (
+            <Pressable onPress={findProblems} className="mt-8">
+              {({ pressed }) => (
+                <View className="bg-indigo-600 rounded-2xl px-8 py-4" style={{ opacity: pressed ? 0.8 : 1 }}>
+                  <Text className="text-white text-lg font-semibold">Try Again</Text>
+                </View>
+              )}
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        <>
+          <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+            <View style={{ padding: responsiveSpacing.xl, gap: responsiveSpacing.md }}>
+              <View className="flex-row items-center" style={{ gap: responsiveSpacing.md }}>
+                <Image
+                  source={{ uri: worksheet?.imageUri ?? image?.uri }}
+                  style={{ width: 56, height: 56, borderRadius: 12, backgroundColor: colors.surfaceAlt }}
+                  contentFit="cover"
+                />
+                <View className="flex-1">
+                  <Text style={{ ...responsiveTypography.titleLarge, color: colors.textPrimary }}>
+                    {worksheet
+                      ? `${solvedCount} of ${worksheet.problems.length} solved`
+                      : `${problems.length} problems found`}
+                  </Text>
+                  <Text style={{ ...responsiveTypography.bodySmall, color: colors.textSecondary }}>
+                    {worksheet ? "Tap a solved problem to see its steps" : "Choose which problems to solve"}
+                  </Text>
+                </View>
+                {!worksheet && (
+                  <Pressable onPress={toggleAll}>
+                    {({ pressed }) => (
+                      <Text
+                        style={{
+                          ...responsiveTypography.bodySmall,
+                          fontWeight: "600",
+                          color: colors.primary,
+                          opacity: pressed ? 0.6 : 1,
+                        }}
+                      >
+                        {selected.size === problems.length ? "Select None" : "Select All"}
+                      </Text>
+                    )}
+                  </Pressable>
+                )}
+              </View>
+
+              {worksheet
+                ? worksheet.problems.map((problem) => {
+                    const icon = STATUS_ICONS[problem.status];
+                    return renderProblemRow(
+                      problem.number,
+                      problem.number,
+                      problem.text,
+                      problem.status === "solving" ? (
+                        <ActivityIndicator size="small" color={icon.color} />
+                      ) : (
+                        <Ionicons name={icon.name} size={24} color={icon.color} />
+                      ),
+                      () => handleOpenProblem(problem),
+                      problem.status === "failed" ? "Couldn't solve - tap to retry" : undefined,
+                    );
+                  })
+                : problems.map((problem) =>
+                    renderProblemRow(
+                      problem.number,
+                      problem.number,
+                      problem.text,
+                      <Ionicons
+                        name={selected.has(problem.number) ? "checkbox" : "square-outline"}
+                        size={24}
+                        color={selected.has(problem.number) ? colors.primary : colors.textTertiary}
+                      />,
+                      () => toggleProblem(problem.number),
+                    ),
+                  )}
+            </View>
+          </ScrollView>
+
+          {/* Fixed Bottom Action */}
+          {!worksheet && (
+            <View
+              className="bg-white"
+              style={{
+                paddingHorizontal: responsiveSpacing.xl,
+                paddingTop: responsiveSpacing.md,
+                paddingBottom: responsiveSpacing.lg,
+                borderTopWidth: 1,
+                borderTopColor: colors.border,
+              }}
+            >
+              <Pressable onPress={handleSolveSelected} disabled={selected.size === 0}>
+                {({ pressed }) => (
+                  <View
+                    className="rounded-2xl flex-row items-center justify-center"
+                    style={{
+                      backgroundColor: selected.size === 0 ? "#d1d5db" : colors.primary,
+                      paddingVertical: responsiveSpacing.md,
+                      gap: responsiveSpacing.sm,
+                      opacity: pressed ? 0.8 : 1,
+                    }}
+                  >
+                    <Ionicons name="sparkles" size={iconSize} color="white" />
+                    <Text
+                      style={{
+                        fontSize: responsiveTypography.titleMedium.fontSize,
+                        fontWeight: "600",
+                        color: "#ffffff",
+                      }}
+                    >
+                      Solve {selected.size} {selected.size === 1 ? "Problem" : "Problems"}
+                    </Text>
+                  </View>
+                )}
+              </Pressable>
+            </View>
+          )}
+          {worksheet && isSolving && (
+            <View
+              className="flex-row items-center justify-center"
+              style={{ paddingVertical: responsiveSpacing.lg, gap: responsiveSpacing.sm }}
+            >
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={{ ...responsiveTypography.bodyMedium, color: colors.textSecondary }}>
+                Solving in parallel...
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
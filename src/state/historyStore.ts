@@ -0,0 +1,153 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import {
+  HistoryEntry,
+  HistorySource,
+  HomeworkSolution,
+  WorksheetProblemRecord,
+  WorksheetRecord,
+} from "../types/homework";
+import { detectSubject } from "../utils/subjectDetection";
+import { detectDifficultyLevel } from "../utils/difficultyDetection";
+import { resetInterruptedSolves } from "../engine/worksheet";
+
+// Oldest entries are dropped beyond this (AsyncStorage holds the whole list as one JSON value)
+const MAX_HISTORY_ENTRIES = 200;
+
+// Photos are copied here - camera/picker URIs live in the cache and can be purged
+const HISTORY_IMAGE_DIR = `${FileSystem.documentDirectory}history/`;
+
+interface HistoryState {
+  entries: HistoryEntry[]; // Newest first
+  worksheets: WorksheetRecord[]; // Newest first
+
+  // Actions
+  addEntry: (solution: HomeworkSolution, source: HistorySource, worksheetId?: string) => Promise<HistoryEntry>;
+  removeEntry: (id: string) => void;
+  addWorksheet: (imageUri: string, problems: { number: string; text: string }[]) => Promise<WorksheetRecord>;
+  updateWorksheetProblem: (
+    worksheetId: string,
+    problemNumber: string,
+    update: Partial<Omit<WorksheetProblemRecord, "number">>,
+  ) => void;
+  clearHistory: () => void;
+}
+
+function createHistoryId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Copy a photographed problem into the history folder so it outlives the cache
+ * Falls back to the original URI if the copy fails
+ */
+async function persistHistoryImage(imageUri: string, id: string): Promise<string> {
+  // Already kept (e.g. a worksheet photo shared by several entries)
+  if (imageUri.startsWith(HISTORY_IMAGE_DIR)) return imageUri;
+
+  try {
+    await FileSystem.makeDirectoryAsync(HISTORY_IMAGE_DIR, { intermediates: true });
+    const extension = imageUri.match(/\.(\w+)$/)?.[1] ?? "jpg";
+    const destination = `${HISTORY_IMAGE_DIR}${id}.${extension}`;
+    await FileSystem.copyAsync({ from: imageUri, to: destination });
+    return destination;
+  } catch (error) {
+    console.log("[History] Failed to copy problem image:", error);
+    return imageUri;
+  }
+}
+
+function deleteHistoryImage(imageUri: string): void {
+  if (imageUri.startsWith(HISTORY_IMAGE_DIR)) {
+    FileSystem.deleteAsync(imageUri, { idempotent: true }).catch((error) => {
+      console.log("[History] Failed to delete problem image:", error);
+    });
+  }
+}
+
+function deleteEntryImage(entry: HistoryEntry): void {
+  // Worksheet photos are shared by all of the worksheet's entries - deleted with the worksheet
+  if (entry.source.kind === "image" && !entry.worksheetId) {
+    deleteHistoryImage(entry.source.imageUri);
+  }
+}
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      worksheets: [],
+
+      addEntry: async (solution, source, worksheetId) => {
+        const id = createHistoryId();
+        const problemText = source.kind === "text" ? source.text : solution.problem;
+        const { subject } = detectSubject(problemText);
+
+        const storedSource: HistorySource =
+          source.kind === "image" ? { ...source, imageUri: await persistHistoryImage(source.imageUri, id) } : source;
+
+        const entry: HistoryEntry = {
+          id,
+          solution,
+          source: storedSource,
+          subject,
+          gradeLevel: detectDifficultyLevel(problemText, subject).gradeLevel,
+          createdAt: Date.now(),
+          ...(worksheetId && { worksheetId }),
+        };
+
+        const entries = [entry, ...get().entries];
+        entries.slice(MAX_HISTORY_ENTRIES).forEach(deleteEntryImage);
+        set({ entries: entries.slice(0, MAX_HISTORY_ENTRIES) });
+        return entry;
+      },
+      removeEntry: (id) => {
+        const entry = get().entries.find((e) => e.id === id);
+        if (entry) deleteEntryImage(entry);
+        set({ entries: get().entries.filter((e) => e.id !== id) });
+      },
+      addWorksheet: async (imageUri, problems) => {
+        const id = createHistoryId();
+        const worksheet: WorksheetRecord = {
+          id,
+          imageUri: await persistHistoryImage(imageUri, id),
+          problems: problems.map((problem) => ({ ...problem, status: "pending" })),
+          createdAt: Date.now(),
+        };
+
+        const worksheets = [worksheet, ...get().worksheets];
+        worksheets.slice(MAX_HISTORY_ENTRIES).forEach((w) => deleteHistoryImage(w.imageUri));
+        set({ worksheets: worksheets.slice(0, MAX_HISTORY_ENTRIES) });
+        return worksheet;
+      },
+      updateWorksheetProblem: (worksheetId, problemNumber, update) => {
+        set({
+          worksheets: get().worksheets.map((worksheet) =>
+            worksheet.id !== worksheetId
+              ? worksheet
+              : {
+                  ...worksheet,
+                  problems: worksheet.problems.map((problem) =>
+                    problem.number === problemNumber ? { ...problem, ...update } : problem,
+                  ),
+                },
+          ),
+        });
+      },
+      clearHistory: () => {
+        get().entries.forEach(deleteEntryImage);
+        get().worksheets.forEach((worksheet) => deleteHistoryImage(worksheet.imageUri));
+        set({ entries: [], worksheets: [] });
+      },
+    }),
+    {
+      name: "history-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+      onRehydrateStorage: () => (state) => {
+        if (state) useHistoryStore.setState({ worksheets: resetInterruptedSolves(state.worksheets) });
+      },
+    },
+  ),
+);
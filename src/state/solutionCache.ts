@@ -0,0 +1,14 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createStorageSolutionCache } from "../engine/storageCache";
+
+/**
+ * Persistent solution cache for the solution engine (AsyncStorage, oldest solutions evicted first)
+ */
+export const solutionCache = createStorageSolutionCache(AsyncStorage);
+
+/**
+ * Remove every cached solution
+ */
+export function clearSolutionCache(): Promise<void> {
+  return solutionCache.clear();
+}
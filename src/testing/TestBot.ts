@@ -1,20 +1,38 @@
 /**
  * TestBot - Automated Testing and Evaluation System
  *
- * Generates problems across subjects, runs them through the app,
- * evaluates output quality, and provides improvement recommendations.
+ * Runs problems through the app's real solution engine, has a grader model
+ * score each solution for accuracy, clarity, formatting and pedagogy, and
+ * collects improvement recommendations.
  *
- * Usage: Simply run "TestBot" to execute automated testing
+ * Node-compatible: no React Native or Expo imports, so the CLI
+ * (runTestBot.ts) runs under bun or node. The solver and grader are
+ * injected AIServices - pick a provider with createProviderAIService().
+ *
+ * Usage:
+ *   const problems = selectProblems(TEST_PROBLEMS, { subject: "physics", seed: 42 });
+ *   const results = await runTestBot(problems, { solver: createProviderAIService("anthropic") });
  */
 
-import { getOpenAIClient } from "../api/openai";
-import * as FileSystem from "expo-file-system";
+import type { AIService } from "../types/ai";
+import type { HomeworkSolution } from "../types/homework";
+import type { GradeLevel } from "../utils/difficultyDetection";
+import { formatLintViolation, lintSolution, type LintViolation } from "../utils/solutionLint";
+import { createRoutedAIService, DEFAULT_MODEL_ROUTING, type AIProvider } from "../api/model-router";
+import { createSolutionEngine } from "../engine/solutionEngine";
+import { mapWithConcurrency } from "../engine/worksheet";
+import { createRandom, pick } from "./random";
+
+// ============================================================================
+// TYPES
+// ============================================================================
 
 // Test problem structure
-interface TestProblem {
+export interface TestProblem {
   id: string;
   subject: string;
-  difficulty: string;
+  gradeLevel: GradeLevel;
+  difficulty: string; // Label shown to the grader, e.g. "Grade 8-9"
   problemText: string;
   expectedConcepts: string[];
   evaluationCriteria: {
@@ -25,37 +43,67 @@ interface TestProblem {
   };
 }
 
+export type GradeCategory = "accuracy" | "clarity" | "formatting" | "pedagogy";
+
 // Recommendation structure
-interface Recommendation {
+export interface Recommendation {
   priority: "HIGH" | "MEDIUM" | "LOW";
-  category: "accuracy" | "clarity" | "formatting" | "pedagogy";
+  category: GradeCategory;
   issue: string;
   recommendation: string;
   files: string[];
 }
 
-// Evaluation result structure
-interface EvaluationResult {
+export interface CategoryGrade {
+  score: number;
+  feedback: string;
+  issues: string[];
+}
+
+/**
+ * Outcome for one problem
+ * - graded: solved and scored by the grader
+ * - error: solving or grading failed (error says why) - counted, never skipped
+ */
+export interface EvaluationResult {
   problemId: string;
   subject: string;
-  grades: {
-    accuracy: { score: number; feedback: string };
-    clarity: { score: number; feedback: string };
-    formatting: { score: number; feedback: string };
-    pedagogy: { score: number; feedback: string };
-    overall: number;
-  };
+  gradeLevel: GradeLevel;
+  problemText: string;
+  status: "graded" | "error";
+  grades?: Record<GradeCategory, CategoryGrade> & { overall: number };
   critiques: string[];
   recommendations: Recommendation[];
-  solutionOutput: any;
+  lint: LintViolation[]; // Rule-based formatting violations (lintSolution), empty when nothing was solved
+  solutionOutput?: HomeworkSolution;
+  error?: string;
+  durationMs: number;
+}
+
+export interface RunTestBotOptions {
+  /** Service the solution engine solves with (default: the app's routed service) */
+  solver?: AIService;
+  /** Service that scores solutions (default: the app's routed service, "verify" routes) */
+  grader?: AIService;
+  /** Problems solved and graded at once (default: 1) */
+  concurrency?: number;
+  /** Called as each problem finishes, in completion order */
+  onResult?: (result: EvaluationResult) => void;
 }
 
-// Test problem generators for each subject
-const TEST_PROBLEMS: TestProblem[] = [
+export const GRADE_CATEGORIES: GradeCategory[] = ["accuracy", "clarity", "formatting", "pedagogy"];
+
+// ============================================================================
+// TEST PROBLEMS
+// ============================================================================
+
+// Fixed problems - the same questions every run, so scores compare between prompt changes
+export const TEST_PROBLEMS: TestProblem[] = [
   // 1. ALGEBRA
   {
     id: "algebra-001",
     subject: "Algebra",
+    gradeLevel: "middle",
     difficulty: "Grade 8-9",
     problemText: "Solve for x: 5x - 8 = 3x + 12",
     expectedConcepts: ["equation solving", "combining like terms", "inverse operations"],
@@ -91,6 +139,7 @@ const TEST_PROBLEMS: TestProblem[] = [
   {
     id: "physics-001",
     subject: "Physics",
+    gradeLevel: "high",
     difficulty: "High School",
     problemText: "A 2.5 kg object is accelerating at 4 m/s². What net force is acting on it?",
     expectedConcepts: ["Newton's second law", "force calculation", "units"],
@@ -125,6 +174,7 @@ const TEST_PROBLEMS: TestProblem[] = [
   {
     id: "chemistry-001",
     subject: "Chemistry",
+    gradeLevel: "high",
     difficulty: "High School",
     problemText: "Balance the equation: C₃H₈ + O₂ → CO₂ + H₂O",
     expectedConcepts: ["balancing equations", "conservation of mass", "stoichiometry"],
@@ -157,8 +207,11 @@ const TEST_PROBLEMS: TestProblem[] = [
   {
     id: "statistics-001",
     subject: "Statistics",
+    gradeLevel: "college",
     difficulty: "College",
-    problemText: "A sample of 40 students has a mean test score of 78 with a standard deviation of 12. Construct a 95% confidence interval for the population mean.",
+    problemText:
+      "A sample of 40 students has a mean test score of 78 with a standard deviation of 12. " +
+      "Construct a 95% confidence interval for the population mean.",
     expectedConcepts: ["confidence intervals", "t-distribution", "standard error"],
     evaluationCriteria: {
       accuracy: [
@@ -192,6 +245,7 @@ const TEST_PROBLEMS: TestProblem[] = [
   {
     id: "biology-001",
     subject: "Biology",
+    gradeLevel: "high",
     difficulty: "High School",
     problemText: `Which organelle is responsible for cellular respiration?
 A. Nucleus
@@ -226,70 +280,216 @@ D. Ribosome`,
   }
 ];
 
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+export interface ProblemFilter {
+  ids?: string[];
+  /** Case-insensitive subject name, e.g. "physics" */
+  subject?: string;
+  gradeLevel?: GradeLevel;
+  /** Shuffle with this seed before taking `count` */
+  seed?: number;
+  count?: number;
+}
+
+/** Problems matching the filter - in listed order, or shuffled when a seed is given */
+export function selectProblems(problems: TestProblem[], filter: ProblemFilter = {}): TestProblem[] {
+  const subject = filter.subject?.toLowerCase();
+  let selected = problems.filter(
+    (problem) =>
+      (!filter.ids || filter.ids.includes(problem.id)) &&
+      (!subject || problem.subject.toLowerCase() === subject) &&
+      (!filter.gradeLevel || problem.gradeLevel === filter.gradeLevel)
+  );
+
+  if (filter.seed !== undefined) {
+    const random = createRandom(filter.seed);
+    selected = [...selected];
+    for (let i = selected.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [selected[i], selected[j]] = [selected[j], selected[i]];
+    }
+  }
+  return filter.count !== undefined ? selected.slice(0, filter.count) : selected;
+}
+
+// ============================================================================
+// GENERATED QUESTIONS
+// ============================================================================
+
+// Pools for generated (novel) questions
+export const GENERATION_CONFIG = {
+  subjectPool: ["Physics", "Chemistry", "Biology", "Calculus", "Statistics"],
+  questionTypes: [
+    "calculation", // Standard math/science calculation
+    "multiple_choice", // Multiple choice with 4 options
+    "short_answer", // Brief written response
+    "essay", // Longer written response (paragraph)
+    "fill_in_blank", // Complete the sentence/equation
+    "true_false", // True/False with explanation
+    "graphing", // Requires graph interpretation or creation
+    "matching", // Match terms to definitions
+  ],
+  difficultyLevels: {
+    elementary: "Elementary",
+    middle: "Middle School",
+    high: "High School",
+    college: "College",
+  } as Partial<Record<GradeLevel, string>>,
+};
+
+const QUESTION_TYPE_REQUIREMENTS: Record<string, string> = {
+  calculation:
+    "- Include specific numbers and require step-by-step mathematical/scientific work\n" +
+    "- Must have a definitive numerical or calculable answer",
+  multiple_choice:
+    "- Provide 4 answer options (A, B, C, D)\n- Only one option should be correct\n" +
+    "- Include the correct answer in your response",
+  short_answer: "- Should be answerable in 1-3 sentences\n- Requires conceptual understanding, not just recall",
+  essay:
+    "- Requires analysis, synthesis, or argumentation\n- Should prompt 1-2 paragraph response\n" +
+    "- Include specific aspects to address",
+  fill_in_blank:
+    "- Include 1-3 blanks to fill\n- Can be words, equations, or short phrases\n- Context should guide the answer",
+  true_false: "- Present a statement\n- Require explanation of why it is true or false",
+  graphing: "- Require graph interpretation OR creation\n- Include specific data points or functions",
+  matching: "- Provide 4-6 items to match\n- Terms to definitions, events to dates, etc.",
+};
+
 /**
- * Simulate running a problem through the app's solution pipeline
+ * Have the grader write a novel question. Subject, question type and grade
+ * are picked with `random` (seeded for repeatable picks) unless given.
+ * The question text itself still varies between runs.
  */
-async function generateSolution(problem: TestProblem): Promise<any> {
-  const client = getOpenAIClient();
-
-  // Import the actual solution generation logic from SolutionScreen
-  // This ensures we're testing the ACTUAL app behavior
-  const prompt = `You are an expert educator. Provide a clean, easy-to-follow solution.
-
-**DETECTED SUBJECT: ${problem.subject.toUpperCase()}**
-
-**CRITICAL FORMATTING RULES**:
-1. ALL fractions MUST use {numerator/denominator} syntax
-2. Subscripts: Use text_subscript_ format
-3. Superscripts: Use text^superscript^ format
-4. Variables in italics: *variable*
-5. Each step on separate line with line breaks for multi-step calculations
-6. RED highlighting for final answers: [red:answer]
-7. BLUE highlighting for values from previous steps used in current step
-8. For algebra: Show original equation, then each operation with intermediate steps
-9. For multiple choice: Put each option (A, B, C, D) on its own line
-10. NO underscores in list markers (use "A." not "A_.")
-
-Question: ${problem.problemText}
-
-**JSON Response Format**:
+export async function generateTestQuestion(
+  grader: AIService,
+  random: () => number,
+  filter: { subject?: string; gradeLevel?: GradeLevel } = {}
+): Promise<TestProblem> {
+  const levels = Object.entries(GENERATION_CONFIG.difficultyLevels) as [GradeLevel, string][];
+  const subject = filter.subject ?? pick(GENERATION_CONFIG.subjectPool, random);
+  const questionType = pick(GENERATION_CONFIG.questionTypes, random);
+  const [gradeLevel, difficulty] = filter.gradeLevel
+    ? (levels.find(([level]) => level === filter.gradeLevel) ?? [filter.gradeLevel, filter.gradeLevel])
+    : pick(levels, random);
+  const id = `generated-${subject.toLowerCase()}-${Math.floor(random() * 1e9).toString(36)}`;
+
+  const generationPrompt = `You are an expert educator creating homework questions.
+
+**TASK**: Generate a ${difficulty} level ${subject} question in ${questionType} format.
+
+**QUESTION TYPE REQUIREMENTS**:
+${QUESTION_TYPE_REQUIREMENTS[questionType]}
+
+Respond in JSON format:
 {
-  "problem": "Restate the problem clearly",
-  "steps": [
-    {
-      "title": "Clear action title",
-      "equation": "Mathematical work with proper formatting",
-      "summary": "Plain English explanation"
-    }
-  ],
-  "finalAnswer": "Answer with [red:highlighting]"
-}`;
+  "problemText": "The full question text (be creative and realistic)",
+  "correctAnswer": "Expected answer or solution approach (if applicable)",
+  "expectedConcepts": ["concept1", "concept2", "concept3"],
+  "evaluationCriteria": {
+    "accuracy": ["criterion1", "criterion2", "criterion3"],
+    "clarity": ["criterion1", "criterion2"],
+    "formatting": ["criterion1", "criterion2"],
+    "pedagogy": ["criterion1", "criterion2"]
+  }
+}
 
-  const completion = await client.chat.completions.create({
-    model: "gpt-4o",
-    messages: [{ role: "user", content: prompt }],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
+**IMPORTANT**:
+- Make the question realistic and appropriate for the difficulty level
+- Evaluation criteria should be SPECIFIC to this exact question
+- Accuracy criteria should include the correct answer or solution steps
+- For multiple choice, include which option is correct (A/B/C/D) in accuracy criteria
+- Be creative and varied - avoid repetitive question patterns`;
+
+  const response = await grader.chat([{ role: "user", content: generationPrompt }], {
+    task: "verify",
+    responseFormat: "json",
+    temperature: 0.9, // Higher temperature for more variety
   });
+  const generated = JSON.parse(response.content || "{}");
+  if (typeof generated.problemText !== "string" || !generated.problemText.trim()) {
+    throw new Error("Generated question has no problemText");
+  }
+
+  return {
+    id,
+    subject,
+    gradeLevel,
+    difficulty,
+    problemText: generated.problemText,
+    expectedConcepts: generated.expectedConcepts || [],
+    evaluationCriteria: {
+      accuracy: generated.evaluationCriteria?.accuracy || [],
+      clarity: generated.evaluationCriteria?.clarity || [],
+      formatting: generated.evaluationCriteria?.formatting || [],
+      pedagogy: generated.evaluationCriteria?.pedagogy || [],
+    },
+  };
+}
 
-  const responseContent = completion.choices[0]?.message?.content || "{}";
+// ============================================================================
+// SERVICES
+// ============================================================================
 
-  try {
-    return JSON.parse(responseContent);
-  } catch (error) {
-    console.error("Failed to parse solution:", error);
-    return { error: "Failed to generate solution", rawResponse: responseContent };
-  }
+/**
+ * The app's routed AIService, optionally limited to one provider's routes
+ * (no failover to the others, so results are attributable to that provider).
+ */
+export function createProviderAIService(provider?: AIProvider): AIService {
+  if (!provider) return createRoutedAIService();
+  const routing = Object.fromEntries(
+    Object.entries(DEFAULT_MODEL_ROUTING).map(([task, routes]) => [
+      task,
+      routes.filter((route) => route.provider === provider),
+    ])
+  ) as typeof DEFAULT_MODEL_ROUTING;
+  return createRoutedAIService(routing);
+}
+
+// ============================================================================
+// SOLVE & GRADE
+// ============================================================================
+
+/**
+ * Run a problem through the app's solution pipeline.
+ * Uses the shared solution engine so we test the ACTUAL app prompts and formatting.
+ */
+async function generateSolution(solver: AIService, problem: TestProblem) {
+  const engine = createSolutionEngine({ ai: solver });
+  return engine.solve({ kind: "text", text: problem.problemText });
+}
+
+/** Grader reply for one category, with missing fields filled in */
+function readCategory(value: unknown): CategoryGrade {
+  const grade = (value ?? {}) as Partial<CategoryGrade>;
+  return {
+    score: typeof grade.score === "number" ? grade.score : 0,
+    feedback: typeof grade.feedback === "string" ? grade.feedback : "",
+    issues: Array.isArray(grade.issues) ? grade.issues : [],
+  };
 }
 
 /**
- * Evaluate a solution against criteria and provide detailed feedback
+ * Evaluate a solution against criteria and provide detailed feedback.
+ * Linter findings are handed to the grader as facts, so it scores them
+ * instead of re-checking the mechanical rules itself.
  */
-async function evaluateSolution(
+export async function evaluateSolution(
+  grader: AIService,
   problem: TestProblem,
-  solution: any
-): Promise<EvaluationResult> {
-  const client = getOpenAIClient();
+  solution: unknown,
+  lint: LintViolation[] = []
+): Promise<Pick<EvaluationResult, "grades" | "critiques" | "recommendations">> {
+  const criteria = (category: GradeCategory) =>
+    problem.evaluationCriteria[category].map((criterion) => `- ${criterion}`).join("\n");
+  const lintSection =
+    lint.length > 0
+      ? `\n**FORMATTING LINTER** (rule-based, already confirmed - count each one against FORMATTING):\n${lint
+          .map((violation) => `- ${formatLintViolation(violation)}`)
+          .join("\n")}\n`
+      : "";
 
   const evaluationPrompt = `You are an expert educational content evaluator. Evaluate this homework solution across multiple dimensions.
 
@@ -299,26 +499,27 @@ async function evaluateSolution(
 
 **GENERATED SOLUTION**:
 ${JSON.stringify(solution, null, 2)}
-
+${lintSection}
 **EVALUATION CRITERIA**:
 
 **ACCURACY** (Score 0-100):
-${problem.evaluationCriteria.accuracy.map(c => `- ${c}`).join('\n')}
+${criteria("accuracy")}
 
 **CLARITY** (Score 0-100):
-${problem.evaluationCriteria.clarity.map(c => `- ${c}`).join('\n')}
+${criteria("clarity")}
 
 **FORMATTING** (Score 0-100):
-${problem.evaluationCriteria.formatting.map(c => `- ${c}`).join('\n')}
+${criteria("formatting")}
 
 **PEDAGOGY** (Score 0-100):
-${problem.evaluationCriteria.pedagogy.map(c => `- ${c}`).join('\n')}
+${criteria("pedagogy")}
 
-Provide a comprehensive evaluation with:
-1. Numeric scores (0-100) for each category
-2. Specific feedback for what was done well
-3. Specific critiques for what needs improvement
-4. Actionable recommendations for code changes
+**IMPORTANT**: When providing file recommendations, use these actual file paths:
+- Solution prompts: "src/engine/prompts.ts"
+- Solution pipeline: "src/engine/solutionEngine.ts"
+- Content formatting: "src/utils/contentFormatter.ts"
+- Math text rendering: "src/components/MathText.tsx"
+- Subject detection: "src/utils/subjectDetection.ts"
 
 Respond in JSON format:
 {
@@ -334,197 +535,93 @@ Respond in JSON format:
       "category": "accuracy|clarity|formatting|pedagogy",
       "issue": "description of issue",
       "recommendation": "specific code or prompt change needed",
-      "files": ["file1.ts", "file2.ts"]
+      "files": ["src/engine/prompts.ts"]
     }
   ]
 }`;
 
-  const completion = await client.chat.completions.create({
-    model: "gpt-4o",
-    messages: [{ role: "user", content: evaluationPrompt }],
-    response_format: { type: "json_object" },
+  const response = await grader.chat([{ role: "user", content: evaluationPrompt }], {
+    task: "verify",
+    responseFormat: "json",
     temperature: 0.3, // Lower temperature for more consistent evaluation
   });
-
-  const evaluationContent = completion.choices[0]?.message?.content || "{}";
-  const evaluation = JSON.parse(evaluationContent);
+  const evaluation = JSON.parse(response.content || "{}");
 
   return {
-    problemId: problem.id,
-    subject: problem.subject,
     grades: {
-      accuracy: evaluation.accuracy,
-      clarity: evaluation.clarity,
-      formatting: evaluation.formatting,
-      pedagogy: evaluation.pedagogy,
-      overall: evaluation.overallScore,
+      accuracy: readCategory(evaluation.accuracy),
+      clarity: readCategory(evaluation.clarity),
+      formatting: readCategory(evaluation.formatting),
+      pedagogy: readCategory(evaluation.pedagogy),
+      overall: typeof evaluation.overallScore === "number" ? evaluation.overallScore : 0,
     },
-    critiques: evaluation.critiques,
-    recommendations: evaluation.recommendations,
-    solutionOutput: solution,
+    critiques: Array.isArray(evaluation.critiques) ? evaluation.critiques : [],
+    recommendations: Array.isArray(evaluation.recommendations) ? evaluation.recommendations : [],
   };
 }
 
-/**
- * Generate a comprehensive test report
- */
-function generateTestReport(results: EvaluationResult[]): string {
-  const totalScore = results.reduce((sum, r) => sum + r.grades.overall, 0) / results.length;
-
-  let report = `
-╔═══════════════════════════════════════════════════════════════╗
-║                         TESTBOT REPORT                        ║
-║                   Automated Quality Evaluation                ║
-╚═══════════════════════════════════════════════════════════════╝
-
-Test Date: ${new Date().toISOString()}
-Problems Tested: ${results.length}
-Overall Score: ${totalScore.toFixed(1)}/100
-
-═══════════════════════════════════════════════════════════════
-
-INDIVIDUAL PROBLEM RESULTS:
-`;
-
-  results.forEach((result, index) => {
-    report += `
-─────────────────────────────────────────────────────────────
-${index + 1}. ${result.subject.toUpperCase()} (${result.problemId})
-─────────────────────────────────────────────────────────────
-
-SCORES:
-  • Accuracy:   ${result.grades.accuracy.score}/100
-  • Clarity:    ${result.grades.clarity.score}/100
-  • Formatting: ${result.grades.formatting.score}/100
-  • Pedagogy:   ${result.grades.pedagogy.score}/100
-  • OVERALL:    ${result.grades.overall}/100
-
-FEEDBACK:
-  Accuracy:   ${result.grades.accuracy.feedback}
-  Clarity:    ${result.grades.clarity.feedback}
-  Formatting: ${result.grades.formatting.feedback}
-  Pedagogy:   ${result.grades.pedagogy.feedback}
-
-CRITIQUES:
-${result.critiques.map(c => `  ⚠ ${c}`).join('\n')}
-
-`;
-  });
-
-  // Aggregate recommendations by priority
-  const allRecommendations = results.flatMap(r => r.recommendations);
-  const highPriority = allRecommendations.filter(r => r.priority === 'HIGH');
-  const mediumPriority = allRecommendations.filter(r => r.priority === 'MEDIUM');
-  const lowPriority = allRecommendations.filter(r => r.priority === 'LOW');
-
-  report += `
-═══════════════════════════════════════════════════════════════
-
-RECOMMENDATIONS FOR IMPROVEMENT:
-
-🔴 HIGH PRIORITY (${highPriority.length}):
-${highPriority.map((r, i) => `
-${i + 1}. [${r.category.toUpperCase()}] ${r.issue}
-   → ${r.recommendation}
-   Files: ${r.files.join(', ')}
-`).join('')}
-
-🟡 MEDIUM PRIORITY (${mediumPriority.length}):
-${mediumPriority.map((r, i) => `
-${i + 1}. [${r.category.toUpperCase()}] ${r.issue}
-   → ${r.recommendation}
-   Files: ${r.files.join(', ')}
-`).join('')}
-
-🟢 LOW PRIORITY (${lowPriority.length}):
-${lowPriority.map((r, i) => `
-${i + 1}. [${r.category.toUpperCase()}] ${r.issue}
-   → ${r.recommendation}
-   Files: ${r.files.join(', ')}
-`).join('')}
-
-═══════════════════════════════════════════════════════════════
-
-SUMMARY:
-Total Issues Found: ${allRecommendations.length}
-Average Score: ${totalScore.toFixed(1)}/100
-Status: ${totalScore >= 90 ? '✅ EXCELLENT' : totalScore >= 75 ? '✓ GOOD' : totalScore >= 60 ? '⚠ NEEDS IMPROVEMENT' : '❌ REQUIRES ATTENTION'}
-
-═══════════════════════════════════════════════════════════════
-`;
-
-  return report;
-}
+/** Solve and grade one problem. Never throws - failures come back as status "error". */
+export async function testProblem(
+  problem: TestProblem,
+  solver: AIService,
+  grader: AIService
+): Promise<EvaluationResult> {
+  const startedAt = Date.now();
+  const base = {
+    problemId: problem.id,
+    subject: problem.subject,
+    gradeLevel: problem.gradeLevel,
+    problemText: problem.problemText,
+  };
 
-/**
- * Main TestBot execution function
- */
-export async function runTestBot(problemCount: number = 5): Promise<{
-  report: string;
-  results: EvaluationResult[];
-}> {
-  console.log("🤖 TestBot starting automated evaluation...");
-  console.log(`Testing ${problemCount} problems across ${problemCount} subjects...`);
-
-  const results: EvaluationResult[] = [];
-  const problemsToTest = TEST_PROBLEMS.slice(0, problemCount);
-
-  for (const problem of problemsToTest) {
-    console.log(`\n📝 Testing ${problem.subject}: ${problem.id}`);
-    console.log(`   Problem: ${problem.problemText.substring(0, 60)}...`);
-
-    try {
-      // Generate solution
-      console.log("   ⚙️  Generating solution...");
-      const solution = await generateSolution(problem);
-
-      if (solution.error) {
-        console.log("   ❌ Solution generation failed");
-        continue;
-      }
-
-      // Evaluate solution
-      console.log("   📊 Evaluating solution...");
-      const evaluation = await evaluateSolution(problem, solution);
-      results.push(evaluation);
-
-      console.log(`   ✅ Completed - Score: ${evaluation.grades.overall}/100`);
-    } catch (error) {
-      console.error(`   ❌ Error testing ${problem.id}:`, error);
-    }
+  let solution: HomeworkSolution | undefined;
+  let lint: LintViolation[] = [];
+  try {
+    solution = await generateSolution(solver, problem);
+    lint = lintSolution(solution);
+    const evaluation = await evaluateSolution(grader, problem, solution, lint);
+    return {
+      ...base,
+      status: "graded",
+      ...evaluation,
+      lint,
+      solutionOutput: solution,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: "error",
+      critiques: [],
+      recommendations: [],
+      lint,
+      solutionOutput: solution,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
   }
-
-  // Generate comprehensive report
-  const report = generateTestReport(results);
-
-  // Save report to file
-  const reportPath = `${FileSystem.documentDirectory}testbot_report_${Date.now()}.txt`;
-  await FileSystem.writeAsStringAsync(reportPath, report);
-  console.log(`\n📄 Report saved to: ${reportPath}`);
-
-  return { report, results };
 }
 
 /**
- * Export individual test problems for manual testing
- */
-export { TEST_PROBLEMS };
-
-/**
- * Quick test function for single problem
+ * Main TestBot execution function. Results keep the order of `problems`.
  */
-export async function testSingleProblem(problemId: string): Promise<EvaluationResult | null> {
-  const problem = TEST_PROBLEMS.find(p => p.id === problemId);
-  if (!problem) {
-    console.error(`Problem ${problemId} not found`);
-    return null;
-  }
-
-  const solution = await generateSolution(problem);
-  if (solution.error) {
-    console.error("Failed to generate solution");
-    return null;
-  }
+export async function runTestBot(
+  problems: TestProblem[],
+  options: RunTestBotOptions = {}
+): Promise<EvaluationResult[]> {
+  const solver = options.solver ?? createRoutedAIService();
+  const grader = options.grader ?? createRoutedAIService();
+
+  return mapWithConcurrency(problems, options.concurrency ?? 1, async (problem) => {
+    const result = await testProblem(problem, solver, grader);
+    options.onResult?.(result);
+    return result;
+  });
+}
 
-  return await evaluateSolution(problem, solution);
+/** Average overall score of the graded results (0 when none were graded) */
+export function averageScore(results: EvaluationResult[]): number {
+  const graded = results.filter((result) => result.grades);
+  if (graded.length === 0) return 0;
+  return graded.reduce((sum, result) => sum + (result.grades?.overall ?? 0), 0) / graded.length;
 }
@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for TestBot
+ *
+ * These tests verify:
+ * - Problem selection by id, subject and grade level; seeded shuffles are reproducible
+ * - Run summaries count errors separately from graded problems below the minimum score
+ * - JUnit XML has a suite per subject, failures/errors per problem, and escapes model text
+ * - The JSON report carries the run options, summary and a pass flag per result
+ * - Lint violations are counted in the summary and listed in the reports
+ *
+ * No network - results are built by hand. Run with: bun src/testing/__tests__/testbot.test.ts
+ */
+
+import { TEST_PROBLEMS, selectProblems, type EvaluationResult } from "../TestBot";
+import { createRandom } from "../random";
+import type { LintViolation } from "../../utils/solutionLint";
+import {
+  JSON_REPORT_VERSION,
+  formatTextReport,
+  summarizeRun,
+  toJSONReport,
+  toJUnitXML,
+  type TestBotRun,
+} from "../testbotReports";
+import { describe, expect, runTests, test } from "../testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function gradedResult(problemId: string, subject: string, overall: number, issue = "Minor issue"): EvaluationResult {
+  const grade = { score: overall, feedback: "ok", issues: [issue] };
+  return {
+    problemId,
+    subject,
+    gradeLevel: "high",
+    problemText: `Problem ${problemId}`,
+    status: "graded",
+    grades: { accuracy: grade, clarity: grade, formatting: grade, pedagogy: grade, overall },
+    critiques: [],
+    recommendations: [],
+    lint: [],
+    durationMs: 1500,
+  };
+}
+
+function errorResult(problemId: string, subject: string, error: string): EvaluationResult {
+  return {
+    problemId,
+    subject,
+    gradeLevel: "college",
+    problemText: `Problem ${problemId}`,
+    status: "error",
+    critiques: [],
+    recommendations: [],
+    lint: [],
+    error,
+    durationMs: 250,
+  };
+}
+
+function makeRun(results: EvaluationResult[]): TestBotRun {
+  return {
+    startedAt: "2025-01-01T00:00:00.000Z",
+    durationMs: 4000,
+    seed: 42,
+    provider: "anthropic",
+    generated: false,
+    minScore: 75,
+    results,
+  };
+}
+
+function occurrences(text: string, part: string): number {
+  return text.split(part).length - 1;
+}
+
+// =============================================================================
+// TEST SUITE 1: Problem Selection
+// =============================================================================
+
+describe("Problem Selection", () => {
+  test("filters by subject (case-insensitive) and grade level", () => {
+    const physics = selectProblems(TEST_PROBLEMS, { subject: "PHYSICS" });
+    expect(physics.length > 0).toBe(true);
+    expect(physics.every((problem) => problem.subject === "Physics")).toBe(true);
+
+    const high = selectProblems(TEST_PROBLEMS, { gradeLevel: "high" });
+    expect(high.every((problem) => problem.gradeLevel === "high")).toBe(true);
+    expect(selectProblems(TEST_PROBLEMS, { subject: "physics", gradeLevel: "elementary" }).length).toBe(0);
+  });
+
+  test("selects by id and caps with count", () => {
+    const [first] = TEST_PROBLEMS;
+    expect(selectProblems(TEST_PROBLEMS, { ids: [first.id] }).map((problem) => problem.id)).toEqual([first.id]);
+    expect(selectProblems(TEST_PROBLEMS, { count: 2 }).length).toBe(2);
+  });
+
+  test("without a seed the order is unchanged", () => {
+    expect(selectProblems(TEST_PROBLEMS).map((problem) => problem.id)).toEqual(
+      TEST_PROBLEMS.map((problem) => problem.id)
+    );
+  });
+
+  test("the same seed gives the same shuffle and keeps every problem", () => {
+    const ids = (seed: number) => selectProblems(TEST_PROBLEMS, { seed }).map((problem) => problem.id);
+    expect(ids(7)).toEqual(ids(7));
+    expect([...ids(7)].sort()).toEqual(TEST_PROBLEMS.map((problem) => problem.id).sort());
+  });
+
+  test("createRandom is deterministic and stays in [0, 1)", () => {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    for (let i = 0; i < 50; i++) {
+      const value = a();
+      expect(value).toBe(b());
+      expect(value >= 0 && value < 1).toBe(true);
+    }
+  });
+});
+
+// =============================================================================
+// TEST SUITE 2: Summary
+// =============================================================================
+
+describe("Summary", () => {
+  test("errors are not counted as graded failures", () => {
+    const run = makeRun([
+      gradedResult("a", "Physics", 90),
+      gradedResult("b", "Physics", 60),
+      errorResult("c", "Chemistry", "Solver timed out"),
+    ]);
+    const summary = summarizeRun(run);
+    expect(summary.total).toBe(3);
+    expect(summary.graded).toBe(2);
+    expect(summary.errors).toBe(1);
+    expect(summary.failures).toBe(1);
+    expect(summary.averageScore).toBe(75);
+    expect(summary.categoryAverages.clarity).toBe(75);
+  });
+
+  test("a run with nothing graded averages to zero", () => {
+    const summary = summarizeRun(makeRun([errorResult("c", "Chemistry", "boom")]));
+    expect(summary.averageScore).toBe(0);
+    expect(summary.categoryAverages.accuracy).toBe(0);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 3: Reports
+// =============================================================================
+
+describe("Reports", () => {
+  const run = makeRun([
+    gradedResult("a", "Physics", 90),
+    gradedResult("b", "Physics", 60, 'Used "x" & <y> inconsistently'),
+    errorResult("c", "Chemistry", "Invalid JSON <at> position 3"),
+  ]);
+
+  test("JUnit XML has one suite per subject with failure and error counts", () => {
+    const xml = toJUnitXML(run);
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(xml.includes('<testsuites name="TestBot" tests="3" failures="1" errors="1" time="4.000">')).toBe(true);
+    expect(xml.includes('<testsuite name="Physics" tests="2" failures="1" errors="0" time="3.000"')).toBe(true);
+    expect(xml.includes('<testsuite name="Chemistry" tests="1" failures="0" errors="1" time="0.250"')).toBe(true);
+    expect(occurrences(xml, "<testcase ")).toBe(3);
+    expect(occurrences(xml, "<failure ")).toBe(1);
+    expect(occurrences(xml, "<error ")).toBe(1);
+    expect(xml.includes('<failure message="Overall score 60/100 is below 75" type="score">')).toBe(true);
+  });
+
+  test("JUnit XML records the run options as properties", () => {
+    const xml = toJUnitXML(run);
+    expect(xml.includes('<property name="seed" value="42"/>')).toBe(true);
+    expect(xml.includes('<property name="provider" value="anthropic"/>')).toBe(true);
+    // Options that weren't set are left out
+    expect(xml.includes('name="subject"')).toBe(false);
+  });
+
+  test("model text is escaped in JUnit XML", () => {
+    const xml = toJUnitXML(run);
+    expect(xml.includes("Used &quot;x&quot; &amp; &lt;y&gt; inconsistently")).toBe(true);
+    expect(xml.includes('message="Invalid JSON &lt;at&gt; position 3"')).toBe(true);
+    expect(xml.includes("<y>")).toBe(false);
+  });
+
+  test("lint violations are counted and listed in the reports", () => {
+    const violation: LintViolation = {
+      rule: "slash-fraction",
+      severity: "warning",
+      message: 'Inline fraction "3/4" - write {num/den}',
+      excerpt: "3/4",
+      location: { field: "equation", stepIndex: 1, stepId: "step-2" },
+    };
+    const linted = makeRun([{ ...gradedResult("a", "Physics", 90), lint: [violation, violation] }]);
+    expect(summarizeRun(linted).lintViolations).toBe(2);
+    expect(occurrences(toJUnitXML(linted), "lint: Step 2 equation: [slash-fraction]")).toBe(2);
+    expect(formatTextReport(linted).includes("LINT (2):")).toBe(true);
+  });
+
+  test("the JSON report carries options, summary and a pass flag per result", () => {
+    const report = JSON.parse(toJSONReport(run));
+    expect(report.version).toBe(JSON_REPORT_VERSION);
+    expect(report.seed).toBe(42);
+    expect(report.minScore).toBe(75);
+    expect(report.summary.failures).toBe(1);
+    expect(report.results.map((result: { passed: boolean }) => result.passed)).toEqual([true, false, false]);
+    expect(report.results[2].error).toBe("Invalid JSON <at> position 3");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("TestBot");
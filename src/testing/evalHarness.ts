@@ -0,0 +1,351 @@
+/**
+ * Offline Evaluation Harness
+ *
+ * Record/replay for the solution engine. Recording sends each problem in
+ * the eval set to the live models once and stores every raw response;
+ * replaying feeds those responses back through the real engine
+ * (parseAIResponse → validateParsedSolution → formatSolution, local checks,
+ * verification and correction) with no network and no grading model.
+ *
+ * Assertions are deterministic, and the report is plain text so a change in
+ * the pipeline's output shows up as a diff of the committed report.
+ *
+ * CRITICAL: Responses marked "source": "seed" were written by hand in the
+ * models' response format, not recorded - they test the pipeline, not the
+ * models. The report header counts them until they are re-recorded.
+ *
+ * Pure TypeScript with NO React Native imports - the live AIService is
+ * injected by the runner (runEval.ts).
+ */
+
+import type { AIMessage, AIRequestOptions, AIResponse, AIService, AITask } from "../types/ai";
+import type { ContentKind, HomeworkSolution, VerificationStatus } from "../types/homework";
+import { createSolutionEngine } from "../engine/solutionEngine";
+import { DEFAULT_PROMPT_VERSIONS } from "../engine/promptRegistry";
+import { parseMarkup, markupToPlainText } from "../utils/mathMarkup";
+import { scanForLeakedMarkers } from "../utils/__fixtures__/goldenSnapshots";
+import { formatLintViolation, lintSolution } from "../utils/solutionLint";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A problem in the eval set and what its solution must satisfy */
+export interface EvalProblem {
+  id: string;
+  question: string;
+  expect: {
+    /** Substrings of the final answer, compared as plain text (no color tags) */
+    finalAnswerIncludes?: string[];
+    /** Content kinds that must appear among the step equations */
+    kinds?: ContentKind[];
+    verification?: VerificationStatus;
+    minSteps?: number;
+  };
+}
+
+/** One model call as it was answered */
+export interface RecordedCall {
+  task: AITask;
+  content: string;
+  finishReason?: AIResponse["finishReason"];
+}
+
+export interface Recording {
+  id: string;
+  question: string;
+  /** "seed" recordings were written by hand until the problem is recorded live */
+  source: "recorded" | "seed";
+  recordedAt: string;
+  /** Solve prompt the responses were recorded with, e.g. "solve.text@2" */
+  prompt: string;
+  calls: RecordedCall[];
+}
+
+export interface RecordingFile {
+  recordings: Recording[];
+}
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface EvalResult {
+  problem: EvalProblem;
+  recording?: Recording;
+  solution?: HomeworkSolution;
+  error?: string;
+  checks: EvalCheck[];
+  passed: boolean;
+}
+
+// ============================================================================
+// RECORD / REPLAY SERVICES
+// ============================================================================
+
+/** Wrap a live AIService so every response is appended to `calls` */
+export function createRecordingAIService(ai: AIService, calls: RecordedCall[]): AIService {
+  const record = (options: AIRequestOptions | undefined, response: AIResponse): AIResponse => {
+    calls.push({ task: options?.task ?? "chat", content: response.content, finishReason: response.finishReason });
+    return response;
+  };
+
+  return {
+    chat: async (messages: AIMessage[], options?: AIRequestOptions) =>
+      record(options, await ai.chat(messages, options)),
+    complete: async (prompt: string, options?: AIRequestOptions) =>
+      record(options, await ai.complete(prompt, options)),
+  };
+}
+
+export interface ReplaySession {
+  ai: AIService;
+  /** Recorded calls the pipeline never asked for */
+  unused(): RecordedCall[];
+  /** Calls the pipeline made that have no recorded response */
+  unexpected: AITask[];
+}
+
+/**
+ * An AIService that answers from a recording: each request gets the next
+ * unused response recorded for the same task.
+ *
+ * CRITICAL: A request with no recorded response throws like a network error
+ * would, and is listed in `unexpected` - the engine swallows verification
+ * errors, so without the list a changed call sequence would go unnoticed.
+ */
+export function createReplayAIService(calls: RecordedCall[]): ReplaySession {
+  const remaining = [...calls];
+  const unexpected: AITask[] = [];
+
+  const answer = async (options?: AIRequestOptions): Promise<AIResponse> => {
+    const task = options?.task ?? "chat";
+    const index = remaining.findIndex((call) => call.task === task);
+    if (index === -1) {
+      unexpected.push(task);
+      throw new Error(`No recorded "${task}" response left`);
+    }
+    const [call] = remaining.splice(index, 1);
+    return { content: call.content, finishReason: call.finishReason ?? "stop" };
+  };
+
+  return {
+    ai: {
+      chat: (_messages, options) => answer(options),
+      complete: (_prompt, options) => answer(options),
+    },
+    unused: () => [...remaining],
+    unexpected,
+  };
+}
+
+// ============================================================================
+// RECORD / REPLAY
+// ============================================================================
+
+/** Solve a problem with the live models and keep every raw response */
+export async function recordProblem(problem: EvalProblem, ai: AIService): Promise<Recording> {
+  const calls: RecordedCall[] = [];
+  const engine = createSolutionEngine({ ai: createRecordingAIService(ai, calls) });
+  await engine.solve({ kind: "text", text: problem.question });
+
+  return {
+    id: problem.id,
+    question: problem.question,
+    source: "recorded",
+    recordedAt: new Date().toISOString().slice(0, 10),
+    prompt: `solve.text@${DEFAULT_PROMPT_VERSIONS["solve.text"]}`,
+    calls,
+  };
+}
+
+/** Run a problem through the real engine with its recorded responses and check the result */
+export async function replayProblem(problem: EvalProblem, recording?: Recording): Promise<EvalResult> {
+  if (!recording) {
+    return result(problem, undefined, undefined, "No recording - run the recorder for this problem", []);
+  }
+
+  const session = createReplayAIService(recording.calls);
+  const engine = createSolutionEngine({ ai: session.ai });
+  let solution: HomeworkSolution | undefined;
+  let error: string | undefined;
+  try {
+    solution = await engine.solve({ kind: "text", text: problem.question });
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const unused = session.unused();
+  const checks: EvalCheck[] = [
+    check("recording is for this question", recording.question === problem.question, "question text changed"),
+    check(
+      "every model call was recorded",
+      session.unexpected.length === 0,
+      `no response for: ${session.unexpected.join(", ")}`
+    ),
+    check(
+      "every recorded response was used",
+      unused.length === 0,
+      `unused: ${unused.map((call) => call.task).join(", ")}`
+    ),
+    ...(solution ? checkSolution(problem, solution) : []),
+  ];
+  return result(problem, recording, solution, error, checks);
+}
+
+function result(
+  problem: EvalProblem,
+  recording: Recording | undefined,
+  solution: HomeworkSolution | undefined,
+  error: string | undefined,
+  checks: EvalCheck[]
+): EvalResult {
+  const allChecks = [check("solved", !error, error), ...checks];
+  return { problem, recording, solution, error, checks: allChecks, passed: allChecks.every((entry) => entry.passed) };
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+function check(name: string, passed: boolean, detail?: string): EvalCheck {
+  return passed ? { name, passed } : { name, passed, detail };
+}
+
+/** Markup as the student reads it: "[red:x = 10]" → "x = 10" */
+function plainText(text: string): string {
+  return markupToPlainText(parseMarkup(text));
+}
+
+function finalAnswerText(solution: HomeworkSolution): string {
+  const { finalAnswer } = solution;
+  return typeof finalAnswer === "string" ? finalAnswer : finalAnswer.parts.join("\n");
+}
+
+/** Deterministic checks on a formatted solution - the same on every run */
+export function checkSolution(problem: EvalProblem, solution: HomeworkSolution): EvalCheck[] {
+  const { expect } = problem;
+  const leaks = scanForLeakedMarkers(solution);
+  const markedTitles = solution.steps.filter((step) => /[*{}]|\[(?:red|blue|green):/.test(step.title));
+  // CRITICAL: Broken markup (an unclosed "{" or "[blue:") renders wrong but leaks no marker - lint catches it
+  const lintErrors = lintSolution(solution).filter((violation) => violation.severity === "error");
+  const unbalanced = lintErrors.filter((violation) => violation.rule === "unbalanced-delimiters");
+  const otherLintErrors = lintErrors.filter((violation) => violation.rule !== "unbalanced-delimiters");
+  const checks = [
+    check(
+      "no internal markers leak",
+      leaks.length === 0,
+      leaks.map((leak) => `${leak.marker} at ${leak.path}`).join(", ")
+    ),
+    check(
+      "step titles are plain text",
+      markedTitles.length === 0,
+      markedTitles.map((step) => step.title).join(" | ")
+    ),
+    check("delimiters are balanced", unbalanced.length === 0, unbalanced.map(formatLintViolation).join(", ")),
+    check("no lint errors", otherLintErrors.length === 0, otherLintErrors.map(formatLintViolation).join(", ")),
+  ];
+
+  if (expect.minSteps !== undefined) {
+    checks.push(
+      check(`at least ${expect.minSteps} steps`, solution.steps.length >= expect.minSteps, `${solution.steps.length}`)
+    );
+  }
+  const answer = plainText(finalAnswerText(solution));
+  for (const part of expect.finalAnswerIncludes ?? []) {
+    checks.push(check(`final answer includes "${part}"`, answer.includes(part), answer));
+  }
+  const kinds = solution.steps.map((step) => step.equationKind);
+  for (const kind of expect.kinds ?? []) {
+    checks.push(check(`has a ${kind} step`, kinds.includes(kind), kinds.join(", ")));
+  }
+  if (expect.verification) {
+    const status = solution.verification?.status;
+    checks.push(check(`verification is ${expect.verification}`, status === expect.verification, status));
+  }
+  return checks;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/** Indent every line of a block */
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.trim() ? prefix + line : ""))
+    .join("\n");
+}
+
+/** One problem's section of the report */
+function formatResult(entry: EvalResult): string {
+  const { problem, recording, solution } = entry;
+  const source = recording ? `${recording.source} ${recording.recordedAt}, ${recording.prompt}` : "not recorded";
+  const lines = [`== ${problem.id} [${entry.passed ? "PASS" : "FAIL"}] (${source})`, `Question: ${problem.question}`];
+
+  if (solution) {
+    const verification = solution.verification;
+    if (verification) {
+      lines.push(`Verification: ${verification.status}${verification.checkedLocally ? " (checked locally)" : ""}`);
+    }
+    solution.steps.forEach((step, index) => {
+      lines.push(`${index + 1}. ${step.title} [${step.equationKind ?? "none"}]`);
+      const work = step.code ?? step.equation ?? step.content;
+      if (work) lines.push(indent(work, "   | "));
+      if (step.summary) lines.push(indent(step.summary, "   > "));
+    });
+    lines.push(`Final answer: ${finalAnswerText(solution)}`);
+  }
+
+  for (const entryCheck of entry.checks) {
+    const detail = entryCheck.detail ? ` - ${entryCheck.detail}` : "";
+    lines.push(`${entryCheck.passed ? "  ok  " : "  FAIL"} ${entryCheck.name}${entryCheck.passed ? "" : detail}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The replay report: one section per problem, in eval-set order. Contains
+ * no timings or run dates, so replaying unchanged code gives the same text.
+ */
+export function formatEvalReport(results: EvalResult[]): string {
+  const passed = results.filter((entry) => entry.passed).length;
+  const seeds = results.filter((entry) => entry.recording?.source === "seed").length;
+  const seedNote =
+    `# ${seeds}/${results.length} problems replay hand-written seed responses` +
+    " - re-record with: bun run eval:record";
+  const sections = [
+    "# Replay report - regenerate with: bun run test:eval --update",
+    `# ${passed}/${results.length} problems passed`,
+    ...(seeds > 0 ? [seedNote] : []),
+    ...results.map(formatResult),
+  ];
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Sections of the report that differ between two runs, as removed (-) and
+ * added (+) lines. Empty when the reports match.
+ */
+export function diffEvalReports(before: string, after: string): string[] {
+  const sections = (report: string) =>
+    new Map(report.split(/\n(?===)/).map((section) => [section.split("\n")[0].replace(/ \[.*$/, ""), section]));
+  const old = sections(before);
+  const updated = sections(after);
+  const changes: string[] = [];
+
+  for (const name of new Set([...old.keys(), ...updated.keys()])) {
+    const oldLines = (old.get(name) ?? "").split("\n");
+    const newLines = (updated.get(name) ?? "").split("\n");
+    if (oldLines.join("\n") === newLines.join("\n")) continue;
+    changes.push(
+      name,
+      ...oldLines.filter((line) => !newLines.includes(line)).map((line) => `- ${line}`),
+      ...newLines.filter((line) => !oldLines.includes(line)).map((line) => `+ ${line}`)
+    );
+  }
+  return changes;
+}
@@ -0,0 +1,52 @@
+/**
+ * Eval Problem Set
+ *
+ * The problems the offline harness replays, one per kind of solution the
+ * pipeline has to get right. Each id matches a recording in
+ * src/utils/__fixtures__/recordedResponses.json.
+ *
+ * CRITICAL: Changing a question invalidates its recording - re-record it
+ * with `bun run eval:record <id>` in the same commit.
+ */
+
+import type { EvalProblem } from "./evalHarness";
+
+export const EVAL_PROBLEMS: EvalProblem[] = [
+  {
+    id: "algebra-linear",
+    question: "Solve for x: 5x - 8 = 3x + 12",
+    expect: { finalAnswerIncludes: ["x = 10"], kinds: ["math"], verification: "verified", minSteps: 3 },
+  },
+  {
+    id: "algebra-corrected",
+    question: "Solve for x: 2x + 5 = 13",
+    expect: { finalAnswerIncludes: ["x = 4"], verification: "corrected", minSteps: 2 },
+  },
+  {
+    id: "physics-force",
+    question: "A 2.5 kg cart accelerates at 4 m/s². What net force acts on the cart?",
+    expect: { finalAnswerIncludes: ["10 N"], verification: "verified", minSteps: 2 },
+  },
+  {
+    id: "chemistry-moles",
+    question: "How many moles are in 36 g of water (H2O)? Use the molar mass.",
+    expect: { finalAnswerIncludes: ["2 mol"], verification: "verified", minSteps: 2 },
+  },
+  {
+    id: "genetics-punnett",
+    question: "Cross two heterozygous pea plants (Tt x Tt). What fraction of the offspring will be short?",
+    expect: { finalAnswerIncludes: ["1/4"], verification: "verified", minSteps: 2 },
+  },
+  {
+    id: "history-multiple-choice",
+    question:
+      "Which amendment abolished slavery in the United States? " +
+      "A. First Amendment B. Thirteenth Amendment C. Fifteenth Amendment D. Nineteenth Amendment",
+    expect: { finalAnswerIncludes: ["Thirteenth Amendment"], verification: "verified", minSteps: 2 },
+  },
+  {
+    id: "programming-python",
+    question: "Write a Python function that returns the area of a circle given its radius.",
+    expect: { finalAnswerIncludes: ["circle_area"], kinds: ["code"], verification: "verified", minSteps: 2 },
+  },
+];
@@ -0,0 +1,167 @@
+/**
+ * Markup Generator
+ *
+ * Random-but-valid app markup for property-based tests of the formatting
+ * pipeline: nested {a/b} fractions, [color:...] tags, x_sub_ / x^sup^,
+ * *x* italic variables, arrows, equations, prose with inline math and
+ * bulleted/numbered lists.
+ *
+ * A case is a list of lines, each a list of tokens, so a failing case can
+ * be shrunk by dropping lines and tokens (shrinkMarkup) until the smallest
+ * input that still fails is left.
+ *
+ * Usage:
+ *   const random = createRandom(42);
+ *   const markup = generateMarkup(random);
+ *   renderMarkup(markup) // → "[red:x] = {3/{y/2}}\n- Subtract 4 from both sides"
+ */
+
+import { pick, randomInt } from "./random";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One generated input: lines of tokens, joined with spaces and newlines */
+export interface GeneratedMarkup {
+  lines: string[][];
+}
+
+export interface MarkupGeneratorOptions {
+  maxLines?: number; // default 4
+  maxTokens?: number; // Tokens per line, default 6
+  maxDepth?: number; // Nesting of fractions/colors/scripts, default 2
+}
+
+type Random = () => number;
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+const VARIABLES = ["x", "y", "a", "b", "n", "t", "v", "m"];
+const COLORS = ["red", "blue", "green", "orange", "purple", "yellow"];
+const OPERATORS = ["+", "-", "×", "÷"];
+const WORDS = ["Subtract", "both", "sides", "the", "mass", "is", "then", "divide", "so", "we", "get", "total"];
+const UNITS = ["kg", "m", "N", "s", "mol", "J"];
+const SUBSCRIPTS = ["0", "1", "2", "net", "i", "f"];
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function number(random: Random): string {
+  const whole = randomInt(0, 999, random);
+  const roll = random();
+  if (roll < 0.2) return `${whole}.${randomInt(1, 99, random)}`;
+  if (roll < 0.3) return `-${whole}`;
+  return String(whole);
+}
+
+/** A number or variable, possibly decorated (fraction, script, color) while depth remains */
+function term(random: Random, depth: number): string {
+  const roll = depth > 0 ? random() : random() * 0.5;
+  if (roll < 0.25) return number(random);
+  if (roll < 0.45) return pick(VARIABLES, random);
+  if (roll < 0.5) return `*${pick(VARIABLES, random)}*`;
+  if (roll < 0.65) return `{${term(random, depth - 1)}/${term(random, depth - 1)}}`;
+  if (roll < 0.75) return `${pick(VARIABLES, random)}_${pick(SUBSCRIPTS, random)}_`;
+  if (roll < 0.85) return `${pick(VARIABLES, random)}^${randomInt(2, 9, random)}^`;
+  return `[${pick(COLORS, random)}:${expression(random, depth - 1, 2)}]`;
+}
+
+/** term (op term)* - at most `maxTerms` terms */
+function expression(random: Random, depth: number, maxTerms: number): string {
+  const terms = [term(random, depth)];
+  const count = randomInt(1, maxTerms, random);
+  for (let i = 1; i < count; i++) terms.push(pick(OPERATORS, random), term(random, depth));
+  return terms.join(" ");
+}
+
+function equationLine(random: Random, options: Required<MarkupGeneratorOptions>): string[] {
+  const tokens = [expression(random, options.maxDepth, 2), "=", expression(random, options.maxDepth, 2)];
+  // "→ result" continues the working on the same line
+  if (random() < 0.3) tokens.push("→", expression(random, options.maxDepth, 1));
+  return tokens;
+}
+
+function proseLine(random: Random, options: Required<MarkupGeneratorOptions>): string[] {
+  const tokens: string[] = [];
+  const count = randomInt(2, options.maxTokens, random);
+  for (let i = 0; i < count; i++) {
+    const roll = random();
+    if (roll < 0.6) tokens.push(pick(WORDS, random));
+    else if (roll < 0.8) tokens.push(term(random, options.maxDepth));
+    else tokens.push(`${number(random)} ${pick(UNITS, random)}`);
+  }
+  return tokens;
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/** A random case of 1..maxLines lines: equations, prose, and list items */
+export function generateMarkup(random: Random, options: MarkupGeneratorOptions = {}): GeneratedMarkup {
+  const resolved = { maxLines: 4, maxTokens: 6, maxDepth: 2, ...options };
+  const lines: string[][] = [];
+  const lineCount = randomInt(1, resolved.maxLines, random);
+  const numbered = random() < 0.5;
+
+  for (let i = 0; i < lineCount; i++) {
+    const roll = random();
+    if (roll < 0.45) {
+      lines.push(equationLine(random, resolved));
+    } else if (roll < 0.75) {
+      lines.push(proseLine(random, resolved));
+    } else {
+      const marker = numbered ? `${lines.length + 1}.` : "-";
+      lines.push([marker, ...proseLine(random, resolved)]);
+    }
+  }
+  return { lines };
+}
+
+export function renderMarkup(markup: GeneratedMarkup): string {
+  return markup.lines.map((line) => line.join(" ")).join("\n");
+}
+
+// ============================================================================
+// SHRINKING
+// ============================================================================
+
+/**
+ * Smaller variants of a case: each line dropped, then each token dropped.
+ * List markers are kept so list lines stay lists.
+ */
+function shrinkCandidates(markup: GeneratedMarkup): GeneratedMarkup[] {
+  const candidates: GeneratedMarkup[] = [];
+  if (markup.lines.length > 1) {
+    markup.lines.forEach((_, index) => {
+      candidates.push({ lines: markup.lines.filter((__, other) => other !== index) });
+    });
+  }
+  markup.lines.forEach((line, lineIndex) => {
+    if (line.length <= 1) return;
+    line.forEach((_, tokenIndex) => {
+      const lines = markup.lines.map((other, index) =>
+        index === lineIndex ? other.filter((__, token) => token !== tokenIndex) : other
+      );
+      candidates.push({ lines });
+    });
+  });
+  return candidates;
+}
+
+/**
+ * Greedily shrink a failing case: keep taking the first smaller variant that
+ * still fails until none does. `fails` must be deterministic.
+ */
+export function shrinkMarkup(markup: GeneratedMarkup, fails: (text: string) => boolean): GeneratedMarkup {
+  let current = markup;
+  for (;;) {
+    const smaller = shrinkCandidates(current).find((candidate) => fails(renderMarkup(candidate)));
+    if (!smaller) return current;
+    current = smaller;
+  }
+}
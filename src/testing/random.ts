@@ -0,0 +1,31 @@
+/**
+ * Seeded Randomness
+ *
+ * Deterministic pseudo-random helpers shared by TestBot (problem order,
+ * generated-question picks) and the formatter fuzz tests, so a failing run
+ * can be repeated from its seed.
+ */
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32).
+ * The same seed gives the same sequence.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** Whole number in [min, max] */
+export function randomInt(min: number, max: number, random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
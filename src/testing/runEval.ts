@@ -0,0 +1,131 @@
+/**
+ * Offline Eval Runner
+ *
+ * Replays the recorded model responses through the solution engine and
+ * compares the report with the committed one - no network, no API keys.
+ *
+ * Usage:
+ *   bun run test:eval                       # Replay, fail on a failed check or a changed report
+ *   bun run test:eval --update              # Replay and rewrite the committed report
+ *   bun run eval:record                     # Re-record every problem with the live models (.env keys)
+ *   bun run eval:record algebra-linear      # Re-record some problems
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { EVAL_PROBLEMS } from "./evalProblems";
+import {
+  recordProblem,
+  replayProblem,
+  formatEvalReport,
+  diffEvalReports,
+  type EvalResult,
+  type RecordingFile,
+} from "./evalHarness";
+
+const FIXTURES_DIR = path.join(process.cwd(), "src", "utils", "__fixtures__");
+// Hand-written seed responses until a problem is recorded live (see Recording.source)
+const RECORDINGS_PATH = path.join(FIXTURES_DIR, "evalResponses.json");
+const REPORT_PATH = path.join(FIXTURES_DIR, "evalReport.txt");
+
+function readRecordings(): RecordingFile {
+  if (!fs.existsSync(RECORDINGS_PATH)) return { recordings: [] };
+  return JSON.parse(fs.readFileSync(RECORDINGS_PATH, "utf8")) as RecordingFile;
+}
+
+/** Run with the engine's console logging muted - the report is the output */
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// RECORD
+// ============================================================================
+
+async function record(ids: string[]) {
+  const problems = ids.length > 0 ? EVAL_PROBLEMS.filter((problem) => ids.includes(problem.id)) : EVAL_PROBLEMS;
+  const unknown = ids.filter((id) => !EVAL_PROBLEMS.some((problem) => problem.id === id));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown problem id: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Loaded only when recording so replays never touch the network code
+  const { createRoutedAIService } = await import("../api/model-router");
+  const ai = createRoutedAIService();
+  const file = readRecordings();
+
+  for (const problem of problems) {
+    console.log(`🎙️  Recording ${problem.id}...`);
+    const recording = await quietly(() => recordProblem(problem, ai));
+    file.recordings = [...file.recordings.filter((entry) => entry.id !== problem.id), recording];
+    console.log(`   ${recording.calls.length} responses (${recording.calls.map((call) => call.task).join(", ")})`);
+  }
+
+  // Keep the file in eval-set order so re-recording gives a small diff
+  const order = EVAL_PROBLEMS.map((problem) => problem.id);
+  file.recordings.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+  fs.writeFileSync(RECORDINGS_PATH, JSON.stringify(file, null, 2) + "\n", "utf8");
+  console.log(`\n✅ Wrote ${path.relative(process.cwd(), RECORDINGS_PATH)} - run \`bun run test:eval --update\` next`);
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+async function replay(update: boolean) {
+  const { recordings } = readRecordings();
+  const results: EvalResult[] = [];
+  for (const problem of EVAL_PROBLEMS) {
+    const recording = recordings.find((entry) => entry.id === problem.id);
+    results.push(await quietly(() => replayProblem(problem, recording)));
+  }
+
+  const report = formatEvalReport(results);
+  const failed = results.filter((entry) => !entry.passed);
+  for (const entry of results) {
+    console.log(`${entry.passed ? "✅" : "❌"} ${entry.problem.id}`);
+    for (const check of entry.checks.filter((item) => !item.passed)) {
+      console.log(`   ${check.name}${check.detail ? ` - ${check.detail}` : ""}`);
+    }
+  }
+
+  if (update) {
+    fs.writeFileSync(REPORT_PATH, report, "utf8");
+    console.log(`\n📝 Wrote ${path.relative(process.cwd(), REPORT_PATH)}`);
+    process.exit(failed.length > 0 ? 1 : 0);
+  }
+
+  const committed = fs.existsSync(REPORT_PATH) ? fs.readFileSync(REPORT_PATH, "utf8") : "";
+  const changes = diffEvalReports(committed, report);
+  if (changes.length > 0) {
+    console.log("\n📋 Report differs from the committed one:\n");
+    console.log(changes.join("\n"));
+    console.log("\nIf the change is intended, run `bun run test:eval --update` and commit the report.");
+  }
+
+  console.log(`\n${results.length - failed.length}/${results.length} problems passed`);
+  process.exit(failed.length > 0 || changes.length > 0 ? 1 : 0);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  try {
+    if (args.includes("--record")) {
+      await record(args.filter((arg) => !arg.startsWith("--")));
+    } else {
+      await replay(args.includes("--update"));
+    }
+  } catch (error) {
+    console.error("❌ Eval failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
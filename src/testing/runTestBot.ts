@@ -1,19 +1,161 @@
-#!/usr/bin/env ts-node
 /**
  * TestBot CLI Runner
  *
- * Simple command-line interface to run TestBot automated testing
+ * The one command-line entry point for TestBot. Runs under bun or node
+ * (no Expo APIs); reports are written with fs.
  *
- * Usage:
- *   bun run test:bot              # Run all 5 test problems
- *   bun run test:bot --count 3    # Run 3 test problems
- *   bun run test:bot --single algebra-001  # Test single problem
+ * Usage: bun run testbot [options] - see USAGE below or run with --help.
  */
 
-import { runTestBot, testSingleProblem } from './TestBot';
+import * as fs from "fs";
+import * as path from "path";
+import type { AIProvider } from "../api/model-router";
+import type { GradeLevel } from "../utils/difficultyDetection";
+import {
+  TEST_PROBLEMS,
+  averageScore,
+  createProviderAIService,
+  generateTestQuestion,
+  runTestBot,
+  selectProblems,
+  type EvaluationResult,
+  type TestProblem,
+} from "./TestBot";
+import { formatTextReport, isPassing, summarizeRun, toJSONReport, toJUnitXML, type TestBotRun } from "./testbotReports";
+import { applyCodeFixes } from "./testbotFixes";
+import { createRandom } from "./random";
+
+const PROVIDERS: AIProvider[] = ["openai", "anthropic", "grok"];
+const GRADE_LEVELS: GradeLevel[] = ["elementary", "middle", "high", "college", "advanced"];
+const DEFAULT_MIN_SCORE = 75;
+const DEFAULT_GENERATED_COUNT = 5;
+// Problems re-run after --fix to check the edits didn't make things worse
+const FIX_VALIDATION_COUNT = 3;
+
+const USAGE = `Usage: bun run testbot [options]
+
+  --subject <name>       Only problems of this subject (e.g. physics)
+  --grade <level>        Only problems of this grade level (${GRADE_LEVELS.join(", ")})
+  --single <id>          One problem by id
+  --count <n>            At most n problems (generated: how many to write, default ${DEFAULT_GENERATED_COUNT})
+  --seed <n>             Shuffle problems / pick generated subjects reproducibly
+  --generate             Novel questions written by the grader instead of the fixed problems
+  --provider <name>      Solve with one provider only, no failover (${PROVIDERS.join(", ")})
+  --concurrency <n>      Problems solved and graded at once (default 1)
+  --min-score <n>        Problems scoring below this fail the run (default ${DEFAULT_MIN_SCORE})
+  --report <path>        Write the text report here instead of printing it
+  --json <path>          Write a JSON report
+  --junit <path>         Write a JUnit XML report
+  --fix                  Apply the grader's fixes to the source (rolled back if the score drops)
+
+Examples:
+  bun run testbot --subject physics --grade high
+  bun run testbot --count 3 --seed 42 --json out/testbot.json --junit out/testbot.xml
+  bun run testbot --generate --count 5 --seed 7 --provider anthropic`;
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface CliOptions {
+  ids?: string[];
+  subject?: string;
+  gradeLevel?: GradeLevel;
+  seed?: number;
+  count?: number;
+  provider?: AIProvider;
+  concurrency: number;
+  generate: boolean;
+  minScore: number;
+  jsonPath?: string;
+  junitPath?: string;
+  reportPath?: string;
+  fix: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`❌ Error: ${message}`);
+  console.log(USAGE);
+  process.exit(2);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const value = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    if (index === -1) return undefined;
+    const next = args[index + 1];
+    if (next === undefined || next.startsWith("--")) fail(`${flag} requires a value`);
+    return next;
+  };
+  const integer = (flag: string, min: number): number | undefined => {
+    const raw = value(flag);
+    if (raw === undefined) return undefined;
+    const parsed = Number(raw);
+    if (!Number.isInteger(parsed) || parsed < min) fail(`${flag} must be an integer >= ${min}`);
+    return parsed;
+  };
+
+  const provider = value("--provider");
+  if (provider && !PROVIDERS.includes(provider as AIProvider)) {
+    fail(`--provider must be one of ${PROVIDERS.join(", ")}`);
+  }
+  const grade = value("--grade");
+  if (grade && !GRADE_LEVELS.includes(grade as GradeLevel)) {
+    fail(`--grade must be one of ${GRADE_LEVELS.join(", ")}`);
+  }
+  const single = value("--single");
+
+  return {
+    ids: single ? [single] : undefined,
+    subject: value("--subject"),
+    gradeLevel: grade as GradeLevel | undefined,
+    seed: integer("--seed", 0),
+    count: integer("--count", 1),
+    provider: provider as AIProvider | undefined,
+    concurrency: integer("--concurrency", 1) ?? 1,
+    generate: args.includes("--generate"),
+    minScore: integer("--min-score", 0) ?? DEFAULT_MIN_SCORE,
+    jsonPath: value("--json"),
+    junitPath: value("--junit"),
+    reportPath: value("--report"),
+    fix: args.includes("--fix"),
+  };
+}
+
+/**
+ * Load .env into process.env under node (bun already does this).
+ * Variables that are already set win.
+ */
+function loadEnvFile() {
+  const envPath = path.join(process.cwd(), ".env");
+  if (!fs.existsSync(envPath)) return;
+  for (const line of fs.readFileSync(envPath, "utf8").split("\n")) {
+    const match = line.match(/^([^=:#]+)=(.*)$/);
+    if (match && process.env[match[1].trim()] === undefined) {
+      process.env[match[1].trim()] = match[2].trim();
+    }
+  }
+}
+
+function writeFile(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf8");
+  console.log(`📄 Wrote ${filePath}`);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
 
 async function main() {
   const args = process.argv.slice(2);
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options = parseArgs(args);
+  loadEnvFile();
 
   console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
@@ -22,68 +164,86 @@ async function main() {
 ╚═══════════════════════════════════════════════════════════════╝
 `);
 
-  try {
-    // Check for single problem test
-    if (args.includes('--single')) {
-      const problemId = args[args.indexOf('--single') + 1];
-      if (!problemId) {
-        console.error('❌ Error: --single requires a problem ID');
-        console.log('Example: bun run test:bot --single algebra-001');
-        process.exit(1);
+  const solver = createProviderAIService(options.provider);
+  // The grader keeps the default routing so scores stay comparable across --provider runs
+  const grader = createProviderAIService();
+
+  // Generated questions are always seeded - print the seed so the picks can be repeated
+  const seed = options.seed ?? (options.generate ? Date.now() % 2 ** 31 : undefined);
+  let problems: TestProblem[];
+  if (options.generate) {
+    const random = createRandom(seed ?? 0);
+    const count = options.count ?? DEFAULT_GENERATED_COUNT;
+    console.log(`📝 Generating ${count} test questions (seed ${seed})...\n`);
+    problems = [];
+    for (let i = 0; i < count; i++) {
+      try {
+        const question = await generateTestQuestion(grader, random, options);
+        problems.push(question);
+        console.log(`   ✅ ${question.subject} (${question.difficulty}) - ${question.problemText.substring(0, 60)}...`);
+      } catch (error) {
+        console.error(`   ❌ Failed to generate question ${i + 1}:`, error);
       }
+    }
+  } else {
+    problems = selectProblems(TEST_PROBLEMS, { ...options, seed });
+    if (problems.length === 0) {
+      fail(`No test problems match. Ids: ${TEST_PROBLEMS.map((problem) => problem.id).join(", ")}`);
+    }
+  }
 
-      console.log(`Testing single problem: ${problemId}\n`);
-      const result = await testSingleProblem(problemId);
+  console.log(`\n🤖 Testing ${problems.length} problems (concurrency ${options.concurrency})...\n`);
+  const startedAt = new Date();
+  const onResult = (result: EvaluationResult) => {
+    const score = result.grades?.overall;
+    const icon = isPassing(result, options.minScore) ? "✅" : "⚠️ ";
+    const label = score === undefined ? `❌ ${result.error}` : `${icon} ${score}/100`;
+    console.log(`   ${result.subject} (${result.problemId}): ${label}`);
+  };
 
-      if (!result) {
-        console.error('❌ Test failed');
-        process.exit(1);
-      }
+  const results = await runTestBot(problems, { solver, grader, concurrency: options.concurrency, onResult });
 
-      console.log('\n✅ Test completed successfully');
-      console.log(`Overall Score: ${result.grades.overall}/100`);
-      process.exit(0);
-    }
+  const run: TestBotRun = {
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    seed,
+    provider: options.provider,
+    subject: options.subject,
+    gradeLevel: options.gradeLevel,
+    generated: options.generate,
+    minScore: options.minScore,
+    results,
+  };
 
-    // Check for count parameter
-    let count = 5;
-    if (args.includes('--count')) {
-      const countStr = args[args.indexOf('--count') + 1];
-      count = parseInt(countStr, 10);
-      if (isNaN(count) || count < 1) {
-        console.error('❌ Error: --count must be a positive number');
-        process.exit(1);
-      }
-    }
+  const report = formatTextReport(run);
+  if (options.reportPath) writeFile(options.reportPath, report);
+  else console.log(report);
+  if (options.jsonPath) writeFile(options.jsonPath, toJSONReport(run));
+  if (options.junitPath) writeFile(options.junitPath, toJUnitXML(run));
 
-    // Run full test suite
-    const { report, results } = await runTestBot(count);
-
-    console.log('\n' + report);
-
-    const avgScore = results.reduce((sum, r) => sum + r.grades.overall, 0) / results.length;
-
-    if (avgScore >= 90) {
-      console.log('\n🎉 EXCELLENT! All tests passed with high scores.');
-      process.exit(0);
-    } else if (avgScore >= 75) {
-      console.log('\n✅ GOOD! Tests passed but some improvements recommended.');
-      process.exit(0);
-    } else if (avgScore >= 60) {
-      console.log('\n⚠️  NEEDS IMPROVEMENT! Please review recommendations.');
-      process.exit(1);
-    } else {
-      console.log('\n❌ REQUIRES ATTENTION! Significant issues found.');
-      process.exit(1);
-    }
+  if (options.fix) {
+    const recommendations = results.flatMap((result) => result.recommendations);
+    const order = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+    recommendations.sort((a, b) => order[a.priority] - order[b.priority]);
+    const rescore = async () => {
+      const validation = problems.slice(0, FIX_VALIDATION_COUNT);
+      return averageScore(await runTestBot(validation, { solver, grader, concurrency: options.concurrency }));
+    };
+    const outcome = await applyCodeFixes(grader, recommendations, averageScore(results), rescore);
 
-  } catch (error) {
-    console.error('\n❌ TestBot encountered an error:', error);
-    process.exit(1);
+    console.log(`\n✅ Applied: ${outcome.applied}  ❌ Failed: ${outcome.failed}  🔄 Reverted: ${outcome.reverted}`);
+    console.log(outcome.changes.map((change) => `  ${change}`).join("\n"));
   }
-}
 
-// Run if called directly
-if (require.main === module) {
-  main();
+  const summary = summarizeRun(run);
+  console.log(
+    `\n🏁 ${summary.graded}/${summary.total} graded, average ${summary.averageScore.toFixed(1)}/100, ` +
+      `${summary.failures} below ${options.minScore}, ${summary.errors} errors`
+  );
+  process.exit(summary.failures > 0 || summary.errors > 0 ? 1 : 0);
 }
+
+main().catch((error) => {
+  console.error("❌ TestBot failed:", error);
+  process.exit(1);
+});
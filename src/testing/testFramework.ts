@@ -0,0 +1,119 @@
+/**
+ * Simple Test Framework
+ *
+ * The describe/test/expect runner shared by the `bun run test:*` suites.
+ * Tests run in order when runTests() is called; a test may be async.
+ *
+ * Usage:
+ *   import { describe, expect, runTests, test } from "../../testing/testFramework";
+ *
+ *   describe("Parsing", () => {
+ *     test("reads a fraction", () => {
+ *       expect(parse("{1/2}")).toEqual(...);
+ *     });
+ *   });
+ *
+ *   runTests("Math Markup");
+ */
+
+interface TestCase {
+  name: string;
+  fn: () => void | Promise<void>;
+}
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+interface Suite {
+  name: string;
+  tests: TestCase[];
+}
+
+const suites: Suite[] = [];
+let currentSuite: Suite | null = null;
+
+export function describe(name: string, fn: () => void): void {
+  currentSuite = { name, tests: [] };
+  suites.push(currentSuite);
+  fn();
+  currentSuite = null;
+}
+
+export function test(name: string, fn: () => void | Promise<void>): void {
+  if (!currentSuite) {
+    console.error("test() must be called inside describe()");
+    return;
+  }
+  currentSuite.tests.push({ name, fn });
+}
+
+export function expect<T>(actual: T) {
+  return {
+    toBe(expected: T): void {
+      if (actual !== expected) {
+        throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    },
+    toBeCloseTo(expected: number, tolerance = 0.5): void {
+      if (typeof actual !== "number" || Math.abs(actual - expected) > tolerance) {
+        throw new Error(`Expected ~${expected}, got ${JSON.stringify(actual)}`);
+      }
+    },
+    toEqual(expected: T): void {
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    },
+  };
+}
+
+async function runTest(test: TestCase): Promise<TestResult> {
+  try {
+    await test.fn();
+    return { name: test.name, passed: true };
+  } catch (e) {
+    return { name: test.name, passed: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** Run every registered suite, print the results and exit 1 when a test failed */
+export async function runTests(title: string): Promise<void> {
+  console.log(`\n🧪 Running ${title} Tests\n`);
+  console.log("=".repeat(60));
+
+  let totalPassed = 0;
+  let totalFailed = 0;
+
+  for (const suite of suites) {
+    console.log(`\n📦 ${suite.name}`);
+    console.log("-".repeat(40));
+
+    let passed = 0;
+    let failed = 0;
+    for (const test of suite.tests) {
+      const result = await runTest(test);
+      if (result.passed) {
+        passed++;
+        console.log(`  ✅ ${result.name}`);
+      } else {
+        failed++;
+        console.log(`  ❌ ${result.name}`);
+        console.log(`     Error: ${result.error}`);
+      }
+    }
+
+    console.log(`   Summary: ${passed} passed, ${failed} failed`);
+    totalPassed += passed;
+    totalFailed += failed;
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`\n📊 Total: ${totalPassed} passed, ${totalFailed} failed\n`);
+
+  if (totalFailed > 0) {
+    process.exit(1);
+  }
+}
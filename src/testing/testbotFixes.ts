@@ -0,0 +1,174 @@
+/**
+ * TestBot Auto-Fix
+ *
+ * Turns grader recommendations into search/replace edits of the app's
+ * source files, re-runs a few problems, and rolls every edit back when the
+ * score drops. Opt-in (`--fix`): it rewrites files in the working tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { AIService } from "../types/ai";
+import type { Recommendation } from "./TestBot";
+
+// A drop in score beyond this is treated as a regression, not grader variance
+const ROLLBACK_TOLERANCE = 2;
+
+export interface FixOutcome {
+  applied: number;
+  failed: number;
+  reverted: number;
+  changes: string[];
+}
+
+interface FileBackup {
+  file: string;
+  content: string;
+}
+
+/** Ask the grader for an exact search/replace edit for one recommendation */
+async function requestFix(grader: AIService, recommendation: Recommendation) {
+  // CRITICAL: Fixes should target the ACTUAL app prompts in src/engine/prompts.ts
+  // Most formatting/pedagogy issues require updating the AI prompts in that file
+  const targetFile = recommendation.files?.[0] || "src/engine/prompts.ts";
+  const targetFilePath = path.join(process.cwd(), targetFile);
+  let fileContext = "";
+
+  if (fs.existsSync(targetFilePath)) {
+    const fullContent = fs.readFileSync(targetFilePath, "utf8");
+    // Extract just the relevant AI prompt section (the solve prompts, lines ~20-460)
+    const promptSection = fullContent.split("\n").slice(20, 460).join("\n");
+    const excerpt = promptSection.substring(0, 3000);
+    fileContext = `\n\n**ACTUAL FILE CONTENT (relevant section)**:\n\`\`\`\n${excerpt}\n\`\`\`\n`;
+  }
+
+  const fixPrompt = `You are a code fix expert for the Homework Helper app.
+
+**ISSUE IDENTIFIED**: ${recommendation.issue}
+**RECOMMENDATION**: ${recommendation.recommendation}
+**CATEGORY**: ${recommendation.category}
+**PRIORITY**: ${recommendation.priority}
+**TARGET FILE**: ${targetFile}
+${fileContext}
+**YOUR TASK**: Generate a specific code change to fix this issue in the AI prompts.
+
+The file contains AI prompts that generate solutions. You need to add/modify instructions.
+
+For FORMATTING issues (like "variables not in italics"):
+- Find the "CRITICAL FORMATTING RULES" section
+- Add a new rule or strengthen existing ones
+
+For PEDAGOGY issues (like "doesn't explain what a mole is"):
+- Find subject-specific guidance sections
+- Add explicit requirements
+
+For CLARITY issues:
+- Add step-by-step requirements
+
+Return JSON with EXACT text to find and replace:
+{
+  "file": "${targetFile}",
+  "description": "what this fixes",
+  "searchPattern": "exact multi-line text from file (3-5 lines for uniqueness)",
+  "replacement": "exact replacement including your additions"
+}
+
+**CRITICAL**: searchPattern must be EXACT text that exists in the file above. Copy it precisely.`;
+
+  const response = await grader.chat([{ role: "user", content: fixPrompt }], {
+    task: "verify",
+    responseFormat: "json",
+    temperature: 0.1,
+  });
+  return JSON.parse(response.content || "{}") as {
+    file?: string;
+    description?: string;
+    searchPattern?: string;
+    replacement?: string;
+  };
+}
+
+/**
+ * Apply a fix per recommendation, then call `rescore` (re-run some problems
+ * and return their average) and restore every edited file when the score
+ * dropped by more than ROLLBACK_TOLERANCE points.
+ */
+export async function applyCodeFixes(
+  grader: AIService,
+  recommendations: Recommendation[],
+  baselineScore: number,
+  rescore: () => Promise<number>
+): Promise<FixOutcome> {
+  let applied = 0;
+  let failed = 0;
+  let reverted = 0;
+  const changes: string[] = [];
+  const backups: FileBackup[] = [];
+
+  console.log(`\n🔧 Applying ${recommendations.length} fixes with validation...`);
+  console.log(`📊 Baseline Score: ${baselineScore.toFixed(1)}/100`);
+
+  for (const recommendation of recommendations) {
+    try {
+      const fix = await requestFix(grader, recommendation);
+      if (!fix.file || !fix.searchPattern || !fix.replacement) continue;
+
+      const filePath = path.join(process.cwd(), fix.file);
+      if (!fs.existsSync(filePath)) {
+        failed++;
+        console.log(`  ⚠️  File not found: ${fix.file}`);
+        continue;
+      }
+
+      const originalContent = fs.readFileSync(filePath, "utf8");
+      if (!originalContent.includes(fix.searchPattern)) {
+        failed++;
+        console.log(`  ⚠️  Could not find pattern in ${fix.file}`);
+        continue;
+      }
+
+      // Backup original content BEFORE making changes (first backup wins on repeat edits)
+      if (!backups.some((backup) => backup.file === filePath)) {
+        backups.push({ file: filePath, content: originalContent });
+      }
+      fs.writeFileSync(filePath, originalContent.replace(fix.searchPattern, fix.replacement), "utf8");
+      applied++;
+      changes.push(`✅ ${fix.file}: ${fix.description}`);
+      console.log(`  ✅ Applied: ${fix.description}`);
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Error applying fix:`, error);
+    }
+  }
+
+  if (applied === 0) return { applied, failed, reverted, changes };
+
+  // CRITICAL: Validate that changes actually improved the output
+  console.log(`\n🔍 Validating improvements (re-running tests)...`);
+  const newScore = await rescore();
+  const scoreDelta = newScore - baselineScore;
+  console.log(`📊 Post-Fix Score: ${newScore.toFixed(1)}/100 (${scoreDelta >= 0 ? "+" : ""}${scoreDelta.toFixed(1)})`);
+
+  if (scoreDelta < -ROLLBACK_TOLERANCE) {
+    console.log(`\n⚠️  DEGRADATION DETECTED! Score dropped by ${Math.abs(scoreDelta).toFixed(1)} points.`);
+    console.log(`🔄 Rolling back all changes...`);
+    for (const backup of backups) {
+      try {
+        fs.writeFileSync(backup.file, backup.content, "utf8");
+        reverted++;
+      } catch {
+        console.error(`  ❌ Failed to restore ${backup.file}`);
+      }
+    }
+    const drop = Math.abs(scoreDelta).toFixed(1);
+    changes.push(`⚠️  ROLLBACK: Changes degraded output quality (score dropped ${drop} points)`);
+    return { applied: 0, failed, reverted, changes };
+  }
+
+  changes.push(
+    scoreDelta > 0
+      ? `📈 Quality improvement: +${scoreDelta.toFixed(1)} points`
+      : "➡️  Changes had neutral effect on quality"
+  );
+  return { applied, failed, reverted, changes };
+}
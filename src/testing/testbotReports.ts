@@ -0,0 +1,303 @@
+/**
+ * TestBot Reports
+ *
+ * Renders a TestBot run as a human-readable text report, a JSON report and
+ * a JUnit XML report. JSON and JUnit are for tracking scores between prompt
+ * changes: CI dashboards read JUnit, and JSON reports can be diffed or
+ * loaded into a spreadsheet.
+ *
+ * Pure functions - the CLI (runTestBot.ts) writes the files.
+ */
+
+import type { GradeLevel } from "../utils/difficultyDetection";
+import { formatLintViolation } from "../utils/solutionLint";
+import { averageScore, GRADE_CATEGORIES, type EvaluationResult, type GradeCategory } from "./TestBot";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A finished run and the options it was run with */
+export interface TestBotRun {
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  seed?: number;
+  provider?: string;
+  subject?: string;
+  gradeLevel?: GradeLevel;
+  generated: boolean; // Novel questions instead of the fixed problem set
+  /** Graded results below this overall score count as failures */
+  minScore: number;
+  results: EvaluationResult[];
+}
+
+export interface TestBotSummary {
+  total: number;
+  graded: number;
+  errors: number;
+  /** Graded but below minScore */
+  failures: number;
+  averageScore: number;
+  categoryAverages: Record<GradeCategory, number>;
+  /** Rule-based formatting violations across every solution (lintSolution) */
+  lintViolations: number;
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+/** Whether a result counts as passing at the run's minimum score */
+export function isPassing(result: EvaluationResult, minScore: number): boolean {
+  return result.status === "graded" && (result.grades?.overall ?? 0) >= minScore;
+}
+
+export function summarizeRun(run: TestBotRun): TestBotSummary {
+  const graded = run.results.filter((result) => result.grades);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const categoryAverages = Object.fromEntries(
+    GRADE_CATEGORIES.map((category) => [
+      category,
+      graded.length === 0
+        ? 0
+        : round(graded.reduce((sum, result) => sum + (result.grades?.[category].score ?? 0), 0) / graded.length),
+    ])
+  ) as Record<GradeCategory, number>;
+
+  return {
+    total: run.results.length,
+    graded: graded.length,
+    errors: run.results.length - graded.length,
+    failures: graded.filter((result) => !isPassing(result, run.minScore)).length,
+    averageScore: round(averageScore(run.results)),
+    categoryAverages,
+    lintViolations: run.results.reduce((sum, result) => sum + result.lint.length, 0),
+  };
+}
+
+function scoreStatus(score: number): string {
+  if (score >= 90) return "✅ EXCELLENT";
+  if (score >= 75) return "✓ GOOD";
+  if (score >= 60) return "⚠ NEEDS IMPROVEMENT";
+  return "❌ REQUIRES ATTENTION";
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/**
+ * Generate a comprehensive test report
+ */
+export function formatTextReport(run: TestBotRun): string {
+  const summary = summarizeRun(run);
+  const filters = [
+    run.subject && `subject=${run.subject}`,
+    run.gradeLevel && `grade=${run.gradeLevel}`,
+    run.seed !== undefined && `seed=${run.seed}`,
+    run.provider && `provider=${run.provider}`,
+    run.generated && "generated questions",
+  ].filter(Boolean);
+
+  let report = `
+╔═══════════════════════════════════════════════════════════════╗
+║                         TESTBOT REPORT                        ║
+║                   Automated Quality Evaluation                ║
+╚═══════════════════════════════════════════════════════════════╝
+
+Test Date: ${run.startedAt}
+Options: ${filters.length > 0 ? filters.join(", ") : "defaults"}
+Problems Tested: ${summary.total} (${summary.errors} errors)
+Overall Score: ${summary.averageScore.toFixed(1)}/100
+
+═══════════════════════════════════════════════════════════════
+
+INDIVIDUAL PROBLEM RESULTS:
+`;
+
+  run.results.forEach((result, index) => {
+    report += `
+─────────────────────────────────────────────────────────────
+${index + 1}. ${result.subject.toUpperCase()} (${result.problemId}, ${result.gradeLevel})
+─────────────────────────────────────────────────────────────
+`;
+    if (!result.grades) {
+      report += `
+❌ ERROR: ${result.error}
+`;
+      return;
+    }
+
+    const { grades } = result;
+    report += `
+SCORES:
+  • Accuracy:   ${grades.accuracy.score}/100
+  • Clarity:    ${grades.clarity.score}/100
+  • Formatting: ${grades.formatting.score}/100
+  • Pedagogy:   ${grades.pedagogy.score}/100
+  • OVERALL:    ${grades.overall}/100
+
+FEEDBACK:
+  Accuracy:   ${grades.accuracy.feedback}
+  Clarity:    ${grades.clarity.feedback}
+  Formatting: ${grades.formatting.feedback}
+  Pedagogy:   ${grades.pedagogy.feedback}
+
+CRITIQUES:
+${result.critiques.map((critique) => `  ⚠ ${critique}`).join("\n")}
+`;
+    if (result.lint.length > 0) {
+      report += `
+LINT (${result.lint.length}):
+${result.lint.map((violation) => `  • ${formatLintViolation(violation)}`).join("\n")}
+`;
+    }
+  });
+
+  // Aggregate recommendations by priority
+  const allRecommendations = run.results.flatMap((result) => result.recommendations);
+  const section = (priority: string, label: string) => {
+    const matching = allRecommendations.filter((recommendation) => recommendation.priority === priority);
+    const items = matching.map(
+      (recommendation, i) => `
+${i + 1}. [${recommendation.category.toUpperCase()}] ${recommendation.issue}
+   → ${recommendation.recommendation}
+   Files: ${(recommendation.files ?? []).join(", ")}
+`
+    );
+    return `${label} (${matching.length}):\n${items.join("")}`;
+  };
+
+  report += `
+═══════════════════════════════════════════════════════════════
+
+RECOMMENDATIONS FOR IMPROVEMENT:
+
+${section("HIGH", "🔴 HIGH PRIORITY")}
+${section("MEDIUM", "🟡 MEDIUM PRIORITY")}
+${section("LOW", "🟢 LOW PRIORITY")}
+═══════════════════════════════════════════════════════════════
+
+SUMMARY:
+Total Issues Found: ${allRecommendations.length}
+Lint Violations: ${summary.lintViolations}
+Average Score: ${summary.averageScore.toFixed(1)}/100
+Below ${run.minScore}: ${summary.failures}
+Status: ${scoreStatus(summary.averageScore)}
+
+═══════════════════════════════════════════════════════════════
+`;
+
+  return report;
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+// Bump when the shape of the JSON report changes
+export const JSON_REPORT_VERSION = 1;
+
+/** Machine-readable report: run options, summary and every result with its solution */
+export function toJSONReport(run: TestBotRun): string {
+  const { results, ...options } = run;
+  const report = {
+    version: JSON_REPORT_VERSION,
+    ...options,
+    summary: summarizeRun(run),
+    results: results.map((result) => ({ ...result, passed: isPassing(result, run.minScore) })),
+  };
+  return JSON.stringify(report, null, 2) + "\n";
+}
+
+// ============================================================================
+// JUNIT XML
+// ============================================================================
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function toTestCase(result: EvaluationResult, minScore: number): string {
+  const attributes = `classname="testbot.${escapeXML(result.subject.toLowerCase())}" name="${escapeXML(
+    result.problemId
+  )}" time="${seconds(result.durationMs)}"`;
+
+  if (!result.grades) {
+    const message = escapeXML(result.error ?? "Unknown error");
+    return `    <testcase ${attributes}>\n      <error message="${message}" type="error"/>\n    </testcase>`;
+  }
+
+  const { grades } = result;
+  const scores = GRADE_CATEGORIES.map((category) => `${category}: ${grades[category].score}/100`).join("\n");
+  const lines = [`    <testcase ${attributes}>`];
+  if (!isPassing(result, minScore)) {
+    const message = escapeXML(`Overall score ${grades.overall}/100 is below ${minScore}`);
+    const issues = GRADE_CATEGORIES.flatMap((category) =>
+      grades[category].issues.map((issue) => `[${category}] ${issue}`)
+    );
+    const details = escapeXML([scores, ...issues].join("\n"));
+    lines.push(`      <failure message="${message}" type="score">${details}</failure>`);
+  }
+  const lint = result.lint.map((violation) => `lint: ${formatLintViolation(violation)}`);
+  const output = [`overall: ${grades.overall}/100`, scores, ...lint].join("\n");
+  lines.push(`      <system-out>${escapeXML(output)}</system-out>`);
+  lines.push("    </testcase>");
+  return lines.join("\n");
+}
+
+/**
+ * JUnit XML with one test suite per subject and one test case per problem.
+ * A graded problem below minScore is a failure; a problem that could not be
+ * solved or graded is an error.
+ */
+export function toJUnitXML(run: TestBotRun): string {
+  const summary = summarizeRun(run);
+  const subjects = [...new Set(run.results.map((result) => result.subject))];
+  const properties = [
+    ["seed", run.seed],
+    ["provider", run.provider],
+    ["subject", run.subject],
+    ["grade", run.gradeLevel],
+    ["generated", run.generated],
+    ["minScore", run.minScore],
+    ["averageScore", summary.averageScore],
+    ["lintViolations", summary.lintViolations],
+  ]
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `      <property name="${name}" value="${escapeXML(String(value))}"/>`);
+
+  const suites = subjects.map((subject) => {
+    const results = run.results.filter((result) => result.subject === subject);
+    const errors = results.filter((result) => !result.grades).length;
+    const failures = results.filter((result) => result.grades && !isPassing(result, run.minScore)).length;
+    const time = seconds(results.reduce((sum, result) => sum + result.durationMs, 0));
+    return [
+      `  <testsuite name="${escapeXML(subject)}" tests="${results.length}" failures="${failures}" ` +
+        `errors="${errors}" time="${time}" timestamp="${run.startedAt}">`,
+      "    <properties>",
+      ...properties,
+      "    </properties>",
+      ...results.map((result) => toTestCase(result, run.minScore)),
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="TestBot" tests="${summary.total}" failures="${summary.failures}" ` +
+      `errors="${summary.errors}" time="${seconds(run.durationMs)}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -1,16 +1,26 @@
 export interface AIMessage {
   role: "user" | "assistant" | "system";
   content: string;
+  images?: string[]; // Image URLs or data URLs (data:image/jpeg;base64,...) attached to this message
 }
 
+/**
+ * What a request is for. Routing services use this to pick a provider/model;
+ * single-provider services ignore it.
+ */
+export type AITask = "solve" | "verify" | "simplify" | "chat";
+
 export interface AIRequestOptions {
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  responseFormat?: "text" | "json"; // "json" requests a single JSON object response
+  task?: AITask; // Defaults to "chat" when routed
 }
 
 export interface AIResponse {
   content: string;
+  finishReason?: "stop" | "length" | "other"; // Normalized across providers; "length" means truncated
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -21,4 +31,6 @@ export interface AIResponse {
 export interface AIService {
   chat(messages: AIMessage[], options?: AIRequestOptions): Promise<AIResponse>;
   complete(prompt: string, options?: AIRequestOptions): Promise<AIResponse>;
+  // Optional streaming variant of chat: onDelta receives each text chunk, resolves with the full response
+  stream?(messages: AIMessage[], onDelta: (delta: string) => void, options?: AIRequestOptions): Promise<AIResponse>;
 }
@@ -1,17 +1,27 @@
+import type { SubjectType } from "../utils/subjectDetection";
+import type { GradeLevel } from "../utils/difficultyDetection";
+
 export interface HomeworkImage {
   uri: string;
   width: number;
   height: number;
 }
 
+/**
+ * Region of the photo containing the problem, in image pixels
+ */
+export interface ProblemArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface SelectedProblem {
   imageUri: string;
-  problemArea?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  problemArea?: ProblemArea; // Only this region is sent to the model when set
+  imageWidth?: number; // Photo size the picker reported, which problemArea is measured against
+  imageHeight?: number;
 }
 
 /**
@@ -22,8 +32,9 @@ export interface SelectedProblem {
  * - "prose": Paragraph explanations, analysis, essays
  * - "list": Multiple choice (A-D), numbered lists, bullet points
  * - "code": Code blocks, programming content
+ * - "table": Markdown tables (statistics data, timelines, comparisons)
  */
-export type ContentKind = "math" | "prose" | "list" | "code";
+export type ContentKind = "math" | "prose" | "list" | "code" | "table";
 
 /**
  * Step action types for pedagogical badges.
@@ -59,6 +70,135 @@ export interface BothSidesOperation {
   value: string; // e.g., "11", "3", "{1/2}", "*x*"
 }
 
+/**
+ * Geometry diagram the model writes as JSON in a step ("diagram" field).
+ * Coordinates are in the problem's own units with y pointing up; the
+ * renderer scales them to fit. Everything refers to points by id.
+ */
+export interface DiagramPoint {
+  id: string; // "A" - also the label unless label is set
+  x: number;
+  y: number;
+  label?: string; // "" hides the label
+}
+
+export interface DiagramSegment {
+  from: string;
+  to: string;
+  label?: string; // e.g. "5 cm", "2w + 3"
+  dashed?: boolean; // heights, radii, construction lines
+}
+
+export interface DiagramAngle {
+  at: string; // vertex
+  from: string;
+  to: string;
+  label?: string; // e.g. "37°", "theta"
+  right?: boolean; // draw a square mark instead of an arc
+}
+
+export interface DiagramCircle {
+  center: string;
+  radius?: number; // in the same units as the points
+  through?: string; // or a point on the circle
+  label?: string;
+}
+
+export interface DiagramLabel {
+  text: string;
+  x: number;
+  y: number;
+}
+
+export interface GeometryDiagram {
+  points: DiagramPoint[];
+  segments?: DiagramSegment[];
+  angles?: DiagramAngle[];
+  circles?: DiagramCircle[];
+  labels?: DiagramLabel[];
+}
+
+/**
+ * Physics diagram the model writes as JSON in a step ("physicsDiagram"
+ * field). Positions are in the problem's units with y pointing up; angles
+ * are degrees counterclockwise from +x.
+ */
+export type PhysicsSurfaceType = "ground" | "ceiling" | "wall" | "incline" | "circle";
+
+export interface PhysicsSurface {
+  type: PhysicsSurfaceType;
+  x?: number; // wall position, incline bottom corner, circle center
+  y?: number; // ground/ceiling height, incline bottom corner, circle center
+  angle?: number; // incline angle in degrees
+  length?: number; // incline slope length
+  radius?: number; // circle (loop, track) radius
+  label?: string; // e.g. "30°" for the incline angle
+}
+
+export type PhysicsObjectShape = "box" | "ball" | "point";
+
+export interface PhysicsObject {
+  id: string;
+  shape?: PhysicsObjectShape; // default "box"
+  label?: string; // drawn on the object, e.g. "m" or "2 kg"
+  x?: number;
+  y?: number;
+  incline?: number; // 0..1 along the incline from its bottom corner (instead of x/y)
+  circle?: number; // degrees around the circle, 90 = top (instead of x/y)
+}
+
+export interface PhysicsPulley {
+  id: string;
+  x: number;
+  y: number;
+  radius?: number;
+}
+
+export interface PhysicsRope {
+  from: string; // object or pulley id
+  to: string;
+  over?: string; // pulley the rope wraps over
+}
+
+/**
+ * "normal", "upSlope" and "downSlope" follow the incline or circle the object
+ * is on; "towardCenter", "awayFromCenter" and "tangent" follow the circle;
+ * "alongRope" points along the object's rope.
+ */
+export type PhysicsDirection =
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "normal"
+  | "upSlope"
+  | "downSlope"
+  | "towardCenter"
+  | "awayFromCenter"
+  | "tangent"
+  | "alongRope";
+
+export type PhysicsVectorKind = "force" | "velocity" | "acceleration";
+
+export interface PhysicsVector {
+  on: string; // object id
+  kind?: PhysicsVectorKind; // default "force"
+  label: string; // e.g. "mg", "N", "T_1_"
+  direction?: PhysicsDirection;
+  angle?: number; // degrees counterclockwise from +x (instead of direction)
+  magnitude?: number; // arrows of the same kind are drawn to scale
+  angleLabel?: string; // e.g. "30°" - drawn as an arc from the reference axis
+  angleFrom?: "horizontal" | "vertical" | "slope";
+}
+
+export interface PhysicsDiagram {
+  surfaces?: PhysicsSurface[];
+  objects: PhysicsObject[];
+  pulleys?: PhysicsPulley[];
+  ropes?: PhysicsRope[];
+  vectors?: PhysicsVector[];
+}
+
 export interface SolutionStep {
   id: string;
   title: string;
@@ -70,15 +210,87 @@ export interface SolutionStep {
   summaryKind?: ContentKind; // What type of content is in summary field
   explanation?: string; // Detailed explanation for simplified mode
   explanationKind?: ContentKind; // What type of content is in explanation field
-  latex?: string;
-  code?: string;
+  latex?: string; // The equation as LaTeX (for "Copy as LaTeX")
+  code?: string; // Code of a "code" step, whitespace preserved (rendered by CodeBlock)
   action?: StepAction; // Inferred action type for pedagogical badge
   actionLabel?: string; // Human-friendly label for UI display
   bothSidesOp?: BothSidesOperation; // Operation applied to both sides (for visual feedback)
+  diagram?: GeometryDiagram; // Drawn by GeometryDiagram instead of an [IMAGE NEEDED: ...] image
+  physicsDiagram?: PhysicsDiagram; // Drawn by PhysicsDiagram (free-body diagrams, inclines, pulleys)
+}
+
+/**
+ * What the verifier read from the question and the solution.
+ * Every field is the verifier's own wording and may be missing.
+ */
+export interface VerificationDetails {
+  questionAsking?: string; // e.g. "orbital period in seconds"
+  solutionProvides?: string; // e.g. "semi-major axis in meters"
+  dimensionalAnalysis?: string; // Do the answer's units match what is asked?
+  correctApproach?: string; // Only given when the first attempt was wrong
+}
+
+/**
+ * Outcome of the verification pass
+ * - verified: the first solution was checked and accepted
+ * - corrected: the first solution failed the check and was regenerated
+ * - unverified: the check was skipped or could not run (network, unreadable reply)
+ * - failed: the first solution was regenerated, but the corrected answer still
+ *   failed the local answer check
+ */
+export type VerificationStatus = "verified" | "corrected" | "unverified" | "failed";
+
+export interface VerificationReport extends VerificationDetails {
+  status: VerificationStatus;
+  issues: string[]; // Problems found in the first solution (empty unless corrected)
+  error?: string; // Why the check could not run or still failed (unverified and failed only)
+  checkedLocally?: boolean; // Final answer was confirmed by substituting it back into the problem
+  unitWarnings?: string[]; // Dimensional analysis problems (e.g. a time answered in meters)
+  chemistryWarnings?: string[]; // Unbalanced reactions and wrong molar masses in the steps
 }
 
 export interface HomeworkSolution {
   problem: string;
   steps: SolutionStep[];
   finalAnswer: string | { parts: string[] }; // Support both old string format and new parts array
+  verification?: VerificationReport; // Missing on solutions saved before verification reports existed
+}
+
+/**
+ * Where a saved solution came from
+ * - image: photographed/picked problem (imageUri is a copy kept in the app's documents)
+ * - text: typed question
+ */
+export type HistorySource =
+  | { kind: "image"; imageUri: string; problemNumber?: string }
+  | { kind: "text"; text: string };
+
+export interface HistoryEntry {
+  id: string;
+  solution: HomeworkSolution;
+  source: HistorySource;
+  subject: SubjectType;
+  gradeLevel: GradeLevel;
+  createdAt: number; // Unix ms
+  worksheetId?: string; // Set when solved as part of a worksheet batch
+}
+
+export type WorksheetProblemStatus = "pending" | "solving" | "solved" | "failed";
+
+export interface WorksheetProblemRecord {
+  number: string; // Label as printed on the worksheet
+  text: string; // Short summary shown in the problem list
+  status: WorksheetProblemStatus;
+  historyId?: string; // History entry holding the solution once solved
+  error?: string;
+}
+
+/**
+ * A worksheet photo solved in batch - groups one history entry per problem
+ */
+export interface WorksheetRecord {
+  id: string;
+  imageUri: string; // Copy kept in the app's documents (shared by its history entries)
+  problems: WorksheetProblemRecord[];
+  createdAt: number; // Unix ms
 }
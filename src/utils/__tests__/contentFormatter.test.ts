@@ -8,6 +8,7 @@
  * - Fraction-adjacent multiplication consistency
  * - Label isolation (Left Side/Right Side on own lines)
  * - No duplicate answer patterns
+ * - Content-kind detection and routing (including markdown tables)
  *
  * Run with: bun src/utils/__tests__/contentFormatter.test.ts
  */
@@ -29,16 +30,14 @@ import {
   joinBrokenEquationLines,
   detectContentKind,
   formatByKind,
+  formatProseContent,
+  markdownTablesToMarkup,
   __formattingTestHooks__,
 } from "../contentFormatter";
 
 const {
   FORMAT_LEAK_REGEXES,
-  stripInternalArtifacts,
   finalizeFormattedText,
-  cleanupMaskTokens,
-  maskItalicsTokens,
-  unmaskTokens,
   normalizeFractions,
   normalizeFractionMultiplication,
   normalizeAdjacentFractions,
@@ -248,13 +247,11 @@ describe("No Internal Token Leakage", () => {
     assertNoLeakage(result);
   });
 
-  test("stripInternalArtifacts removes all known patterns", () => {
-    const corrupted = "text IMASK0IMASK more MASK123 stuff _MASK456_ PLACEHOLDER_789 XXIMAGEPROTECTED0XX end";
-    const cleaned = stripInternalArtifacts(corrupted);
-    expect(cleaned).not.toContain("IMASK");
-    expect(cleaned).not.toContain("MASK");
-    expect(cleaned).not.toContain("PLACEHOLDER");
-    expect(cleaned).not.toContain("XXIMAGEPROTECTED");
+  test("list item markers come through as written", () => {
+    const result = formatAIContent("Which of the following is a prime number? A. 4 B. 6 C. 7 D. 9");
+    assertNoLeakage(result);
+    expect(result).toContain("D. 9");
+    expect(result).not.toContain("D_.");
   });
 });
 
@@ -457,15 +454,9 @@ describe("Asterisk Disambiguation", () => {
     expect(result).toBe("2*x* + 1");
   });
 
-  test("maskItalicsTokens creates unique placeholders", () => {
-    const { text, map } = maskItalicsTokens("*x* + *y* + *z*");
-    const keys = Object.keys(map);
-    expect(keys.length).toBe(3);
-    const uniqueCount = new Set(keys).size;
-    expect(uniqueCount).toBe(3);
-    keys.forEach(key => {
-      expect(key).toMatch(/^IMASK\d+IMASK$/);
-    });
+  test("italic variables are operands for the multiplication next to them", () => {
+    expect(disambiguateAsterisks("2**x* + *y** 3")).toBe("2 × *x* + *y* × 3");
+    expect(disambiguateAsterisks("*x* * *y*")).toBe("*x* × *y*");
   });
 });
 
@@ -590,16 +581,16 @@ describe("Canonical formatForMathText Entry Points", () => {
     expect(result).toContain("{1/2}");
   });
 
-  test("all canonical entry points strip internal artifacts", () => {
+  test("no canonical entry point adds internal markers", () => {
     const inputs = [
-      formatForMathText("{3/4}*x* MASK123", "test"),
-      formatTitleForMathText("Title IMASK0IMASK", "test"),
-      formatProseForMathText("Prose PLACEHOLDER_1", "test"),
-      formatEquationForMathText("Eq XXIMAGEPROTECTED0XX", "test"),
+      formatForMathText("{3/4}*x* + [red:5] Subtract 2 A. one B. two", "test"),
+      formatTitleForMathText("Title *x*^2^", "test"),
+      formatProseForMathText("Prose with [IMAGE: a graph](file:///img.png)", "test"),
+      formatEquationForMathText("Eq {1/2}*x* = H_2_O", "test"),
     ];
 
     inputs.forEach(result => {
-      expect(result).not.toMatch(/MASK|IMASK|PLACEHOLDER|XXIMAGEPROTECTED/);
+      expect(result).not.toMatch(/MASK|IMASK|PLACEHOLDER|XXIMAGEPROTECTED|LIST_BREAK|⟪STEP⟫/);
     });
   });
 });
@@ -660,6 +651,22 @@ describe("Full Pipeline Integration", () => {
     expect(result).toContain("file:///path/image.png");
     expect(result).not.toContain("XXIMAGEPROTECTED");
   });
+
+  test("graph markers pass through untouched", () => {
+    const marker = "[GRAPH: y = 5/6 x - 6; x:-2..10; y:-8..2]";
+    const result = formatAIContent(`Slope-intercept form: y = 5/6 x - 6\n${marker}`);
+
+    expect(result).toContain(marker);
+  });
+
+  test("table and Punnett markers pass through untouched", () => {
+    const table = "[TABLE: Genotype | Phenotype; [blue:Tt] | tall; tt | short]";
+    const punnett = "[PUNNETT: Tt x tt; T: tall; t: short]";
+    const result = formatAIContent(`Cross the parents:\n${punnett}\n${table}`);
+
+    expect(result).toContain(punnett);
+    expect(result).toContain(table);
+  });
 });
 
 // =============================================================================
@@ -727,6 +734,12 @@ describe("Variable Highlighting", () => {
     expect(result).not.toContain("[blue:[red:");
   });
 
+  test("applyVarColors leaves option letters starting a line alone", () => {
+    const colorMap = new Map<string, string>([["b", "blue"]]) as Map<string, typeof VAR_COLORS[number]>;
+    const result = applyVarColors("A. 12\nB. Thirteenth Amendment\nC) b = 4", colorMap);
+    expect(result).toBe("A. 12\nB. Thirteenth Amendment\nC) [blue:b] = 4");
+  });
+
   test("VAR_COLORS has expected colors", () => {
     expect(VAR_COLORS.length).toBe(4);
     expect(VAR_COLORS).toContain("blue");
@@ -918,6 +931,11 @@ describe("Content Kind Detection", () => {
     expect(detectContentKind("x^2 + y^2")).toBe("math");
   });
 
+  test("detectContentKind treats table and Punnett markup as math", () => {
+    expect(detectContentKind("[PUNNETT: Tt x Tt]")).toBe("math");
+    expect(detectContentKind("- Cross:\n[TABLE: Allele | Trait; T | tall]")).toBe("math");
+  });
+
   test("detectContentKind detects list content with A. format", () => {
     expect(detectContentKind("A. First option")).toBe("list");
     expect(detectContentKind("B. Second option")).toBe("list");
@@ -941,6 +959,13 @@ describe("Content Kind Detection", () => {
     expect(detectContentKind("This is a simple explanation.")).toBe("prose");
     expect(detectContentKind("The answer is because of the following reasons.")).toBe("prose");
   });
+
+  test("detectContentKind detects markdown tables before math and lists", () => {
+    expect(detectContentKind("| Year | Event |\n|---|---|\n| 1776 | Declaration |")).toBe("table");
+    expect(detectContentKind("Data:\nx | f\n:-- | --:\n- 2 | 3")).toBe("table");
+    // Pipes alone are not a table
+    expect(detectContentKind("P(A|B) = 0.5")).toBe("math");
+  });
 });
 
 // =============================================================================
@@ -985,6 +1010,26 @@ describe("Format By Kind Routing", () => {
     // Should convert parenthetical fraction to brace syntax
     expect(result).toContain("{3/4}");
   });
+
+  test("formatByKind keeps reaction arrows and line breaks after subscripts", () => {
+    const input = "4Fe + 3O_2_ → 2Fe_2_O_3_\nFe: [blue:4] on the left, [blue:4] on the right";
+    const result = formatByKind(input, "math");
+    expect(result).toContain("→ 2Fe_2_O_3");
+    expect(result).toContain("\nFe:");
+    // Math arrows are still dropped
+    expect(formatByKind("x → 0", "math")).not.toContain("→");
+  });
+
+  test("formatByKind turns markdown tables into table markup in their own paragraph", () => {
+    const input = "Scores:\n| **Score** | Count |\n|---|:---:|\n| 2; 3 | 4 |\nMean = 3.5";
+    expect(formatByKind(input, "table")).toBe("Scores:\n\n[TABLE: Score | Count; 2, 3 | 4]\n\nMean = 3.5");
+    expect(markdownTablesToMarkup("no table | here")).toBe("no table | here");
+  });
+
+  test("formatProseContent keeps table cells exactly", () => {
+    const table = "[TABLE: Event | Year; *Treaty* of Paris | 1783; [blue:x] | 1/2]";
+    expect(formatProseContent(`The timeline:\n\n${table}`)).toBe(`The timeline:\n\n${table}`);
+  });
 });
 
 // =============================================================================
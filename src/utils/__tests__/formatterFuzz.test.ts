@@ -0,0 +1,199 @@
+/**
+ * Property-Based Tests for the Formatting Pipeline
+ *
+ * Random-but-valid app markup (src/testing/markupGenerator.ts) is run through
+ * formatForMathText, formatByKind and formatSolution, checking that:
+ * - Formatting is idempotent (formatting the output again changes nothing)
+ * - No internal tokens leak (MASK, LIST_BREAK, ⟪STEP⟫...)
+ * - {} and [] delimiters stay balanced
+ * - Every numeric token of the input survives
+ *
+ * A failing case is shrunk to the smallest input that still fails and printed
+ * with its seed. Reproduce with FUZZ_SEED=<seed> FUZZ_RUNS=1.
+ *
+ * Run with: bun src/utils/__tests__/formatterFuzz.test.ts
+ *   FUZZ_RUNS=2000 for a longer run, FUZZ_SEED=<n> to start from another seed
+ */
+
+import { formatByKind, formatForMathText, formatSolution } from "../contentFormatter";
+import { findLeakedMarker } from "../__fixtures__/goldenSnapshots";
+import { createRandom } from "../../testing/random";
+import { generateMarkup, renderMarkup, shrinkMarkup } from "../../testing/markupGenerator";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Properties
+// =============================================================================
+
+const FUZZ_SEED = Number(process.env.FUZZ_SEED) || 1;
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS) || 200;
+
+/** A formatter under test, mapping one input to the strings it renders */
+type Format = (text: string) => string[];
+
+/** Returns a failure description, or null when the property holds */
+type Property = (format: Format, input: string) => string | null;
+
+function numbers(text: string): string[] {
+  return text.match(/\d+(?:\.\d+)?/g) ?? [];
+}
+
+function unbalanced(text: string): string | null {
+  const depth = { "{": 0, "[": 0 };
+  for (const char of text) {
+    if (char === "{") depth["{"]++;
+    if (char === "}" && --depth["{"] < 0) return "}";
+    if (char === "[") depth["["]++;
+    if (char === "]" && --depth["["] < 0) return "]";
+  }
+  if (depth["{"] !== 0) return "{";
+  if (depth["["] !== 0) return "[";
+  return null;
+}
+
+const PROPERTIES: Record<string, Property> = {
+  idempotent: (format, input) => {
+    const once = format(input);
+    const twice = once.map((output, index) => format(output)[index]);
+    const changed = once.findIndex((output, index) => output !== twice[index]);
+    return changed === -1 ? null : `${JSON.stringify(once[changed])} → ${JSON.stringify(twice[changed])}`;
+  },
+  "no leaked tokens": (format, input) => {
+    const leaked = format(input).map(findLeakedMarker).find(Boolean);
+    return leaked ? `leaked ${leaked}` : null;
+  },
+  "balanced delimiters": (format, input) => {
+    for (const output of format(input)) {
+      const delimiter = unbalanced(output);
+      if (delimiter) return `unbalanced "${delimiter}" in ${JSON.stringify(output)}`;
+    }
+    return null;
+  },
+  "numbers preserved": (format, input) => {
+    for (const output of format(input)) {
+      const remaining = numbers(output);
+      for (const number of numbers(input)) {
+        const index = remaining.indexOf(number);
+        if (index === -1) return `lost ${number} in ${JSON.stringify(output)}`;
+        remaining.splice(index, 1);
+      }
+    }
+    return null;
+  },
+};
+
+/** Run a property over FUZZ_RUNS generated cases; throws with the shrunk counterexample */
+function checkProperty(format: Format, property: Property): void {
+  const failure = (text: string): string | null => {
+    try {
+      return property(format, text);
+    } catch (e) {
+      return `threw ${e instanceof Error ? e.message : String(e)}`;
+    }
+  };
+
+  for (let seed = FUZZ_SEED; seed < FUZZ_SEED + FUZZ_RUNS; seed++) {
+    const markup = generateMarkup(createRandom(seed));
+    if (!failure(renderMarkup(markup))) continue;
+
+    const smallest = renderMarkup(shrinkMarkup(markup, (text) => failure(text) !== null));
+    throw new Error(`seed ${seed}: ${JSON.stringify(smallest)}\n       ${failure(smallest)}`);
+  }
+}
+
+// =============================================================================
+// Formatters Under Test
+// =============================================================================
+
+/** formatSolution checks every field, using the case as problem, step, and answer */
+function formatSolutionFields(text: string): string[] {
+  const formatted = formatSolution({
+    problem: text,
+    steps: [{ id: "step-1", title: "Step 1", equation: text, explanation: text }],
+    finalAnswer: text,
+  });
+  const step = formatted.steps[0];
+  const finalAnswer = typeof formatted.finalAnswer === "string" ? formatted.finalAnswer : "";
+  return [formatted.problem, step.equation ?? "", step.explanation ?? "", finalAnswer];
+}
+
+const FORMATTERS: Record<string, Format> = {
+  formatForMathText: (text) => [formatForMathText(text)],
+  'formatByKind("math")': (text) => [formatByKind(text, "math")],
+  'formatByKind("prose")': (text) => [formatByKind(text, "prose")],
+  'formatByKind("list")': (text) => [formatByKind(text, "list")],
+  formatSolution: formatSolutionFields,
+};
+
+// =============================================================================
+// TEST SUITE 1: Properties
+// =============================================================================
+
+for (const [formatterName, format] of Object.entries(FORMATTERS)) {
+  describe(formatterName, () => {
+    for (const [propertyName, property] of Object.entries(PROPERTIES)) {
+      test(propertyName, () => checkProperty(format, property));
+    }
+  });
+}
+
+// =============================================================================
+// TEST SUITE 2: Regressions Found by Fuzzing
+// =============================================================================
+
+/** formatForMathText output as a plain string, for comparing with literals */
+function mathText(text: string): string {
+  return formatForMathText(text);
+}
+
+describe("Regressions", () => {
+  test("subscript closers survive the stray-underscore cleanup", () => {
+    expect(formatByKind("v_2_ + 3", "math")).toBe("v_2_ + 3");
+    expect(mathText("the mass m_0_\n2. is 939.49 kg")).toBe("the mass m_0_\n2. is 939.49 kg");
+  });
+
+  test("a subscript before a step keyword keeps its line break", () => {
+    expect(mathText("y_f_\nSubtract 4")).toBe("y_f_\n\nSubtract 4");
+  });
+
+  test("fraction rule leaves decimals, sums and colors in braces alone", () => {
+    expect(mathText("x = {3/2.5} + 1")).toBe("x = {3/2.5} + 1");
+    expect(mathText("{3/x + 1} = 2")).toBe("{3/x + 1} = 2");
+    expect(mathText("{3/[red:2] + 1} = 2")).toBe("{3/[red:2] + 1} = 2");
+  });
+
+  test("arrow restating a variable collapses in one pass", () => {
+    expect(formatByKind("{t/2} ÷ y → y", "math")).toBe("{t/2} ÷ y");
+  });
+
+  test("arrow from a fraction to a number is kept", () => {
+    expect(formatByKind("{804/329} → 271.5", "math")).toBe("{804/329} → 271.5");
+  });
+
+  test("a fraction ending a line is not multiplied by the next list number", () => {
+    expect(mathText("x = {217/118}\n2. both")).toBe("x = {217/118}\n2. both");
+  });
+
+  test("redundant-answer cleanup keeps values the red tag lacks", () => {
+    expect(mathText("t = m ÷ [orange:694] → [red:m]")).toBe("t = m ÷ [orange:694] → [red:m]");
+    expect(mathText("{v^7^/[orange:284 ÷ y]} [orange:[red:a]]")).toBe(
+      "{v^7^/[orange:284 ÷ y]} [orange:[red:a]]"
+    );
+  });
+
+  test("back-to-back step keywords each start a step", () => {
+    expect(mathText("- Subtract Subtract")).toBe("Subtract\n\nSubtract");
+  });
+
+  test("list item already on its own line keeps a single break", () => {
+    const once = mathText("= [blue:y]^4^ - 916\n2. is");
+    expect(mathText(once)).toBe(once);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+console.log(`\n🎲 Seeds ${FUZZ_SEED}..${FUZZ_SEED + FUZZ_RUNS - 1}`);
+runTests("Formatter Fuzz");
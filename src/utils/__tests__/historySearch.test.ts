@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for History Search
+ *
+ * These tests verify:
+ * - toPlainText strips color tags, fractions, italics, superscripts and subscripts
+ * - Every query word must match somewhere in the question, steps or answer
+ * - The subject filter combines with the query, and a blank query keeps every entry
+ *
+ * Run with: bun src/utils/__tests__/historySearch.test.ts
+ */
+
+import type { HistoryEntry, HistorySource, HomeworkSolution } from "../../types/homework";
+import type { SubjectType } from "../subjectDetection";
+import { searchHistory, toPlainText } from "../historySearch";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function entry(
+  id: string,
+  subject: SubjectType,
+  solution: HomeworkSolution,
+  source: HistorySource = { kind: "image", imageUri: `file:///history/${id}.jpg` }
+): HistoryEntry {
+  return { id, solution, source, subject, gradeLevel: "middle", createdAt: 0 };
+}
+
+const entries: HistoryEntry[] = [
+  entry("linear", "math", {
+    problem: "Solve [blue:2x] + 3 = 11",
+    steps: [{ id: "s1", title: "Subtract 3", equation: "2x = 8", summary: "Isolate the variable term" }],
+    finalAnswer: "[red:x = 4]",
+  }),
+  entry("photosynthesis", "biology", {
+    problem: "What does a plant make in photosynthesis?",
+    steps: [{ id: "s1", title: "Recall the reaction", explanation: "Light energy makes glucose and oxygen" }],
+    finalAnswer: { parts: ["Glucose", "Oxygen"] },
+  }),
+  entry(
+    "water",
+    "chemistry",
+    {
+      problem: "Balance H_2_ + O_2_ → H_2_O",
+      steps: [],
+      finalAnswer: "2H_2_ + O_2_ → 2H_2_O",
+    },
+    { kind: "text", text: "balance the water equation" }
+  ),
+];
+
+const ids = (results: HistoryEntry[]) => results.map((result) => result.id);
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("toPlainText", () => {
+  test("strips color tags and formatting markup", () => {
+    expect(toPlainText("[blue:2x] + [red:3]")).toBe("2x + 3");
+    expect(toPlainText("{1/2} of *x*^2^")).toBe("1/2 of x 2");
+    expect(toPlainText("H_2_O")).toBe("H 2 O");
+  });
+});
+
+describe("Query", () => {
+  test("matches the problem through its color tags", () => {
+    expect(ids(searchHistory(entries, "2x"))).toEqual(["linear"]);
+  });
+
+  test("matches step titles, summaries and explanations", () => {
+    expect(ids(searchHistory(entries, "isolate"))).toEqual(["linear"]);
+    expect(ids(searchHistory(entries, "light energy"))).toEqual(["photosynthesis"]);
+  });
+
+  test("matches both answer formats", () => {
+    expect(ids(searchHistory(entries, "x = 4"))).toEqual(["linear"]);
+    expect(ids(searchHistory(entries, "oxygen"))).toEqual(["photosynthesis"]);
+  });
+
+  test("matches the typed question of a text entry", () => {
+    expect(ids(searchHistory(entries, "water"))).toEqual(["water"]);
+  });
+
+  test("requires every word and ignores case", () => {
+    expect(ids(searchHistory(entries, "GLUCOSE plant"))).toEqual(["photosynthesis"]);
+    expect(ids(searchHistory(entries, "glucose variable"))).toEqual([]);
+  });
+
+  test("keeps every entry in order for a blank query", () => {
+    expect(ids(searchHistory(entries, "   "))).toEqual(["linear", "photosynthesis", "water"]);
+  });
+});
+
+describe("Subject filter", () => {
+  test("keeps only the chosen subject", () => {
+    expect(ids(searchHistory(entries, "", "chemistry"))).toEqual(["water"]);
+    expect(ids(searchHistory(entries, "", "all"))).toEqual(["linear", "photosynthesis", "water"]);
+  });
+
+  test("combines with the query", () => {
+    expect(ids(searchHistory(entries, "oxygen", "chemistry"))).toEqual([]);
+    expect(ids(searchHistory(entries, "oxygen", "biology"))).toEqual(["photosynthesis"]);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("History Search");
@@ -0,0 +1,289 @@
+/**
+ * Unit Tests for the Math Markup AST
+ *
+ * These tests verify:
+ * - Fractions (including nested ones), scripts, highlights, italics, images and graphs parse into nodes
+ * - Subscripts and underlines are told apart by what precedes the "_"
+ * - Roots, absolute values, sums/integrals with limits and matrices parse into nodes
+ * - Tables and Punnett square markers parse into grid nodes
+ * - rewriteAroundMarkup rewrites only the text between protected constructs
+ * - Serializing a parsed tree gives back the original markup
+ * - Variable coloring works on the tree without touching scripts or highlights
+ *
+ * Run with: bun src/utils/__tests__/mathMarkup.test.ts
+ */
+
+import {
+  parseMarkup,
+  serializeMarkup,
+  markupToPlainText,
+  splitMarkupLines,
+  rewriteAroundMarkup,
+  type MarkupNode,
+} from "../mathMarkup";
+import { __formattingTestHooks__ } from "../contentFormatter";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const text = (value: string): MarkupNode => ({ type: "text", value });
+
+function colorize(input: string, vars: Record<string, string>): string {
+  const { applyVarColors } = __formattingTestHooks__;
+  return applyVarColors(input, new Map(Object.entries(vars)) as Parameters<typeof applyVarColors>[1]);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Parsing", () => {
+  test("parses a fraction between text", () => {
+    expect(parseMarkup("x = {3/4} + 1")).toEqual([
+      text("x = "),
+      { type: "fraction", numerator: [text("3")], denominator: [text("4")] },
+      text(" + 1"),
+    ]);
+  });
+
+  test("parses nested fractions", () => {
+    expect(parseMarkup("{{1/2}/3}")).toEqual([
+      {
+        type: "fraction",
+        numerator: [{ type: "fraction", numerator: [text("1")], denominator: [text("2")] }],
+        denominator: [text("3")],
+      },
+    ]);
+  });
+
+  test("leaves braces without a slash as text", () => {
+    expect(parseMarkup("{x}")).toEqual([text("{x}")]);
+    expect(parseMarkup("{3/4")).toEqual([text("{3/4")]);
+  });
+
+  test("parses attached scripts", () => {
+    expect(parseMarkup("H_2_O")).toEqual([text("H"), { type: "subscript", children: [text("2")] }, text("O")]);
+    expect(parseMarkup("x^2^")).toEqual([text("x"), { type: "superscript", children: [text("2")] }]);
+  });
+
+  test("treats _text_ after a space as underline", () => {
+    expect(parseMarkup("this is _important_ here")).toEqual([
+      text("this is "),
+      { type: "underline", children: [text("important")] },
+      text(" here"),
+    ]);
+  });
+
+  test("parses highlights with nested markup", () => {
+    expect(parseMarkup("[blue:{1/2}*x*]")).toEqual([
+      {
+        type: "highlight",
+        color: "blue",
+        children: [
+          { type: "fraction", numerator: [text("1")], denominator: [text("2")] },
+          { type: "italic", children: [text("x")] },
+        ],
+      },
+    ]);
+  });
+
+  test("keeps long asterisk spans as text and drops markdown bold", () => {
+    expect(parseMarkup("2 * 3 and then some more * 4")).toEqual([text("2 * 3 and then some more * 4")]);
+    expect(parseMarkup("**Answer**")).toEqual([text("Answer")]);
+  });
+
+  test("parses images and repairs file URLs", () => {
+    expect(parseMarkup("[IMAGE: a triangle](file:∕∕tmp∕a.png)")).toEqual([
+      { type: "image", description: "a triangle", url: "file://tmp/a.png" },
+    ]);
+  });
+
+  test("parses graph markers without reading the spec as markup", () => {
+    expect(parseMarkup("y = 2x + 1\n[GRAPH: y = 2x + 1; x:-5..5]")).toEqual([
+      text("y = 2x + 1"),
+      { type: "newline" },
+      { type: "graph", spec: "y = 2x + 1; x:-5..5" },
+    ]);
+  });
+
+  test("parses arrows", () => {
+    expect(parseMarkup("a → b -> c")).toEqual([
+      text("a "),
+      { type: "arrow", symbol: "→" },
+      text(" b "),
+      { type: "arrow", symbol: "->" },
+      text(" c"),
+    ]);
+  });
+});
+
+describe("Roots, limits and matrices", () => {
+  test("parses square, cube and nth roots", () => {
+    expect(parseMarkup("√(x + 1)")).toEqual([{ type: "root", index: null, radicand: [text("x + 1")] }]);
+    expect(parseMarkup("∛27")).toEqual([{ type: "root", index: [text("3")], radicand: [text("27")] }]);
+    expect(parseMarkup("^5^√(32)")).toEqual([{ type: "root", index: [text("5")], radicand: [text("32")] }]);
+  });
+
+  test("reads ^n^√ after a base as an exponent, not a root index", () => {
+    const squareRoot = (value: string): MarkupNode => ({ type: "root", index: null, radicand: [text(value)] });
+    expect(parseMarkup("x^2^√(3)")).toEqual([
+      text("x"),
+      { type: "superscript", children: [text("2")] },
+      squareRoot("3"),
+    ]);
+    expect(parseMarkup("5^2^√(2) = 25√(2)")).toEqual([
+      text("5"),
+      { type: "superscript", children: [text("2")] },
+      squareRoot("2"),
+      text(" = 25"),
+      squareRoot("2"),
+    ]);
+    expect(parseMarkup("2 × ^3^√(8)")).toEqual([
+      text("2 × "),
+      { type: "root", index: [text("3")], radicand: [text("8")] },
+    ]);
+  });
+
+  test("leaves a root symbol without a radicand as text", () => {
+    expect(parseMarkup("√ of 4")).toEqual([text("√ of 4")]);
+  });
+
+  test("parses absolute values but not conditional probability", () => {
+    expect(parseMarkup("|x - 3| = 5")).toEqual([{ type: "abs", children: [text("x - 3")] }, text(" = 5")]);
+    expect(parseMarkup("P(A|B) and P(B|A)")).toEqual([text("P(A|B) and P(B|A)")]);
+  });
+
+  test("parses sums and integrals with limits in either order", () => {
+    expect(parseMarkup("Σ_i=1_^n^ i")).toEqual([
+      { type: "bigOperator", symbol: "Σ", lower: [text("i=1")], upper: [text("n")] },
+      text(" i"),
+    ]);
+    expect(parseMarkup("∫^b^_a_")).toEqual([
+      { type: "bigOperator", symbol: "∫", lower: [text("a")], upper: [text("b")] },
+    ]);
+    expect(parseMarkup("ΣF = ma")).toEqual([text("ΣF = ma")]);
+  });
+
+  test("parses matrices and determinants", () => {
+    expect(parseMarkup("[matrix: 1, {1/2}; 3, 4]")).toEqual([
+      {
+        type: "matrix",
+        rows: [
+          [[text("1")], [{ type: "fraction", numerator: [text("1")], denominator: [text("2")] }]],
+          [[text("3")], [text("4")]],
+        ],
+        determinant: false,
+      },
+    ]);
+    expect(parseMarkup("det[matrix: a, b; c, d] = 0")).toEqual([
+      { type: "matrix", rows: [[[text("a")], [text("b")]], [[text("c")], [text("d")]]], determinant: true },
+      text(" = 0"),
+    ]);
+  });
+});
+
+describe("Tables and Punnett squares", () => {
+  test("parses table rows and cells, keeping markup inside cells", () => {
+    expect(parseMarkup("[TABLE: Genotype | Ratio; [blue:TT] | {1/4}]")).toEqual([
+      {
+        type: "table",
+        rows: [
+          [[text("Genotype")], [text("Ratio")]],
+          [
+            [{ type: "highlight", color: "blue", children: [text("TT")] }],
+            [{ type: "fraction", numerator: [text("1")], denominator: [text("4")] }],
+          ],
+        ],
+      },
+    ]);
+  });
+
+  test("parses Punnett markers without reading the cross as markup", () => {
+    expect(parseMarkup("[PUNNETT: Tt x tt; T: tall; t: short]")).toEqual([
+      { type: "punnett", spec: "Tt x tt; T: tall; t: short" },
+    ]);
+    expect(markupToPlainText(parseMarkup("[TABLE: a | b; 1 | 2]"))).toBe("a | b\n1 | 2");
+  });
+});
+
+describe("Rewriting around markup", () => {
+  const isGraph = (node: MarkupNode) => node.type === "graph";
+  const shout = (text: string) => text.toUpperCase();
+
+  test("rewrites only the text between protected constructs", () => {
+    expect(rewriteAroundMarkup("plot [GRAPH: y = x; x:-5..5] now", isGraph, shout)).toBe(
+      "PLOT [GRAPH: y = x; x:-5..5] NOW"
+    );
+    expect(rewriteAroundMarkup("[red:x] and {a/b}", isGraph, shout)).toBe("[RED:X] AND {A/B}");
+  });
+
+  test("keeps whitespace next to a protected construct as written", () => {
+    const trim = (text: string) => text.trim();
+    expect(rewriteAroundMarkup("Graph:\n[GRAPH: y = x]\n\n  Next", isGraph, trim)).toBe(
+      "Graph:\n[GRAPH: y = x]\n\n  Next"
+    );
+  });
+
+  test("finds a protected construct inside one that is not protected", () => {
+    expect(rewriteAroundMarkup("[red:see [GRAPH: y = x]]", isGraph, shout)).toBe("[RED:SEE [GRAPH: y = x]]");
+  });
+});
+
+describe("Serialization", () => {
+  test("round-trips well-formed markup", () => {
+    const inputs = [
+      "x = {3/4} + 1",
+      "[red:{{1/2}/3}] → *v*_0_^2^",
+      "KE = {1/2}mv^2^\n= 9 J",
+      "[IMAGE: graph](https://example.com/a.png)",
+      "[GRAPH: y = x^2 - 4; y = 2x - 1; x:-5..5]",
+      "this is _important_",
+      "x = {-b ± √(b^2^ - 4ac)/2a}",
+      "∛27 + ^5^√32 = |{-7/2}|",
+      "Σ_i=1_^n^ i = ∫_0_^1^ x dx",
+      "det[matrix: a, b; c, d] = [matrix: 1, 0; 0, 1]",
+      "[TABLE: Allele | Trait; [blue:T] | tall; t | short]",
+      "[PUNNETT: AaBb x aabb]",
+    ];
+    for (const input of inputs) {
+      expect(serializeMarkup(parseMarkup(input))).toBe(input);
+    }
+  });
+
+  test("reads fractions as a/b in plain text", () => {
+    expect(markupToPlainText(parseMarkup("[blue:{x/2}] = 4"))).toBe("x/2 = 4");
+  });
+});
+
+describe("Variable coloring", () => {
+  test("colors free variables and italic variables", () => {
+    expect(colorize("x + *y* = 5", { x: "blue", y: "red" })).toBe("[blue:x] + [red:*y*] = 5");
+  });
+
+  test("colors variables under roots and in matrices", () => {
+    expect(colorize("√(x + 1) = [matrix: x, 0]", { x: "blue" })).toBe("√([blue:x] + 1) = [matrix: [blue:x], 0]");
+  });
+
+  test("colors variables inside fractions", () => {
+    expect(colorize("{x/2} = 4", { x: "blue" })).toBe("{[blue:x]/2} = 4");
+  });
+
+  test("leaves scripts, highlights and images alone", () => {
+    expect(colorize("v_x_ = [green:x]", { x: "blue" })).toBe("v_x_ = [green:x]");
+    expect(colorize("[IMAGE: x axis](https://a.io/x.png)", { x: "blue" })).toBe(
+      "[IMAGE: x axis](https://a.io/x.png)"
+    );
+  });
+
+  test("returns the input unchanged when nothing matches", () => {
+    expect(colorize("2 + 2 = 4", { x: "blue" })).toBe("2 + 2 = 4");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Math Markup");
@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for Problem Area Geometry
+ *
+ * These tests verify:
+ * - Fractional areas are rounded to whole pixels
+ * - Areas reaching past any edge of the photo are clamped inside it
+ * - An area entirely outside the photo still gives a 1×1 crop
+ * - An area measured against a different size of the photo is scaled onto the decoded one
+ *
+ * Run with: bun src/utils/__tests__/problemArea.test.ts
+ */
+
+import { clampProblemArea, scaleProblemArea } from "../problemArea";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("Rounding", () => {
+  test("keeps an area inside the image unchanged", () => {
+    expect(clampProblemArea({ x: 10, y: 20, width: 300, height: 200 }, 1000, 800)).toEqual({
+      x: 10,
+      y: 20,
+      width: 300,
+      height: 200,
+    });
+  });
+
+  test("rounds fractional edges to whole pixels", () => {
+    expect(clampProblemArea({ x: 10.4, y: 20.6, width: 99.8, height: 50.2 }, 1000, 800)).toEqual({
+      x: 10,
+      y: 21,
+      width: 100,
+      height: 50,
+    });
+  });
+});
+
+describe("Clamping", () => {
+  test("clamps an area that rounds past the right and bottom edges", () => {
+    expect(clampProblemArea({ x: 700.6, y: 500.5, width: 299.6, height: 299.7 }, 1000, 800)).toEqual({
+      x: 701,
+      y: 501,
+      width: 299,
+      height: 299,
+    });
+  });
+
+  test("clamps an area starting above or left of the image", () => {
+    expect(clampProblemArea({ x: -12, y: -0.4, width: 112, height: 100 }, 1000, 800)).toEqual({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+    });
+  });
+
+  test("clamps an area larger than the image to the whole image", () => {
+    expect(clampProblemArea({ x: -5, y: -5, width: 2000, height: 2000 }, 1000, 800)).toEqual({
+      x: 0,
+      y: 0,
+      width: 1000,
+      height: 800,
+    });
+  });
+
+  test("gives a 1×1 crop for an area outside the image", () => {
+    expect(clampProblemArea({ x: 1200, y: 900, width: 50, height: 50 }, 1000, 800)).toEqual({
+      x: 999,
+      y: 799,
+      width: 1,
+      height: 1,
+    });
+  });
+});
+
+describe("Scaling", () => {
+  test("maps an area from the picker size onto a larger decoded photo", () => {
+    const area = { x: 500, y: 400, width: 500, height: 400 };
+    expect(clampProblemArea(scaleProblemArea(area, 1000, 800, 2000, 1600), 2000, 1600)).toEqual({
+      x: 1000,
+      y: 800,
+      width: 1000,
+      height: 800,
+    });
+  });
+
+  test("scales each axis by its own ratio before clamping", () => {
+    const area = { x: 100, y: 50, width: 900, height: 750 };
+    expect(clampProblemArea(scaleProblemArea(area, 1000, 800, 500, 600), 500, 600)).toEqual({
+      x: 50,
+      y: 38,
+      width: 450,
+      height: 562,
+    });
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Problem Area");
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for the Solution Linter
+ *
+ * These tests verify:
+ * - Each rule fires on the formatting the prompts forbid and reports its step/field location
+ * - Correct markup passes: {a/b} fractions, units like m/s, *x* italics, x^2^, H_2_O, [0, 5) intervals
+ * - Code steps and ``` fences are only checked for leaked markers
+ * - Multi-part final answers report the part
+ *
+ * Run with: bun src/utils/__tests__/solutionLint.test.ts
+ */
+
+import type { HomeworkSolution, SolutionStep } from "../../types/homework";
+import { lintSolution, formatLintViolation, type LintRule } from "../solutionLint";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function solutionWith(
+  steps: Partial<SolutionStep>[],
+  finalAnswer: HomeworkSolution["finalAnswer"] = "x = 4"
+): HomeworkSolution {
+  return {
+    problem: "Solve",
+    steps: steps.map((step, index) => ({ id: `step-${index + 1}`, title: `Step ${index + 1}`, ...step })),
+    finalAnswer,
+  };
+}
+
+/** Rules that fire for one equation */
+function rulesFor(equation: string): LintRule[] {
+  return lintSolution(solutionWith([{ equation }])).map((violation) => violation.rule);
+}
+
+// =============================================================================
+// TEST SUITE 1: Rules
+// =============================================================================
+
+describe("Rules", () => {
+  test("slash and typography fractions", () => {
+    expect(rulesFor("x = 3/4")).toEqual(["slash-fraction"]);
+    expect(rulesFor("y = x/2 + (a + b)/2")).toEqual(["slash-fraction", "slash-fraction"]);
+    expect(rulesFor("Add ½ cup")).toEqual(["slash-fraction"]);
+  });
+
+  test("asterisk multiplication", () => {
+    expect(rulesFor("A = 2*3")).toEqual(["asterisk-multiplication"]);
+    expect(rulesFor("F = m * a")).toEqual(["asterisk-multiplication"]);
+  });
+
+  test("leaked formatter markers", () => {
+    expect(rulesFor("x = MASK3 + 2")).toEqual(["leaked-token"]);
+    expect(rulesFor("Next 〔PROTECTED0〕 step")).toEqual(["leaked-token"]);
+  });
+
+  test("chemical equations split at a line break", () => {
+    expect(rulesFor("2H_2_ + O_2_ →\n2H_2_O")).toEqual(["broken-chemical-equation"]);
+    expect(rulesFor("2H_2_ +\nO_2_ → 2H_2_O")).toEqual(["broken-chemical-equation"]);
+  });
+
+  test("unbalanced delimiters, superscripts and subscripts", () => {
+    expect(rulesFor("x = (3 + 4")).toEqual(["unbalanced-delimiters"]);
+    expect(rulesFor("[red:x = 5")).toEqual(["unbalanced-delimiters"]);
+    expect(rulesFor("{36 g/18.02} g/mol}")).toEqual(["unbalanced-delimiters"]);
+    expect(rulesFor("x^2 + y^2^")).toEqual(["unbalanced-delimiters"]);
+    expect(rulesFor("Mass of H_2O")).toEqual(["unbalanced-delimiters"]);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 2: Correct Markup
+// =============================================================================
+
+describe("Correct Markup", () => {
+  test("well-formed solutions have no violations", () => {
+    const clean = [
+      "x = {3/4} and y = {{1/2}/3}",
+      "v = 9.8 m/s^2^ and M = 18.02 g/mol",
+      "*v_initial* = [red:5 m/s] and **Given:** F_net_ = 5 N",
+      "2H_2_ + O_2_ → 2H_2_O",
+      "x ∈ [0, 5) and Σ_i=1_^n^ i",
+      "Due 12/25/2024",
+      "[IMAGE: force diagram](https://example.com/a/b.png)",
+      "1) Subtract 5\n2) Divide by 2",
+      "*Homo sapiens* has 46 chromosomes",
+    ];
+    for (const equation of clean) {
+      expect(`${equation}: ${rulesFor(equation).join(", ")}`).toBe(`${equation}: `);
+    }
+  });
+
+  test("math lines starting with → are not chemistry", () => {
+    expect(rulesFor("2x = 8\n→ x = 4")).toEqual([]);
+  });
+});
+
+// =============================================================================
+// TEST SUITE 3: Locations and Code
+// =============================================================================
+
+describe("Locations and Code", () => {
+  test("violations carry the step, field and severity", () => {
+    const [violation] = lintSolution(solutionWith([{ equation: "x = 4" }, { summary: "Take 1/2 of it" }]));
+    expect(violation.location).toEqual({ field: "summary", stepIndex: 1, stepId: "step-2" });
+    expect(violation.severity).toBe("warning");
+    expect(violation.excerpt).toBe("1/2");
+    expect(formatLintViolation(violation)).toBe(
+      'Step 2 summary: [slash-fraction] Inline fraction "1/2" - write {num/den}'
+    );
+  });
+
+  test("multi-part final answers report the part", () => {
+    const [violation] = lintSolution(solutionWith([], { parts: ["a = 2", "b = 2*3"] }));
+    expect(violation.location).toEqual({ field: "finalAnswer", partIndex: 1 });
+    expect(formatLintViolation(violation).startsWith("Final answer (part 2):")).toBe(true);
+  });
+
+  test("code steps are only checked for leaked markers", () => {
+    expect(lintSolution(solutionWith([{ equation: "print(a * b / 2)", equationKind: "code" }])).length).toBe(0);
+    const leaked = lintSolution(solutionWith([{ equation: "x = MASK1", equationKind: "code" }]));
+    expect(leaked.map((violation) => violation.rule)).toEqual(["leaked-token"]);
+  });
+
+  test("code fences inside prose are skipped", () => {
+    const summary = "Multiply:\n```python\nprint(2*3/4)\n```\nthen take 1/2";
+    expect(lintSolution(solutionWith([{ summary }])).map((violation) => violation.excerpt)).toEqual(["1/2"]);
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Solution Lint");
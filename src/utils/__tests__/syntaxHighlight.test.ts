@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Syntax Highlighting
+ *
+ * These tests verify:
+ * - Fenced code is split from the prose around it, with its language
+ * - Unlabeled code gets its language from telltale constructs
+ * - Tokens cover the code exactly (nothing dropped or duplicated)
+ * - Comments, strings, keywords, types and calls are told apart per language
+ *
+ * Run with: bun src/utils/__tests__/syntaxHighlight.test.ts
+ */
+
+import {
+  splitCodeBlocks,
+  detectCodeLanguage,
+  normalizeLanguage,
+  highlightCode,
+  type CodeLanguage,
+} from "../syntaxHighlight";
+import { describe, expect, runTests, test } from "../../testing/testFramework";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** "keyword:def plain:  function:area" for the non-blank tokens of one line */
+function kinds(code: string, language: CodeLanguage, line = 0): string {
+  const tokens = highlightCode(code, language)[line];
+  return tokens
+    .filter((token) => token.text.trim())
+    .map((token) => `${token.kind}:${token.text.trim()}`)
+    .join(" ");
+}
+
+function rejoin(code: string, language: CodeLanguage): string {
+  return highlightCode(code, language)
+    .map((line) => line.map((token) => token.text).join(""))
+    .join("\n");
+}
+
+// =============================================================================
+// TEST SUITE 1: Code Blocks
+// =============================================================================
+
+describe("Code blocks", () => {
+  test("splits fenced code from the prose around it", () => {
+    expect(splitCodeBlocks("Loop over the list:\n```py\nfor x in xs:\n    print(x)\n```\nDone.")).toEqual([
+      { type: "text", text: "Loop over the list:" },
+      { type: "code", language: "python", code: "for x in xs:\n    print(x)" },
+      { type: "text", text: "Done." },
+    ]);
+  });
+
+  test("treats unfenced code and unclosed fences as code", () => {
+    expect(splitCodeBlocks("int x = 5;")).toEqual([{ type: "code", language: "plain", code: "int x = 5;" }]);
+    expect(splitCodeBlocks("```\n#include <iostream>\nint main() {}")).toEqual([
+      { type: "code", language: "cpp", code: "#include <iostream>\nint main() {}" },
+    ]);
+  });
+
+  test("reads fence languages and their aliases", () => {
+    expect(normalizeLanguage("C++")).toBe("cpp");
+    expect(normalizeLanguage("js")).toBe("javascript");
+    expect(normalizeLanguage("rust")).toBe(null);
+  });
+
+  test("detects the language of unlabeled code", () => {
+    expect(detectCodeLanguage("def area(r):\n    return r * r")).toBe("python");
+    expect(detectCodeLanguage('System.out.println("hi");')).toBe("java");
+    expect(detectCodeLanguage("const double = (x) => x * 2;")).toBe("javascript");
+    expect(detectCodeLanguage("std::cout << x;")).toBe("cpp");
+    expect(detectCodeLanguage("x = 5;")).toBe("plain");
+  });
+});
+
+// =============================================================================
+// TEST SUITE 2: Tokens
+// =============================================================================
+
+describe("Tokens", () => {
+  test("tokens give back the code exactly", () => {
+    const python = 'def f(s):\n    """Doc\n    string"""\n    return s + "#"  # note\n';
+    const java = "/* a\n   b */\nint[] xs = {1, 2};\n";
+    expect(rejoin(python, "python")).toBe(python);
+    expect(rejoin(java, "java")).toBe(java);
+  });
+
+  test("colors Python keywords, calls, strings and comments", () => {
+    expect(kinds("def area(r):", "python")).toBe("keyword:def function:area plain:(r) operator::");
+    expect(kinds('print("# not a comment")  # comment', "python")).toBe(
+      'type:print plain:( string:"# not a comment" plain:) comment:# comment'
+    );
+  });
+
+  test("colors Java and C++ types and class names", () => {
+    expect(kinds("Scanner in = new Scanner(System.in);", "java")).toBe(
+      "type:Scanner plain:in operator:= keyword:new function:Scanner plain:( type:System plain:.in);"
+    );
+    expect(kinds("#include <vector>", "cpp")).toBe("keyword:#include operator:< type:vector operator:>");
+  });
+
+  test("splits block comments and template strings across lines", () => {
+    const lines = highlightCode("/* one\ntwo */ let s = `a\nb`;", "javascript");
+    expect(lines[0]).toEqual([{ kind: "comment", text: "/* one" }]);
+    expect(lines[1][0]).toEqual({ kind: "comment", text: "two */" });
+    expect(lines[2][0]).toEqual({ kind: "string", text: "b`" });
+  });
+
+  test("reads numbers, including hex and floats, but not digits inside names", () => {
+    expect(kinds("x2 = 0x1F + 3.5e2", "javascript")).toBe("plain:x2 operator:= number:0x1F operator:+ number:3.5e2");
+  });
+});
+
+// =============================================================================
+// Run Tests
+// =============================================================================
+
+runTests("Syntax Highlighting");
@@ -1,8 +1,9 @@
 /**
- * Content Formatter Utility - Masking Engine
+ * Content Formatter Utility
  *
  * Improvements:
- * 1. Uses a "Masking" strategy to protect Math/Color tags before processing whitespace.
+ * 1. Protects Math/Color tags while processing whitespace: passes run on the text between
+ *    constructs the markup parser reads (rewriteAroundMarkup), never on placeholder tokens.
  * 2. Prevents regex collisions (e.g., fixing spacing inside a color tag).
  * 3. Handles "Smart Line Breaks" (keeping paragraphs, merging wrap-lines).
  */
@@ -26,18 +27,87 @@ export type FormattedMathString = string & { __brand: "FormattedMathString" };
 // ============================================================================
 
 import type { ContentKind } from "../types/homework";
+import {
+  parseMarkup,
+  serializeMarkup,
+  markupToPlainText,
+  rewriteAroundMarkup,
+  type MarkupNode,
+} from "./mathMarkup";
+
+/** "|---|:---:|" - the line under a markdown table's header row */
+const MARKDOWN_TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/;
+
+/** Whether a line starts a markdown table: a row with pipes followed by a separator line */
+function isMarkdownTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes("|") && index + 1 < lines.length && MARKDOWN_TABLE_SEPARATOR.test(lines[index + 1]);
+}
+
+/** "| **Year** | Event |" → ["Year", "Event"] */
+function splitMarkdownTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    // Semicolons separate rows in [TABLE: ...] markup
+    .map((cell) => cell.replace(/\*\*/g, "").replace(/;/g, ",").trim());
+}
+
+/**
+ * Turn markdown tables into [TABLE: ...] markup, each in its own paragraph.
+ * Everything outside the tables is left as it is.
+ *
+ * Example:
+ *   "| Year | Event |\n|---|---|\n| 1776 | Declaration |"
+ *     → "[TABLE: Year | Event; 1776 | Declaration]"
+ */
+export function markdownTablesToMarkup(text: string): string {
+  const lines = normalizeLineBreaks(text ?? "").split("\n");
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isMarkdownTableStart(lines, i)) {
+      output.push(lines[i]);
+      continue;
+    }
+
+    const rows = [splitMarkdownTableRow(lines[i])];
+    let next = i + 2; // Skip the separator line
+    while (next < lines.length && lines[next].includes("|")) {
+      rows.push(splitMarkdownTableRow(lines[next]));
+      next++;
+    }
+    output.push("", `[TABLE: ${rows.map((row) => row.join(" | ")).join("; ")}]`, "");
+    i = next - 1;
+  }
+
+  return output.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
 
 /**
  * Detect the content kind of a string to route it to the appropriate formatter.
  * This prevents math-specific transforms from mangling non-math content.
  *
  * @param text - The text to classify
- * @returns ContentKind - "math", "prose", "list", or "code"
+ * @returns ContentKind - "math", "prose", "list", "code", or "table"
  */
 export function detectContentKind(text?: string): ContentKind {
   const t = (text ?? "").trim();
   if (!t) return "prose";
 
+  // Markdown tables (statistics data, timelines, comparisons) - checked before
+  // math and lists because their cells often hold "=" or start with "-"
+  const lines = t.split("\n");
+  if (lines.some((_, index) => isMarkdownTableStart(lines, index))) {
+    return "table";
+  }
+
+  // Table and Punnett square markup render as grids - never flatten them as prose or list items
+  if (/\[(?:TABLE|PUNNETT):/.test(t)) {
+    return "math";
+  }
+
   // Multiple choice / ordered list patterns (A. or A) or 1) or - bullet)
   if (/^[A-Da-d]\.\s/m.test(t) || /^\d+\)\s/m.test(t) || /^-\s+/m.test(t)) {
     return "list";
@@ -70,6 +140,7 @@ export function detectContentKind(text?: string): ContentKind {
  * - math: Full equation pipeline (fractions, labels, line joining, etc.)
  * - list: Preserve list structure, minimal transforms
  * - code: Preserve whitespace exactly
+ * - table: Markdown tables become [TABLE: ...] markup, the text around them is prose
  * - prose: Clean whitespace, no math transforms
  *
  * @param input - The text to format
@@ -98,6 +169,14 @@ export function formatByKind(input: string, kind: ContentKind): string {
     return (input ?? "").replace(/\r\n/g, "\n");
   }
 
+  if (kind === "table") {
+    // Tables render as grids; the rest gets the same cleanup as prose
+    return markdownTablesToMarkup(text)
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
   // prose: clean whitespace, no math transforms
   return text
     .replace(/[ \t]+\n/g, "\n")    // Remove trailing spaces on lines
@@ -202,63 +281,29 @@ export function normalizeAsterisks(text: string): string {
  * 1. Italics delimiter: *x*, *variable*
  * 2. Multiplication: {3/4}*8, 2*x*, etc.
  *
- * Strategy: Mask italic tokens first, convert remaining multiplication asterisks to ×, then unmask.
+ * Strategy: Split out italic tokens, convert multiplication asterisks in the text between them to ×.
  * This prevents breaking italic markers when fixing multiplication.
  */
 
-type MaskMap = { text: string; map: Record<string, string> };
-
 /**
- * Mask italic tokens (*letter...*) so they aren't confused with multiplication asterisks.
+ * Italic tokens (*letter...*) - not multiplication asterisks.
  * Only treats *...* as italics when content starts with a letter.
- * Examples masked: *x*, *abc*, *x2*, *PE_spring*
- *
- * CRITICAL: Each placeholder MUST be unique to prevent map overwrites and token leakage.
- * The placeholder format (IMASK#IMASK) starts with a letter so the multiplication regex
- * can properly "see" it as a valid left operand context.
+ * Examples: *x*, *abc*, *x2*, *PE_spring*
+ * The capture group keeps the tokens when splitting.
  */
-function maskItalicsTokens(input: string): MaskMap {
-  const map: Record<string, string> = {};
-  let i = 0;
-
-  // Match *content* where content starts with a letter and may contain letters, digits, underscores
-  // This covers variables like *x*, *PE_spring*, *v_0*, etc.
-  const text = input.replace(/\*([a-zA-Z][a-zA-Z0-9_]*)\*/g, (match) => {
-    // MUST be unique per match; MUST start with a letter so the existing
-    // times-regex can properly recognize it as an operand context
-    const key = `IMASK${i++}IMASK`;
-    map[key] = match; // Keep original including asterisks
-    return key;
-  });
-
-  return { text, map };
-}
-
-/**
- * Restore masked tokens back to their original form.
- * Replaces in longest-key-first order to handle any nested scenarios safely.
- */
-function unmaskTokens(input: string, map: Record<string, string>): string {
-  let out = input;
-
-  // Replace in stable order (longest-first is a safe habit if key schemes ever change)
-  const keys = Object.keys(map).sort((a, b) => b.length - a.length);
-  for (const key of keys) {
-    out = out.split(key).join(map[key]);
-  }
-
-  return out;
-}
+const ITALIC_TOKEN_PATTERN = /(\*[a-zA-Z][a-zA-Z0-9_]*\*)/;
 
 // ============================================================================
-// FINALIZATION: Prevent internal formatting artifacts from leaking to output
+// FINALIZATION: Tidy whitespace before output
 // ============================================================================
 
 /**
- * Known internal placeholder/marker patterns that should NEVER appear in final output.
- * These are used during formatting pipeline and must be stripped before rendering.
+ * Placeholder/marker patterns earlier versions of this formatter inserted while masking.
+ * Nothing in the pipeline produces them anymore - the passes work around markup read by
+ * the parser instead - but solution lint and the formatter tests still flag one that
+ * shows up in output (stored history, or a model copying one back).
  */
-const FORMAT_LEAK_REGEXES: RegExp[] = [
+export const FORMAT_LEAK_REGEXES: RegExp[] = [
   /\bIMASK\d+IMASK\b/g,           // Italic masking tokens
   /\bMASK\d+\b/g,                  // Generic mask tokens
   /\b_MASK\d+_?\b/g,               // Underscore-wrapped mask tokens
@@ -271,84 +316,21 @@ const FORMAT_LEAK_REGEXES: RegExp[] = [
   /__FILE_URL_\d+__/g,             // File URL placeholders
 ];
 
-/**
- * Strip all known internal formatting artifacts from text.
- * This is the defensive cleanup that catches any tokens that escaped unmask steps.
- */
-function stripInternalArtifacts(text: string): string {
-  let out = text;
-
-  for (const rx of FORMAT_LEAK_REGEXES) {
-    // Reset lastIndex for global regexes before use
-    rx.lastIndex = 0;
-    out = out.replace(rx, "");
-  }
-
-  // Clean up any whitespace damage caused by stripping tokens
-  out = out
-    .replace(/[ \t]+\n/g, "\n")      // Trailing whitespace before newlines
-    .replace(/\n{3,}/g, "\n\n")      // Excessive newlines
-    .replace(/[ \t]{2,}/g, " ")      // Multiple spaces
-    .trim();
-
-  return out;
-}
-
-/**
- * Development-only assertion to detect formatting leakage.
- * In DEV mode: throws an error to help catch issues early during development.
- * In PROD mode: silently continues (defensive - don't crash the app).
- *
- * CRITICAL: This is part of the "format once, render only" contract enforcement.
- * If this throws, it means internal markers leaked through the formatting pipeline.
- */
-function assertNoInternalArtifacts(text: string, context: string): void {
-  // Only run in development - use typeof check for React Native compatibility
-  const isDev = typeof __DEV__ !== "undefined" ? __DEV__ : false;
-  if (!isDev) return;
-
-  for (const rx of FORMAT_LEAK_REGEXES) {
-    rx.lastIndex = 0;
-    if (rx.test(text)) {
-      rx.lastIndex = 0;
-      // Find the actual leaked token for better error message
-      const match = text.match(rx);
-      const leakedToken = match ? match[0] : rx.source;
-
-      // CRITICAL: Throw in DEV to enforce the formatting contract
-      // This ensures developers catch leakage issues immediately
-      throw new Error(
-        `[contentFormatter] FORMATTING CONTRACT VIOLATION in ${context}: ` +
-        `Internal marker leaked to output: "${leakedToken}". ` +
-        `This indicates the formatting pipeline failed to clean up internal tokens. ` +
-        `Check the formatting functions called before ${context}.`
-      );
-    }
-    rx.lastIndex = 0;
-  }
-}
-
 /**
  * CRITICAL: Final cleanup step for ALL outward-facing formatter functions.
- * This ensures no internal masking tokens ever reach the rendered output.
+ * Removes the whitespace damage the passes leave behind: trailing spaces,
+ * runs of blank lines and doubled spaces.
  *
  * Call this at the end of formatAIContent, formatEquationText, formatTitle, etc.
  */
-function finalizeFormattedText(text: string, context: string): string {
+function finalizeFormattedText(text: string): string {
   if (!text) return "";
 
-  let out = text;
-
-  // First, run the existing cleanupMaskTokens if any tokens slipped through
-  out = cleanupMaskTokens(out);
-
-  // Then strip any remaining internal artifacts
-  out = stripInternalArtifacts(out);
-
-  // Assert in dev mode to catch issues
-  assertNoInternalArtifacts(out, context);
-
-  return out;
+  return text
+    .replace(/[ \t]+\n/g, "\n")      // Trailing whitespace before newlines
+    .replace(/\n{3,}/g, "\n\n")      // Excessive newlines
+    .replace(/[ \t]{2,}/g, " ")      // Multiple spaces
+    .trim();
 }
 
 /**
@@ -356,23 +338,30 @@ function finalizeFormattedText(text: string, context: string): string {
  * Works for patterns like:
  *   {3/4}*8   → {3/4} × 8
  *   {3/4}*(x) → {3/4} × (x)
- *   2*IMASK0IMASK → 2 × *x* (after unmasking)
+ *   2**x*     → 2 × *x* (the italic token after the text is the right operand)
  *
  * Avoids bullets ("* item") since there's no left operand.
- * NOTE: No lookbehind for Hermes compatibility.
+ * @param input - Text between italic tokens
+ * @param italicBefore - An italic token ends right before the text (a left operand)
+ * @param italicAfter - An italic token starts right after the text (a right operand)
  */
-function convertMultiplicationAsterisksToTimes(input: string): string {
+function convertMultiplicationAsterisksToTimes(input: string, italicBefore: boolean, italicAfter: boolean): string {
   // Match: (digit/letter/}/)/]) followed by optional whitespace, *, optional whitespace,
-  // then lookahead for (digit/letter/{/(/[/-)
+  // then lookahead for (digit/letter/{/(/[/-) - the start or end of the text stands in
+  // for an operand when an italic token is there
   return input.replace(
-    /([0-9a-zA-Z\}\)\]])\s*\*\s*(?=[0-9a-zA-Z\{\(\[\-])/g,
-    '$1 × '
+    /([0-9a-zA-Z\}\)\]]|^)\s*\*\s*(?=[0-9a-zA-Z\{\(\[\-]|$)/g,
+    (match, left: string, offset: number) => {
+      const hasLeft = left !== "" || italicBefore;
+      const hasRight = offset + match.length < input.length || italicAfter;
+      return hasLeft && hasRight ? `${left} × ` : match;
+    }
   );
 }
 
 /**
  * Main function to disambiguate asterisks.
- * Call this EARLY in formatting pipeline before any italic parsing or fraction masking.
+ * Call this EARLY in formatting pipeline before any italic parsing or fraction protection.
  *
  * Results:
  *   {3/4}*8     → {3/4} × 8
@@ -381,9 +370,13 @@ function convertMultiplicationAsterisksToTimes(input: string): string {
  *   *x* + 5     → *x* + 5 (unchanged - no multiplication context)
  */
 export function disambiguateAsterisks(input: string): string {
-  const masked = maskItalicsTokens(input);
-  const fixed = convertMultiplicationAsterisksToTimes(masked.text);
-  return unmaskTokens(fixed, masked.map);
+  // Italic tokens land at the odd indices
+  const parts = input.split(ITALIC_TOKEN_PATTERN);
+  return parts
+    .map((part, index) =>
+      index % 2 === 1 ? part : convertMultiplicationAsterisksToTimes(part, index > 0, index < parts.length - 1)
+    )
+    .join("");
 }
 
 /**
@@ -705,8 +698,8 @@ export function normalizeEquationBlockForExtraction(input: string): string {
   // Join only truly-broken equation wraps, but don't cross labels/new equations
   s = joinBrokenEquationLines(s);
 
-  // Finalize to ensure no internal tokens leak through
-  return finalizeFormattedText(s.trim(), "normalizeEquationBlockForExtraction");
+  // Finalize whitespace
+  return finalizeFormattedText(s.trim());
 }
 
 /**
@@ -721,43 +714,25 @@ export function normalizeEquationBlockForExtraction(input: string): string {
  */
 function normalizeFractionMultiplication(text: string): string {
   let result = text;
-  // Pattern: fraction followed by optional whitespace then digit
+  // Pattern: fraction followed by optional spaces then digit
   // {num/den} followed by digit → {num/den} × digit
-  result = result.replace(/\{(\d+\s*\/\s*\d+)\}\s*(\d)/g, '{$1} × $2');
-  // Pattern: fraction followed by optional whitespace then opening paren
+  // CRITICAL: Spaces only - a fraction ending a line is not multiplied by "2. Next step"
+  result = result.replace(/\{(\d+\s*\/\s*\d+)\}[ \t]*(\d)/g, '{$1} × $2');
+  // Pattern: fraction followed by optional spaces then opening paren
   // {num/den} followed by ( → {num/den} × (
-  result = result.replace(/\{(\d+\s*\/\s*\d+)\}\s*\(/g, '{$1} × (');
+  result = result.replace(/\{(\d+\s*\/\s*\d+)\}[ \t]*\(/g, '{$1} × (');
   // Pattern: fraction followed by asterisk (convert to ×)
   // {num/den}*something → {num/den} × something
   result = result.replace(/\{(\d+\s*\/\s*\d+)\}\s*\*\s*/g, '{$1} × ');
   return result;
 }
 
-/**
- * CRITICAL: Normalize parenthetical fractions to brace syntax
- * AI often emits (x/2) or (3x/2) instead of curly brace fractions.
- *
- * Conservative approach: Only convert patterns that are CLEARLY fractions:
- * - Simple numeric: (3/4) becomes curly brace fraction
- * - Variable terms: (3x/4), (x/2) become curly brace fractions
- *
- * Does NOT convert:
- * - Complex expressions like (a + b/c)
- * - Function notation like (f(x)/g(x))
- * - Array indices or other uses of parentheses with slashes
- */
-export function normalizeFractionForms(text: string): string {
-  let result = text;
+/** file:// URLs - the capture group keeps them when splitting */
+const FILE_URL_PATTERN = /(file:\/\/\/[^\s\)]+)/;
 
-  // CRITICAL: First, protect file:// URLs from any modifications
-  // Image URLs like file:///var/mobile/Containers/Data/... must NOT have slashes converted
-  const fileUrlPlaceholders: Map<string, string> = new Map();
-  let fileUrlCounter = 0;
-  result = result.replace(/file:\/\/\/[^\s\)]+/g, (match) => {
-    const placeholder = `__FILE_URL_${fileUrlCounter++}__`;
-    fileUrlPlaceholders.set(placeholder, match);
-    return placeholder;
-  });
+/** normalizeFractionForms for text without file:// URLs */
+function normalizeParentheticalFractions(text: string): string {
+  let result = text;
 
   // CRITICAL: Protect word/word patterns like "opposite/adjacent" from being treated as fractions
   // These are ratio descriptions, not mathematical fractions to be rendered vertically
@@ -782,14 +757,31 @@ export function normalizeFractionForms(text: string): string {
   // Examples: (-3/4), (-1/2)
   result = result.replace(/\((-\d+)\s*\/\s*(\d+)\)/g, '{$1/$2}');
 
-  // CRITICAL: Restore file:// URLs that were protected earlier
-  fileUrlPlaceholders.forEach((original, placeholder) => {
-    result = result.split(placeholder).join(original);
-  });
-
   return result;
 }
 
+/**
+ * CRITICAL: Normalize parenthetical fractions to brace syntax
+ * AI often emits (x/2) or (3x/2) instead of curly brace fractions.
+ *
+ * Conservative approach: Only convert patterns that are CLEARLY fractions:
+ * - Simple numeric: (3/4) becomes curly brace fraction
+ * - Variable terms: (3x/4), (x/2) become curly brace fractions
+ *
+ * Does NOT convert:
+ * - Complex expressions like (a + b/c)
+ * - Function notation like (f(x)/g(x))
+ * - Array indices or other uses of parentheses with slashes
+ */
+export function normalizeFractionForms(text: string): string {
+  // CRITICAL: Never modify file:// URLs (at the odd indices)
+  // Image URLs like file:///var/mobile/Containers/Data/... must NOT have slashes converted
+  return text
+    .split(FILE_URL_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : normalizeParentheticalFractions(part)))
+    .join("");
+}
+
 /**
  * Normalize fraction tokens so MathText can recognize them
  * Handles various edge cases in fraction syntax from AI output.
@@ -846,9 +838,18 @@ export function formatTitle(title: string): string {
   const result = normalizeLineBreaks(title)
     .replace(/\s+/g, ' ')
     .trim();
-  return finalizeFormattedText(result, "formatTitle");
+  return finalizeFormattedText(result);
 }
 
+/**
+ * A reaction arrow: a formula end (element or ")", optional subscript,
+ * charge and state, or an electron e^-^) before "→", and a coefficient or
+ * element after it.
+ * Math arrows ("x → 0", "= 16 → [red:16]") don't match.
+ */
+const CHEMICAL_ARROW =
+  /((?:[A-Z][a-z]?|\))(?:_\d+_?|\d+)?(?:\^\d*[+\-−]\^)?(?:\((?:aq|s|l|g)\))?|\be\^[-−]\^)\s*→\s*(?=\d*\s?[A-Z])/g;
+
 /**
  * Dedicated equation formatter for FormalStepsBox
  * This is a MINIMAL formatter that only cleans equations without aggressive text processing.
@@ -900,13 +901,23 @@ export function formatEquationText(text: string): string {
   // Step 8: Fix common AI output issues specific to equations
   // NOTE: Color tags [red:...] and italic markers *...* are PRESERVED for MathText rendering
 
-  // Remove arrows that might appear in equation context
+  // Remove arrows that might appear in equation context - except reaction
+  // arrows between chemical species ("2H_2_ + O_2_ → 2H_2_O"), parked as ⟶
+  result = result.replace(CHEMICAL_ARROW, "$1 ⟶ ");
+  // ...and "{804/329} → 271.5": without the arrow the result would read as {804/329} × 271.5
+  result = result.replace(/\}\s*→\s*(?=-?\d)/g, "} ⟶ ");
+  // "y → y" restates the variable - collapse it now, or normalizeAsterisks' "x x" dedupe
+  // would do it on the next pass and formatting wouldn't be idempotent
+  result = result.replace(/\b([A-Za-z])\s*→\s*\1\b/g, "$1");
   result = result.replace(/\s*→\s*/g, " ");
+  result = result.replace(/⟶/g, "→");
 
-  // Fix stray underscores before operators or parentheses
-  result = result.replace(/(\d+)_+\)/g, "$1)");
-  result = result.replace(/(\d+)_+([+\-*/])/g, "$1 $2");
-  result = result.replace(/(\d+)_+\s/g, "$1 ");
+  // Fix stray underscores before operators or parentheses ("5_ + 3")
+  // CRITICAL: Not the closing underscore of a subscript - v_2_, x_12_ and O_3_ keep theirs
+  result = result.replace(/(?<!_\w*)(\d+)_+\)/g, "$1)");
+  result = result.replace(/(?<!_\w*)(\d+)_+([+\-*/])/g, "$1 $2");
+  // Keep the line break when a line ends in a subscript ("2Fe_2_O_3_\nFe: ...")
+  result = result.replace(/(?<!_\w*)(\d+)_+(\s)/g, "$1$2");
 
   // Collapse multiple spaces
   result = result.replace(/\s{2,}/g, " ");
@@ -914,27 +925,60 @@ export function formatEquationText(text: string): string {
   // Trim
   result = result.trim();
 
-  // CRITICAL: Finalize to strip any leaked internal tokens
-  return finalizeFormattedText(result, "formatEquationText");
+  // Finalize whitespace
+  return finalizeFormattedText(result);
+}
+
+/**
+ * List item starts, each preceded by at least 20 characters so we're in the middle of content,
+ * not at the start. Group 1 stays with the text before, group 2 is the item's marker.
+ */
+const LIST_ITEM_PATTERNS: Array<[RegExp, (marker: string) => string]> = [
+  // Parenthesized items "(a)" "(b)" often follow punctuation without a space: "text. (a) Write"
+  [/(.{20,}[\.!\?:;,])\s*\(([a-dA-D])\)\s+/g, (marker) => `(${marker}) `],
+  // ...or whitespace
+  [/(.{20,})\s+\(([a-dA-D])\)\s+/g, (marker) => `(${marker}) `],
+  // " X. " where X is A-D
+  // CRITICAL: Only spaces before the item - one already on its own line keeps its break, otherwise
+  // color tags added by formatSolution push the line past 20 characters and a second pass adds another
+  [/(.{20,})[ \t]+([A-D])\.\s+/g, (marker) => `${marker}. `],
+  // " X) " (without opening paren)
+  [/(.{20,})[ \t]+([A-D])\)\s+/g, (marker) => `${marker}) `],
+  // Numbered lists with period " 2. " etc (not " 1. " at start)
+  [/(.{20,})[ \t]+([2-9]|[1-9][0-9])\.\s+/g, (marker) => `${marker}. `],
+  // Numbered lists with parenthesis " 2) " etc
+  [/(.{20,})[ \t]+([2-9]|[1-9][0-9])\)\s+/g, (marker) => `${marker}) `],
+];
+
+/**
+ * Split text before each list item a pattern finds
+ */
+function splitBeforeListItems(text: string, [pattern, item]: (typeof LIST_ITEM_PATTERNS)[number]): string[] {
+  const pieces = [""];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    pieces[pieces.length - 1] += text.slice(last, match.index) + match[1];
+    pieces.push(item(match[2]));
+    last = match.index + match[0].length;
+  }
+  pieces[pieces.length - 1] += text.slice(last);
+  return pieces;
 }
 
 /**
  * CRITICAL: Force line breaks between list items (A-D, 1-5, etc.)
  * This is the NUCLEAR OPTION for the persistent A-D line break problem.
  *
- * Strategy: Detect list patterns and programmatically insert line breaks.
+ * Strategy: Detect list patterns and split the content before each item.
  * This works regardless of what the AI generates.
  *
- * IMPORTANT: We use a special marker LIST_BREAK that will be protected
- * from aggressive line break removal later in the pipeline.
+ * IMPORTANT: Returns the pieces rather than inserting the breaks, so the
+ * aggressive line break removal later in the pipeline can't join them -
+ * the caller formats each piece and joins them with blank lines.
  */
-function forceListItemLineBreaks(content: string): string {
+function forceListItemLineBreaks(content: string): string[] {
   let result = content;
 
-  // ULTRA AGGRESSIVE APPROACH: Match ANY occurrence of " A. " or " B. " or " C. " or " D. "
-  // that appears AFTER some content and insert line break BEFORE it
-  // This is simpler and more reliable than trying to match complex patterns
-
   // CRITICAL FIX: Remove underscores from list markers FIRST
   // AI sometimes generates "B_." or "D_." which breaks formatting
   // Pattern: A-D followed by underscore and then period
@@ -947,64 +991,10 @@ function forceListItemLineBreaks(content: string): string {
   result = result.replace(/([A-D])\.([A-Z])/g, '$1. $2');
   result = result.replace(/([A-D])\)([A-Z])/g, '$1) $2');
 
-  // CRITICAL FIX: Handle list items with PARENTHESES format like "(a)" "(b)" "(c)"
-  // These often appear in problem statements without preceding spaces: "text. (a) Write"
-  // Pattern 1: Match (a), (b), (c), (d) after punctuation or space
-  result = result.replace(
-    /(.{20,})([\.!\?:;,])\s*\(([a-dA-D])\)\s+/g,
-    '$1$2LIST_BREAK($3) '
-  );
-
-  // Pattern 2: Match (a), (b), (c), (d) after whitespace
-  result = result.replace(
-    /(.{20,})\s+\(([a-dA-D])\)\s+/g,
-    '$1LIST_BREAK($2) '
-  );
-
-  // Step 1: Match pattern " X. " where X is A-D and preceded by at least 20 characters
-  // This ensures we're in the middle of content, not at the start
-  // Pattern: (at least 20 chars) + space + letter + period + space
-  result = result.replace(
-    /(.{20,})\s+([A-D])\.\s+/g,
-    '$1LIST_BREAK$2. '
-  );
-
-  // Step 2: Also handle parenthesis format " X) " (without opening paren)
-  result = result.replace(
-    /(.{20,})\s+([A-D])\)\s+/g,
-    '$1LIST_BREAK$2) '
-  );
-
-  // Step 3: Numbered lists with period " 2. " etc (not " 1. " at start)
-  result = result.replace(
-    /(.{20,})\s+([2-9]|[1-9][0-9])\.\s+/g,
-    '$1LIST_BREAK$2. '
-  );
-
-  // Step 4: Numbered lists with parenthesis " 2) " etc
-  result = result.replace(
-    /(.{20,})\s+([2-9]|[1-9][0-9])\)\s+/g,
-    '$1LIST_BREAK$2) '
+  return LIST_ITEM_PATTERNS.reduce(
+    (pieces, listItem) => pieces.flatMap((piece) => splitBeforeListItems(piece, listItem)),
+    [result]
   );
-
-  return result;
-}
-
-/**
- * CRITICAL: Remove any leaked MASK tokens that made it through formatting
- * This is a safety net for content that was improperly formatted
- */
-function cleanupMaskTokens(content: string): string {
-  // Remove standalone MASK tokens that weren't properly replaced
-  // Pattern: MASK followed by digits, potentially with underscores
-  // IMPORTANT: Preserve surrounding spaces to avoid collapsing words
-  let cleaned = content.replace(/\bMASK\d+\b/g, ' ');
-  cleaned = cleaned.replace(/\b_MASK\d+_?\b/g, ' ');
-  // Also remove PLACEHOLDER tokens
-  cleaned = cleaned.replace(/PLACEHOLDER[_\d]+/g, ' ');
-  // Also remove the unicode-bracket protected tokens
-  cleaned = cleaned.replace(/〔PROTECTED\d+〕/g, ' ');
-  return cleaned;
 }
 
 /**
@@ -1115,6 +1105,11 @@ function fixUnclosedNotation(content: string): string {
   return result;
 }
 
+/** True when `removed` has a number that `kept` doesn't - then it isn't a duplicate of it */
+function dropsNumbers(removed: string, kept: string): boolean {
+  return (removed.match(/\d+(?:\.\d+)?/g) ?? []).some(number => !kept.includes(number));
+}
+
 /**
  * CRITICAL: Fix redundant answer display patterns
  * AI sometimes outputs: "y = -3/8 x + 4: [red:y = -3/8 x + 4]"
@@ -1141,6 +1136,9 @@ function fixRedundantAnswers(content: string): string {
     const redClean = redContent.trim().replace(/[\s*{}]/g, '').toLowerCase();
 
     // Check if the value before the arrow matches what's in the red tag
+    // CRITICAL: An empty side (only spaces/braces) "matches" everything - never a duplicate
+    // Nor is "= m ÷ 694 → [red:m]" - the red tag doesn't carry the 694
+    if (!beforeClean || !redClean || dropsNumbers(beforeClean, redClean)) return match;
     if (beforeClean === redClean ||
         beforeClean.includes(redClean) ||
         redClean.includes(beforeClean) ||
@@ -1161,6 +1159,8 @@ function fixRedundantAnswers(content: string): string {
     const insideClean = inside.trim().replace(/[\s*{}]/g, '');
 
     // If the equation appears both before arrow AND inside red, remove the duplicate before arrow
+    // (not when "before" is only the "}" closing a fraction that has a subscript: "{b/y_i_} → [red:5]")
+    if (!beforeClean || !insideClean || dropsNumbers(beforeClean, insideClean)) return match;
     if (beforeClean === insideClean || insideClean.includes(beforeClean) || beforeClean.includes(insideClean)) {
       return `→ [red:${inside}]`;
     }
@@ -1169,14 +1169,17 @@ function fixRedundantAnswers(content: string): string {
 
   // Pattern 2: "text: [red:text]" where text before colon matches text in red
   // Only apply if content before colon is very similar to content inside [red:]
-  const colonRedPattern = /([^:\n→]{10,}):\s*\[red:([^\]]+)\]/g;
+  // CRITICAL: No brackets before the colon - the colon of "[orange:[red:a]]" is a color tag, not a label
+  const colonRedPattern = /([^:\n→[\]]{10,}):\s*\[red:([^\]]+)\]/g;
   result = result.replace(colonRedPattern, (match, before, inside) => {
     // Remove spaces, asterisks, braces from both to compare core content
     const beforeClean = before.trim().replace(/[\s*{}]/g, '');
     const insideClean = inside.trim().replace(/[\s*{}]/g, '');
 
     // If they're very similar, it's redundant
-    const similarity = beforeClean.includes(insideClean) || insideClean.includes(beforeClean);
+    const similarity =
+      !!beforeClean && !!insideClean && !dropsNumbers(beforeClean, insideClean) &&
+      (beforeClean.includes(insideClean) || insideClean.includes(beforeClean));
 
     if (similarity) {
       return `→ [red:${inside}]`;
@@ -1187,10 +1190,96 @@ function fixRedundantAnswers(content: string): string {
   return result;
 }
 
+/**
+ * Step instruction keywords that mark boundaries in crammed equation steps
+ */
+const STEP_KEYWORDS = [
+  'Start with the equation',
+  'Starting with the equation',
+  'Start with',
+  'Starting with',
+  'Original equation',
+  'Add',
+  'Subtract',
+  'Multiply',
+  'Divide',
+  'Simplify',
+  'Combine',
+  'Factor',
+  'Expand',
+  'Distribute',
+  'Solve',
+  'Rearrange',
+  'Isolate',
+  'Cross-multiply',
+  'Cross multiply',
+  'Graph',
+  'Rewrite',
+  'Convert',
+  'Transform'
+];
+
+/**
+ * The whitespace before a step keyword that follows text on its line.
+ * CRITICAL: Keyword is a lookahead so back-to-back keywords ("Subtract Subtract") each get a break
+ */
+const STEP_BOUNDARY_PATTERN = new RegExp(
+  `(?<=.)\\s+(?=(?:${STEP_KEYWORDS.map((k) => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b)`,
+  'gi'
+);
+
+/** Graphs, tables and Punnett squares - specs read by the engines, never reformatted */
+function isDiagramNode(node: MarkupNode): boolean {
+  return node.type === "graph" || node.type === "table" || node.type === "punnett";
+}
+
 export function formatAIContent(content: string): string {
   if (!content) return "";
 
-  let result = content;
+  // STEP -5: PROTECT GRAPH, PUNNETT AND TABLE MARKERS BEFORE ANYTHING ELSE
+  // A graph spec is plain math read by engine/graph ("y = 5/6 x - 6; x:-2..10") and a
+  // cross is read by engine/genetics ("Tt x Tt") - asterisk, fraction and label passes
+  // would rewrite them.
+  let result = rewriteAroundMarkup(content, isDiagramNode, formatAIText);
+
+  // Clean up any stray underscores that may have appeared before step keywords
+  // This can happen if subscript processing incorrectly treated keywords as variables
+  // CRITICAL: Not the closing underscore of a subscript - "y_f_\n\nSubtract" keeps its step break
+  STEP_KEYWORDS.forEach(keyword => {
+    const pattern = new RegExp(`(?<!_\\w+)_\\s*(${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
+    result = result.replace(pattern, ' $1');
+  });
+
+  // FINAL CLEANUP: Remove stray underscores (leftover from subscript processing or AI output)
+  // Pattern: "47_. " → "47. " or "47_ " → "47 "
+  // CRITICAL: Not the closing underscore of a subscript (m_0_, O_3_), and keep line breaks
+  result = result.replace(/(?<!_\w*)(\d+)_+\./g, '$1.');
+  result = result.replace(/(?<!_\w*)(\d+)_+(\s)/g, '$1$2');
+  result = result.replace(/(?<!_\w*)(\d+)_+,/g, '$1,');
+  // Pattern: "6_)" → "6)" - underscore before closing parenthesis
+  result = result.replace(/(?<!_\w*)(\d+)_+\)/g, '$1)');
+  // Pattern: "6_+" or "6_-" → "6 +" - underscore before operator
+  result = result.replace(/(?<!_\w*)(\d+)_+([+\-*/])/g, '$1 $2');
+  // Pattern: "problem_41" → "problem 41"
+  result = result.replace(/\b(problem|exercise|question)_+(\d+)/gi, '$1 $2');
+
+  // CRITICAL: Remove stray isolated dashes that appear on their own line
+  // These are artifacts from equation addition lines or AI formatting errors
+  // Pattern: A line containing only whitespace and 1-3 dashes (not a proper divider line)
+  // Keep proper divider lines (4+ dashes) but remove orphan dashes
+  result = result.replace(/^\s*-{1,3}\s*$/gm, '');
+  // Also remove lines with just a single dash after a proper divider line
+  result = result.replace(/([-]{4,})\s*\n\s*-\s*\n/g, '$1\n\n');
+
+  // Finalize whitespace
+  return finalizeFormattedText(result);
+}
+
+/**
+ * formatAIContent for the text around graph, table and Punnett markers
+ */
+function formatAIText(text: string): string {
+  let result = text;
 
   // STEP 0: CRITICAL - Normalize asterisks FIRST before any other processing
   // This strips markdown emphasis (*x*, **x**), dangling asterisks (x*), and
@@ -1203,8 +1292,8 @@ export function formatAIContent(content: string): string {
 
   // STEP -3.9: DISAMBIGUATE any remaining ASTERISKS
   // The AI uses * for both multiplication ({3/4}*8) and italics (*x*).
-  // This masks italic tokens, converts multiplication * to ×, then unmasks.
-  // MUST happen before any italic parsing or fraction masking.
+  // This splits out italic tokens and converts multiplication * to ×.
+  // MUST happen before any italic parsing or fraction protection.
   result = disambiguateAsterisks(result);
 
   // STEP -3.8: NORMALIZE PARENTHETICAL FRACTIONS TO BRACE SYNTAX
@@ -1216,99 +1305,41 @@ export function formatAIContent(content: string): string {
   // MUST happen BEFORE joinBrokenEquationLines to prevent joining across labels
   result = isolateLabels(result);
 
-  // STEP -3: MASK IMAGES FIRST - CRITICAL!
-  // Images must be masked BEFORE step boundary detection, because image descriptions
-  // often contain keywords like "graph showing" which would incorrectly trigger step markers
-
-  // Create a local placeholders map for this specific formatting operation
-  const localPlaceholders = new Map<string, string>();
-  let maskCounter = 0;
-
-  // Helper function to mask content with a unique placeholder
-  // Use a format that is GUARANTEED not to be touched by any other regex patterns
-  // Use uppercase letters and numbers only - no symbols that could be matched
-  const maskContent = (text: string, pattern: RegExp): string => {
-    return text.replace(pattern, (match) => {
-      const maskId = `XXIMAGEPROTECTED${maskCounter}XX`;
-      maskCounter++;
-      localPlaceholders.set(maskId, match);
-      return maskId;
-    });
-  };
-
-  // Helper function to unmask content
-  const unmaskContent = (text: string): string => {
-    let unmasked = text;
-    // Sort by key in reverse order to handle nested replacements correctly
-    const sortedEntries = Array.from(localPlaceholders.entries()).reverse();
-    sortedEntries.forEach(([maskId, original]) => {
-      unmasked = unmasked.split(maskId).join(original);
-    });
-    return unmasked;
-  };
-
-  // IMAGES MUST BE MASKED FIRST before step keywords
-  const imagePattern = /\[IMAGE:[\s\S]+?\]\([^)]+\)/gi;
-  const imageMatches = result.match(imagePattern);
-  result = maskContent(result, imagePattern);
+  // STEP -3: PROTECT IMAGES - CRITICAL!
+  // Images must be protected BEFORE step boundary detection, because image descriptions
+  // often contain keywords like "graph showing" which would incorrectly trigger step breaks
+  return rewriteAroundMarkup(result, (node) => node.type === "image", formatAISteps);
+}
 
+/**
+ * formatAIContent for the text around images: break crammed steps and list items apart,
+ * then format each piece on its own
+ */
+function formatAISteps(text: string): string {
   // STEP -2: NUCLEAR FIX FOR CRAMMED EQUATION STEPS
   // AI sometimes completely ignores line break instructions and crams step-by-step algebra into one line
   // Example: "Start with the equation: -4x + 1/2y = -1 Add 4x to both sides: 1/2y = 4x - 1 Multiply..."
   //
   // Strategy: Instead of trying to parse equation content (which fails with fractions, negatives, etc.),
-  // we simply insert line breaks BEFORE each new instruction keyword.
+  // we simply split BEFORE each new instruction keyword.
   // This is keyword-boundary based, not content-based, so it's robust to any equation syntax.
-
-  // Define all step instruction keywords that mark boundaries
-  const STEP_KEYWORDS = [
-    'Start with the equation',
-    'Starting with the equation',
-    'Start with',
-    'Starting with',
-    'Original equation',
-    'Add',
-    'Subtract',
-    'Multiply',
-    'Divide',
-    'Simplify',
-    'Combine',
-    'Factor',
-    'Expand',
-    'Distribute',
-    'Solve',
-    'Rearrange',
-    'Isolate',
-    'Cross-multiply',
-    'Cross multiply',
-    'Graph',
-    'Rewrite',
-    'Convert',
-    'Transform'
-  ];
-
-  // Escape special regex characters and create alternation pattern
-  const escapedKeywords = STEP_KEYWORDS.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
-
-  // Insert a protected marker (⟪STEP⟫) before each keyword
-  // Using unicode brackets ⟪⟫ which won't conflict with subscripts, fractions, or other notation
-  // This marker will survive the aggressive line break removal pipeline
-  // Match: (any char) + whitespace + (keyword at word boundary)
-  // Replace with: $1 + marker + $2 (preserves everything, adds protected marker)
-  const stepBoundaryRegex = new RegExp(
-    `(.)\\s+(${escapedKeywords})\\b`,
-    'gi'
-  );
-
-  result = result.replace(stepBoundaryRegex, '$1⟪STEP⟫$2');
-
+  //
   // STEP -1: FORCE LINE BREAKS BETWEEN LIST ITEMS
   // This is the NUCLEAR OPTION for A-D line break problem
-  // Must happen FIRST, before any other processing
-  result = forceListItemLineBreaks(result);
+  //
+  // CRITICAL: Each piece is formatted separately and the pieces are joined with blank lines
+  // afterwards, so the aggressive line break removal (fixAILineBreaks) can't join them again
+  return text
+    .split(STEP_BOUNDARY_PATTERN)
+    .map((step) => forceListItemLineBreaks(step).map(formatAIPiece).join('\n\n'))
+    .join('\n\n');
+}
 
-  // STEP 0: Clean up any leaked MASK tokens from previous bad formatting
-  result = cleanupMaskTokens(result);
+/**
+ * formatAIContent for one step or list item
+ */
+function formatAIPiece(text: string): string {
+  let result = text;
 
   // STEP 0.25: CRITICAL - Remove ALL LaTeX notation that should never appear
   // Remove display math delimiters: \[ and \]
@@ -1355,20 +1386,22 @@ export function formatAIContent(content: string): string {
 
   // 6. Fix fractions with unclosed braces by finding the pattern and adding missing brace
   // Look for { followed by content with / but no closing } before next whitespace/newline/punctuation
-  result = result.replace(/\{([^}]+\/[^}]+)(\s|$|,|\.|;|\))/g, '{$1}$2');
+  // CRITICAL: Only when no } follows on the line - {3/2.5} and {x/y + 1} are already closed,
+  // and a "." before a digit is a decimal point, not the end of the fraction
+  result = result.replace(/\{([^}]+\/[^}]+)(\s|$|,|\.(?!\d)|;|\))(?![^{}\n]*\})/g, '{$1}$2');
 
   // STEP 0.5: Fix unicode fractions and other raw notation
   result = fixRawNotation(result);
 
-  // STEP 0.75: Fix unclosed subscripts/superscripts BEFORE masking
+  // STEP 0.75: Fix unclosed subscripts/superscripts
   result = fixUnclosedNotation(result);
 
   // STEP 0.8: Fix redundant answer displays (e.g., "answer: [red:answer]" → "→ [red:answer]")
   result = fixRedundantAnswers(result);
 
-  // CRITICAL: Fix line breaks INSIDE color tags before masking
+  // CRITICAL: Fix line breaks INSIDE color tags before the line break passes
   // Pattern: "[red:text\nmore text]" → "[red:text more text]"
-  // This must happen BEFORE masking so the tag remains valid
+  // This must happen first so no tag spans a line
   // Use a loop to handle multiple line breaks inside a single tag
   // IMPORTANT: Match ']' OR end of string to handle incomplete tags
   let prevResult = '';
@@ -1382,7 +1415,7 @@ export function formatAIContent(content: string): string {
     iterations++;
   }
 
-  // CRITICAL: Fix line breaks INSIDE fraction tags before masking
+  // CRITICAL: Fix line breaks INSIDE fraction tags before the line break passes
   // Pattern: "{num/\nden}" → "{num/den}"
   prevResult = '';
   iterations = 0;
@@ -1392,24 +1425,19 @@ export function formatAIContent(content: string): string {
     iterations++;
   }
 
-  // CRITICAL: Normalize fraction-adjacent digits/parens BEFORE masking fractions
-  // This must happen before masking because once {1/2} becomes a mask token,
-  // the pattern }(\d) won't match. Only targets true fractions {digit/digit}.
+  // CRITICAL: Normalize fraction-adjacent digits/parens
+  // Only targets true fractions {digit/digit}.
   // {1/2}6 → {1/2} × 6
   // {1/2}(x+6) → {1/2} × (x+6)
   // {1/2}x → {1/2}x (unchanged - variable coefficient is allowed)
-  result = result.replace(/\{(\d+\s*\/\s*\d+)\}\s*(?=\d)/g, '{$1} × ');
-  result = result.replace(/\{(\d+\s*\/\s*\d+)\}\s*(?=\()/g, '{$1} × ');
-
-  // Now mask other patterns (images already masked at the top)
-  result = maskContent(result, /\[(red|blue|green|orange|purple|yellow):.*?\]/gi);
-  // CRITICAL FIX: Only mask actual fractions {num/den}, not all curly braces
-  // This prevents masking algebraic grouping like {*x* - 2} which needs italic processing
-  result = maskContent(result, /\{[^}]*\/[^}]*\}/g); // Fractions only (must contain /)
-  result = maskContent(result, /_[^_]+_/g); // Subscripts
-  result = maskContent(result, /\^[^^]+\^/g); // Superscripts
-
-  // STEP 0.9: SMART LINE BREAK MANAGEMENT - Do this AFTER masking!
+  // CRITICAL: Spaces only - "{217/118}\n2. Next step" is a line break, not a product
+  result = result.replace(/\{(\d+\s*\/\s*\d+)\}[ \t]*(?=\d)/g, '{$1} × ');
+  result = result.replace(/\{(\d+\s*\/\s*\d+)\}[ \t]*(?=\()/g, '{$1} × ');
+
+  // STEP 0.9: SMART LINE BREAK MANAGEMENT
+  // These passes only rewrite line breaks and the whitespace around them. Markup never
+  // spans a line (the breaks inside color tags and fractions were joined above), so
+  // color tags, fractions, subscripts and superscripts come through intact.
   // Strategy: Only remove line breaks that are CLEARLY errors (breaking numbers, splitting expressions)
   // PRESERVE line breaks that serve formatting purposes (multi-step calculations, separate equations)
 
@@ -1505,46 +1533,7 @@ export function formatAIContent(content: string): string {
   // Clean up excessive spaces
   result = result.replace(/  +/g, ' ');
 
-  // 3. Restore protected tokens
-  result = unmaskContent(result);
-
-  // STEP FINAL: Convert protected markers to actual newlines
-  // Both LIST_BREAK and ⟪STEP⟫ must happen AFTER all aggressive line break removal
-  result = result.replace(/LIST_BREAK/g, '\n\n');
-  result = result.replace(/⟪STEP⟫/g, '\n\n');
-
-  // Clean up any stray underscores that may have appeared before step keywords
-  // This can happen if subscript processing incorrectly treated keywords as variables
-  STEP_KEYWORDS.forEach(keyword => {
-    const pattern = new RegExp(`_\\s*(${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    result = result.replace(pattern, ' $1');
-  });
-
-  // FINAL SAFETY: Remove any remaining MASK tokens that somehow survived
-  result = cleanupMaskTokens(result);
-
-  // FINAL CLEANUP: Remove stray underscores (leftover from subscript processing or AI output)
-  // Pattern: "47_. " → "47. " or "47_ " → "47 "
-  result = result.replace(/(\d+)_+\./g, '$1.');
-  result = result.replace(/(\d+)_+\s/g, '$1 ');
-  result = result.replace(/(\d+)_+,/g, '$1,');
-  // Pattern: "6_)" → "6)" - underscore before closing parenthesis
-  result = result.replace(/(\d+)_+\)/g, '$1)');
-  // Pattern: "6_+" or "6_-" → "6 +" - underscore before operator
-  result = result.replace(/(\d+)_+([+\-*/])/g, '$1 $2');
-  // Pattern: "problem_41" → "problem 41"
-  result = result.replace(/\b(problem|exercise|question)_+(\d+)/gi, '$1 $2');
-
-  // CRITICAL: Remove stray isolated dashes that appear on their own line
-  // These are artifacts from equation addition lines or AI formatting errors
-  // Pattern: A line containing only whitespace and 1-3 dashes (not a proper divider line)
-  // Keep proper divider lines (4+ dashes) but remove orphan dashes
-  result = result.replace(/^\s*-{1,3}\s*$/gm, '');
-  // Also remove lines with just a single dash after a proper divider line
-  result = result.replace(/([-]{4,})\s*\n\s*-\s*\n/g, '$1\n\n');
-
-  // CRITICAL: Finalize to strip any leaked internal tokens
-  return finalizeFormattedText(result, "formatAIContent");
+  return result;
 }
 
 /**
@@ -1562,10 +1551,19 @@ export function formatAIContent(content: string): string {
 export function formatProseContent(content: string): string {
   if (!content) return "";
 
-  let result = content;
+  // Tables and Punnett squares (summaries of kind "table") keep their cells exactly
+  const isGridNode = (node: MarkupNode) => node.type === "table" || node.type === "punnett";
+  const result = rewriteAroundMarkup(normalizeLineBreaks(content), isGridNode, formatProseText);
 
-  // Normalize line breaks
-  result = normalizeLineBreaks(result);
+  // Finalize
+  return finalizeFormattedText(result.trim());
+}
+
+/**
+ * formatProseContent for the text around table and Punnett markers
+ */
+function formatProseText(text: string): string {
+  let result = text;
 
   // Normalize asterisks (strip markdown emphasis)
   result = normalizeAsterisks(result);
@@ -1582,9 +1580,6 @@ export function formatProseContent(content: string): string {
   // Fix unclosed subscripts/superscripts
   result = fixUnclosedNotation(result);
 
-  // Clean up mask tokens
-  result = cleanupMaskTokens(result);
-
   // Remove LaTeX notation
   result = result.replace(/\\\[/g, '');
   result = result.replace(/\\\]/g, '');
@@ -1600,8 +1595,7 @@ export function formatProseContent(content: string): string {
   result = result.replace(/  +/g, ' ');
   result = result.replace(/\n{3,}/g, '\n\n');
 
-  // Finalize
-  return finalizeFormattedText(result.trim(), "formatProseContent");
+  return result;
 }
 
 // ============================================================================
@@ -1879,8 +1873,6 @@ export function formatForMathText(input: string, context = "unknown"): Formatted
   s = formatAIContent(s);
 
   // At this point, s has been through the complete pipeline and finalized.
-  // The finalizeFormattedText call inside formatAIContent ensures no internal
-  // markers leak through.
 
   return s as FormattedMathString;
 }
@@ -1907,7 +1899,7 @@ export function formatProseForMathText(input: string, context = "unknown"): Form
   // For prose, we want newlines collapsed to spaces
   s = normalizeLineBreaks(s);
   s = s.replace(/\s*\n+\s*/g, ' ').replace(/\s{2,}/g, ' ').trim();
-  s = finalizeFormattedText(s, `formatProseForMathText:${context}`);
+  s = finalizeFormattedText(s);
 
   return s as FormattedMathString;
 }
@@ -1941,7 +1933,7 @@ export function preprocessMathContent(text: string, mode: MathRenderMode): strin
   if (mode === "title") {
     // Titles should NEVER have line breaks
     result = result.replace(/\s+/g, ' ').trim();
-    return finalizeFormattedText(result, "preprocessMathContent:title");
+    return finalizeFormattedText(result);
   }
 
   if (mode === "prose") {
@@ -1950,7 +1942,7 @@ export function preprocessMathContent(text: string, mode: MathRenderMode): strin
       .replace(/\s*\n+\s*/g, ' ')
       .replace(/\s{2,}/g, ' ')
       .trim();
-    return finalizeFormattedText(result, "preprocessMathContent:prose");
+    return finalizeFormattedText(result);
   }
 
   // For equation mode, apply full equation preprocessing
@@ -1962,7 +1954,7 @@ export function preprocessMathContent(text: string, mode: MathRenderMode): strin
   result = joinBrokenEquationLines(result);
   result = normalizeAdjacentFractions(result);
 
-  return finalizeFormattedText(result.trim(), "preprocessMathContent:equation");
+  return finalizeFormattedText(result.trim());
 }
 
 // ============================================================================
@@ -2039,6 +2031,9 @@ function buildVarColorMap(allText: string): Map<string, VarColor> {
  * Apply consistent color highlighting to variables in text.
  * Wraps each variable occurrence with the appropriate color tag.
  *
+ * Works on the markup tree, so text that is already highlighted, scripts
+ * (v_x_) and image markers are never touched.
+ *
  * @param text - The text to colorize
  * @param colorMap - Map of variable -> color from buildVarColorMap
  * @returns Text with color tags applied to variables
@@ -2046,29 +2041,58 @@ function buildVarColorMap(allText: string): Map<string, VarColor> {
 function applyVarColors(text: string, colorMap: Map<string, VarColor>): string {
   if (colorMap.size === 0) return text;
 
-  let result = text;
+  let changed = false;
+
+  const colorize = (nodes: MarkupNode[]): MarkupNode[] =>
+    nodes.flatMap((node): MarkupNode | MarkupNode[] => {
+      switch (node.type) {
+        case "text":
+          return colorizeText(node.value);
+        case "italic": {
+          // *x* → [blue:*x*]
+          const color = colorMap.get(markupToPlainText(node.children).toLowerCase());
+          if (!color) return node;
+          changed = true;
+          return { type: "highlight", color, children: [node] };
+        }
+        case "fraction":
+          return { ...node, numerator: colorize(node.numerator), denominator: colorize(node.denominator) };
+        case "underline":
+        case "abs":
+          return { ...node, children: colorize(node.children) };
+        case "root":
+          return { ...node, radicand: colorize(node.radicand) };
+        case "matrix":
+          return { ...node, rows: node.rows.map((row) => row.map(colorize)) };
+        default:
+          // Highlights keep their own color; scripts, limits, images, graphs and tables are left alone
+          return node;
+      }
+    });
 
-  // Process each variable in the color map
-  colorMap.forEach((color, varLetter) => {
-    // Pattern 1: Replace italic variables *x* → [blue:*x*]
-    // But skip if already inside a color tag
-    const italicPattern = new RegExp(
-      `(?<!\\[[a-z]+:)\\*${varLetter}\\*(?![^\\[]*\\])`,
-      "gi"
-    );
-    result = result.replace(italicPattern, `[${color}:*${varLetter}*]`);
-
-    // Pattern 2: Replace standalone variables in equation contexts
-    // Match: (start/operator/space) + letter + (operator/space/end)
-    // But only if not already in a color tag or italic
-    const standalonePattern = new RegExp(
-      `(?<!\\[[a-z]+:[^\\]]*)(?<!\\*)\\b${varLetter}\\b(?!\\*)(?![^\\[]*\\])`,
-      "gi"
-    );
-    result = result.replace(standalonePattern, `[${color}:${varLetter}]`);
-  });
+  // Standalone variables: "x = 5" → "[blue:x] = 5"
+  const colorizeText = (value: string): MarkupNode[] => {
+    const result: MarkupNode[] = [];
+    let lastEnd = 0;
+    for (const match of value.matchAll(/\b[a-zA-Z]\b/g)) {
+      const color = colorMap.get(match[0].toLowerCase());
+      if (!color || match.index === undefined) continue;
+      // CRITICAL: Option letters starting a line ("B. Thirteenth Amendment", "C) 12") are list markers
+      const lineStart = match.index === 0 || value[match.index - 1] === "\n";
+      if (lineStart && /[A-Z]/.test(match[0]) && /[.)]/.test(value[match.index + 1] ?? "")) continue;
+      if (match.index > lastEnd) result.push({ type: "text", value: value.slice(lastEnd, match.index) });
+      result.push({ type: "highlight", color, children: [{ type: "text", value: match[0] }] });
+      lastEnd = match.index + 1;
+      changed = true;
+    }
+    if (lastEnd < value.length) result.push({ type: "text", value: value.slice(lastEnd) });
+    return result;
+  };
 
-  return result;
+  const colorized = colorize(parseMarkup(text));
+
+  // CRITICAL: Return the input untouched when nothing was colored
+  return changed ? serializeMarkup(colorized) : text;
 }
 
 // ============================================================================
@@ -2084,16 +2108,9 @@ function applyVarColors(text: string, colorMap: Map<string, VarColor>): string {
  * import { __formattingTestHooks__ } from '../contentFormatter';
  */
 export const __formattingTestHooks__ = {
-  // Internal artifact detection
+  // Finalization
   FORMAT_LEAK_REGEXES,
-  stripInternalArtifacts,
-  assertNoInternalArtifacts,
   finalizeFormattedText,
-  cleanupMaskTokens,
-
-  // Masking operations
-  maskItalicsTokens,
-  unmaskTokens,
 
   // Equation processing
   normalizeFractions,
@@ -0,0 +1,71 @@
+/**
+ * History Search
+ *
+ * Full-text search and subject filtering of saved solutions for the History
+ * screen. An entry matches when every word of the query appears in its
+ * question, problem, steps or answer, with the formatter's markup stripped.
+ *
+ * Pure TypeScript with NO React Native imports.
+ */
+
+import type { HistoryEntry } from "../types/homework";
+import type { SubjectType } from "./subjectDetection";
+
+/**
+ * Strip the formatter's markup ([blue:x], {1/2}, *italic*, ^2^, _sub_) for
+ * plain-text display and matching
+ */
+export function toPlainText(text: string): string {
+  return text
+    .replace(/\[(?:red|blue|green|orange|purple|yellow):([^\]]*)\]/gi, "$1")
+    .replace(/[{}*^_]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Searchable text for an entry: question, problem, steps and answer
+ */
+function getSearchText(entry: HistoryEntry): string {
+  const { solution, source } = entry;
+  const finalAnswer =
+    typeof solution.finalAnswer === "string" ? solution.finalAnswer : solution.finalAnswer.parts.join(" ");
+
+  return [
+    source.kind === "text" ? source.text : "",
+    solution.problem,
+    ...solution.steps.flatMap((step) => [
+      step.title,
+      step.rawEquation ?? step.equation,
+      step.summary,
+      step.explanation,
+    ]),
+    finalAnswer,
+  ]
+    .filter((text): text is string => Boolean(text))
+    .map(toPlainText)
+    .join(" ")
+    .toLowerCase();
+}
+
+/**
+ * Filter history by subject and a full-text query
+ * Every word of the query must appear somewhere in the entry
+ * @param entries - History entries (order is preserved)
+ * @param query - Free-text search, ignored when blank
+ * @param subject - Only keep this subject, or "all"
+ */
+export function searchHistory(
+  entries: HistoryEntry[],
+  query: string,
+  subject: SubjectType | "all" = "all",
+): HistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter((entry) => {
+    if (subject !== "all" && entry.subject !== subject) return false;
+    if (terms.length === 0) return true;
+    const text = getSearchText(entry);
+    return terms.every((term) => text.includes(term));
+  });
+}
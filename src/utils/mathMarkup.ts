@@ -0,0 +1,627 @@
+/**
+ * Math Markup AST
+ *
+ * One tokenizer/parser for the app's math markup, producing a typed tree that
+ * the formatter transforms and MathText renders directly:
+ *
+ *   {a/b}            fraction (nested fractions allowed)
+ *   x_sub_           subscript (attached to the character before it)
+ *   x^sup^           superscript
+ *   [color:text]     highlight
+ *   *x*              italic variable
+ *   _text_           underline (emphasis, preceded by a space)
+ *   → or ->          arrow
+ *   √(x), ∛(x), ^n^√(x)   square, cube and nth roots
+ *   |x|              absolute value
+ *   Σ_i=1_^n^        sums, products and integrals with limits
+ *   [matrix: a, b; c, d]  matrix (det[matrix: ...] for a determinant)
+ *   [IMAGE: description](url)
+ *   [GRAPH: y = 2x + 1; x:-5..5]   function graph (spec read by engine/graph)
+ *   [TABLE: Genotype | Count; TT | 1; Tt | 2]   table, first row is the header
+ *   [PUNNETT: Tt x Tt]   Punnett square (cross read by engine/genetics)
+ *
+ * Scope: MathText renders the tree and the formatter's variable coloring
+ * transforms it. The formatter's text passes (contentFormatter) go through
+ * rewriteAroundMarkup, which reads constructs with the same parser and hands
+ * the passes only the text between them - no placeholder tokens are inserted.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarkupNode =
+  | { type: "text"; value: string }
+  | { type: "fraction"; numerator: MarkupNode[]; denominator: MarkupNode[] }
+  | { type: "subscript"; children: MarkupNode[] }
+  | { type: "superscript"; children: MarkupNode[] }
+  | { type: "highlight"; color: string; children: MarkupNode[] }
+  | { type: "italic"; children: MarkupNode[] }
+  | { type: "underline"; children: MarkupNode[] }
+  | { type: "arrow"; symbol: "→" | "->" }
+  | { type: "root"; index: MarkupNode[] | null; radicand: MarkupNode[] }
+  | { type: "abs"; children: MarkupNode[] }
+  | { type: "bigOperator"; symbol: string; lower: MarkupNode[] | null; upper: MarkupNode[] | null }
+  | { type: "matrix"; rows: MarkupNode[][][]; determinant: boolean }
+  | { type: "image"; description: string; url: string }
+  | { type: "graph"; spec: string }
+  | { type: "table"; rows: MarkupNode[][][] }
+  | { type: "punnett"; spec: string }
+  | { type: "newline" };
+
+export type MarkupNodeType = MarkupNode["type"];
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/** Longest italic span, matching what the renderer has always accepted: *v_initial* */
+const MAX_ITALIC_SPAN = 10;
+
+/** Root symbols and the index they imply */
+const ROOT_SYMBOLS: Record<string, string | null> = { "√": null, "∛": "3", "∜": "4" };
+
+/** Operators whose limits are stacked above and below (or beside, for integrals) */
+const BIG_OPERATORS = ["Σ", "∑", "∏", "∫", "∬", "∭", "∮"];
+
+/** Index of the closer that balances the opener at start, on the same line */
+function findBalanced(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") return -1;
+    if (char === open) depth++;
+    if (char === close && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Index of a "/" that is not inside a nested {...} */
+function findTopLevelSlash(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    if (text[i] === "}") depth--;
+    if (text[i] === "/" && depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Closing marker of a script/italic/underline span on the same line */
+function findCloser(text: string, start: number, marker: string): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\n") return -1;
+    if (text[i] === marker) return i;
+  }
+  return -1;
+}
+
+/** Split on a separator that is not inside (), {} or [] */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ("({[".includes(char)) depth++;
+    if (")}]".includes(char)) depth--;
+    if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/** Whether every ( in text has its ) */
+function hasBalancedParens(text: string): boolean {
+  let depth = 0;
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")" && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/**
+ * The radicand after a root symbol: a parenthesized group, or a bare run of
+ * letters/digits (√2, √x). Returns the end index (exclusive).
+ */
+function readRadicand(text: string, start: number): { inner: string; end: number } | null {
+  if (text[start] === "(") {
+    const close = findBalanced(text, start, "(", ")");
+    return close > start + 1 ? { inner: text.slice(start + 1, close), end: close + 1 } : null;
+  }
+  const operand = /^[A-Za-z0-9.]+/.exec(text.slice(start))?.[0];
+  return operand ? { inner: operand, end: start + operand.length } : null;
+}
+
+function pushText(nodes: MarkupNode[], value: string): void {
+  if (!value) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.value += value;
+  } else {
+    nodes.push({ type: "text", value });
+  }
+}
+
+/** A construct read at one position, and the index just past it */
+type ReadNode = { node: MarkupNode; end: number };
+
+/**
+ * Read the construct starting at index i, or null when the character there
+ * doesn't start a complete one (and is plain text).
+ */
+function readNode(text: string, i: number): ReadNode | null {
+  const char = text[i];
+
+  if (char === "\n") {
+    return { node: { type: "newline" }, end: i + 1 };
+  }
+
+  if (char === "→" || (char === "-" && text[i + 1] === ">")) {
+    return { node: { type: "arrow", symbol: char === "→" ? "→" : "->" }, end: i + (char === "→" ? 1 : 2) };
+  }
+
+  if (char === "{") {
+    const close = findBalanced(text, i, "{", "}");
+    const inner = close === -1 ? "" : text.slice(i + 1, close);
+    const slash = findTopLevelSlash(inner);
+    const numerator = inner.slice(0, slash).trim();
+    const denominator = inner.slice(slash + 1).trim();
+    if (slash !== -1 && numerator && denominator) {
+      return {
+        node: { type: "fraction", numerator: parseMarkup(numerator), denominator: parseMarkup(denominator) },
+        end: close + 1,
+      };
+    }
+  }
+
+  if (char === "[") {
+    const graph = /^\[GRAPH:/.exec(text.slice(i));
+    const graphClose = graph ? findBalanced(text, i, "[", "]") : -1;
+    if (graphClose !== -1) {
+      return {
+        node: { type: "graph", spec: text.slice(i + graph![0].length, graphClose).trim() },
+        end: graphClose + 1,
+      };
+    }
+
+    const punnett = /^\[PUNNETT:/.exec(text.slice(i));
+    const punnettClose = punnett ? findBalanced(text, i, "[", "]") : -1;
+    if (punnettClose !== -1) {
+      return {
+        node: { type: "punnett", spec: text.slice(i + punnett![0].length, punnettClose).trim() },
+        end: punnettClose + 1,
+      };
+    }
+
+    const table = /^\[TABLE:/.exec(text.slice(i));
+    const tableClose = table ? findBalanced(text, i, "[", "]") : -1;
+    if (tableClose !== -1) {
+      const inner = text.slice(i + table![0].length, tableClose).trim();
+      const rows = splitTopLevel(inner, ";").map((row) =>
+        splitTopLevel(row, "|").map((cell) => parseMarkup(cell.trim()))
+      );
+      return { node: { type: "table", rows }, end: tableClose + 1 };
+    }
+
+    const matrix = /^\[matrix:/i.exec(text.slice(i));
+    const matrixClose = matrix ? findBalanced(text, i, "[", "]") : -1;
+    if (matrixClose !== -1) {
+      const inner = text.slice(i + matrix![0].length, matrixClose).trim();
+      const rows = splitTopLevel(inner, ";").map((row) =>
+        splitTopLevel(row, ",").map((cell) => parseMarkup(cell.trim()))
+      );
+      // A "det" prefix is text before the bracket - parseMarkup moves it into the node
+      return { node: { type: "matrix", rows, determinant: false }, end: matrixClose + 1 };
+    }
+
+    const image = /^\[IMAGE:([^\]\n]*)\]\(([^)\n]*)\)/.exec(text.slice(i));
+    if (image) {
+      // File URLs may have had their slashes turned into division slashes by the formatter
+      const url = image[2].trim();
+      return {
+        node: {
+          type: "image",
+          description: image[1].trim(),
+          url: url.includes("file:") ? url.replace(/∕/g, "/") : url,
+        },
+        end: i + image[0].length,
+      };
+    }
+
+    const close = findBalanced(text, i, "[", "]");
+    const inner = close === -1 ? "" : text.slice(i + 1, close);
+    const colon = inner.indexOf(":");
+    if (colon > 0) {
+      return {
+        node: {
+          type: "highlight",
+          color: inner.slice(0, colon).trim(),
+          children: parseMarkup(inner.slice(colon + 1).trim()),
+        },
+        end: close + 1,
+      };
+    }
+  }
+
+  // "**" is leftover markdown bold, not an empty italic - parseMarkup drops it
+  if (char === "*" && text[i + 1] !== "*") {
+    const close = findCloser(text, i + 1, "*");
+    if (close !== -1 && close - i <= MAX_ITALIC_SPAN) {
+      return { node: { type: "italic", children: parseMarkup(text.slice(i + 1, close)) }, end: close + 1 };
+    }
+  }
+
+  if (char in ROOT_SYMBOLS) {
+    const radicand = readRadicand(text, i + 1);
+    if (radicand) {
+      const index = ROOT_SYMBOLS[char];
+      return {
+        node: {
+          type: "root",
+          index: index ? [{ type: "text", value: index }] : null,
+          radicand: parseMarkup(radicand.inner),
+        },
+        end: radicand.end,
+      };
+    }
+  }
+
+  if (BIG_OPERATORS.includes(char)) {
+    // Limits may come in either order: Σ_i=1_^n^ or ∫^b^_a_
+    let lower: MarkupNode[] | null = null;
+    let upper: MarkupNode[] | null = null;
+    let next = i + 1;
+    for (let limit = 0; limit < 2; limit++) {
+      const script = text[next];
+      if (script !== "_" && script !== "^") break;
+      const close = findCloser(text, next + 1, script);
+      if (close <= next + 1) break;
+      const content = parseMarkup(text.slice(next + 1, close));
+      if (script === "_" && !lower) lower = content;
+      else if (script === "^" && !upper) upper = content;
+      else break;
+      next = close + 1;
+    }
+    if (lower || upper) {
+      return { node: { type: "bigOperator", symbol: char, lower, upper }, end: next };
+    }
+  }
+
+  if (char === "|") {
+    // |x - 3| but not "P(A|B) and P(B|A)" or table pipes "| a | b |"
+    const close = findCloser(text, i + 1, "|");
+    const inner = close === -1 ? "" : text.slice(i + 1, close);
+    if (inner && !/^\s|\s$/.test(inner) && hasBalancedParens(inner)) {
+      return { node: { type: "abs", children: parseMarkup(inner) }, end: close + 1 };
+    }
+  }
+
+  if (char === "^") {
+    const close = findCloser(text, i + 1, "^");
+    // ^n^√(x) is an nth root - unless a base comes right before it: x^2^√(3) is x² times √3
+    const startsTerm = i === 0 || /[\s+\-−×÷*/·±=(,:[{]/.test(text[i - 1]);
+    const radicand = startsTerm && close > i + 1 && text[close + 1] === "√" ? readRadicand(text, close + 2) : null;
+    if (radicand) {
+      return {
+        node: { type: "root", index: parseMarkup(text.slice(i + 1, close)), radicand: parseMarkup(radicand.inner) },
+        end: radicand.end,
+      };
+    }
+    if (close > i + 1) {
+      return { node: { type: "superscript", children: parseMarkup(text.slice(i + 1, close)) }, end: close + 1 };
+    }
+  }
+
+  if (char === "_") {
+    const close = findCloser(text, i + 1, "_");
+    if (close > i + 1) {
+      // Attached to the character before it (h_max_, *v*_0_) it's a subscript;
+      // after a space (" _important_ ") it's underlined emphasis
+      const isEmphasis = i === 0 || /\s/.test(text[i - 1]);
+      const children = parseMarkup(text.slice(i + 1, close));
+      return { node: isEmphasis ? { type: "underline", children } : { type: "subscript", children }, end: close + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse markup into a list of nodes.
+ *
+ * Anything that doesn't form a complete construct (an unclosed "{", a lone
+ * "^") stays as literal text, so parsing never fails.
+ */
+export function parseMarkup(text: string): MarkupNode[] {
+  const nodes: MarkupNode[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    // "**" is leftover markdown bold - the markers carry no meaning here
+    if (text.startsWith("**", i)) {
+      i += 2;
+      continue;
+    }
+
+    const read = readNode(text, i);
+    if (!read) {
+      pushText(nodes, text[i]);
+      i++;
+      continue;
+    }
+
+    // "det[matrix: ...]" - the prefix becomes part of the node
+    const last = nodes[nodes.length - 1];
+    if (read.node.type === "matrix" && last?.type === "text" && /det\s*$/.test(last.value)) {
+      read.node.determinant = true;
+      last.value = last.value.replace(/det\s*$/, "");
+      if (!last.value) nodes.pop();
+    }
+
+    nodes.push(read.node);
+    i = read.end;
+  }
+
+  return nodes;
+}
+
+/**
+ * Rewrite the text around protected constructs, leaving those constructs
+ * exactly as written. Every position is tried, so a construct counts even
+ * when it sits inside one that isn't protected.
+ *
+ * This is how the formatter's string passes skip block markup they would
+ * damage - a graph spec, a table, an image description - without swapping
+ * it for a placeholder and back. `transform` sees each stretch of text
+ * between protected constructs, in order. The whitespace touching a
+ * protected construct is kept as written: these sit on their own lines, and
+ * passes that trim or join lines at the edge of a stretch must not pull
+ * them into the text around them.
+ *
+ * @param text - Markup to rewrite
+ * @param isProtected - Which constructs to keep as written
+ * @param transform - Rewrite for the text between them
+ */
+export function rewriteAroundMarkup(
+  text: string,
+  isProtected: (node: MarkupNode) => boolean,
+  transform: (text: string) => string
+): string {
+  let out = "";
+  let start = 0;
+  let i = 0;
+
+  const rewrite = (stretch: string, afterConstruct: boolean, beforeConstruct: boolean) => {
+    const leading = afterConstruct ? /^\s*/.exec(stretch)![0] : "";
+    const rest = stretch.slice(leading.length);
+    const trailing = beforeConstruct ? /\s*$/.exec(rest)![0] : "";
+    const middle = rest.slice(0, rest.length - trailing.length);
+    return leading + (middle ? transform(middle) : "") + trailing;
+  };
+
+  while (i < text.length) {
+    const read = readNode(text, i);
+    if (read && isProtected(read.node)) {
+      out += rewrite(text.slice(start, i), start > 0, true) + text.slice(i, read.end);
+      i = start = read.end;
+    } else {
+      i++;
+    }
+  }
+
+  return out + rewrite(text.slice(start), start > 0, false);
+}
+
+// ============================================================================
+// SERIALIZER & TRANSFORMS
+// ============================================================================
+
+function serializeRootIndex(index: MarkupNode[] | null): string {
+  const value = index ? serializeMarkup(index) : "";
+  if (!index || value === "2") return "√";
+  if (value === "3") return "∛";
+  if (value === "4") return "∜";
+  return `^${value}^√`;
+}
+
+/** Plain letters and digits don't need parentheses: √2, √x */
+function serializeRadicand(radicand: MarkupNode[]): string {
+  const value = serializeMarkup(radicand);
+  return /^[A-Za-z0-9.]+$/.test(value) ? value : `(${value})`;
+}
+
+/**
+ * Turn nodes back into markup. parseMarkup(serializeMarkup(nodes)) gives the
+ * same tree, and well-formed markup survives a parse/serialize round trip
+ * (up to optional parentheses: √(2) comes back as √2).
+ */
+export function serializeMarkup(nodes: MarkupNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "fraction":
+          return `{${serializeMarkup(node.numerator)}/${serializeMarkup(node.denominator)}}`;
+        case "subscript":
+          return `_${serializeMarkup(node.children)}_`;
+        case "superscript":
+          return `^${serializeMarkup(node.children)}^`;
+        case "highlight":
+          return `[${node.color}:${serializeMarkup(node.children)}]`;
+        case "italic":
+          return `*${serializeMarkup(node.children)}*`;
+        case "underline":
+          return `_${serializeMarkup(node.children)}_`;
+        case "arrow":
+          return node.symbol;
+        case "root":
+          return serializeRootIndex(node.index) + serializeRadicand(node.radicand);
+        case "abs":
+          return `|${serializeMarkup(node.children)}|`;
+        case "bigOperator":
+          return (
+            node.symbol +
+            (node.lower ? `_${serializeMarkup(node.lower)}_` : "") +
+            (node.upper ? `^${serializeMarkup(node.upper)}^` : "")
+          );
+        case "matrix":
+          return `${node.determinant ? "det" : ""}[matrix: ${node.rows
+            .map((row) => row.map(serializeMarkup).join(", "))
+            .join("; ")}]`;
+        case "image":
+          return `[IMAGE: ${node.description}](${node.url})`;
+        case "graph":
+          return `[GRAPH: ${node.spec}]`;
+        case "table":
+          return `[TABLE: ${node.rows.map((row) => row.map(serializeMarkup).join(" | ")).join("; ")}]`;
+        case "punnett":
+          return `[PUNNETT: ${node.spec}]`;
+        case "newline":
+          return "\n";
+      }
+    })
+    .join("");
+}
+
+/**
+ * Plain reading of the nodes: no markers, fractions as "a/b".
+ * Used for measuring and for accessibility labels.
+ */
+export function markupToPlainText(nodes: MarkupNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "fraction":
+          return `${markupToPlainText(node.numerator)}/${markupToPlainText(node.denominator)}`;
+        case "subscript":
+        case "superscript":
+        case "highlight":
+        case "italic":
+        case "underline":
+          return markupToPlainText(node.children);
+        case "arrow":
+          return "→";
+        case "root":
+          return `${serializeRootIndex(node.index)}(${markupToPlainText(node.radicand)})`;
+        case "abs":
+          return `|${markupToPlainText(node.children)}|`;
+        case "bigOperator":
+          return [
+            node.symbol,
+            node.lower ? `from ${markupToPlainText(node.lower)}` : "",
+            node.upper ? `to ${markupToPlainText(node.upper)}` : "",
+          ]
+            .filter(Boolean)
+            .join(" ");
+        case "matrix":
+          return `${node.determinant ? "det" : ""}[${node.rows
+            .map((row) => row.map(markupToPlainText).join(", "))
+            .join("; ")}]`;
+        case "image":
+          return node.description;
+        case "graph":
+          return `Graph: ${node.spec}`;
+        case "table":
+          return node.rows.map((row) => row.map(markupToPlainText).join(" | ")).join("\n");
+        case "punnett":
+          return `Punnett square: ${node.spec}`;
+        case "newline":
+          return "\n";
+      }
+    })
+    .join("");
+}
+
+/**
+ * Split nodes into lines at newline nodes.
+ */
+export function splitMarkupLines(nodes: MarkupNode[]): MarkupNode[][] {
+  const lines: MarkupNode[][] = [[]];
+  for (const node of nodes) {
+    if (node.type === "newline") {
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(node);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Rebuild a tree bottom-up. The callback receives each node after its
+ * children were transformed and returns the node(s) to put in its place.
+ */
+export function transformMarkup(
+  nodes: MarkupNode[],
+  visit: (node: MarkupNode) => MarkupNode | MarkupNode[]
+): MarkupNode[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case "fraction":
+        return visit({
+          ...node,
+          numerator: transformMarkup(node.numerator, visit),
+          denominator: transformMarkup(node.denominator, visit),
+        });
+      case "subscript":
+      case "superscript":
+      case "highlight":
+      case "italic":
+      case "underline":
+      case "abs":
+        return visit({ ...node, children: transformMarkup(node.children, visit) });
+      case "root":
+        return visit({
+          ...node,
+          index: node.index && transformMarkup(node.index, visit),
+          radicand: transformMarkup(node.radicand, visit),
+        });
+      case "bigOperator":
+        return visit({
+          ...node,
+          lower: node.lower && transformMarkup(node.lower, visit),
+          upper: node.upper && transformMarkup(node.upper, visit),
+        });
+      case "matrix":
+      case "table":
+        return visit({ ...node, rows: node.rows.map((row) => row.map((cell) => transformMarkup(cell, visit))) });
+      default:
+        return visit(node);
+    }
+  });
+}
+
+/** Whether any node in the tree matches */
+export function someMarkupNode(nodes: MarkupNode[], predicate: (node: MarkupNode) => boolean): boolean {
+  return nodes.some((node) => {
+    if (predicate(node)) return true;
+    switch (node.type) {
+      case "fraction":
+        return someMarkupNode(node.numerator, predicate) || someMarkupNode(node.denominator, predicate);
+      case "subscript":
+      case "superscript":
+      case "highlight":
+      case "italic":
+      case "underline":
+      case "abs":
+        return someMarkupNode(node.children, predicate);
+      case "root":
+        return someMarkupNode(node.index ?? [], predicate) || someMarkupNode(node.radicand, predicate);
+      case "bigOperator":
+        return someMarkupNode(node.lower ?? [], predicate) || someMarkupNode(node.upper ?? [], predicate);
+      case "matrix":
+      case "table":
+        return node.rows.some((row) => row.some((cell) => someMarkupNode(cell, predicate)));
+      default:
+        return false;
+    }
+  });
+}
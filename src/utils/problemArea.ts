@@ -0,0 +1,54 @@
+/**
+ * Problem Area Geometry
+ *
+ * Turns a selected problem area into the whole-pixel crop rectangle the image
+ * manipulator accepts. The selection comes from scaled touch coordinates, so
+ * it can have fractional edges or reach a pixel past the photo after rounding -
+ * and a crop outside the image fails natively.
+ *
+ * Pure TypeScript with NO React Native imports.
+ */
+
+import type { ProblemArea } from "../types/homework";
+
+/**
+ * Map an area from one size of the photo onto another
+ * The picker can report a different size than the decoded file (a downscaled
+ * preview, say), and the crop has to land on the same part of the page.
+ * @param area - Selected region, in pixels of the first size
+ * @param fromWidth - Width the area was measured against
+ * @param fromHeight - Height the area was measured against
+ * @param toWidth - Width of the photo being cropped
+ * @param toHeight - Height of the photo being cropped
+ */
+export function scaleProblemArea(
+  area: ProblemArea,
+  fromWidth: number,
+  fromHeight: number,
+  toWidth: number,
+  toHeight: number
+): ProblemArea {
+  const scaleX = toWidth / fromWidth;
+  const scaleY = toHeight / fromHeight;
+  return { x: area.x * scaleX, y: area.y * scaleY, width: area.width * scaleX, height: area.height * scaleY };
+}
+
+/**
+ * Round an area to whole pixels and clamp it inside the image
+ * The result is always at least 1×1 pixel, even for an area outside the image
+ * @param area - Selected region, in image pixels
+ * @param imageWidth - Width of the photo in pixels
+ * @param imageHeight - Height of the photo in pixels
+ */
+export function clampProblemArea(area: ProblemArea, imageWidth: number, imageHeight: number): ProblemArea {
+  // Round the edges rather than the size, so rounding never pushes the far edge out
+  const clampEdges = (start: number, size: number, max: number) => {
+    const from = Math.min(Math.max(Math.round(start), 0), max - 1);
+    const to = Math.min(Math.max(Math.round(start + size), from + 1), max);
+    return [from, to - from];
+  };
+
+  const [x, width] = clampEdges(area.x, area.width, imageWidth);
+  const [y, height] = clampEdges(area.y, area.height, imageHeight);
+  return { x, y, width, height };
+}
@@ -0,0 +1,40 @@
+/**
+ * Problem Image Utility
+ * Prepares a photographed problem for the model (cropping to the selected region)
+ */
+
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import { ProblemArea } from "../types/homework";
+import { clampProblemArea, scaleProblemArea } from "./problemArea";
+
+/**
+ * Crop a photo to the selected problem area
+ * @param imageUri - Local URI of the full photo
+ * @param area - Region to keep, in image pixels (clamped to the photo)
+ * @param imageWidth - Photo width the area was measured against (defaults to the decoded width)
+ * @param imageHeight - Photo height the area was measured against (defaults to the decoded height)
+ * @returns Local URI of the cropped JPEG
+ */
+export async function cropToProblemArea(
+  imageUri: string,
+  area: ProblemArea,
+  imageWidth?: number,
+  imageHeight?: number
+): Promise<string> {
+  const original = await ImageManipulator.manipulate(imageUri).renderAsync();
+  const scaled = scaleProblemArea(
+    area,
+    imageWidth ?? original.width,
+    imageHeight ?? original.height,
+    original.width,
+    original.height
+  );
+  const { x, y, width, height } = clampProblemArea(scaled, original.width, original.height);
+
+  const image = await ImageManipulator.manipulate(original)
+    .crop({ originX: x, originY: y, width, height })
+    .renderAsync();
+
+  const result = await image.saveAsync({ format: SaveFormat.JPEG, compress: 0.9 });
+  return result.uri;
+}
@@ -0,0 +1,293 @@
+/**
+ * Solution Lint
+ *
+ * Rule-based checks of a formatted solution for the formatting rules the
+ * prompts ask for (getSubjectFormattingRules) and the formatter's own
+ * contract (FORMAT_LEAK_REGEXES):
+ * - leaked-token: internal formatter markers (MASK0, 〔PROTECTED0〕, ⟪STEP⟫...)
+ * - slash-fraction: "3/4", "x/2" or "½" instead of the vertical {3/4}
+ * - asterisk-multiplication: "2*3" or "x * y" instead of ×
+ * - broken-chemical-equation: a reaction split across lines at its arrow or a "+"
+ * - unbalanced-delimiters: unclosed (), [], {}, ^superscript^ or H_2_ subscripts
+ *
+ * Mechanical checks that TestBot would otherwise pay a grader model to judge;
+ * also shown in development by the SolutionLintPanel overlay.
+ *
+ * CRITICAL: Code (code steps and ``` fences) is never linted except for
+ * leaked markers - "x * y" and "a / b" are correct there. Units ("m/s",
+ * "g/mol") and URLs are not fractions.
+ *
+ * Pure TypeScript with NO React Native imports.
+ */
+
+import type { HomeworkSolution, SolutionStep } from "../types/homework";
+import { FORMAT_LEAK_REGEXES } from "./contentFormatter";
+import { splitCodeBlocks } from "./syntaxHighlight";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LintRule =
+  | "leaked-token"
+  | "slash-fraction"
+  | "asterisk-multiplication"
+  | "broken-chemical-equation"
+  | "unbalanced-delimiters";
+
+/**
+ * How bad a violation is
+ * - error: renders wrong (raw markers, broken markup, a reaction split in two)
+ * - warning: renders, but not in the app's notation
+ */
+export type LintSeverity = "error" | "warning";
+
+export type LintField = "title" | "equation" | "summary" | "explanation" | "finalAnswer";
+
+export interface LintLocation {
+  field: LintField;
+  stepIndex?: number; // 0-based, steps only
+  stepId?: string;
+  partIndex?: number; // 0-based, multi-part final answers only
+}
+
+export interface LintViolation {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  excerpt: string; // The offending text as written
+  location: LintLocation;
+}
+
+export const LINT_SEVERITY: Record<LintRule, LintSeverity> = {
+  "leaked-token": "error",
+  "slash-fraction": "warning",
+  "asterisk-multiplication": "warning",
+  "broken-chemical-equation": "error",
+  "unbalanced-delimiters": "error",
+};
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+const NUMBER = String.raw`\d+(?:\.\d+)?`;
+
+// "3/4", "x/2", "2/x", "(x+1)/2" - but not "m/s" (letters on both sides) or dates "12/25/2024"
+const SLASH_FRACTION_PATTERNS = [
+  String.raw`(?<![\w./])${NUMBER}\s*\/\s*(?:${NUMBER}|[a-zA-Z])`,
+  String.raw`(?<![\w./])[a-zA-Z]\s*\/\s*${NUMBER}`,
+  String.raw`\)\s*\/\s*(?:${NUMBER}|[a-zA-Z])`,
+];
+const SLASH_FRACTION_REGEX = new RegExp(String.raw`(?:${SLASH_FRACTION_PATTERNS.join("|")})(?![\w/])`, "g");
+
+const TYPOGRAPHY_FRACTION_REGEX = /[¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g;
+
+// "2*3", "(a)*b", "x * y" - unspaced letters ("x*y") are too easily an italic span's edge
+const ASTERISK_REGEX = /(?:[\d)](?:\*| \* )[\w(]|[a-zA-Z](?: \* )[\w(])/g;
+
+// Well-formed markup that may contain "/" or "*" legitimately
+const MARKUP_WITH_SLASHES = [
+  /\[(?:IMAGE|GRAPH|TABLE|PUNNETT)(?: NEEDED)?:[^\]]*\](?:\([^)]*\))?/gi, // Rich markers and image URLs
+  /\bhttps?:\/\/\S+/g, // Bare URLs
+];
+const BOLD_REGEX = /\*\*([^*]+)\*\*/g;
+// *v_initial* italics: starts after a space/operator and is at most 10 characters (matching the parser)
+const ITALIC_REGEX = /(^|[\s(=+\-×÷,])\*[^*\s][^*\n]{0,9}\*(?!\w)/g;
+
+// An element with a markup subscript: "H_2_", "O_2_", "Fe_2_"
+const CHEMICAL_FORMULA_REGEX = /[A-Z][a-z]?_\d+_/;
+// "H_2O" - a subscript that was opened after an element and never closed
+const UNCLOSED_SUBSCRIPT_REGEX = /\b[A-Z][a-z]?_\d+(?![\d_])/g;
+const REACTION_JOINER_REGEX = /(?:→|->|⇌|\+)\s*$/;
+const REACTION_CONTINUATION_REGEX = /^\s*(?:→|->|⇌|\+)/;
+
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+type Finding = Omit<LintViolation, "location" | "severity">;
+
+function finding(rule: LintRule, message: string, excerpt: string): Finding {
+  return { rule, message, excerpt: excerpt.trim() };
+}
+
+function findLeakedTokens(text: string): Finding[] {
+  return FORMAT_LEAK_REGEXES.flatMap((regex) =>
+    [...text.matchAll(new RegExp(regex.source, "g"))].map((match) =>
+      finding("leaked-token", `Internal formatter marker "${match[0]}" reached the output`, match[0])
+    )
+  );
+}
+
+/** Remove the well-formed markup the prose rules must not look inside */
+function stripMarkup(text: string): string {
+  let out = MARKUP_WITH_SLASHES.reduce((result, regex) => result.replace(regex, " "), text);
+  out = out.replace(BOLD_REGEX, "$1").replace(ITALIC_REGEX, "$1 ");
+  // Vertical fractions, innermost first: {a/{b/c}} → {a/ } → " "
+  let previous;
+  do {
+    previous = out;
+    out = out.replace(/\{[^{}\n]*\/[^{}\n]*\}/g, " ");
+  } while (out !== previous);
+  return out;
+}
+
+function findSlashFractions(text: string): Finding[] {
+  const stripped = stripMarkup(text);
+  const slashes = [...stripped.matchAll(SLASH_FRACTION_REGEX)].map((match) =>
+    finding("slash-fraction", `Inline fraction "${match[0].trim()}" - write {num/den}`, match[0])
+  );
+  const typography = [...stripped.matchAll(TYPOGRAPHY_FRACTION_REGEX)].map((match) =>
+    finding("slash-fraction", `Typography fraction "${match[0]}" - write {num/den}`, match[0])
+  );
+  return [...slashes, ...typography];
+}
+
+function findAsteriskMultiplication(text: string): Finding[] {
+  return [...stripMarkup(text).matchAll(ASTERISK_REGEX)].map((match) =>
+    finding("asterisk-multiplication", `"*" used for multiplication in "${match[0].trim()}" - use ×`, match[0])
+  );
+}
+
+/**
+ * A reaction broken at a line break: a line ending in "→" or "+" (or the
+ * next one starting with it) where either line has a subscripted formula.
+ */
+function findBrokenChemicalEquations(text: string): Finding[] {
+  const lines = text.split("\n");
+  const findings: Finding[] = [];
+  for (let i = 0; i < lines.length - 1; i++) {
+    const [line, next] = [lines[i], lines[i + 1]];
+    if (!line.trim() || !next.trim()) continue;
+    const broken = REACTION_JOINER_REGEX.test(line) || REACTION_CONTINUATION_REGEX.test(next);
+    if (broken && (CHEMICAL_FORMULA_REGEX.test(line) || CHEMICAL_FORMULA_REGEX.test(next))) {
+      findings.push(
+        finding(
+          "broken-chemical-equation",
+          "Chemical equation split across lines - keep a reaction on one line",
+          `${line.trim()} ⏎ ${next.trim()}`
+        )
+      );
+    }
+  }
+  return findings;
+}
+
+function findUnbalancedDelimiters(text: string): Finding[] {
+  const stripped = stripMarkup(text);
+  const findings: Finding[] = [];
+
+  // "(" and "[" may close each other - half-open intervals like [0, 5) are valid
+  const stack: string[] = [];
+  let unmatched: string | null = null;
+  for (const line of stripped.split("\n")) {
+    // "1)" / "a)" list labels have no opener
+    for (const char of line.replace(/^\s*\w{1,2}\)/, "")) {
+      if (OPENERS[char]) {
+        stack.push(char);
+      } else if (char === ")" || char === "]" || char === "}") {
+        const opener = stack.pop();
+        const matches = opener && (char === "}" ? opener === "{" : opener !== "{");
+        if (!matches && unmatched === null) unmatched = char;
+      }
+    }
+  }
+  if (unmatched !== null) {
+    findings.push(finding("unbalanced-delimiters", `Unmatched "${unmatched}"`, unmatched));
+  } else if (stack.length > 0) {
+    findings.push(finding("unbalanced-delimiters", `Unclosed "${stack[stack.length - 1]}"`, stack.join("")));
+  }
+
+  // Superscripts come in pairs: x^2^
+  for (const line of stripped.split("\n")) {
+    if ((line.match(/\^/g) ?? []).length % 2 === 1) {
+      findings.push(finding("unbalanced-delimiters", "Unclosed superscript - write x^2^", line));
+    }
+  }
+  for (const match of stripped.matchAll(UNCLOSED_SUBSCRIPT_REGEX)) {
+    findings.push(finding("unbalanced-delimiters", `Unclosed subscript "${match[0]}" - write ${match[0]}_`, match[0]));
+  }
+  return findings;
+}
+
+// ============================================================================
+// LINTING
+// ============================================================================
+
+/**
+ * Lint one piece of rendered text. `isCode` text (a code step) is only
+ * checked for leaked markers; ``` fences inside prose are skipped the same way.
+ */
+function lintText(text: string, isCode = false): Finding[] {
+  const leaked = findLeakedTokens(text);
+  if (isCode) return leaked;
+
+  // splitCodeBlocks treats text without fences as all code
+  const prose = text.includes("```")
+    ? splitCodeBlocks(text)
+        .map((segment) => (segment.type === "text" ? segment.text : ""))
+        .join("\n")
+    : text;
+  return [
+    ...leaked,
+    ...findSlashFractions(prose),
+    ...findAsteriskMultiplication(prose),
+    ...findBrokenChemicalEquations(prose),
+    ...findUnbalancedDelimiters(prose),
+  ];
+}
+
+function stepFields(step: SolutionStep): { field: LintField; text?: string; isCode: boolean }[] {
+  return [
+    { field: "title", text: step.title, isCode: false },
+    { field: "equation", text: step.equation, isCode: step.equationKind === "code" || !!step.code },
+    { field: "summary", text: step.summary, isCode: step.summaryKind === "code" },
+    { field: "explanation", text: step.explanation, isCode: step.explanationKind === "code" },
+  ];
+}
+
+/**
+ * Lint every step field and the final answer of a formatted solution.
+ *
+ * Usage:
+ *   lintSolution(solution)
+ *   // → [{ rule: "slash-fraction", severity: "warning", excerpt: "3/4",
+ *   //      location: { field: "equation", stepIndex: 1, stepId: "step-2" }, message: ... }]
+ */
+export function lintSolution(solution: HomeworkSolution): LintViolation[] {
+  const violations: LintViolation[] = [];
+  const add = (findings: Finding[], location: LintLocation) => {
+    for (const item of findings) violations.push({ ...item, severity: LINT_SEVERITY[item.rule], location });
+  };
+
+  solution.steps.forEach((step, stepIndex) => {
+    for (const { field, text, isCode } of stepFields(step)) {
+      if (text) add(lintText(text, isCode), { field, stepIndex, stepId: step.id });
+    }
+  });
+
+  const { finalAnswer } = solution;
+  if (typeof finalAnswer === "string") {
+    add(lintText(finalAnswer), { field: "finalAnswer" });
+  } else {
+    finalAnswer.parts.forEach((part, partIndex) => add(lintText(part), { field: "finalAnswer", partIndex }));
+  }
+
+  return violations;
+}
+
+/** "Step 2 equation", "Final answer (part 1)" */
+export function describeLintLocation(location: LintLocation): string {
+  if (location.field === "finalAnswer") {
+    return location.partIndex === undefined ? "Final answer" : `Final answer (part ${location.partIndex + 1})`;
+  }
+  return `Step ${(location.stepIndex ?? 0) + 1} ${location.field}`;
+}
+
+/** One line per violation: "Step 2 equation: [slash-fraction] Inline fraction "3/4" - write {num/den}" */
+export function formatLintViolation(violation: LintViolation): string {
+  return `${describeLintLocation(violation.location)}: [${violation.rule}] ${violation.message}`;
+}
@@ -16,6 +16,118 @@ import { z } from "zod/v4";
 // SCHEMA DEFINITIONS
 // ============================================================================
 
+/**
+ * Schema for a geometry diagram (see GeometryDiagram in types/homework).
+ */
+export const GeometryDiagramSchema = z.object({
+  points: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        x: z.number(),
+        y: z.number(),
+        label: z.string().optional(),
+      })
+    )
+    .min(1, "A diagram needs at least one point"),
+  segments: z
+    .array(
+      z.object({
+        from: z.string(),
+        to: z.string(),
+        label: z.string().optional(),
+        dashed: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  angles: z
+    .array(
+      z.object({
+        at: z.string(),
+        from: z.string(),
+        to: z.string(),
+        label: z.string().optional(),
+        right: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  circles: z
+    .array(
+      z.object({
+        center: z.string(),
+        radius: z.number().positive().optional(),
+        through: z.string().optional(),
+        label: z.string().optional(),
+      })
+    )
+    .optional(),
+  labels: z.array(z.object({ text: z.string(), x: z.number(), y: z.number() })).optional(),
+});
+
+const PhysicsDirectionSchema = z.enum([
+  "up",
+  "down",
+  "left",
+  "right",
+  "normal",
+  "upSlope",
+  "downSlope",
+  "towardCenter",
+  "awayFromCenter",
+  "tangent",
+  "alongRope",
+]);
+
+/**
+ * Schema for a physics diagram (see PhysicsDiagram in types/homework).
+ */
+export const PhysicsDiagramSchema = z.object({
+  surfaces: z
+    .array(
+      z.object({
+        type: z.enum(["ground", "ceiling", "wall", "incline", "circle"]),
+        x: z.number().optional(),
+        y: z.number().optional(),
+        angle: z.number().optional(),
+        length: z.number().positive().optional(),
+        radius: z.number().positive().optional(),
+        label: z.string().optional(),
+      })
+    )
+    .optional(),
+  objects: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        shape: z.enum(["box", "ball", "point"]).optional(),
+        label: z.string().optional(),
+        x: z.number().optional(),
+        y: z.number().optional(),
+        incline: z.number().min(0).max(1).optional(),
+        circle: z.number().optional(),
+      })
+    )
+    .min(1, "A physics diagram needs at least one object"),
+  pulleys: z
+    .array(z.object({ id: z.string().min(1), x: z.number(), y: z.number(), radius: z.number().positive().optional() }))
+    .optional(),
+  ropes: z.array(z.object({ from: z.string(), to: z.string(), over: z.string().optional() })).optional(),
+  vectors: z
+    .array(
+      z.object({
+        on: z.string(),
+        kind: z.enum(["force", "velocity", "acceleration"]).optional(),
+        label: z.string(),
+        direction: PhysicsDirectionSchema.optional(),
+        angle: z.number().optional(),
+        magnitude: z.number().nonnegative().optional(),
+        angleLabel: z.string().optional(),
+        angleFrom: z.enum(["horizontal", "vertical", "slope"]).optional(),
+      })
+    )
+    .optional(),
+});
+
 /**
  * Schema for a single solution step from AI response.
  * Validates the raw AI output structure before any formatting.
@@ -26,6 +138,9 @@ export const SolutionStepSchema = z.object({
   content: z.string().optional(),
   summary: z.string().optional(),
   explanation: z.string().optional(),
+  // A malformed diagram is dropped - it must never fail the whole solution
+  diagram: GeometryDiagramSchema.optional().catch(undefined),
+  physicsDiagram: PhysicsDiagramSchema.optional().catch(undefined),
 });
 
 /**
@@ -56,6 +171,8 @@ export const ParsedAISolutionSchema = z.object({
 // ============================================================================
 
 export type ValidatedSolutionStep = z.infer<typeof SolutionStepSchema>;
+export type ValidatedGeometryDiagram = z.infer<typeof GeometryDiagramSchema>;
+export type ValidatedPhysicsDiagram = z.infer<typeof PhysicsDiagramSchema>;
 export type ValidatedFinalAnswer = z.infer<typeof FinalAnswerSchema>;
 export type ValidatedParsedSolution = z.infer<typeof ParsedAISolutionSchema>;
 
@@ -342,14 +342,14 @@ export function getSubjectFormattingRules(subject: SubjectType): string {
   const physicsRules = `
 3. **Physics Notation**:
    - Units: Keep units with values, e.g., "15 m/s", "9.8 m/s²", "50 N"
-   - Vectors: Use bold or arrow notation, e.g., [blue:v→] or [blue:F→]
+   - Vectors: Use arrow notation, e.g., v→ or F→
    - Subscripts: Use _subscript_ for variables, e.g., v_i_ (initial velocity), F_net_
    - Equations: Show formula → substitution → result
 
 4. **Color Highlighting for Physics**:
-   - [red:known values]
-   - [blue:unknown values]
-   - [green:final answer with units]`;
+   - [red:result with units] for the value each step calculates
+   - [blue:value with units] where a later step reuses that result
+   - Leave given values and constants plain`;
 
   const biologyRules = `
 3. **Biology Formatting**:
@@ -362,7 +362,8 @@ export function getSubjectFormattingRules(subject: SubjectType): string {
    - Most biology problems do NOT need diagrams
    - EXCEPTION: Include diagrams for acid-base abnormalities, pH balance, homeostatic mechanisms, or buffer systems
    - Example when diagram IS helpful: "[IMAGE NEEDED: diagram showing normal pH range 7.35-7.45, with arrows indicating acidosis (pH < 7.35) and alkalosis (pH > 7.45), showing respiratory vs metabolic causes and compensation mechanisms]"
-   - Also helpful for cell cycles, genetic crosses (Punnett squares), or anatomical relationships
+   - Also helpful for cell cycles or anatomical relationships
+   - Genetic crosses: write "[PUNNETT: Tt x Tt]" (optional trait names: "[PUNNETT: Tt x tt; T: tall; t: short]") instead of an image - the app draws the Punnett square and its ratios
    - Only create diagrams when they genuinely aid conceptual understanding
 
 5. **Color Highlighting for Biology**:
@@ -372,17 +373,15 @@ export function getSubjectFormattingRules(subject: SubjectType): string {
    - Keep most explanatory text plain`;
 
   const mathRules = `
-3. **Strategic Color Highlighting AND Intermediate Step Display**:
-   - For EVERY operation, show equation WITH operation being performed
-   - Highlight ONLY terms being operated on in RED (left side of arrow)
-   - Add arrow → to show result
-   - After arrow, show simplified equation in PLAIN BLACK TEXT
-   - Format: "[equation with [red:terms]] → [plain black result]"
+3. **Intermediate Step Display**:
+   - For EVERY operation, show the equation WITH the operation being performed
+   - Add arrow → to show the result of each operation
+   - Keep each transformation on its own line
 
 4. **Color Usage**:
-   - RED: Terms being eliminated or operated on
-   - Results after → should be plain black
-   - Exception: Final answers can be highlighted`;
+   - RED: The result each step calculates, after the final →
+   - BLUE: A result from an earlier step where it is reused
+   - Everything else stays plain`;
 
   const bibleRules = `
 3. **Biblical Formatting**:
@@ -499,7 +498,7 @@ export function getSubjectFormattingRules(subject: SubjectType): string {
 
   const generalRules = `
 3. **General Formatting**:
-   - Use colors strategically: [red:important], [blue:key terms], [green:answers]
+   - Use colors sparingly: [red:results and answers], [blue:earlier results reused in a step]
    - Show step-by-step work with arrows →
    - Keep formatting clean and consistent`;
 
@@ -0,0 +1,246 @@
+/**
+ * Syntax Highlighting
+ *
+ * Splits code out of step text (``` fences) and tokenizes it for the
+ * CodeBlock component. Covers the languages students meet in class -
+ * Python, Java, JavaScript and C++ - with one small scanner: comments,
+ * strings, numbers, keywords, types and function calls.
+ *
+ * Not a parser: unknown syntax falls through as plain text, so highlighting
+ * can be wrong in color but never loses a character of the code.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CodeLanguage = "python" | "java" | "javascript" | "cpp" | "plain";
+
+export type CodeTokenKind = "keyword" | "type" | "function" | "string" | "number" | "comment" | "operator" | "plain";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+export type CodeSegment = { type: "text"; text: string } | { type: "code"; language: CodeLanguage; code: string };
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+export const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  python: "Python",
+  java: "Java",
+  javascript: "JavaScript",
+  cpp: "C++",
+  plain: "Code",
+};
+
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  py: "python",
+  python: "python",
+  python3: "python",
+  java: "java",
+  js: "javascript",
+  jsx: "javascript",
+  javascript: "javascript",
+  ts: "javascript",
+  typescript: "javascript",
+  c: "cpp",
+  cc: "cpp",
+  cpp: "cpp",
+  "c++": "cpp",
+  h: "cpp",
+  hpp: "cpp",
+};
+
+const words = (list: string) => new Set(list.split(" "));
+
+const KEYWORDS: Record<CodeLanguage, Set<string>> = {
+  python: words(
+    "and as assert async await break class continue def del elif else except False finally for from global if " +
+      "import in is lambda None nonlocal not or pass raise return True try while with yield"
+  ),
+  java: words(
+    "abstract break case catch class const continue default do else enum extends final finally for if " +
+      "implements import instanceof interface new package private protected public return static super switch " +
+      "this throw throws try while true false null var"
+  ),
+  javascript: words(
+    "async await break case catch class const continue default delete do else export extends false finally for " +
+      "function if import in instanceof let new null of return super switch this throw true try typeof undefined " +
+      "var void while yield"
+  ),
+  cpp: words(
+    "break case catch class const continue default delete do else enum false for if namespace new nullptr " +
+      "private protected public return sizeof static struct switch template this throw true try typedef using " +
+      "virtual while"
+  ),
+  plain: new Set(),
+};
+
+const TYPES: Record<CodeLanguage, Set<string>> = {
+  python: words("int float str bool list dict set tuple range len print input"),
+  java: words("int double float long short byte char boolean void String Integer Double System Math"),
+  javascript: words("console Math Array Object String Number JSON Promise"),
+  cpp: words("int double float long short char bool void auto unsigned string vector map std cout cin endl"),
+  plain: new Set(),
+};
+
+/** Language named after a fence ("```py"), or null when it isn't one we highlight */
+export function normalizeLanguage(hint?: string): CodeLanguage | null {
+  return LANGUAGE_ALIASES[(hint ?? "").trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Guess the language of unlabeled code from telltale constructs.
+ * Falls back to "plain" (no keywords, but strings, numbers and comments still color).
+ */
+export function detectCodeLanguage(code: string): CodeLanguage {
+  if (/#include\b|\bstd::|\bcout\s*<</.test(code)) return "cpp";
+  if (/\bpublic\s+(?:static\s+)?(?:class|void)\b|\bSystem\.out\./.test(code)) return "java";
+  if (/\bconsole\.log\b|\bfunction\s+\w+\s*\(|=>|\b(?:const|let)\s+\w+\s*=/.test(code)) return "javascript";
+  if (/^\s*(?:def|class)\s+\w+.*:\s*$|^\s*(?:elif|for .+ in .+:|import \w+$)|\bprint\(/m.test(code)) return "python";
+  return "plain";
+}
+
+// ============================================================================
+// CODE BLOCKS
+// ============================================================================
+
+const FENCE = /```([\w+#-]*)[^\n]*\n?([\s\S]*?)(?:```|$)/g;
+
+/**
+ * Split step text into prose and code. Text without fences is all code
+ * (detectContentKind only calls text "code" when it looks like code).
+ *
+ * Example:
+ *   "Loop over the list:\n```python\nfor x in xs:\n    print(x)\n```"
+ *     → [{ type: "text", text: "Loop over the list:" },
+ *        { type: "code", language: "python", code: "for x in xs:\n    print(x)" }]
+ */
+export function splitCodeBlocks(text: string): CodeSegment[] {
+  const source = (text ?? "").replace(/\r\n/g, "\n");
+  if (!source.includes("```")) {
+    const code = trimBlankLines(source);
+    return code ? [{ type: "code", language: detectCodeLanguage(code), code }] : [];
+  }
+
+  const segments: CodeSegment[] = [];
+  let lastEnd = 0;
+  for (const match of source.matchAll(FENCE)) {
+    const start = match.index ?? 0;
+    const before = source.slice(lastEnd, start).trim();
+    if (before) segments.push({ type: "text", text: before });
+
+    const code = trimBlankLines(match[2]);
+    if (code) {
+      segments.push({ type: "code", language: normalizeLanguage(match[1]) ?? detectCodeLanguage(code), code });
+    }
+    lastEnd = start + match[0].length;
+  }
+  const after = source.slice(lastEnd).trim();
+  if (after) segments.push({ type: "text", text: after });
+  return segments;
+}
+
+/** Drop blank lines around code and trailing spaces, keep indentation */
+function trimBlankLines(code: string): string {
+  return code.replace(/^(?:[ \t]*\n)+/, "").replace(/\s+$/, "");
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+interface TokenRule {
+  kind: CodeTokenKind;
+  pattern: RegExp;
+}
+
+/** Comments and strings first - a "#" or "//" inside a string is part of the string */
+function tokenRules(language: CodeLanguage): TokenRule[] {
+  const comments: TokenRule[] =
+    language === "python"
+      ? [{ kind: "comment", pattern: /#[^\n]*/y }]
+      : [
+          { kind: "comment", pattern: /\/\/[^\n]*/y },
+          { kind: "comment", pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+        ];
+  const strings: TokenRule[] = [
+    ...(language === "python" ? [{ kind: "string" as const, pattern: /("""|''')[\s\S]*?(?:\1|$)/y }] : []),
+    ...(language === "javascript" ? [{ kind: "string" as const, pattern: /`(?:\\[\s\S]|[^`\\])*`?/y }] : []),
+    { kind: "string", pattern: /"(?:\\.|[^"\\\n])*"?/y },
+    { kind: "string", pattern: /'(?:\\.|[^'\\\n])*'?/y },
+  ];
+  const directives: TokenRule[] = language === "cpp" ? [{ kind: "keyword", pattern: /#\s*\w+/y }] : [];
+
+  return [
+    ...comments,
+    ...strings,
+    ...directives,
+    { kind: "number", pattern: /(?:0[xX][\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)[fFlLuUjJ]*/y },
+    { kind: "operator", pattern: /[+\-*/%=<>!&|^~?:]+/y },
+  ];
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+function identifierKind(name: string, language: CodeLanguage, rest: string): CodeTokenKind {
+  if (KEYWORDS[language].has(name)) return "keyword";
+  if (TYPES[language].has(name)) return "type";
+  if (/^\s*\(/.test(rest)) return "function";
+  // Java and C++ class names: Scanner, ArrayList
+  if ((language === "java" || language === "cpp") && /^[A-Z][a-z]\w*$/.test(name)) return "type";
+  return "plain";
+}
+
+/**
+ * Tokenize code into lines of colored tokens. Joining every token's text,
+ * with "\n" between lines, gives back the code exactly.
+ */
+export function highlightCode(code: string, language: CodeLanguage): CodeToken[][] {
+  const rules = tokenRules(language);
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rule = rules.find(({ pattern }) => {
+      pattern.lastIndex = i;
+      return pattern.test(code) && pattern.lastIndex > i;
+    });
+    if (rule) {
+      push(rule.kind, code.slice(i, rule.pattern.lastIndex));
+      i = rule.pattern.lastIndex;
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = i;
+    const identifier = IDENTIFIER.exec(code);
+    if (identifier) {
+      const end = i + identifier[0].length;
+      push(identifierKind(identifier[0], language, code.slice(end)), identifier[0]);
+      i = end;
+      continue;
+    }
+
+    push("plain", code[i]);
+    i++;
+  }
+
+  // Split multi-line tokens (block comments, docstrings) at line breaks
+  const lines: CodeToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}